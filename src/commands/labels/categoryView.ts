@@ -0,0 +1,291 @@
+/**
+ * "Custom Labels" Explorer view: labels grouped by category, with the labels without category and the
+ * labels referenced in the code but not defined in their own groups. Context menu actions copy a reference,
+ * open a definition, rename a category across its labels and move labels between categories.
+ */
+import * as vscode from 'vscode';
+import { getSalesforceLabelsStore } from './load';
+import labels from '../../labels';
+import { getMissingLabelLocations, onDidChangeMissingLabels } from './diagnostics';
+import { applyLabelChanges, LabelChange, toCustomLabel } from './edit';
+import { getDocumentLabelReferenceKind, getLabelDefinitionLocations } from './navigation';
+import { changeCategories, renameCategory } from './parse';
+import { formatLabelReference, planLabelImport } from './referenceSyntax';
+import type { StoredCustomLabel } from './store';
+
+const VIEW_ID = 'sfExtPlusCustomLabels';
+const COPY_REFERENCE_COMMAND_NAME = 'copyLabelReference';
+const OPEN_DEFINITION_COMMAND_NAME = 'openLabelDefinition';
+const RENAME_CATEGORY_COMMAND_NAME = 'renameLabelCategory';
+const MOVE_TO_CATEGORY_COMMAND_NAME = 'moveLabelsToCategory';
+
+type LabelTreeNode =
+    | { type: 'category'; category: string }
+    | { type: 'uncategorized' }
+    | { type: 'unknown' }
+    // `category` is the group the label is listed under, undefined for the uncategorized group
+    | { type: 'label'; fullName: string; category?: string }
+    | { type: 'missingLabel'; name: string };
+
+class LabelCategoryTreeProvider implements vscode.TreeDataProvider<LabelTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    public refresh() {
+        this.changeEmitter.fire();
+    }
+
+    public dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    public getChildren(node?: LabelTreeNode): LabelTreeNode[] {
+        const store = getSalesforceLabelsStore();
+
+        if (!node) {
+            const groups: LabelTreeNode[] = store.getCategories().map(category => ({ type: 'category', category }));
+
+            if (store.getUncategorizedLabels().length > 0) {
+                groups.push({ type: 'uncategorized' });
+            }
+
+            if (getMissingLabelLocations().size > 0) {
+                groups.push({ type: 'unknown' });
+            }
+
+            return groups;
+        }
+
+        switch (node.type) {
+            case 'category':
+                return store.getLabelsInCategory(node.category).map(label => ({ type: 'label', fullName: label.fullName.toString(), category: node.category }));
+            case 'uncategorized':
+                return store.getUncategorizedLabels().map(label => ({ type: 'label', fullName: label.fullName.toString() }));
+            case 'unknown':
+                return [...getMissingLabelLocations().keys()].sort((a, b) => a.localeCompare(b)).map(name => ({ type: 'missingLabel', name }));
+            default:
+                return [];
+        }
+    }
+
+    public getTreeItem(node: LabelTreeNode): vscode.TreeItem {
+        const store = getSalesforceLabelsStore();
+
+        switch (node.type) {
+            case 'category':
+                return createGroupItem(node.category, store.getLabelsInCategory(node.category).length, 'labelCategory', 'tag');
+            case 'uncategorized':
+                return createGroupItem(labels.commands.LABELS_VIEW_UNCATEGORIZED, store.getUncategorizedLabels().length, 'labelUncategorized', 'circle-slash');
+            case 'unknown': {
+                const item = createGroupItem(labels.commands.LABELS_VIEW_UNKNOWN, getMissingLabelLocations().size, 'labelUnknown', 'question');
+
+                item.tooltip = labels.commands.LABELS_VIEW_UNKNOWN_TOOLTIP;
+
+                return item;
+            }
+            case 'label':
+                return createLabelItem(node.fullName, store.salesforceLabels[node.fullName]);
+            case 'missingLabel':
+                return createMissingLabelItem(node.name, getMissingLabelLocations().get(node.name) ?? []);
+        }
+    }
+}
+
+function createGroupItem(name: string, count: number, contextValue: string, icon: string): vscode.TreeItem {
+    const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.Collapsed);
+
+    item.description = String(count);
+    item.contextValue = contextValue;
+    item.iconPath = new vscode.ThemeIcon(icon);
+
+    return item;
+}
+
+function createLabelItem(fullName: string, label?: StoredCustomLabel): vscode.TreeItem {
+    const item = new vscode.TreeItem(fullName, vscode.TreeItemCollapsibleState.None);
+
+    item.description = label?.value.toString();
+    item.contextValue = 'customLabel';
+    item.iconPath = new vscode.ThemeIcon('symbol-string');
+    item.command = { command: `${labels.misc.EXTENSION_NAME}.${OPEN_DEFINITION_COMMAND_NAME}`, title: '', arguments: [{ type: 'label', fullName }] };
+
+    if (label) {
+        const tooltip = new vscode.MarkdownString();
+
+        tooltip.appendText(label.value.toString());
+
+        if (label.shortDescription) {
+            tooltip.appendMarkdown(`\n\n${label.shortDescription}`);
+        }
+
+        tooltip.appendMarkdown(`\n\n_${labels.commands.LABEL_SOURCE_DESCRIPTION(vscode.workspace.asRelativePath(label.source.filePath), label.source.packageDirectory)}_`);
+        item.tooltip = tooltip;
+    }
+
+    return item;
+}
+
+function createMissingLabelItem(name: string, locations: vscode.Location[]): vscode.TreeItem {
+    const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+
+    item.description = labels.commands.LABELS_VIEW_REFERENCE_COUNT(locations.length);
+    item.contextValue = 'missingLabel';
+    item.iconPath = new vscode.ThemeIcon('warning');
+
+    if (locations.length > 0) {
+        item.tooltip = locations.map(location => `${vscode.workspace.asRelativePath(location.uri)}:${location.range.start.line + 1}`).join('\n');
+        item.command = { command: 'vscode.open', title: '', arguments: [locations[0].uri, { selection: locations[0].range }] };
+    }
+
+    return item;
+}
+
+export async function activateLabelCategoryView(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COPY_REFERENCE_COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    const provider = new LabelCategoryTreeProvider();
+    const treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: provider, canSelectMany: true, showCollapseAll: true });
+
+    context.subscriptions.push(
+        provider,
+        treeView,
+        getSalesforceLabelsStore().onDidChange(() => provider.refresh()),
+        onDidChangeMissingLabels(() => provider.refresh()),
+        vscode.commands.registerCommand(commandFullName, copyLabelReference),
+        vscode.commands.registerCommand(`${labels.misc.EXTENSION_NAME}.${OPEN_DEFINITION_COMMAND_NAME}`, openLabelDefinition),
+        vscode.commands.registerCommand(`${labels.misc.EXTENSION_NAME}.${RENAME_CATEGORY_COMMAND_NAME}`, renameLabelCategory),
+        vscode.commands.registerCommand(`${labels.misc.EXTENSION_NAME}.${MOVE_TO_CATEGORY_COMMAND_NAME}`, moveLabelsToCategory)
+    );
+}
+
+/**
+ * Copy the reference to the label in the syntax of the active editor, as an Apex reference otherwise.
+ */
+async function copyLabelReference(node?: LabelTreeNode) {
+    if (node?.type !== 'label') {
+        return;
+    }
+
+    const document = vscode.window.activeTextEditor?.document;
+    const kind = (document && getDocumentLabelReferenceKind(document)) ?? 'apex';
+
+    // LWC references the label through an import, copy the statement
+    const reference = kind === 'lwc'
+        ? planLabelImport('', node.fullName).importStatement?.trim() ?? formatLabelReference(kind, node.fullName)
+        : formatLabelReference(kind, node.fullName);
+
+    await vscode.env.clipboard.writeText(reference);
+    vscode.window.setStatusBarMessage(labels.informationMessages.LABEL_REFERENCE_COPIED(reference), 3000);
+}
+
+async function openLabelDefinition(node?: LabelTreeNode) {
+    if (node?.type !== 'label') {
+        return;
+    }
+
+    const [location] = await getLabelDefinitionLocations(node.fullName);
+
+    if (location) {
+        await vscode.window.showTextDocument(location.uri, { selection: location.range, preview: true });
+    }
+}
+
+function validateCategoryName(value: string): string | undefined {
+    return value.trim().length === 0 || value.includes(',') ? labels.warningMessages.INVALID_CATEGORY_NAME : undefined;
+}
+
+async function renameLabelCategory(node?: LabelTreeNode) {
+    if (node?.type !== 'category') {
+        return;
+    }
+
+    const categoryLabels = getSalesforceLabelsStore().getLabelsInCategory(node.category);
+    const newName = await vscode.window.showInputBox({
+        prompt: labels.commands.RENAME_CATEGORY_PROMPT(node.category, categoryLabels.length),
+        value: node.category,
+        validateInput: validateCategoryName
+    });
+
+    if (!newName || newName.trim() === node.category) {
+        return;
+    }
+
+    await saveCategoryChanges(categoryLabels.map(label => ({
+        fullName: label.fullName.toString(),
+        label: { ...toCustomLabel(label), categories: renameCategory(label.categories, node.category, newName) }
+    })));
+}
+
+/**
+ * Move the selected labels out of the category they are listed under into another one, or out of it
+ * only when "Uncategorized" is picked.
+ */
+async function moveLabelsToCategory(node?: LabelTreeNode, selection?: LabelTreeNode[]) {
+    const store = getSalesforceLabelsStore();
+    const labelNodes = (selection ?? (node ? [node] : []))
+        .filter((selected): selected is Extract<LabelTreeNode, { type: 'label' }> => selected.type === 'label');
+
+    if (labelNodes.length === 0) {
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            ...store.getCategories().map(category => ({ label: category, category })),
+            { label: labels.commands.LABELS_VIEW_UNCATEGORIZED, category: undefined, description: labels.commands.REMOVE_FROM_CATEGORY },
+            { label: labels.commands.NEW_CATEGORY, category: '' }
+        ],
+        { placeHolder: labels.commands.SELECT_TARGET_CATEGORY(labelNodes.length) }
+    );
+
+    if (!picked) {
+        return;
+    }
+
+    let target = picked.category;
+
+    if (target === '') {
+        target = await vscode.window.showInputBox({ prompt: labels.commands.ENTER_NEW_CATEGORY, validateInput: validateCategoryName });
+
+        if (!target) {
+            return;
+        }
+    }
+
+    const changes: LabelChange[] = [];
+
+    for (const labelNode of labelNodes) {
+        const label = store.salesforceLabels[labelNode.fullName];
+
+        if (!label) {
+            continue;
+        }
+
+        const remaining = labelNode.category ? changeCategories(label.categories, [labelNode.category], 'remove') : label.categories;
+        const categories = target ? changeCategories(remaining, [target], 'add') : remaining?.toString();
+
+        if (categories !== (label.categories ?? '').toString()) {
+            changes.push({ fullName: labelNode.fullName, label: { ...toCustomLabel(label), categories } });
+        }
+    }
+
+    await saveCategoryChanges(changes);
+}
+
+async function saveCategoryChanges(changes: LabelChange[]) {
+    if (changes.length === 0) {
+        return;
+    }
+
+    const failed = await applyLabelChanges(changes);
+
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_LABEL_CHANGES(failed.map(failure => `${failure.fullName}: ${failure.error.message}`)));
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Pure helpers to rank custom labels for completion: fuzzy matching of the typed text against the API name
+ * and the value, boosted by recent use and by the categories of the labels already used in the document.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+
+const CONSECUTIVE_MATCH_BONUS = 5;
+const WORD_START_BONUS = 3;
+const PREFIX_BONUS = 10;
+const VALUE_MATCH_WEIGHT = 0.8;
+const RECENT_USE_BONUS = 20;
+const CATEGORY_BONUS = 8;
+const DEFAULT_RECENT_LABELS_SIZE = 50;
+
+/**
+ * What a label is matched and ranked on.
+ */
+export interface LabelCandidate {
+    fullName: string;
+    value: string;
+    categories: string[];
+}
+
+export interface LabelRankingContext {
+    // most recent first
+    recentLabels: string[];
+    // categories of the labels already referenced in the document
+    documentCategories: Set<string>;
+    // namespace prefixes of label names (`acme` for `acme_Welcome`) the query can be restricted to
+    namespaces: string[];
+}
+
+export interface RankedLabel {
+    fullName: string;
+    score: number;
+}
+
+/**
+ * Score of the query as a fuzzy (in order, not necessarily adjacent) match of the target, higher is better,
+ * or undefined when the target doesn't hold every character of the query. Case, spaces and underscores in
+ * the query are ignored, so `welcomeback` and `welcome_back` both match "Welcome back!". Consecutive characters,
+ * characters at the start of a word and a matching prefix score more.
+ */
+export function fuzzyScore(query: string, target: string): number | undefined {
+    const normalizedQuery = query.toLowerCase().replace(/[\s_]+/g, '');
+    const normalizedTarget = target.toLowerCase();
+
+    if (!normalizedQuery) {
+        return 0;
+    }
+
+    let score = 0;
+    let targetIndex = 0;
+    let previousMatch = -2;
+
+    for (const char of normalizedQuery) {
+        const match = normalizedTarget.indexOf(char, targetIndex);
+
+        if (match === -1) {
+            return undefined;
+        }
+
+        score += 1;
+
+        if (match === previousMatch + 1) {
+            score += CONSECUTIVE_MATCH_BONUS;
+        }
+
+        if (isWordStart(target, match)) {
+            score += WORD_START_BONUS;
+        }
+
+        previousMatch = match;
+        targetIndex = match + 1;
+    }
+
+    if (normalizedTarget.replace(/[\s_]+/g, '').startsWith(normalizedQuery)) {
+        score += PREFIX_BONUS;
+    }
+
+    // between equal matches, prefer the shorter target
+    return score - normalizedTarget.length / 1000;
+}
+
+function isWordStart(text: string, index: number): boolean {
+    if (index === 0) {
+        return true;
+    }
+
+    const previous = text[index - 1];
+    const current = text[index];
+
+    return !/[\p{L}\p{N}]/u.test(previous) || (/\p{Ll}/u.test(previous) && /\p{Lu}/u.test(current));
+}
+
+/**
+ * Split a leading namespace prefix (`acme_`) off the query when it names one of the namespaces.
+ */
+export function splitNamespacePrefix(query: string, namespaces: string[]): { namespace?: string; query: string } {
+    const namespace = namespaces.find(candidate => candidate && query.toLowerCase().startsWith(`${candidate.toLowerCase()}_`));
+
+    return namespace ? { namespace, query: query.slice(namespace.length + 1) } : { query };
+}
+
+/**
+ * Labels matching the query, best first. A query starting with a namespace prefix only keeps the labels with
+ * that prefix. Recently used labels and labels sharing a category with the labels of the document rank higher.
+ */
+export function rankLabels(query: string, candidates: LabelCandidate[], context: LabelRankingContext): RankedLabel[] {
+    const { namespace, query: nameQuery } = splitNamespacePrefix(query, context.namespaces);
+    const prefix = namespace ? `${namespace.toLowerCase()}_` : undefined;
+    const recentRanks = new Map(context.recentLabels.map((fullName, index) => [fullName, index]));
+    const ranked: RankedLabel[] = [];
+
+    for (const candidate of candidates) {
+        if (prefix && !candidate.fullName.toLowerCase().startsWith(prefix)) {
+            continue;
+        }
+
+        const name = prefix ? candidate.fullName.slice(prefix.length) : candidate.fullName;
+        const nameScore = fuzzyScore(nameQuery, name);
+        const valueScore = fuzzyScore(nameQuery, candidate.value);
+
+        if (nameScore === undefined && valueScore === undefined) {
+            continue;
+        }
+
+        let score = Math.max(nameScore ?? -Infinity, (valueScore ?? -Infinity) * VALUE_MATCH_WEIGHT);
+        const recentRank = recentRanks.get(candidate.fullName);
+
+        if (recentRank !== undefined) {
+            score += RECENT_USE_BONUS * (1 - recentRank / context.recentLabels.length);
+        }
+
+        if (candidate.categories.some(category => context.documentCategories.has(category))) {
+            score += CATEGORY_BONUS;
+        }
+
+        ranked.push({ fullName: candidate.fullName, score });
+    }
+
+    return ranked.sort((a, b) => b.score - a.score || a.fullName.localeCompare(b.fullName));
+}
+
+/**
+ * Most recently used labels, most recent first, up to a maximum size.
+ */
+export class RecentLabels {
+    private labels: string[];
+
+    constructor(labels: string[] = [], private readonly maxSize: number = DEFAULT_RECENT_LABELS_SIZE) {
+        this.labels = labels.slice(0, maxSize);
+    }
+
+    public touch(fullName: string) {
+        this.labels = [fullName, ...this.labels.filter(label => label !== fullName)].slice(0, this.maxSize);
+    }
+
+    public get entries(): string[] {
+        return [...this.labels];
+    }
+}
@@ -1,50 +1,161 @@
 import * as vscode from 'vscode';
-import { getSalesforceLabelsStore } from './load';
+import { getProjectNamespace, getSalesforceLabelsStore, readPackageJsonSalesforceSettings } from './load';
+import labels from '../../labels';
+import { LabelCandidate, rankLabels, RecentLabels } from './completionRanking';
+import { getDocumentLabelReferenceKind, LABEL_SOURCE_SELECTOR } from './navigation';
+import { splitCategories } from './parse';
+import { findLabelReferences, getLabelCompletionContext } from './referenceSyntax';
+import { isLocalLabelReference } from './usage';
 
-export async function getCompletionProvider() {
-    // Register a completion provider for Apex files (.cls)
+const RECORD_COMPLETION_COMMAND_NAME = 'recordLabelCompletion';
+const RECENT_LABELS_STATE_KEY = `${labels.misc.EXTENSION_NAME}.recentLabels`;
+const MAX_COMPLETION_ITEMS = 200;
+
+/**
+ * Completion items and ranking candidates of every label, built once per store change.
+ */
+interface LabelCompletionIndex {
+    candidates: LabelCandidate[];
+    items: Map<string, vscode.CompletionItem>;
+    categories: Map<string, string[]>;
+}
+
+let completionIndex: LabelCompletionIndex | undefined;
+let packageJsonNamespace: string | undefined;
+const documentCategories = new Map<string, { version: number; categories: Set<string> }>();
+
+function getCompletionIndex(): LabelCompletionIndex {
+    if (completionIndex) {
+        return completionIndex;
+    }
+
+    const labelStore = getSalesforceLabelsStore();
+    const index: LabelCompletionIndex = { candidates: [], items: new Map(), categories: new Map() };
+
+    for (const label of labelStore.getAllLabels()) {
+        const labelName = label.fullName.toString();
+        const item = new vscode.CompletionItem(labelName, vscode.CompletionItemKind.Variable);
+        const categories = splitCategories(label.categories);
+
+        // Show label value in detail
+        item.detail = label.value.toString();
+
+        // Include description, categories and the file the label comes from
+        const documentation = new vscode.MarkdownString();
+
+        if (label.shortDescription) {
+            documentation.appendMarkdown(`${label.shortDescription}\n\n`);
+        }
+
+        if (categories.length > 0) {
+            documentation.appendMarkdown(`${categories.map(category => `\`${category}\``).join(' ')}\n\n`);
+        }
+
+        documentation.appendMarkdown(`_${labels.commands.LABEL_SOURCE_DESCRIPTION(vscode.workspace.asRelativePath(label.source.filePath), label.source.packageDirectory)}_`);
+        item.documentation = documentation;
+        item.command = { command: `${labels.misc.EXTENSION_NAME}.${RECORD_COMPLETION_COMMAND_NAME}`, title: '', arguments: [labelName] };
+
+        index.items.set(labelName, item);
+        index.categories.set(labelName, categories);
+        index.candidates.push({ fullName: labelName, value: label.value.toString(), categories });
+    }
+
+    completionIndex = index;
+
+    return index;
+}
+
+/**
+ * Categories of the labels referenced in the document, cached per document version.
+ */
+function getDocumentCategories(document: vscode.TextDocument, index: LabelCompletionIndex): Set<string> {
+    const cached = documentCategories.get(document.uri.toString());
+
+    if (cached?.version === document.version) {
+        return cached.categories;
+    }
+
+    const kind = getDocumentLabelReferenceKind(document);
+    const labelStore = getSalesforceLabelsStore();
+    const categories = new Set<string>();
+
+    for (const reference of kind ? findLabelReferences(document.getText(), kind) : []) {
+        const fullName = labelStore.resolveFullName(reference.name);
+
+        for (const category of fullName ? index.categories.get(fullName) ?? [] : []) {
+            categories.add(category);
+        }
+    }
+
+    documentCategories.set(document.uri.toString(), { version: document.version, categories });
+
+    return categories;
+}
+
+export async function getCompletionProvider(context: vscode.ExtensionContext) {
+    const recentLabels = new RecentLabels(context.workspaceState.get<string[]>(RECENT_LABELS_STATE_KEY, []));
+
+    packageJsonNamespace = (await readPackageJsonSalesforceSettings()).namespace;
+    completionIndex = undefined;
+
+    // rebuild the items lazily, on the first completion after the labels changed
+    const storeListener = getSalesforceLabelsStore().onDidChange(() => {
+        completionIndex = undefined;
+        documentCategories.clear();
+    });
+    const closeListener = vscode.workspace.onDidCloseTextDocument(document => documentCategories.delete(document.uri.toString()));
+
+    // remember the labels picked from the list to rank them first next time
+    const recordCompletionCommand = vscode.commands.registerCommand(
+        `${labels.misc.EXTENSION_NAME}.${RECORD_COMPLETION_COMMAND_NAME}`,
+        (fullName: string) => {
+            recentLabels.touch(fullName);
+            return context.workspaceState.update(RECENT_LABELS_STATE_KEY, recentLabels.entries);
+        }
+    );
+
+    // Register a completion provider for Apex, LWC, Aura and Visualforce files
     const labelCompletionProvider = vscode.languages.registerCompletionItemProvider(
-        [
-            { scheme: 'file', pattern: '**/*.cls' },
-            { scheme: 'file', language: 'apex' }
-        ],
+        LABEL_SOURCE_SELECTOR,
         {
             provideCompletionItems(document, position) {
+                const kind = getDocumentLabelReferenceKind(document);
                 const linePrefix = document.lineAt(position).text.slice(0, position.character);
 
-                // Trigger completion after 'Label.' prefix
-                if (typeof linePrefix !== 'string' || !linePrefix.toLowerCase().endsWith('label.')) {
+                // Trigger completion after 'Label.', '@salesforce/label/c.', '$Label.c.' or '$Label.' depending on the syntax
+                const completionContext = kind && getLabelCompletionContext(linePrefix, kind);
+
+                if (!completionContext || !isLocalLabelReference(completionContext, getProjectNamespace())) {
                     return undefined;
                 }
 
-                const completionItems: vscode.CompletionItem[] = [];
-                const labelStore = getSalesforceLabelsStore();
-
-                for (const labelName in labelStore.salesforceLabels) {
-                    try {
-                        const label = labelStore.salesforceLabels[labelName];
-                        const item = new vscode.CompletionItem(labelName, vscode.CompletionItemKind.Variable);
+                const index = getCompletionIndex();
+                const query = completionContext.partialName;
+                const range = new vscode.Range(position.translate(0, -query.length), position);
+                const ranked = rankLabels(query, index.candidates, {
+                    recentLabels: recentLabels.entries,
+                    documentCategories: getDocumentCategories(document, index),
+                    namespaces: [getProjectNamespace(), packageJsonNamespace].filter((namespace): namespace is string => !!namespace)
+                }).slice(0, MAX_COMPLETION_ITEMS);
 
-                        // Show label value in detail
-                        item.detail = label.value[0];
+                const completionItems = ranked.map((rankedLabel, rank) => {
+                    const item = index.items.get(rankedLabel.fullName)!;
 
-                        // Include description if available
-                        if (label.shortDescription && label.shortDescription[0]) {
-                            item.documentation = new vscode.MarkdownString(label.shortDescription[0]);
-                        }
+                    // the ranking already filtered the labels, including those matched on their value only,
+                    // so the editor keeps them all in this order
+                    item.filterText = query;
+                    item.sortText = String(rank).padStart(4, '0');
+                    item.range = range;
 
-                        completionItems.push(item);
-                    } catch (error) {
-                        console.error(`Error processing label ${labelName}:`, error);
-                        break;
-                    }
-                }
+                    return item;
+                });
 
-                return completionItems;
+                // ask again on the next keystroke, the ranking depends on the whole typed text
+                return new vscode.CompletionList(completionItems, true);
             }
         },
         '.' // Add the trigger character to automatically show completions after typing '.'
     );
 
-    return labelCompletionProvider;
-}
\ No newline at end of file
+    return vscode.Disposable.from(labelCompletionProvider, recordCompletionCommand, storeListener, closeListener);
+}
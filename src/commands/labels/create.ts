@@ -1,6 +1,26 @@
 import * as vscode from 'vscode';
-import CustomLabel, { activate, labelFiles, getSalesforceLabelsStore } from './load';
+import CustomLabel, { labelFiles, getSalesforceLabelsStore, reloadLabelFile } from './load';
 import labels from '../../labels';
+import { splitCategories } from './parse';
+import { getDocumentLabelReferenceKind, LABEL_SOURCE_SELECTOR } from './navigation';
+import { confirmNewLabelRules } from './validate';
+import {
+    buildDecomposedLabelFile,
+    DECOMPOSED_LABEL_FILE_SUFFIX,
+    getDecomposedLabelFileName,
+    insertLabelIntoLabelsFile,
+    MAX_LABEL_VALUE_LENGTH,
+    validateLabelApiName
+} from './writer';
+import { expandToStringLiteral, formatLabelReference, isScriptFile, planLabelImport, unquote } from './referenceSyntax';
+import { LabelSimilarityIndex } from './similarity';
+
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_SIMILAR_LABEL_SUGGESTIONS = 'labels.similarLabelSuggestions';
+const DEFAULT_SIMILAR_LABEL_SUGGESTIONS = 3;
+const SIMILAR_LABEL_MIN_SCORE = 0.6;
+
+let similarityIndex: LabelSimilarityIndex | undefined;
 
 export async function activateLabelCreateOnPalette(context: vscode.ExtensionContext) {
     // enables the input box to create a new label
@@ -9,7 +29,8 @@ export async function activateLabelCreateOnPalette(context: vscode.ExtensionCont
         let labelValue;
         let labelName = await vscode.window.showInputBox({
             prompt: labels.commands.PROMPT_NAME,
-            placeHolder: labels.commands.PLACEHOLDER
+            placeHolder: labels.commands.PLACEHOLDER,
+            validateInput: value => validateLabelApiName(value)
         });
 
         if (!labelName) {
@@ -42,7 +63,10 @@ export async function activateLabelCreateOnPalette(context: vscode.ExtensionCont
         const inputLabelValue = await vscode.window.showInputBox({
             prompt: labels.commands.ENTER_LABEL_VALUE,
             placeHolder: providedLabelValue || labels.commands.CUSTOM_LABEL_VALUE_PLACEHOLDER,
-            value: providedLabelValue || labels.misc.EMPTY_STRING
+            value: providedLabelValue || labels.misc.EMPTY_STRING,
+            validateInput: value => value.length > MAX_LABEL_VALUE_LENGTH
+                ? labels.warningMessages.LABEL_VALUE_TOO_LONG(labelName!, value.length, MAX_LABEL_VALUE_LENGTH)
+                : undefined
         });
 
         if (!inputLabelValue) {
@@ -51,22 +75,9 @@ export async function activateLabelCreateOnPalette(context: vscode.ExtensionCont
 
         labelValue = inputLabelValue;
 
-        let activeLabelCategories: string[] = getSalesforceLabelsStore().getAllLabels().map(label => {
-            if (label.categories && label.categories.length > 0 && label.categories[0] && label.categories[0].length > 0) {
-                const categories = label.categories[0].split(',');
-
-                return categories.map(category => category.trim());
-            }
-
-            return [];
-        }).flat();
-
-        // remove duplicate labels
-        activeLabelCategories = [...new Set(activeLabelCategories.flat())].sort();
-
-        // for the categories, load from activeLabelCategories
+        // for the categories, offer the ones already used by the labels
         let selectedCategories = await vscode.window.showQuickPick(
-            activeLabelCategories.map(category => ({ label: category.toString() })),
+            getSalesforceLabelsStore().getCategories().map(category => ({ label: category })),
             {
                 placeHolder: labels.commands.SELECT_CATEGORY,
                 canPickMany: true
@@ -87,7 +98,7 @@ export async function activateLabelCreateOnPalette(context: vscode.ExtensionCont
         });
 
         if (categoryInput) {
-            categories = categories + ',' + categoryInput;
+            categories = [...splitCategories(categories), ...splitCategories(categoryInput)].join(',');
         }
 
         // Ask if the label is protected or not
@@ -127,76 +138,162 @@ export async function activateLabelCreateOnPalette(context: vscode.ExtensionCont
             shortDescription: shortDescription || labelName
         };
 
+        // block labels that can't be deployed, and confirm those breaking managed package rules
+        if (!await confirmNewLabelRules(newLabel, vscode.window.activeTextEditor?.document)) {
+            return;
+        }
+
         // Get the existing custom label file
         if (labelFiles.length === 0) {
             vscode.window.showErrorMessage(labels.commands.LABELS_NOT_FOUND_IN_WORKSPACE);
             return;
         }
 
-        let selectedLabelFile;
-        let labelFileUri;
+        const labelFileTargets = getLabelFileTargets(newLabel.fullName.toString());
+        let labelFileTarget: LabelFileTarget | undefined;
 
-        if (labelFiles.length > 1) {
+        if (labelFileTargets.length > 1) {
             // If there are multiple label files, ask the user to select one
-            selectedLabelFile = await vscode.window.showQuickPick(
-                labelFiles.map(labelFile => ({
-                    label: labelFile.fsPath,
-                    description: labels.commands.SELECT_A_CUSTOM_LABEL_FILE,
-                    uri: labelFile
-                })),
-                {
-                    placeHolder: labels.commands.SELECT_A_CUSTOM_LABEL_FILE
-                }
-            );
-
-            if (selectedLabelFile) {
-                labelFileUri = selectedLabelFile.uri;
-            }
+            labelFileTarget = await vscode.window.showQuickPick(labelFileTargets, {
+                placeHolder: labels.commands.SELECT_A_CUSTOM_LABEL_FILE
+            });
         } else {
             // If there is only one label file, use it
-            labelFileUri = labelFiles[0];
+            labelFileTarget = labelFileTargets[0];
         }
 
-        if (!labelFileUri) {
+        if (!labelFileTarget) {
             vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILE_SELECTED);
 
             return;
         }
 
-        // Read the label file content and then append the new label.
-        const labelFileContent = await vscode.workspace.fs.readFile(labelFileUri);
+        const labelFileUri = labelFileTarget.uri;
 
-        const labelFileString = new TextDecoder('utf-8').decode(labelFileContent);
-        const labelFileStringWithNewLabel = labelFileString.replace(
-            /<\/labels>/,
-            `</labels>\n    <labels>\n        <fullName>${newLabel.fullName}</fullName>\n        <categories>${newLabel.categories}</categories>\n        <language>${newLabel.language}</language>\n        <protected>${newLabel.protected}</protected>\n        <shortDescription>${newLabel.shortDescription}</shortDescription>\n        <value>${newLabel.value}</value>\n    </labels>`
-        );
+        try {
+            await writeLabel(labelFileTarget, newLabel);
+        } catch (err) {
+            vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_WRITE_LABEL(labelFileUri.fsPath, err as Error));
+
+            return;
+        }
 
-        // Write the updated content back to the label file
-        await vscode.workspace.fs.writeFile(labelFileUri, Buffer.from(labelFileStringWithNewLabel, 'utf-8'));
         vscode.window.showInformationMessage(labels.commands.LABEL_CREATED_WITH_PATH(newLabel.fullName.toString(), labelFileUri.fsPath));
 
         // Refresh the label files
-        getSalesforceLabelsStore().updateLabel(newLabel.fullName.toString(), newLabel);
+        getSalesforceLabelsStore().updateLabel(newLabel.fullName.toString(), newLabel, { filePath: labelFileUri.fsPath });
 
         // if the context contains selected text, replace it with the new label
         const editor = vscode.window.activeTextEditor;
 
         if (editor) {
-            const range = editor.selection;
-
-            editor.edit(editBuilder => {
-                editBuilder.replace(range, `System.Label.${newLabel.fullName.toString()}`);
-            });
+            await vscode.workspace.applyEdit(buildLabelReferenceEdit(editor.document, editor.selection, newLabel.fullName.toString()));
         }
 
-        // reload the labels for all providers
-        await activate(context, true);
+        // re-parse the file so the store matches what was written
+        await reloadLabelFile(labelFileUri);
     });
 
     context.subscriptions.push(createLabelCommand);
 }
 
+/**
+ * Where a new label can be written: an existing `CustomLabels` file, or a new decomposed
+ * `<fullName>.label-meta.xml` file in a folder that already holds decomposed labels.
+ */
+export interface LabelFileTarget extends vscode.QuickPickItem {
+    uri: vscode.Uri;
+    decomposed: boolean;
+}
+
+export function getLabelFileTargets(fullName: string): LabelFileTarget[] {
+    const targets: LabelFileTarget[] = [];
+    const decomposedFolders = new Set<string>();
+
+    for (const labelFile of labelFiles) {
+        if (!labelFile.fsPath.endsWith(DECOMPOSED_LABEL_FILE_SUFFIX)) {
+            targets.push({
+                label: labelFile.fsPath,
+                description: labels.commands.ADD_TO_LABELS_FILE,
+                uri: labelFile,
+                decomposed: false
+            });
+            continue;
+        }
+
+        const folder = vscode.Uri.joinPath(labelFile, '..');
+
+        if (!decomposedFolders.has(folder.fsPath)) {
+            decomposedFolders.add(folder.fsPath);
+            targets.push({
+                label: folder.fsPath,
+                description: labels.commands.NEW_DECOMPOSED_LABEL_FILE(getDecomposedLabelFileName(fullName)),
+                uri: vscode.Uri.joinPath(folder, getDecomposedLabelFileName(fullName)),
+                decomposed: true
+            });
+        }
+    }
+
+    return targets;
+}
+
+/**
+ * Write the label to the target file through the label writer, so values are escaped and
+ * the file stays sorted and deployable.
+ */
+export async function writeLabel(target: LabelFileTarget, label: CustomLabel) {
+    if (target.decomposed) {
+        const exists = await vscode.workspace.fs.stat(target.uri).then(() => true, () => false);
+
+        if (exists) {
+            throw new Error(labels.warningMessages.LABEL_ALREADY_IN_FILE(label.fullName.toString(), target.uri.fsPath));
+        }
+
+        await vscode.workspace.fs.writeFile(target.uri, Buffer.from(buildDecomposedLabelFile(label), 'utf-8'));
+
+        return;
+    }
+
+    const labelFileString = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(target.uri));
+    const labelFileStringWithNewLabel = await insertLabelIntoLabelsFile(labelFileString, label, target.uri.fsPath);
+
+    await vscode.workspace.fs.writeFile(target.uri, Buffer.from(labelFileStringWithNewLabel, 'utf-8'));
+}
+
+/**
+ * Edit replacing the range with a reference to the label in the syntax of the document: `System.Label.X`
+ * in Apex, an import plus its identifier in LWC, `{!$Label.c.X}` in Aura markup and `{!$Label.X}` in Visualforce.
+ * In scripts, the quotes of a selected string literal are replaced too.
+ */
+export function buildLabelReferenceEdit(document: vscode.TextDocument, range: vscode.Range, fullName: string): vscode.WorkspaceEdit {
+    const kind = getDocumentLabelReferenceKind(document) ?? 'apex';
+    const inScript = kind === 'apex' || isScriptFile(document.uri.fsPath);
+    const text = document.getText();
+    const edit = new vscode.WorkspaceEdit();
+    let start = document.offsetAt(range.start);
+    let end = document.offsetAt(range.end);
+
+    if (inScript) {
+        ({ start, end } = expandToStringLiteral(text, start, end));
+    }
+
+    let replacement = formatLabelReference(kind, fullName, inScript);
+
+    if (kind === 'lwc') {
+        const labelImport = planLabelImport(text, fullName);
+
+        replacement = labelImport.identifier;
+
+        if (labelImport.importStatement !== undefined && labelImport.insertOffset !== undefined) {
+            edit.insert(document.uri, document.positionAt(labelImport.insertOffset), labelImport.importStatement);
+        }
+    }
+
+    edit.replace(document.uri, new vscode.Range(document.positionAt(start), document.positionAt(end)), replacement);
+
+    return edit;
+}
+
 export async function getLabelCreateOnCodeActionProvider() {
     const provider: vscode.CodeActionProvider<vscode.CodeAction> = {
         provideCodeActions(
@@ -207,60 +304,36 @@ export async function getLabelCreateOnCodeActionProvider() {
         ): vscode.ProviderResult<(vscode.Command | vscode.CodeAction)[]> {
             const result: vscode.CodeAction[] = [];
 
-            let proposedLabelValue = document.getText(range);
+            // if label is surrounded by quotes, remove them
+            const proposedLabelValue = unquote(document.getText(range));
 
             // if label is empty, return
             if (!proposedLabelValue) {
                 return;
             }
 
-            // if label is surrounded by quotes, remove them
-            if (proposedLabelValue.startsWith('\'') && proposedLabelValue.endsWith('\'')) {
-                proposedLabelValue = proposedLabelValue.slice(1, -1);
-            }
-
             // Check if the label name exists in the list of labels
             if (getSalesforceLabelsStore().salesforceLabels[proposedLabelValue]) {
                 // if it does, do nothing
                 return;
             }
 
-            // check if the content exists as the value of a label already
-            const existingLabel = Object.values(getSalesforceLabelsStore().salesforceLabels).find(label => label.value[0] === proposedLabelValue);
-
-            // check if its text shows on some other label in part too
-            const similarLabels = Object.values(getSalesforceLabelsStore().salesforceLabels).filter(label =>
-                label.value[0].includes(proposedLabelValue) && (!!existingLabel ? label.value[0] !== existingLabel.value[0] : true)
-            );
+            // labels with the same value once normalized (score 1) or a close one, best first
+            const similarLabels = getSimilarityIndex().findSimilar(proposedLabelValue, SIMILAR_LABEL_MIN_SCORE)
+                .map(similar => ({ ...similar, label: getSalesforceLabelsStore().salesforceLabels[similar.fullName] }))
+                .filter(similar => !!similar.label);
+            const existingLabel = similarLabels.find(similar => similar.score === 1)?.label;
 
             if (existingLabel) {
                 // if it does, suggest using the existing label
                 const useExistingLabelAction = new vscode.CodeAction(
-                    labels.commands.USE_EXISTING_LABEL(existingLabel.fullName.toString()),
+                    labels.commands.USE_EXISTING_LABEL(existingLabel.fullName.toString(), vscode.workspace.asRelativePath(existingLabel.source.filePath)),
                     vscode.CodeActionKind.QuickFix
                 );
                 useExistingLabelAction.isPreferred = true;
-                useExistingLabelAction.title = labels.commands.USE_EXISTING_LABEL(existingLabel.fullName.toString());
+                useExistingLabelAction.title = labels.commands.USE_EXISTING_LABEL(existingLabel.fullName.toString(), vscode.workspace.asRelativePath(existingLabel.source.filePath));
                 useExistingLabelAction.kind = vscode.CodeActionKind.QuickFix;
-                useExistingLabelAction.edit = new vscode.WorkspaceEdit();
-
-                // if the existing range starts and ends with a single quote, adjust the range
-                // so they are replaced too
-                if (existingLabel.value[0].startsWith('\'') && existingLabel.value[0].endsWith('\'')) {
-                    const startLine = document.lineAt(range.start.line).text.indexOf('\'');
-                    const endLine = document.lineAt(range.start.line).text.indexOf('\'', startLine + 1) + 1;
-                    const rangeToReplace = new vscode.Range(
-                        range.start.line,
-                        startLine,
-                        range.start.line,
-                        endLine
-                    );
-
-                    useExistingLabelAction.edit.replace(document.uri, rangeToReplace, `System.Label.${existingLabel.fullName.toString()}`);
-                } else {
-                    // just replace the range
-                    useExistingLabelAction.edit.replace(document.uri, range, `System.Label.${existingLabel.fullName.toString()}`);
-                }
+                useExistingLabelAction.edit = buildLabelReferenceEdit(document, range, existingLabel.fullName.toString());
 
                 const alreadyExistsMessage = labels.commands.LABEL_ALREADY_EXISTS_AS(proposedLabelValue.toString(), existingLabel.fullName.toString());
 
@@ -282,39 +355,26 @@ export async function getLabelCreateOnCodeActionProvider() {
             }
 
             // for each similar label found, suggest using it
-            if (similarLabels && similarLabels.length > 0) {
-                const similarLabelActions = similarLabels.map(label => {
-                    const useSimilarLabelMessage = labels.commands.USE_SIMILAR_LABEL(label.fullName.toString());
+            const similarLabelActions = similarLabels
+                .filter(similar => similar.label !== existingLabel)
+                .slice(0, getSimilarLabelSuggestionCount())
+                .map(({ label, score }) => {
+                    const useSimilarLabelMessage = labels.commands.USE_SIMILAR_LABEL(label.fullName.toString(), vscode.workspace.asRelativePath(label.source.filePath), score);
                     const useSimilarLabelAction = new vscode.CodeAction(
                         useSimilarLabelMessage,
                         vscode.CodeActionKind.QuickFix
                     );
-                    useSimilarLabelAction.isPreferred = true;
                     useSimilarLabelAction.title = useSimilarLabelMessage;
                     useSimilarLabelAction.kind = vscode.CodeActionKind.QuickFix;
-                    useSimilarLabelAction.edit = new vscode.WorkspaceEdit();
-
-                    // the range to replace needs to be calculated based on the line, to replace
-                    // the whole string between simple quotes in Apex
-                    const startLine = document.lineAt(range.start.line).text.indexOf('\'');
-                    const endLine = document.lineAt(range.start.line).text.indexOf('\'', startLine + 1) + 1;
-                    const rangeToReplace = new vscode.Range(
-                        range.start.line,
-                        startLine,
-                        range.start.line,
-                        endLine
-                    );
 
-                    // replaces the selected text with the label
-                    useSimilarLabelAction.edit.replace(document.uri, rangeToReplace, `System.Label.${label.fullName.toString()}`);
+                    // replaces the selected text (and its quotes, in scripts) with the label
+                    useSimilarLabelAction.edit = buildLabelReferenceEdit(document, range, label.fullName.toString());
 
-                    // Add the action to the list of code actions
                     return useSimilarLabelAction;
                 });
 
-                // Add the action to the list of code actions
-                result.push(...similarLabelActions);
-            }
+            // Add the action to the list of code actions
+            result.push(...similarLabelActions);
 
             // else, suggest creating a new label from the selected text
             const createLabelForProposedValueMessage = labels.commands.CREATE_LABEL_FOR_PROPOSED_VALUE(proposedLabelValue.toString());
@@ -341,13 +401,26 @@ export async function getLabelCreateOnCodeActionProvider() {
     } as vscode.CodeActionProvider;
 
     // Register the CodeActionProvider for specific file types
-    const labelContextMenuProvider = vscode.languages.registerCodeActionsProvider(
-        [
-            { scheme: 'file', pattern: '**/*.cls' },
-            { scheme: 'file', language: 'apex' }
-        ],
-        provider
-    );
-
-    return labelContextMenuProvider;
+    const labelContextMenuProvider = vscode.languages.registerCodeActionsProvider(LABEL_SOURCE_SELECTOR, provider);
+
+    // rebuild the similarity index lazily, on the first code action request after the labels changed
+    similarityIndex = undefined;
+    const storeListener = getSalesforceLabelsStore().onDidChange(() => {
+        similarityIndex = undefined;
+    });
+
+    return vscode.Disposable.from(labelContextMenuProvider, storeListener);
+}
+
+function getSimilarityIndex(): LabelSimilarityIndex {
+    similarityIndex ??= new LabelSimilarityIndex(getSalesforceLabelsStore().getAllLabels().map(label => ({
+        fullName: label.fullName.toString(),
+        value: label.value.toString()
+    })));
+
+    return similarityIndex;
+}
+
+function getSimilarLabelSuggestionCount(): number {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>(CONFIG_KEY_SIMILAR_LABEL_SUGGESTIONS, DEFAULT_SIMILAR_LABEL_SUGGESTIONS);
 }
\ No newline at end of file
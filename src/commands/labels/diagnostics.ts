@@ -0,0 +1,420 @@
+/**
+ * Custom label diagnostics: references to labels that don't exist (in Apex, LWC, Aura and Visualforce sources)
+ * and labels that nothing references (in the label metadata files).
+ */
+import * as vscode from 'vscode';
+import labels from '../../labels';
+import { getProjectNamespace, getSalesforceLabelsStore } from './load';
+import { getDocumentLabelReferenceKind, readWorkspaceText } from './navigation';
+import { findLabelElementOffsets } from './parse';
+import {
+    createLineIndex,
+    findLabelReferences,
+    getLabelReferenceKind,
+    LABEL_REFERENCE_EXCLUDE_GLOB,
+    LABEL_REFERENCE_FILES_GLOB,
+    LabelReference,
+    LabelReferenceKind,
+    maskApexCommentsAndStrings
+} from './referenceSyntax';
+import { findMissingLabelReferences, findUnusedLabelNames, LabelReferenceCache } from './usage';
+
+const COMMAND_NAME = 'checkLabelUsage';
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_REPORT_WHILE_EDITING = 'labels.reportMissingLabelsWhileEditing';
+const MISSING_LABEL_CODE = `${labels.misc.EXTENSION_NAME}.missingLabel`;
+const UNUSED_LABEL_CODE = `${labels.misc.EXTENSION_NAME}.unusedLabel`;
+const DOCUMENT_DEBOUNCE_MS = 500;
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+const referenceCache = new LabelReferenceCache();
+const pendingDocuments = new Map<string, ReturnType<typeof setTimeout>>();
+
+// raw text of the label files, used to place unused label diagnostics; re-read whenever the store changes
+let labelFileTexts = new Map<string, string>();
+let labelFileTextsGeneration = 0;
+
+// unused labels are only reported once a full workspace scan has been run
+let hasScannedWorkspace = false;
+
+// references of the labels reported as missing, by referenced name
+const missingLabelLocations = new Map<string, vscode.Location[]>();
+const missingLabelsEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fired after the missing label references were recomputed.
+ */
+export const onDidChangeMissingLabels = missingLabelsEmitter.event;
+
+/**
+ * References to labels that don't exist, by referenced name, as currently reported in the Problems panel.
+ */
+export function getMissingLabelLocations(): ReadonlyMap<string, vscode.Location[]> {
+    return missingLabelLocations;
+}
+
+export async function activateLabelDiagnostics(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    diagnosticCollection = vscode.languages.createDiagnosticCollection(labels.misc.EXTENSION_NAME);
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        missingLabelsEmitter,
+        vscode.commands.registerCommand(commandFullName, checkLabelUsage),
+        vscode.workspace.onDidOpenTextDocument(document => scheduleDocumentCheck(document)),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleDocumentCheck(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => handleDocumentClose(document)),
+        vscode.workspace.onDidDeleteFiles(event => {
+            for (const uri of event.files) {
+                referenceCache.delete(uri.fsPath);
+                diagnosticCollection?.delete(uri);
+            }
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${CONFIG_SECTION}.${CONFIG_KEY_REPORT_WHILE_EDITING}`)) {
+                refreshOpenDocuments();
+            }
+        }),
+        getSalesforceLabelsStore().onDidChange(() => handleLabelsChange()),
+        {
+            dispose: () => {
+                pendingDocuments.forEach(timeout => clearTimeout(timeout));
+                pendingDocuments.clear();
+            }
+        }
+    );
+
+    refreshOpenDocuments();
+}
+
+function isReportingWhileEditing(): boolean {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>(CONFIG_KEY_REPORT_WHILE_EDITING, true);
+}
+
+/**
+ * Labels can only be checked once label files were loaded, otherwise every reference would be missing.
+ */
+function hasLoadedLabels(): boolean {
+    return getSalesforceLabelsStore().getFilePaths().length > 0;
+}
+
+function getDocumentKind(document: vscode.TextDocument): LabelReferenceKind | undefined {
+    if (document.uri.scheme !== 'file') {
+        return undefined;
+    }
+
+    return getDocumentLabelReferenceKind(document);
+}
+
+function scheduleDocumentCheck(document: vscode.TextDocument) {
+    const kind = getDocumentKind(document);
+
+    if (!kind || !isReportingWhileEditing()) {
+        return;
+    }
+
+    const key = document.uri.fsPath;
+    const pending = pendingDocuments.get(key);
+
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingDocuments.set(key, setTimeout(() => {
+        pendingDocuments.delete(key);
+        updateDocumentReferences(document, kind);
+        publishAllDiagnostics();
+    }, DOCUMENT_DEBOUNCE_MS));
+}
+
+/**
+ * References made in code: Apex comments and string literals are left out, as they are not compiled.
+ */
+function findCodeLabelReferences(text: string, kind: LabelReferenceKind): LabelReference[] {
+    return findLabelReferences(kind === 'apex' ? maskApexCommentsAndStrings(text) : text, kind);
+}
+
+function updateDocumentReferences(document: vscode.TextDocument, kind: LabelReferenceKind) {
+    const text = document.getText();
+
+    referenceCache.set(document.uri.fsPath, {
+        stamp: `open:${document.version}`,
+        kind,
+        references: findCodeLabelReferences(text, kind),
+        positionOf: createLineIndex(text)
+    });
+}
+
+/**
+ * A closed document is no longer tracked while editing: after a full scan its references are read back
+ * from disk, as unsaved changes are gone, otherwise they are forgotten.
+ */
+async function handleDocumentClose(document: vscode.TextDocument) {
+    const key = document.uri.fsPath;
+    const pending = pendingDocuments.get(key);
+
+    if (pending) {
+        clearTimeout(pending);
+        pendingDocuments.delete(key);
+    }
+
+    const cached = referenceCache.get(key);
+
+    if (!cached?.stamp.startsWith('open:')) {
+        return;
+    }
+
+    referenceCache.delete(key);
+
+    if (hasScannedWorkspace) {
+        try {
+            const stamp = await getFileStamp(document.uri);
+            const text = await readWorkspaceText(document.uri);
+
+            referenceCache.set(key, { stamp, kind: cached.kind, references: findCodeLabelReferences(text, cached.kind), positionOf: createLineIndex(text) });
+        } catch {
+            // the file was deleted along with the document
+        }
+    }
+
+    publishAllDiagnostics();
+}
+
+/**
+ * Labels were loaded or reloaded: label file texts are re-read before the unused labels are placed in them.
+ */
+async function handleLabelsChange() {
+    if (!hasScannedWorkspace) {
+        publishAllDiagnostics();
+        return;
+    }
+
+    const generation = ++labelFileTextsGeneration;
+    const texts = await readLabelFileTexts();
+
+    // a later change already refreshed the texts
+    if (generation !== labelFileTextsGeneration) {
+        return;
+    }
+
+    labelFileTexts = texts;
+    publishAllDiagnostics();
+}
+
+async function readLabelFileTexts(): Promise<Map<string, string>> {
+    const texts = new Map<string, string>();
+
+    for (const filePath of getSalesforceLabelsStore().getFilePaths()) {
+        try {
+            texts.set(filePath, await readWorkspaceText(vscode.Uri.file(filePath)));
+        } catch {
+            // the file is reported without a precise position
+        }
+    }
+
+    return texts;
+}
+
+function refreshOpenDocuments() {
+    if (isReportingWhileEditing()) {
+        for (const document of vscode.workspace.textDocuments) {
+            const kind = getDocumentKind(document);
+
+            if (kind) {
+                updateDocumentReferences(document, kind);
+            }
+        }
+    }
+
+    publishAllDiagnostics();
+}
+
+/**
+ * Recompute every diagnostic from the cached references and the label store, without reading files.
+ */
+function publishAllDiagnostics() {
+    if (!diagnosticCollection) {
+        return;
+    }
+
+    diagnosticCollection.clear();
+    missingLabelLocations.clear();
+
+    if (!hasLoadedLabels()) {
+        missingLabelsEmitter.fire();
+        return;
+    }
+
+    const store = getSalesforceLabelsStore();
+    const labelNames = Object.keys(store.salesforceLabels);
+    const namespace = getProjectNamespace();
+    const reportOpenDocuments = isReportingWhileEditing();
+
+    for (const [filePath, entry] of referenceCache.entries()) {
+        // without a full scan, only the open documents tracked while editing are reported
+        if (!hasScannedWorkspace && !(reportOpenDocuments && entry.stamp.startsWith('open:'))) {
+            continue;
+        }
+
+        const missing = findMissingLabelReferences(entry.references, entry.kind, labelNames, namespace);
+
+        if (missing.length === 0) {
+            continue;
+        }
+
+        const uri = vscode.Uri.file(filePath);
+
+        diagnosticCollection.set(uri, missing.map(reference => {
+            const start = entry.positionOf(reference.nameStart);
+            const end = entry.positionOf(reference.nameEnd);
+            const range = new vscode.Range(start.line, start.character, end.line, end.character);
+            const locations = missingLabelLocations.get(reference.name) ?? [];
+
+            locations.push(new vscode.Location(uri, range));
+            missingLabelLocations.set(reference.name, locations);
+            const diagnostic = new vscode.Diagnostic(range, labels.warningMessages.LABEL_NOT_FOUND(reference.name), vscode.DiagnosticSeverity.Error);
+
+            diagnostic.source = labels.misc.EXTENSION_SOURCE_NAME;
+            diagnostic.code = MISSING_LABEL_CODE;
+
+            return diagnostic;
+        }));
+    }
+
+    if (hasScannedWorkspace) {
+        publishUnusedLabelDiagnostics(labelNames, namespace);
+    }
+
+    missingLabelsEmitter.fire();
+}
+
+function publishUnusedLabelDiagnostics(labelNames: string[], namespace?: string) {
+    const store = getSalesforceLabelsStore();
+    const unused = new Set(findUnusedLabelNames(labelNames, referenceCache.allReferences(), namespace));
+
+    for (const filePath of store.getFilePaths()) {
+        const unusedInFile = store.getLabelsInFile(filePath).filter(label => unused.has(label.fullName.toString()));
+
+        if (unusedInFile.length === 0) {
+            continue;
+        }
+
+        const uri = vscode.Uri.file(filePath);
+        const text = labelFileTexts.get(filePath) ?? '';
+        const toPosition = createLineIndex(text);
+
+        diagnosticCollection?.set(uri, unusedInFile.map(label => {
+            const fullName = label.fullName.toString();
+            const offsets = findLabelElementOffsets(text, fullName);
+            const start = toPosition(offsets?.nameStart ?? offsets?.start ?? 0);
+            const end = toPosition(offsets?.nameEnd ?? offsets?.start ?? 0);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start.line, start.character, end.line, end.character),
+                labels.warningMessages.LABEL_NOT_REFERENCED(fullName),
+                vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = labels.misc.EXTENSION_SOURCE_NAME;
+            diagnostic.code = UNUSED_LABEL_CODE;
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+
+            return diagnostic;
+        }));
+    }
+}
+
+/**
+ * Scan every source file of the workspace for label references. Files that did not change since
+ * the previous scan are served from the cache.
+ */
+async function scanWorkspace(progress: vscode.Progress<{ message?: string; increment?: number }>, token: vscode.CancellationToken): Promise<boolean> {
+    const uris = await vscode.workspace.findFiles(LABEL_REFERENCE_FILES_GLOB, LABEL_REFERENCE_EXCLUDE_GLOB, undefined, token);
+    const sourceUris = uris.filter(uri => !!getLabelReferenceKind(uri.fsPath));
+
+    referenceCache.retain(sourceUris.map(uri => uri.fsPath));
+
+    for (let i = 0; i < sourceUris.length; i++) {
+        if (token.isCancellationRequested) {
+            return false;
+        }
+
+        const uri = sourceUris[i];
+        const kind = getLabelReferenceKind(uri.fsPath)!;
+
+        progress.report({ message: labels.informationMessages.SCANNING_FILE(i + 1, sourceUris.length), increment: 100 / sourceUris.length });
+
+        try {
+            const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+            const stamp = openDocument ? `open:${openDocument.version}` : await getFileStamp(uri);
+
+            if (referenceCache.get(uri.fsPath, stamp)) {
+                continue;
+            }
+
+            const text = openDocument ? openDocument.getText() : await readWorkspaceText(uri);
+
+            referenceCache.set(uri.fsPath, {
+                stamp,
+                kind,
+                references: findCodeLabelReferences(text, kind),
+                positionOf: createLineIndex(text)
+            });
+        } catch (err) {
+            console.error(`Failed to scan ${uri.fsPath} for label references:`, err);
+        }
+    }
+
+    labelFileTextsGeneration++;
+    labelFileTexts = await readLabelFileTexts();
+
+    return true;
+}
+
+async function getFileStamp(uri: vscode.Uri): Promise<string> {
+    const stat = await vscode.workspace.fs.stat(uri);
+
+    return `${stat.mtime}:${stat.size}`;
+}
+
+async function checkLabelUsage() {
+    if (!diagnosticCollection) {
+        return;
+    }
+
+    if (!hasLoadedLabels()) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILES_FOUND);
+        return;
+    }
+
+    const completed = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: labels.informationMessages.CHECKING_LABEL_USAGE,
+            cancellable: true
+        },
+        (progress, token) => scanWorkspace(progress, token)
+    );
+
+    if (!completed) {
+        return;
+    }
+
+    hasScannedWorkspace = true;
+    publishAllDiagnostics();
+
+    let missingCount = 0;
+    let unusedCount = 0;
+
+    diagnosticCollection.forEach((_uri, diagnostics) => {
+        missingCount += diagnostics.filter(diagnostic => diagnostic.code === MISSING_LABEL_CODE).length;
+        unusedCount += diagnostics.filter(diagnostic => diagnostic.code === UNUSED_LABEL_CODE).length;
+    });
+
+    vscode.window.showInformationMessage(labels.informationMessages.LABEL_USAGE_SUMMARY(missingCount, unusedCount));
+}
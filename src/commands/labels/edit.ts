@@ -0,0 +1,133 @@
+/**
+ * Write changes to existing labels back to the label metadata files they are defined in.
+ */
+import * as vscode from 'vscode';
+import CustomLabel, { getSalesforceLabelsStore, reloadLabelFile } from './load';
+import type { StoredCustomLabel } from './store';
+import labels from '../../labels';
+import {
+    buildDecomposedLabelFile,
+    DECOMPOSED_LABEL_FILE_SUFFIX,
+    getDecomposedLabelFileName,
+    removeLabelFromLabelsFile,
+    updateLabelInLabelsFile
+} from './writer';
+
+/**
+ * A change to an existing label: its new content (which may have a new fullName), or a deletion
+ * when `label` is undefined.
+ */
+export interface LabelChange {
+    fullName: string;
+    label?: CustomLabel;
+}
+
+export interface FailedLabelChange {
+    fullName: string;
+    error: Error;
+}
+
+/**
+ * Label as written to the file, without the store's provenance.
+ */
+export function toCustomLabel(label: StoredCustomLabel): CustomLabel {
+    return {
+        fullName: label.fullName,
+        value: label.value,
+        categories: label.categories,
+        language: label.language,
+        protected: label.protected,
+        shortDescription: label.shortDescription
+    };
+}
+
+/**
+ * Apply the changes to the files defining the labels (the first definition of each label).
+ * Each `CustomLabels` file is read and written once, decomposed files are rewritten, renamed or deleted.
+ * Returns the changes that could not be applied.
+ */
+export async function applyLabelChanges(changes: LabelChange[]): Promise<FailedLabelChange[]> {
+    const store = getSalesforceLabelsStore();
+    const changesByFile = new Map<string, LabelChange[]>();
+    const failed: FailedLabelChange[] = [];
+
+    for (const change of changes) {
+        const definition = store.salesforceLabels[change.fullName];
+
+        if (!definition) {
+            failed.push({ fullName: change.fullName, error: new Error(labels.warningMessages.LABEL_NOT_FOUND(change.fullName)) });
+            continue;
+        }
+
+        const fileChanges = changesByFile.get(definition.source.filePath) ?? [];
+
+        fileChanges.push(change);
+        changesByFile.set(definition.source.filePath, fileChanges);
+    }
+
+    for (const [filePath, fileChanges] of changesByFile) {
+        const uri = vscode.Uri.file(filePath);
+
+        try {
+            if (filePath.endsWith(DECOMPOSED_LABEL_FILE_SUFFIX)) {
+                // a decomposed file holds a single label, so only the last change matters
+                await applyDecomposedLabelChange(uri, fileChanges[fileChanges.length - 1]);
+            } else {
+                failed.push(...await applyLabelsFileChanges(uri, fileChanges));
+            }
+        } catch (err) {
+            failed.push(...fileChanges.map(change => ({ fullName: change.fullName, error: err as Error })));
+        }
+
+        await reloadLabelFile(uri);
+    }
+
+    return failed;
+}
+
+async function applyLabelsFileChanges(uri: vscode.Uri, changes: LabelChange[]): Promise<FailedLabelChange[]> {
+    const failed: FailedLabelChange[] = [];
+    let content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+
+    for (const change of changes) {
+        try {
+            content = change.label
+                ? await updateLabelInLabelsFile(content, change.fullName, change.label, uri.fsPath)
+                : await removeLabelFromLabelsFile(content, change.fullName, uri.fsPath);
+        } catch (err) {
+            failed.push({ fullName: change.fullName, error: err as Error });
+        }
+    }
+
+    if (failed.length < changes.length) {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    }
+
+    return failed;
+}
+
+async function applyDecomposedLabelChange(uri: vscode.Uri, change: LabelChange) {
+    if (!change.label) {
+        await vscode.workspace.fs.delete(uri);
+        return;
+    }
+
+    const newFullName = change.label.fullName.toString();
+
+    if (newFullName === change.fullName) {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(buildDecomposedLabelFile(change.label), 'utf-8'));
+        return;
+    }
+
+    // renamed: the file is named after the label
+    const newUri = vscode.Uri.joinPath(uri, '..', getDecomposedLabelFileName(newFullName));
+    const exists = await vscode.workspace.fs.stat(newUri).then(() => true, () => false);
+
+    if (exists) {
+        throw new Error(labels.warningMessages.LABEL_ALREADY_IN_FILE(newFullName, newUri.fsPath));
+    }
+
+    await vscode.workspace.fs.writeFile(newUri, Buffer.from(buildDecomposedLabelFile(change.label), 'utf-8'));
+    await vscode.workspace.fs.delete(uri);
+    await reloadLabelFile(newUri);
+}
@@ -0,0 +1,311 @@
+/**
+ * Commands to export custom labels and their translations to CSV or XLIFF for translators, and to import
+ * the translated files back into the `CustomLabels` and `Translations` metadata through a previewed edit.
+ */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getSalesforceLabelsStore, reloadLabelFile, reloadTranslationFile } from './load';
+import labels from '../../labels';
+import { toCustomLabel } from './edit';
+import {
+    buildLabelsCsv,
+    buildLabelsXliff,
+    CurrentLabel,
+    ExchangeLabel,
+    ImportedLabel,
+    LabelImportPlan,
+    parseLabelsCsv,
+    parseLabelsXliff,
+    planLabelsImport,
+    XliffVersion
+} from './exchangeFormats';
+import { readWorkspaceText } from './navigation';
+import { createLineIndex } from './referenceSyntax';
+import { getTranslationFileUri } from './translate';
+import { buildEmptyTranslationFile, isTranslationFile, setLabelTranslationInFile } from './translations';
+import { buildDecomposedLabelFile, DECOMPOSED_LABEL_FILE_SUFFIX, updateLabelInLabelsFile } from './writer';
+
+const EXPORT_COMMAND_NAME = 'exportCustomLabels';
+const IMPORT_COMMAND_NAME = 'importCustomLabels';
+
+type ExchangeFormat = 'csv' | XliffVersion;
+
+export async function activateLabelExchange(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const exportCommandFullName = `${labels.misc.EXTENSION_NAME}.${EXPORT_COMMAND_NAME}`;
+    const importCommandFullName = `${labels.misc.EXTENSION_NAME}.${IMPORT_COMMAND_NAME}`;
+
+    if (commands.includes(exportCommandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(exportCommandFullName, exportLabels),
+        vscode.commands.registerCommand(importCommandFullName, importLabels)
+    );
+}
+
+// #region export
+
+async function exportLabels() {
+    const store = getSalesforceLabelsStore();
+    const storedLabels = store.getAllLabels();
+
+    if (storedLabels.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILES_FOUND);
+        return;
+    }
+
+    const format = await vscode.window.showQuickPick(
+        [
+            { label: 'CSV', description: labels.commands.CSV_EXPORT_DESCRIPTION, format: 'csv' as ExchangeFormat },
+            { label: 'XLIFF 1.2', description: labels.commands.XLIFF_EXPORT_DESCRIPTION, format: '1.2' as ExchangeFormat },
+            { label: 'XLIFF 2.0', description: labels.commands.XLIFF_EXPORT_DESCRIPTION, format: '2.0' as ExchangeFormat }
+        ],
+        { placeHolder: labels.commands.SELECT_EXPORT_FORMAT }
+    );
+
+    if (!format) {
+        return;
+    }
+
+    const exchangeLabels: ExchangeLabel[] = storedLabels.map(label => ({
+        fullName: label.fullName.toString(),
+        language: label.language?.toString() ?? '',
+        value: label.value.toString(),
+        shortDescription: label.shortDescription?.toString() ?? '',
+        categories: label.categories?.toString() ?? '',
+        translations: Object.fromEntries(store.getTranslations(label.fullName.toString()).map(translation => [translation.language, translation.value]))
+    }));
+    let content: string;
+    let fileName: string;
+
+    if (format.format === 'csv') {
+        content = buildLabelsCsv(exchangeLabels, store.getTranslationLanguages());
+        fileName = 'CustomLabels.csv';
+    } else {
+        const targetLanguage = await pickTargetLanguage();
+
+        if (!targetLanguage) {
+            return;
+        }
+
+        content = buildLabelsXliff(exchangeLabels, getSourceLanguage(exchangeLabels), targetLanguage, format.format);
+        fileName = `CustomLabels.${targetLanguage}.xlf`;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+        filters: format.format === 'csv' ? { CSV: ['csv'] } : { XLIFF: ['xlf', 'xliff'] }
+    });
+
+    if (!uri) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf-8'));
+    vscode.window.showInformationMessage(labels.informationMessages.LABELS_EXPORTED(exchangeLabels.length, vscode.workspace.asRelativePath(uri)));
+}
+
+/**
+ * Language most labels are written in, the source language of the XLIFF file.
+ */
+function getSourceLanguage(exchangeLabels: ExchangeLabel[]): string {
+    const counts = new Map<string, number>();
+
+    for (const label of exchangeLabels) {
+        if (label.language) {
+            counts.set(label.language, (counts.get(label.language) ?? 0) + 1);
+        }
+    }
+
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? labels.misc.LANG_EN_US;
+}
+
+async function pickTargetLanguage(): Promise<string | undefined> {
+    const otherLanguage = { label: labels.commands.OTHER_TRANSLATION_LANGUAGE };
+    const selected = await vscode.window.showQuickPick(
+        [...getSalesforceLabelsStore().getTranslationLanguages().map(language => ({ label: language })), otherLanguage],
+        { placeHolder: labels.commands.SELECT_EXPORT_TARGET_LANGUAGE }
+    );
+
+    if (selected !== otherLanguage) {
+        return selected?.label;
+    }
+
+    return vscode.window.showInputBox({
+        prompt: labels.commands.ENTER_TRANSLATION_LANGUAGE,
+        placeHolder: labels.commands.TRANSLATION_LANGUAGE_PLACEHOLDER,
+        validateInput: value => /^[A-Za-z]{2,3}(_[A-Za-z0-9]+)*$/.test(value) ? undefined : labels.warningMessages.INVALID_LANGUAGE_CODE(value)
+    });
+}
+
+// #endregion
+
+// #region import
+
+async function importLabels() {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const [uri] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: workspaceFolder?.uri,
+        filters: { [labels.commands.LABEL_EXCHANGE_FILES]: ['csv', 'xlf', 'xliff'] },
+        openLabel: labels.commands.IMPORT_LABELS
+    }) ?? [];
+
+    if (!uri) {
+        return;
+    }
+
+    let importedLabels: ImportedLabel[];
+
+    try {
+        const content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+
+        importedLabels = uri.fsPath.toLowerCase().endsWith('.csv')
+            ? parseLabelsCsv(content)
+            : (await parseLabelsXliff(content)).labels;
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_READ_LABELS_IMPORT(uri.fsPath, err as Error));
+        return;
+    }
+
+    const plan = planLabelsImport(importedLabels, getCurrentLabel);
+
+    if (plan.unknownLabels.length > 0) {
+        vscode.window.showWarningMessage(labels.warningMessages.UNKNOWN_LABELS_IN_IMPORT(plan.unknownLabels));
+    }
+
+    if (plan.conflicts.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            labels.warningMessages.LABEL_IMPORT_CONFLICTS(plan.conflicts.map(conflict =>
+                `${conflict.fullName} ("${conflict.exportedValue}" → "${conflict.currentValue}")`)),
+            { modal: true },
+            labels.commands.SKIP_CONFLICTING_LABELS,
+            labels.commands.IMPORT_CONFLICTING_LABELS
+        );
+
+        if (!choice) {
+            return;
+        }
+
+        if (choice === labels.commands.SKIP_CONFLICTING_LABELS) {
+            const conflicting = new Set(plan.conflicts.map(conflict => conflict.fullName));
+
+            plan.labelUpdates = plan.labelUpdates.filter(update => !conflicting.has(update.fullName));
+            plan.translationUpdates = plan.translationUpdates.filter(update => !conflicting.has(update.fullName));
+        }
+    }
+
+    if (plan.labelUpdates.length === 0 && plan.translationUpdates.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NOTHING_TO_IMPORT);
+        return;
+    }
+
+    const changedFiles = await computeImportedFiles(plan);
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const [filePath, { original, content }] of changedFiles) {
+        const fileUri = vscode.Uri.file(filePath);
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: labels.commands.IMPORT_LABELS_EDIT(path.basename(filePath)),
+            needsConfirmation: true
+        };
+
+        if (original === undefined) {
+            edit.createFile(fileUri, { ignoreIfExists: true }, metadata);
+            edit.insert(fileUri, new vscode.Position(0, 0), content, metadata);
+            continue;
+        }
+
+        const end = createLineIndex(original)(original.length);
+
+        edit.replace(fileUri, new vscode.Range(0, 0, end.line, end.character), content, metadata);
+    }
+
+    // the edit needs confirmation, so the changes are shown in the refactor preview before being applied
+    if (!await vscode.workspace.applyEdit(edit)) {
+        return;
+    }
+
+    for (const filePath of changedFiles.keys()) {
+        const fileUri = vscode.Uri.file(filePath);
+        const document = vscode.workspace.textDocuments.find(openDocument => openDocument.uri.fsPath === filePath);
+
+        if (document?.isDirty) {
+            await document.save();
+        }
+
+        await (isTranslationFile(filePath) ? reloadTranslationFile(fileUri) : reloadLabelFile(fileUri));
+    }
+
+    vscode.window.showInformationMessage(labels.informationMessages.LABELS_IMPORTED(plan.labelUpdates.length, plan.translationUpdates.length));
+}
+
+function getCurrentLabel(fullName: string): CurrentLabel | undefined {
+    const store = getSalesforceLabelsStore();
+    const resolved = store.resolveFullName(fullName);
+    const label = resolved ? store.salesforceLabels[resolved] : undefined;
+
+    if (!label) {
+        return undefined;
+    }
+
+    return {
+        value: label.value.toString(),
+        shortDescription: label.shortDescription?.toString(),
+        categories: label.categories?.toString(),
+        translations: Object.fromEntries(store.getTranslations(label.fullName.toString()).map(translation => [translation.language, translation.value]))
+    };
+}
+
+/**
+ * New content of every file the import changes, with its current content (undefined for new Translations files).
+ */
+async function computeImportedFiles(plan: LabelImportPlan): Promise<Map<string, { original?: string; content: string }>> {
+    const store = getSalesforceLabelsStore();
+    const files = new Map<string, { original?: string; content: string }>();
+    const getFile = async (filePath: string, createContent?: () => string) => {
+        let file = files.get(filePath);
+
+        if (!file) {
+            const uri = vscode.Uri.file(filePath);
+            const exists = await vscode.workspace.fs.stat(uri).then(() => true, () => false);
+            const original = exists ? await readWorkspaceText(uri) : undefined;
+
+            file = { original, content: original ?? createContent?.() ?? '' };
+            files.set(filePath, file);
+        }
+
+        return file;
+    };
+
+    for (const update of plan.labelUpdates) {
+        const fullName = store.resolveFullName(update.fullName)!;
+        const stored = store.salesforceLabels[fullName];
+        const label = {
+            ...toCustomLabel(stored),
+            ...(update.shortDescription !== undefined ? { shortDescription: update.shortDescription } : {}),
+            ...(update.categories !== undefined ? { categories: update.categories } : {})
+        };
+        const file = await getFile(stored.source.filePath);
+
+        file.content = stored.source.filePath.endsWith(DECOMPOSED_LABEL_FILE_SUFFIX)
+            ? buildDecomposedLabelFile(label)
+            : await updateLabelInLabelsFile(file.content, fullName, label, stored.source.filePath);
+    }
+
+    for (const update of plan.translationUpdates) {
+        const fullName = store.resolveFullName(update.fullName)!;
+        const existing = store.getTranslations(fullName).find(translation => translation.language === update.language);
+        const filePath = existing?.filePath ?? getTranslationFileUri(update.language, store.salesforceLabels[fullName].source.filePath).fsPath;
+        const file = await getFile(filePath, buildEmptyTranslationFile);
+
+        file.content = setLabelTranslationInFile(file.content, fullName, update.value, filePath);
+    }
+
+    return files;
+}
+
+// #endregion
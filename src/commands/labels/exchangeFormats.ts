@@ -0,0 +1,400 @@
+/**
+ * Pure helpers to exchange custom labels with translators: CSV and XLIFF 1.2/2.0 export, parsing of the
+ * translated files and comparison with the current labels to plan the import.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { parseStringPromise } from 'xml2js';
+import labels from '../../labels';
+import { splitCategories, textOf } from './parse';
+import { escapeXml } from './writer';
+
+export type XliffVersion = '1.2' | '2.0';
+
+const CSV_COLUMNS = ['fullName', 'language', 'value', 'shortDescription', 'categories'] as const;
+const XLIFF_NAMESPACES: Record<XliffVersion, string> = {
+    '1.2': 'urn:oasis:names:tc:xliff:document:1.2',
+    '2.0': 'urn:oasis:names:tc:xliff:document:2.0'
+};
+const XLIFF_FILE_ID = 'CustomLabels';
+
+/**
+ * A label as exported: its source value and metadata, and its translations keyed by language.
+ */
+export interface ExchangeLabel {
+    fullName: string;
+    language: string;
+    value: string;
+    shortDescription: string;
+    categories: string;
+    translations: Record<string, string>;
+}
+
+/**
+ * A label read back from an exported file. `sourceValue` is the value at export time, used to detect conflicts.
+ * Fields are undefined when the file doesn't hold them.
+ */
+export interface ImportedLabel {
+    fullName: string;
+    sourceValue?: string;
+    shortDescription?: string;
+    categories?: string;
+    translations: Record<string, string>;
+}
+
+/**
+ * The label as it currently is in the workspace, to compare the imported one with.
+ */
+export interface CurrentLabel {
+    value: string;
+    shortDescription?: string;
+    categories?: string;
+    translations: Record<string, string>;
+}
+
+export interface LabelImportConflict {
+    fullName: string;
+    exportedValue: string;
+    currentValue: string;
+}
+
+/**
+ * Changes an import makes. Updates only hold what differs from the current labels.
+ */
+export interface LabelImportPlan {
+    labelUpdates: { fullName: string; shortDescription?: string; categories?: string }[];
+    translationUpdates: { fullName: string; language: string; value: string }[];
+    conflicts: LabelImportConflict[];
+    unknownLabels: string[];
+}
+
+// #region CSV
+
+/**
+ * Serialize rows to CSV (RFC 4180), quoting the cells that need it. A BOM is added so spreadsheet
+ * applications read the file as UTF-8.
+ */
+export function toCsv(rows: string[][]): string {
+    const quote = (cell: string) => /[",\r\n]/.test(cell) || /^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+    return '\uFEFF' + rows.map(row => row.map(quote).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV (RFC 4180) into rows of cells. Quoted cells may hold commas, quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    const content = text.replace(/^\uFEFF/, '');
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let index = 0; index < content.length; index++) {
+        const char = content[index];
+
+        if (quoted) {
+            if (char === '"' && content[index + 1] === '"') {
+                cell += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[index + 1] === '\n') {
+                index++;
+            }
+
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell.length > 0 || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // blank lines
+    return rows.filter(cells => cells.some(value => value.length > 0));
+}
+
+/**
+ * CSV with one row per label: its fullName, language, value, short description and categories, then one
+ * column per translation language.
+ */
+export function buildLabelsCsv(exchangeLabels: ExchangeLabel[], translationLanguages: string[]): string {
+    return toCsv([
+        [...CSV_COLUMNS, ...translationLanguages],
+        ...exchangeLabels.map(label => [
+            label.fullName,
+            label.language,
+            label.value,
+            label.shortDescription,
+            label.categories,
+            ...translationLanguages.map(language => label.translations[language] ?? '')
+        ])
+    ]);
+}
+
+/**
+ * Read a CSV exported by `buildLabelsCsv`. Columns are found by header, other columns are translation languages.
+ * Empty translation cells are left out.
+ */
+export function parseLabelsCsv(text: string): ImportedLabel[] {
+    const [header, ...rows] = parseCsv(text);
+    const columns = (header ?? []).map(column => column.trim());
+    const fullNameIndex = columns.indexOf('fullName');
+
+    if (fullNameIndex === -1) {
+        throw new Error(labels.warningMessages.INVALID_LABELS_CSV);
+    }
+
+    const cellOf = (row: string[], column: string) => {
+        const index = columns.indexOf(column);
+        return index === -1 ? undefined : row[index] ?? '';
+    };
+    const languageColumns = columns.filter(column => column && !(CSV_COLUMNS as readonly string[]).includes(column));
+
+    return rows
+        .filter(row => row[fullNameIndex]?.trim())
+        .map(row => ({
+            fullName: row[fullNameIndex].trim(),
+            sourceValue: cellOf(row, 'value'),
+            shortDescription: cellOf(row, 'shortDescription'),
+            categories: cellOf(row, 'categories'),
+            translations: Object.fromEntries(languageColumns
+                .map(language => [language, cellOf(row, language) ?? ''])
+                .filter(([, value]) => value.length > 0))
+        }));
+}
+
+// #endregion
+
+// #region XLIFF
+
+// an element parsed by xml2js: attributes under `$`, text under `_` and child elements as arrays
+interface XmlNode {
+    $?: Record<string, string>;
+    _?: string;
+    [child: string]: unknown;
+}
+
+function childNodes(node: XmlNode | undefined, name: string): XmlNode[] {
+    const children = node?.[name];
+    return Array.isArray(children) ? children as XmlNode[] : [];
+}
+
+/**
+ * XLIFF (BCP 47) code of a Salesforce language code: `pt_BR` becomes `pt-BR`.
+ */
+export function toXliffLanguage(language: string): string {
+    return language.replace(/_/g, '-');
+}
+
+/**
+ * Salesforce language code of an XLIFF (BCP 47) code: `pt-BR` becomes `pt_BR`.
+ */
+export function fromXliffLanguage(language: string): string {
+    return language.replace(/-/g, '_');
+}
+
+/**
+ * XLIFF document translating the labels from the source to the target language, one unit per label with its
+ * short description and categories as notes and its existing translation, if any, as target.
+ */
+export function buildLabelsXliff(exchangeLabels: ExchangeLabel[], sourceLanguage: string, targetLanguage: string, version: XliffVersion): string {
+    const source = escapeXml(toXliffLanguage(sourceLanguage));
+    const target = escapeXml(toXliffLanguage(targetLanguage));
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+    if (version === '1.2') {
+        lines.push(
+            `<xliff version="1.2" xmlns="${XLIFF_NAMESPACES['1.2']}">`,
+            `    <file original="${XLIFF_FILE_ID}" source-language="${source}" target-language="${target}" datatype="plaintext">`,
+            '        <body>'
+        );
+
+        for (const label of exchangeLabels) {
+            const translation = label.translations[targetLanguage];
+            const name = escapeXml(label.fullName);
+
+            lines.push(
+                `            <trans-unit id="${name}" resname="${name}">`,
+                `                <source>${escapeXml(label.value)}</source>`,
+                ...(translation !== undefined ? [`                <target>${escapeXml(translation)}</target>`] : []),
+                ...(label.shortDescription ? [`                <note from="shortDescription">${escapeXml(label.shortDescription)}</note>`] : []),
+                ...(label.categories ? [`                <note from="categories">${escapeXml(label.categories)}</note>`] : []),
+                '            </trans-unit>'
+            );
+        }
+
+        lines.push('        </body>', '    </file>', '</xliff>');
+    } else {
+        lines.push(
+            `<xliff version="2.0" xmlns="${XLIFF_NAMESPACES['2.0']}" srcLang="${source}" trgLang="${target}">`,
+            `    <file id="${XLIFF_FILE_ID}">`
+        );
+
+        for (const label of exchangeLabels) {
+            const translation = label.translations[targetLanguage];
+            const notes = [
+                ...(label.shortDescription ? [`                <note category="shortDescription">${escapeXml(label.shortDescription)}</note>`] : []),
+                ...(label.categories ? [`                <note category="categories">${escapeXml(label.categories)}</note>`] : [])
+            ];
+
+            lines.push(
+                `        <unit id="${escapeXml(label.fullName)}">`,
+                ...(notes.length > 0 ? ['            <notes>', ...notes, '            </notes>'] : []),
+                '            <segment>',
+                `                <source>${escapeXml(label.value)}</source>`,
+                ...(translation !== undefined ? [`                <target>${escapeXml(translation)}</target>`] : []),
+                '            </segment>',
+                '        </unit>'
+            );
+        }
+
+        lines.push('    </file>', '</xliff>');
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Read an XLIFF 1.2 or 2.0 document exported by `buildLabelsXliff`. Units without a target are left out
+ * of the translations; the target language is returned as a Salesforce language code.
+ */
+export async function parseLabelsXliff(xml: string): Promise<{ version: XliffVersion; targetLanguage: string; labels: ImportedLabel[] }> {
+    const result = await parseStringPromise(xml.replace(/^\uFEFF/, '')) as { xliff?: XmlNode } | null;
+    const xliff = result?.xliff;
+    const version = xliff?.$?.version;
+
+    if (version !== '1.2' && version !== '2.0') {
+        throw new Error(labels.warningMessages.UNSUPPORTED_XLIFF_VERSION(String(version)));
+    }
+
+    const importedLabels: ImportedLabel[] = [];
+    let targetLanguage: string | undefined = version === '2.0' ? xliff?.$?.trgLang : undefined;
+
+    for (const file of childNodes(xliff, 'file')) {
+        if (version === '1.2') {
+            targetLanguage = targetLanguage ?? file.$?.['target-language'];
+
+            for (const unit of childNodes(childNodes(file, 'body')[0], 'trans-unit')) {
+                const notes = childNodes(unit, 'note');
+                const noteFrom = (from: string) => textOf(notes.find(note => note?.$?.from === from));
+
+                importedLabels.push(toImportedLabel(
+                    unit.$?.resname ?? unit.$?.id,
+                    textOf(unit.source),
+                    unit.target === undefined ? undefined : textOf(unit.target) ?? '',
+                    noteFrom('shortDescription'),
+                    noteFrom('categories')
+                ));
+            }
+        } else {
+            for (const unit of childNodes(file, 'unit')) {
+                const notes = childNodes(childNodes(unit, 'notes')[0], 'note');
+                const noteCategory = (category: string) => textOf(notes.find(note => note?.$?.category === category));
+                const segments = childNodes(unit, 'segment');
+                const hasTarget = segments.some(segment => segment.target !== undefined);
+
+                importedLabels.push(toImportedLabel(
+                    unit.$?.id,
+                    segments.map(segment => textOf(segment.source) ?? '').join(''),
+                    hasTarget ? segments.map(segment => textOf(segment.target) ?? '').join('') : undefined,
+                    noteCategory('shortDescription'),
+                    noteCategory('categories')
+                ));
+            }
+        }
+    }
+
+    if (!targetLanguage) {
+        throw new Error(labels.warningMessages.XLIFF_TARGET_LANGUAGE_MISSING);
+    }
+
+    const language = fromXliffLanguage(targetLanguage);
+
+    return {
+        version,
+        targetLanguage: language,
+        labels: importedLabels
+            .filter(label => label.fullName)
+            .map(label => ({
+                ...label,
+                translations: label.translations[''] ? { [language]: label.translations[''] } : {}
+            }))
+    };
+}
+
+/**
+ * Imported label whose translation, when there is one, is keyed by the empty language until the file's target
+ * language is known.
+ */
+function toImportedLabel(fullName: string | undefined, sourceValue?: string, target?: string, shortDescription?: string, categories?: string): ImportedLabel {
+    return {
+        fullName: fullName ?? '',
+        sourceValue,
+        shortDescription,
+        categories,
+        translations: target ? { '': target } : {}
+    };
+}
+
+// #endregion
+
+/**
+ * Compare the imported labels with the current ones. A label whose value changed since the export is a conflict:
+ * its translations were made for another text. Empty imported values never clear current ones.
+ */
+export function planLabelsImport(importedLabels: ImportedLabel[], getCurrent: (fullName: string) => CurrentLabel | undefined): LabelImportPlan {
+    const plan: LabelImportPlan = { labelUpdates: [], translationUpdates: [], conflicts: [], unknownLabels: [] };
+
+    for (const imported of importedLabels) {
+        const current = getCurrent(imported.fullName);
+
+        if (!current) {
+            plan.unknownLabels.push(imported.fullName);
+            continue;
+        }
+
+        if (imported.sourceValue !== undefined && imported.sourceValue !== current.value) {
+            plan.conflicts.push({ fullName: imported.fullName, exportedValue: imported.sourceValue, currentValue: current.value });
+        }
+
+        const update: LabelImportPlan['labelUpdates'][number] = { fullName: imported.fullName };
+
+        if (imported.shortDescription && imported.shortDescription !== (current.shortDescription ?? '')) {
+            update.shortDescription = imported.shortDescription;
+        }
+
+        const categories = splitCategories(imported.categories).join(',');
+
+        if (categories && categories !== splitCategories(current.categories).join(',')) {
+            update.categories = categories;
+        }
+
+        if (update.shortDescription !== undefined || update.categories !== undefined) {
+            plan.labelUpdates.push(update);
+        }
+
+        for (const [language, value] of Object.entries(imported.translations)) {
+            if (value && value !== current.translations[language]) {
+                plan.translationUpdates.push({ fullName: imported.fullName, language, value });
+            }
+        }
+    }
+
+    return plan;
+}
@@ -0,0 +1,595 @@
+/**
+ * "Extract String Literals to Labels" command: finds the user-facing string literals of the current Apex class
+ * or of the classes in a folder, proposes a label for each distinct value in a review table, then writes the
+ * accepted labels and replaces the literals with `System.Label.X` in one pass.
+ */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CustomLabel, { getSalesforceLabelsStore, labelFiles, readPackageJsonSalesforceSettings, reloadLabelFile } from './load';
+import labels from '../../labels';
+import { getLabelFileTargets, LabelFileTarget } from './create';
+import { findApexStringLiterals, isApexTestClass, isUserFacingLiteral, proposeLabelName } from './extraction';
+import { readWorkspaceText } from './navigation';
+import { createLineIndex, formatLabelReference } from './referenceSyntax';
+import { splitCategories } from './parse';
+import { buildDecomposedLabelFile, getDecomposedLabelFileName, insertLabelIntoLabelsFile, validateLabelApiName } from './writer';
+
+const COMMAND_NAME = 'extractStringLiteralsToLabels';
+
+/**
+ * Where a literal was found, with its source text so a file edited since the scan can be detected.
+ */
+interface LiteralOccurrence {
+    uri: vscode.Uri;
+    start: number;
+    end: number;
+    raw: string;
+    line: number;
+}
+
+/**
+ * A distinct literal value and the label proposed for it. `existing` is set when a label already has this value.
+ */
+interface ExtractionEntry {
+    id: number;
+    value: string;
+    name: string;
+    existing?: string;
+    occurrences: LiteralOccurrence[];
+}
+
+type ExtractionMessage =
+    | { type: 'ready' }
+    | { type: 'open'; id: number; index: number }
+    | { type: 'extract'; accepted: { id: number; name: string }[]; categories: string; protected: boolean };
+
+let panel: vscode.WebviewPanel | undefined;
+let entries: ExtractionEntry[] = [];
+
+export async function activateLabelExtraction(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand(commandFullName, extractStringLiterals));
+}
+
+/**
+ * Scan the given Apex class or folder, or ask for the scope, then open the review table.
+ */
+async function extractStringLiterals(uri?: vscode.Uri) {
+    const files = await pickApexFiles(uri);
+
+    if (!files) {
+        return;
+    }
+
+    const scanned = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: labels.informationMessages.SCANNING_STRING_LITERALS,
+            cancellable: true
+        },
+        (progress, token) => scanApexFiles(files, progress, token)
+    );
+
+    if (!scanned) {
+        return;
+    }
+
+    if (scanned.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_STRING_LITERALS_FOUND);
+        return;
+    }
+
+    entries = scanned;
+    showExtractionPanel();
+}
+
+/**
+ * Apex classes to scan: the class or folder given, otherwise the current class or a folder picked by the user.
+ * Test classes are left out of folders.
+ */
+async function pickApexFiles(uri?: vscode.Uri): Promise<vscode.Uri[] | undefined> {
+    if (!uri) {
+        const editor = vscode.window.activeTextEditor;
+        const currentClass = editor?.document.uri.fsPath.endsWith('.cls') ? editor.document.uri : undefined;
+        const scope = currentClass
+            ? await vscode.window.showQuickPick(
+                [
+                    { label: labels.commands.EXTRACT_FROM_CURRENT_CLASS, description: path.basename(currentClass.fsPath), uri: currentClass },
+                    { label: labels.commands.EXTRACT_FROM_FOLDER, description: undefined, uri: undefined }
+                ],
+                { placeHolder: labels.commands.SELECT_EXTRACTION_SCOPE }
+            )
+            : { uri: undefined };
+
+        if (!scope) {
+            return undefined;
+        }
+
+        uri = scope.uri ?? (await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0].uri,
+            openLabel: labels.commands.SELECT_FOLDER_TO_EXTRACT
+        }))?.[0];
+
+        if (!uri) {
+            return undefined;
+        }
+    }
+
+    const stat = await vscode.workspace.fs.stat(uri);
+
+    if (stat.type !== vscode.FileType.Directory) {
+        return [uri];
+    }
+
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*.cls'), '**/node_modules/**');
+    const testClasses = new Set<string>();
+
+    for (const file of files) {
+        if (isApexTestClass(await readWorkspaceText(file))) {
+            testClasses.add(file.fsPath);
+        }
+    }
+
+    return files.filter(file => !testClasses.has(file.fsPath));
+}
+
+/**
+ * Group the user-facing literals of the files by value and propose a label for each value: the existing label
+ * with that value, or a new name. Returns undefined when cancelled.
+ */
+async function scanApexFiles(
+    files: vscode.Uri[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<ExtractionEntry[] | undefined> {
+    const store = getSalesforceLabelsStore();
+    const namespace = (await readPackageJsonSalesforceSettings()).namespace;
+    const existingByValue = new Map(store.getAllLabels().map(label => [label.value.toString(), label.fullName.toString()]));
+    const proposedNames = new Set<string>();
+    const entriesByValue = new Map<string, ExtractionEntry>();
+
+    for (const [index, file] of files.entries()) {
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+
+        progress.report({ message: labels.informationMessages.SCANNING_FILE(index + 1, files.length), increment: 100 / files.length });
+
+        const text = await readWorkspaceText(file);
+        const toPosition = createLineIndex(text);
+
+        for (const literal of findApexStringLiterals(text).filter(isUserFacingLiteral)) {
+            let entry = entriesByValue.get(literal.value);
+
+            if (!entry) {
+                const existing = existingByValue.get(literal.value);
+                const name = existing ?? proposeLabelName(
+                    literal.value,
+                    candidate => proposedNames.has(candidate.toLowerCase()) || !!store.resolveFullName(candidate),
+                    namespace
+                );
+
+                proposedNames.add(name.toLowerCase());
+                entry = { id: entriesByValue.size, value: literal.value, name, existing, occurrences: [] };
+                entriesByValue.set(literal.value, entry);
+            }
+
+            entry.occurrences.push({
+                uri: file,
+                start: literal.start,
+                end: literal.end,
+                raw: text.slice(literal.start, literal.end),
+                line: toPosition(literal.start).line
+            });
+        }
+    }
+
+    return [...entriesByValue.values()];
+}
+
+function showExtractionPanel() {
+    if (panel) {
+        panel.reveal();
+        postEntries();
+        return;
+    }
+
+    panel = vscode.window.createWebviewPanel(
+        'sfExtractLabels',
+        labels.commands.EXTRACT_LITERALS_TITLE,
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    panel.webview.onDidReceiveMessage((message: ExtractionMessage) => {
+        handleMessage(message).catch(err => vscode.window.showErrorMessage(String(err)));
+    });
+    panel.onDidDispose(() => {
+        panel = undefined;
+        entries = [];
+    });
+
+    panel.webview.html = getWebviewContent();
+}
+
+function postEntries() {
+    panel?.webview.postMessage({
+        type: 'entries',
+        entries: entries.map(entry => ({
+            id: entry.id,
+            value: entry.value,
+            name: entry.name,
+            existing: entry.existing,
+            occurrences: entry.occurrences.map(occurrence => `${vscode.workspace.asRelativePath(occurrence.uri)}:${occurrence.line + 1}`)
+        }))
+    });
+}
+
+async function handleMessage(message: ExtractionMessage) {
+    switch (message.type) {
+        case 'ready':
+            postEntries();
+            return;
+        case 'open': {
+            const occurrence = entries.find(entry => entry.id === message.id)?.occurrences[message.index];
+
+            if (occurrence) {
+                const document = await vscode.workspace.openTextDocument(occurrence.uri);
+                const range = new vscode.Range(document.positionAt(occurrence.start), document.positionAt(occurrence.end));
+
+                await vscode.window.showTextDocument(document, { selection: range, viewColumn: vscode.ViewColumn.Beside });
+            }
+            return;
+        }
+        case 'extract':
+            await extractAcceptedEntries(message.accepted, message.categories, message.protected);
+            return;
+    }
+}
+
+/**
+ * Validate the accepted names, write the new labels, then replace every occurrence of the accepted values.
+ */
+async function extractAcceptedEntries(accepted: { id: number; name: string }[], categories: string, isProtected: boolean) {
+    const store = getSalesforceLabelsStore();
+    const selected = accepted
+        .map(({ id, name }) => ({ entry: entries.find(entry => entry.id === id), name: name.trim() }))
+        .filter((selection): selection is { entry: ExtractionEntry; name: string } => !!selection.entry);
+    const errors: Record<number, string> = {};
+    const newNames = new Set<string>();
+
+    for (const { entry, name } of selected) {
+        // keeping the proposed existing label reuses it
+        if (entry.existing && name === entry.existing) {
+            continue;
+        }
+
+        const error = validateLabelApiName(name)
+            ?? (store.resolveFullName(name) || newNames.has(name.toLowerCase()) ? labels.warningMessages.LABEL_NAME_ALREADY_USED(name) : undefined);
+
+        if (error) {
+            errors[entry.id] = error;
+        }
+
+        newNames.add(name.toLowerCase());
+    }
+
+    if (Object.keys(errors).length > 0) {
+        panel?.webview.postMessage({ type: 'errors', errors });
+        return;
+    }
+
+    const { defaultLanguage } = await readPackageJsonSalesforceSettings();
+    const newLabels: CustomLabel[] = selected
+        .filter(({ entry, name }) => !(entry.existing && name === entry.existing))
+        .map(({ entry, name }) => ({
+            fullName: name,
+            value: entry.value,
+            categories: splitCategories(categories).join(','),
+            language: defaultLanguage || labels.misc.LANG_EN_US,
+            protected: isProtected,
+            shortDescription: name
+        }));
+
+    if (newLabels.length > 0 && !await writeNewLabels(newLabels)) {
+        return;
+    }
+
+    const { replaced, skipped } = await replaceLiterals(selected);
+
+    if (skipped.length > 0) {
+        vscode.window.showWarningMessage(labels.warningMessages.LITERALS_CHANGED_SINCE_SCAN(skipped));
+    }
+
+    vscode.window.showInformationMessage(labels.informationMessages.STRING_LITERALS_EXTRACTED(newLabels.length, replaced));
+    panel?.dispose();
+}
+
+/**
+ * Write the labels to the label file the user picks: a `CustomLabels` file is read and written once,
+ * a decomposed folder gets one file per label. Returns false when nothing was written.
+ */
+async function writeNewLabels(newLabels: CustomLabel[]): Promise<boolean> {
+    if (labelFiles.length === 0) {
+        vscode.window.showErrorMessage(labels.commands.LABELS_NOT_FOUND_IN_WORKSPACE);
+        return false;
+    }
+
+    const targets = getLabelFileTargets(newLabels[0].fullName.toString());
+    const target: LabelFileTarget | undefined = targets.length > 1
+        ? await vscode.window.showQuickPick(targets, { placeHolder: labels.commands.SELECT_A_CUSTOM_LABEL_FILE })
+        : targets[0];
+
+    if (!target) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILE_SELECTED);
+        return false;
+    }
+
+    const writtenFiles: vscode.Uri[] = [];
+
+    try {
+        if (target.decomposed) {
+            for (const label of newLabels) {
+                const uri = vscode.Uri.joinPath(target.uri, '..', getDecomposedLabelFileName(label.fullName.toString()));
+
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(buildDecomposedLabelFile(label), 'utf-8'));
+                writtenFiles.push(uri);
+            }
+        } else {
+            let content = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(target.uri));
+
+            for (const label of newLabels) {
+                content = await insertLabelIntoLabelsFile(content, label, target.uri.fsPath);
+            }
+
+            await vscode.workspace.fs.writeFile(target.uri, Buffer.from(content, 'utf-8'));
+            writtenFiles.push(target.uri);
+        }
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_WRITE_LABEL(target.uri.fsPath, err as Error));
+        return writtenFiles.length > 0;
+    } finally {
+        for (const uri of writtenFiles) {
+            await reloadLabelFile(uri);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Replace the occurrences with `System.Label.X` in a single edit and save the classes that had no unsaved changes.
+ * Occurrences whose text changed since the scan are skipped.
+ */
+async function replaceLiterals(selected: { entry: ExtractionEntry; name: string }[]): Promise<{ replaced: number; skipped: string[] }> {
+    const store = getSalesforceLabelsStore();
+    const edit = new vscode.WorkspaceEdit();
+    const occurrencesByFile = new Map<string, { occurrence: LiteralOccurrence; fullName: string }[]>();
+    const skipped: string[] = [];
+    let replaced = 0;
+
+    for (const { entry, name } of selected) {
+        // a label that failed to be written has no definition: leave its literals as they are
+        const fullName = store.resolveFullName(name);
+
+        for (const occurrence of fullName ? entry.occurrences : []) {
+            const fileOccurrences = occurrencesByFile.get(occurrence.uri.fsPath) ?? [];
+
+            fileOccurrences.push({ occurrence, fullName: fullName! });
+            occurrencesByFile.set(occurrence.uri.fsPath, fileOccurrences);
+        }
+    }
+
+    const cleanFiles: vscode.Uri[] = [];
+
+    for (const fileOccurrences of occurrencesByFile.values()) {
+        const uri = fileOccurrences[0].occurrence.uri;
+        const text = await readWorkspaceText(uri);
+        const toPosition = createLineIndex(text);
+        const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+
+        if (!openDocument?.isDirty) {
+            cleanFiles.push(uri);
+        }
+
+        for (const { occurrence, fullName } of fileOccurrences) {
+            if (text.slice(occurrence.start, occurrence.end) !== occurrence.raw) {
+                skipped.push(`${vscode.workspace.asRelativePath(uri)}:${occurrence.line + 1}`);
+                continue;
+            }
+
+            const start = toPosition(occurrence.start);
+            const end = toPosition(occurrence.end);
+
+            edit.replace(uri, new vscode.Range(start.line, start.character, end.line, end.character), formatLabelReference('apex', fullName, true));
+            replaced++;
+        }
+    }
+
+    if (replaced > 0 && await vscode.workspace.applyEdit(edit)) {
+        for (const uri of cleanFiles) {
+            await (await vscode.workspace.openTextDocument(uri)).save();
+        }
+    }
+
+    return { replaced, skipped };
+}
+
+function getWebviewContent(): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <style>
+            body {
+                font-family: var(--vscode-font-family, Arial, sans-serif);
+                margin: 20px;
+                color: var(--vscode-editor-foreground);
+                background-color: var(--vscode-editor-background);
+            }
+            .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 12px; }
+            input[type="text"] {
+                box-sizing: border-box;
+                color: var(--vscode-input-foreground);
+                background-color: var(--vscode-input-background);
+                border: 1px solid var(--vscode-input-border, transparent);
+                padding: 4px;
+            }
+            input[type="text"]:focus { outline: 1px solid var(--vscode-focusBorder); }
+            td input[type="text"] { width: 100%; font-family: var(--vscode-editor-font-family, monospace); }
+            button {
+                color: var(--vscode-button-foreground);
+                background-color: var(--vscode-button-background);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+            }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+            button:disabled { opacity: 0.5; cursor: default; }
+            table { border-collapse: collapse; width: 100%; }
+            th, td {
+                border: 1px solid var(--vscode-panel-border, #ddd);
+                padding: 4px 6px;
+                vertical-align: top;
+            }
+            th {
+                background-color: var(--vscode-editor-selectionBackground);
+                color: var(--vscode-editor-selectionForeground, var(--vscode-editor-foreground));
+                text-align: left;
+            }
+            .value { white-space: pre-wrap; }
+            .occurrence { color: var(--vscode-textLink-foreground); cursor: pointer; font-size: 0.9em; margin-right: 8px; }
+            .occurrence:hover { text-decoration: underline; }
+            .note { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+            .error { color: var(--vscode-errorForeground); font-size: 0.9em; }
+            tr.skipped td:not(:first-child) { opacity: 0.5; }
+        </style>
+    </head>
+    <body>
+        <div class="toolbar">
+            <span id="count"></span>
+            <label>Categories <input id="categories" type="text" placeholder="e.g. My_Custom_Category" /></label>
+            <label><input id="protected" type="checkbox" /> Protected</label>
+            <button id="extract">Extract</button>
+        </div>
+        <table>
+            <thead>
+                <tr>
+                    <th><input id="accept-all" type="checkbox" checked title="Accept or skip every entry" /></th>
+                    <th>Value</th>
+                    <th>Label API Name</th>
+                    <th>Occurrences</th>
+                </tr>
+            </thead>
+            <tbody id="entries"></tbody>
+        </table>
+        <script>
+            const vscode = acquireVsCodeApi();
+            const state = { entries: [], skipped: new Set(), names: {}, errors: {} };
+
+            function cell(row, ...children) {
+                const td = document.createElement('td');
+                children.forEach(child => td.appendChild(child));
+                row.appendChild(td);
+                return td;
+            }
+
+            function div(className, text) {
+                const element = document.createElement('div');
+                element.className = className;
+                element.textContent = text;
+                return element;
+            }
+
+            function render() {
+                const body = document.getElementById('entries');
+                body.replaceChildren();
+
+                for (const entry of state.entries) {
+                    const row = document.createElement('tr');
+                    row.classList.toggle('skipped', state.skipped.has(entry.id));
+
+                    const accept = document.createElement('input');
+                    accept.type = 'checkbox';
+                    accept.checked = !state.skipped.has(entry.id);
+                    accept.addEventListener('change', () => {
+                        accept.checked ? state.skipped.delete(entry.id) : state.skipped.add(entry.id);
+                        row.classList.toggle('skipped', !accept.checked);
+                        updateToolbar();
+                    });
+                    cell(row, accept);
+                    cell(row, div('value', entry.value));
+
+                    const name = document.createElement('input');
+                    name.type = 'text';
+                    name.value = state.names[entry.id];
+                    name.addEventListener('input', () => { state.names[entry.id] = name.value; });
+                    const nameCell = cell(row, name);
+                    if (entry.existing && state.names[entry.id] === entry.existing) {
+                        nameCell.appendChild(div('note', 'Existing label with this value'));
+                    }
+                    if (state.errors[entry.id]) {
+                        nameCell.appendChild(div('error', state.errors[entry.id]));
+                    }
+
+                    const occurrences = entry.occurrences.map((occurrence, index) => {
+                        const link = document.createElement('span');
+                        link.className = 'occurrence';
+                        link.textContent = occurrence;
+                        link.addEventListener('click', () => vscode.postMessage({ type: 'open', id: entry.id, index }));
+                        return link;
+                    });
+                    cell(row, ...occurrences);
+                    body.appendChild(row);
+                }
+
+                updateToolbar();
+            }
+
+            function updateToolbar() {
+                const accepted = state.entries.length - state.skipped.size;
+                document.getElementById('count').textContent = accepted + ' of ' + state.entries.length + ' values accepted';
+                document.getElementById('extract').disabled = accepted === 0;
+            }
+
+            document.getElementById('accept-all').addEventListener('change', event => {
+                state.skipped = event.target.checked ? new Set() : new Set(state.entries.map(entry => entry.id));
+                render();
+            });
+
+            document.getElementById('extract').addEventListener('click', () => {
+                vscode.postMessage({
+                    type: 'extract',
+                    accepted: state.entries.filter(entry => !state.skipped.has(entry.id)).map(entry => ({ id: entry.id, name: state.names[entry.id] })),
+                    categories: document.getElementById('categories').value,
+                    protected: document.getElementById('protected').checked
+                });
+            });
+
+            window.addEventListener('message', event => {
+                if (event.data.type === 'entries') {
+                    state.entries = event.data.entries;
+                    state.skipped = new Set();
+                    state.errors = {};
+                    state.names = Object.fromEntries(state.entries.map(entry => [entry.id, entry.name]));
+                    render();
+                } else if (event.data.type === 'errors') {
+                    state.errors = event.data.errors;
+                    render();
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        </script>
+    </body>
+    </html>`;
+}
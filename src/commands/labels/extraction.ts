@@ -0,0 +1,191 @@
+/**
+ * Pure helpers to find the hard-coded, user-facing string literals of an Apex class and to propose
+ * label API names for them. No vscode dependencies so they can be tested without mocks.
+ */
+import { labelToDeveloperName } from '../permsets/developerName';
+import { MAX_LABEL_API_NAME_LENGTH, MAX_LABEL_VALUE_LENGTH } from './writer';
+
+const MAX_PROPOSED_NAME_WORDS = 5;
+
+// calls whose string arguments are keys, API names, patterns or log messages rather than text shown to users
+const NON_USER_FACING_CALLS = new Set([
+    'contains', 'containskey', 'countquery', 'debug', 'endswith', 'equals', 'equalsignorecase', 'get',
+    'getglobaldescribe', 'getinstance', 'getparameters', 'getsobjecttype', 'getvalues', 'indexof', 'put',
+    'query', 'remove', 'replace', 'replaceall', 'setendpoint', 'setheader', 'setmethod', 'split',
+    'startswith', 'valueof'
+]);
+
+/**
+ * A string literal of an Apex source: offsets of the quotes, unescaped value and where it is used.
+ */
+export interface ApexStringLiteral {
+    start: number;
+    end: number;
+    value: string;
+    // last segment of the innermost call the literal is an argument of, lower case (e.g. `debug`)
+    call?: string;
+    annotation: boolean;
+    query: boolean;
+    comparison: boolean;
+}
+
+/**
+ * Every string literal of the Apex source, comments excluded.
+ */
+export function findApexStringLiterals(text: string): ApexStringLiteral[] {
+    const literals: ApexStringLiteral[] = [];
+    const parentheses: { call?: string; annotation: boolean }[] = [];
+    let bracketDepth = 0;
+    let index = 0;
+
+    while (index < text.length) {
+        const char = text[index];
+
+        if (char === '/' && text[index + 1] === '/') {
+            const lineEnd = text.indexOf('\n', index);
+            index = lineEnd === -1 ? text.length : lineEnd;
+            continue;
+        }
+
+        if (char === '/' && text[index + 1] === '*') {
+            const commentEnd = text.indexOf('*/', index + 2);
+            index = commentEnd === -1 ? text.length : commentEnd + 2;
+            continue;
+        }
+
+        if (char === '\'') {
+            const end = findLiteralEnd(text, index);
+
+            // unterminated literal: skip the rest of the line
+            if (end === undefined) {
+                const lineEnd = text.indexOf('\n', index);
+                index = lineEnd === -1 ? text.length : lineEnd;
+                continue;
+            }
+
+            const lineStart = text.lastIndexOf('\n', index) + 1;
+
+            literals.push({
+                start: index,
+                end,
+                value: unescapeApexString(text.slice(index + 1, end - 1)),
+                call: parentheses[parentheses.length - 1]?.call,
+                annotation: parentheses.some(parenthesis => parenthesis.annotation),
+                query: bracketDepth > 0,
+                comparison: /(?:==|!=|<>)\s*$/.test(text.slice(Math.max(0, index - 10), index))
+                    || /^\s*(?:==|!=|<>)/.test(text.slice(end, end + 10))
+                    || /^\s*when\b/i.test(text.slice(lineStart, index))
+            });
+            index = end;
+            continue;
+        }
+
+        if (char === '(') {
+            const callee = /(@?)([\w.]+)\s*$/.exec(text.slice(Math.max(0, index - 200), index));
+
+            parentheses.push({
+                call: callee?.[2].split('.').pop()?.toLowerCase(),
+                annotation: callee?.[1] === '@'
+            });
+        } else if (char === ')') {
+            parentheses.pop();
+        } else if (char === '[') {
+            bracketDepth++;
+        } else if (char === ']') {
+            bracketDepth = Math.max(0, bracketDepth - 1);
+        }
+
+        index++;
+    }
+
+    return literals;
+}
+
+/**
+ * Offset after the closing quote of the literal opening at `start`, or undefined when it isn't closed on the line.
+ */
+function findLiteralEnd(text: string, start: number): number | undefined {
+    for (let index = start + 1; index < text.length; index++) {
+        if (text[index] === '\\') {
+            index++;
+        } else if (text[index] === '\'') {
+            return index + 1;
+        } else if (text[index] === '\n') {
+            return undefined;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Value of the content of an Apex string literal, escape sequences resolved.
+ */
+export function unescapeApexString(content: string): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+    return content.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_match, escaped: string) => {
+        if (escaped.length === 5) {
+            return String.fromCharCode(parseInt(escaped.slice(1), 16));
+        }
+
+        return escapes[escaped] ?? escaped;
+    });
+}
+
+/**
+ * Whether the literal is likely text shown to users: it has letters and fits in a label, and it isn't
+ * an annotation value, part of a query, compared against, passed to a call such as `System.debug` or `Map.get`,
+ * or a single token that looks like an API name, a key or a path.
+ */
+export function isUserFacingLiteral(literal: ApexStringLiteral): boolean {
+    const value = literal.value.trim();
+
+    if (!value || !/\p{L}/u.test(value) || literal.value.length > MAX_LABEL_VALUE_LENGTH) {
+        return false;
+    }
+
+    if (literal.annotation || literal.query || literal.comparison) {
+        return false;
+    }
+
+    if (literal.call && NON_USER_FACING_CALLS.has(literal.call)) {
+        return false;
+    }
+
+    if (/^(?:SELECT|FIND)\s/i.test(value)) {
+        return false;
+    }
+
+    // a single word is kept when it reads like text: "Cancel", "Error:"
+    return /\s/.test(value) || /^\p{Lu}\p{Ll}*[.!?:]?$/u.test(value);
+}
+
+/**
+ * Whether the Apex source is a test class, whose strings are test data rather than user-facing text.
+ */
+export function isApexTestClass(text: string): boolean {
+    return /^\s*@isTest\b/im.test(text);
+}
+
+/**
+ * Label API name for the value: its first words joined with underscores, prefixed with the namespace,
+ * within the API name length limit and numbered (`_2`, `_3`...) when `isTaken` reports the name as used.
+ */
+export function proposeLabelName(value: string, isTaken: (name: string) => boolean, namespace?: string): string {
+    const words = labelToDeveloperName(value).split('_').filter(word => word.length > 0).slice(0, MAX_PROPOSED_NAME_WORDS);
+    const base = labelToDeveloperName([namespace, ...(words.length > 0 ? words : ['Label'])].filter(Boolean).join('_'));
+    let name = truncateName(base, MAX_LABEL_API_NAME_LENGTH);
+
+    for (let counter = 2; isTaken(name); counter++) {
+        const suffix = `_${counter}`;
+
+        name = truncateName(base, MAX_LABEL_API_NAME_LENGTH - suffix.length) + suffix;
+    }
+
+    return name;
+}
+
+function truncateName(name: string, maxLength: number): string {
+    return name.slice(0, maxLength).replace(/_+$/, '');
+}
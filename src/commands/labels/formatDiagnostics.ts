@@ -0,0 +1,91 @@
+/**
+ * Diagnostics on `String.format` calls of open Apex files whose label value expects a different number
+ * of arguments than the list passed to the call.
+ */
+import * as vscode from 'vscode';
+import labels from '../../labels';
+import { getProjectNamespace, getSalesforceLabelsStore } from './load';
+import { getDocumentLabelReferenceKind } from './navigation';
+import { findLabelFormatCalls, getExpectedArgumentCount } from './stringFormat';
+import { isLocalLabelReference } from './usage';
+
+const FORMAT_ARGUMENTS_CODE = `${labels.misc.EXTENSION_NAME}.formatArguments`;
+const DOCUMENT_DEBOUNCE_MS = 500;
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+const pendingDocuments = new Map<string, ReturnType<typeof setTimeout>>();
+
+export function activateLabelFormatDiagnostics(context: vscode.ExtensionContext) {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection(`${labels.misc.EXTENSION_NAME}.labelFormat`);
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        vscode.workspace.onDidOpenTextDocument(document => scheduleDocumentCheck(document)),
+        vscode.workspace.onDidChangeTextDocument(event => scheduleDocumentCheck(event.document)),
+        vscode.workspace.onDidCloseTextDocument(document => diagnosticCollection?.delete(document.uri)),
+        // label values may have changed, recheck every open file
+        getSalesforceLabelsStore().onDidChange(() => vscode.workspace.textDocuments.forEach(checkDocument)),
+        {
+            dispose: () => {
+                pendingDocuments.forEach(timeout => clearTimeout(timeout));
+                pendingDocuments.clear();
+            }
+        }
+    );
+
+    vscode.workspace.textDocuments.forEach(checkDocument);
+}
+
+function scheduleDocumentCheck(document: vscode.TextDocument) {
+    if (getDocumentLabelReferenceKind(document) !== 'apex') {
+        return;
+    }
+
+    const key = document.uri.toString();
+    const pending = pendingDocuments.get(key);
+
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingDocuments.set(key, setTimeout(() => {
+        pendingDocuments.delete(key);
+        checkDocument(document);
+    }, DOCUMENT_DEBOUNCE_MS));
+}
+
+function checkDocument(document: vscode.TextDocument) {
+    if (!diagnosticCollection || document.isClosed || getDocumentLabelReferenceKind(document) !== 'apex') {
+        return;
+    }
+
+    const store = getSalesforceLabelsStore();
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const call of findLabelFormatCalls(document.getText())) {
+        const fullName = isLocalLabelReference(call.reference, getProjectNamespace()) ? store.resolveFullName(call.reference.name) : undefined;
+
+        // arguments held in a variable can't be counted
+        if (!fullName || !call.arguments) {
+            continue;
+        }
+
+        const expected = getExpectedArgumentCount(store.salesforceLabels[fullName].value.toString());
+
+        if (call.arguments.length === expected) {
+            continue;
+        }
+
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(document.positionAt(call.argumentsStart), document.positionAt(call.argumentsEnd)),
+            labels.warningMessages.FORMAT_ARGUMENT_COUNT_MISMATCH(fullName, expected, call.arguments.length),
+            vscode.DiagnosticSeverity.Warning
+        );
+
+        diagnostic.source = labels.misc.EXTENSION_SOURCE_NAME;
+        diagnostic.code = FORMAT_ARGUMENTS_CODE;
+        diagnostics.push(diagnostic);
+    }
+
+    diagnosticCollection.set(document.uri, diagnostics);
+}
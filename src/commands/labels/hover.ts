@@ -1,24 +1,31 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { getSalesforceLabelsStore } from './load';
+import { getProjectNamespace, getSalesforceLabelsStore } from './load';
+import labels from '../../labels';
+import { getDocumentLabelReferenceKind, getLabelNameAt, LABEL_SOURCE_SELECTOR } from './navigation';
+import { findLabelFormatCalls, renderFormattedValue } from './stringFormat';
+import { isLocalLabelReference } from './usage';
 
 export async function getProvider() {
-    // Register a hover provider for showing label information in Apex files
+    // Register a hover provider for showing label information in Apex, LWC, Aura and Visualforce files
     const labelHoverProvider = vscode.languages.registerHoverProvider(
-        [
-            { scheme: 'file', pattern: '**/*.cls' },
-            { scheme: 'file', language: 'apex' }
-        ],
+        LABEL_SOURCE_SELECTOR,
         {
             provideHover(document, position) {
-                const wordRange = document.getWordRangeAtPosition(position, /(?:label|system\.label)\.(\w+)/gi);
+                const labelAtPosition = getLabelNameAt(document, position);
 
-                if (!wordRange) {
+                // labels of other namespaces (e.g. managed packages) are not in the workspace
+                if (!labelAtPosition || !isLocalLabelReference(labelAtPosition, getProjectNamespace())) {
                     return undefined;
                 }
 
-                const text = document.getText(wordRange);
-                const labelName = text.replaceAll(/(?:label|system\.label)\./gi, '');
-                const label = getSalesforceLabelsStore().salesforceLabels[labelName];
+                const labelStore = getSalesforceLabelsStore();
+
+                // label names are case-insensitive in Apex only
+                const labelName = getDocumentLabelReferenceKind(document) === 'apex'
+                    ? labelStore.resolveFullName(labelAtPosition.name) ?? labelAtPosition.name
+                    : labelAtPosition.name;
+                const label = labelStore.salesforceLabels[labelName];
 
                 if (!label) {
                     return undefined;
@@ -29,6 +36,19 @@ export async function getProvider() {
                 hoverContent.appendMarkdown(`**Label Name:** ${labelName}\n\n`);
                 hoverContent.appendMarkdown(`**Value:** ${label.value}\n\n`);
 
+                // inside String.format, preview the value with the argument expressions in place of the placeholders
+                if (getDocumentLabelReferenceKind(document) === 'apex') {
+                    const offset = document.offsetAt(position);
+                    const formatCall = findLabelFormatCalls(document.getText())
+                        .find(call => call.reference.start <= offset && offset <= call.reference.end);
+
+                    if (formatCall?.arguments) {
+                        const formatted = renderFormattedValue(label.value.toString(), formatCall.arguments.map(argument => `\`${argument.text}\``));
+
+                        hoverContent.appendMarkdown(`**${labels.commands.FORMATTED_VALUE}:** ${formatted}\n\n`);
+                    }
+                }
+
                 if (label.categories) {
                     hoverContent.appendMarkdown(`**Category:** ${label.categories}\n\n`);
                 }
@@ -45,9 +65,37 @@ export async function getProvider() {
                     hoverContent.appendMarkdown(`**Language:** ${label.language || 'N/A'}\n\n`);
                 }
 
+                const translations = labelStore.getTranslations(labelName);
+
+                if (translations.length > 0) {
+                    hoverContent.appendMarkdown(`**${labels.commands.TRANSLATIONS}:**\n\n`);
+
+                    for (const translation of translations) {
+                        hoverContent.appendMarkdown(`- \`${translation.language}\`: ${translation.value}\n`);
+                    }
+
+                    hoverContent.appendMarkdown('\n');
+                }
+
+                const sourcePath = vscode.workspace.asRelativePath(label.source.filePath);
+                const openArgs = encodeURIComponent(JSON.stringify([vscode.Uri.file(label.source.filePath)]));
+
+                hoverContent.appendMarkdown(`**Source:** ${labels.commands.LABEL_SOURCE_DESCRIPTION(sourcePath, label.source.packageDirectory)}\n\n`);
+                const translateArgs = encodeURIComponent(JSON.stringify([{ fullName: labelName }]));
+
+                hoverContent.appendMarkdown(`[${labels.commands.OPEN_LABEL_DEFINITION(path.basename(label.source.filePath))}](command:vscode.open?${openArgs}) | `);
+                hoverContent.appendMarkdown(`[${labels.commands.EDIT_TRANSLATION}](command:${labels.misc.EXTENSION_NAME}.editLabelTranslation?${translateArgs})\n\n`);
+
+                const otherDefinitions = labelStore.getDefinitions(labelName).filter(definition => definition !== label);
+
+                if (otherDefinitions.length > 0) {
+                    hoverContent.appendMarkdown(`$(warning) ${labels.commands.ALSO_DEFINED_IN(otherDefinitions.map(definition => vscode.workspace.asRelativePath(definition.source.filePath)))}\n\n`);
+                    hoverContent.supportThemeIcons = true;
+                }
+
                 hoverContent.isTrusted = true;
 
-                return new vscode.Hover(hoverContent, wordRange);
+                return new vscode.Hover(hoverContent, labelAtPosition.range);
             }
         }
     );
@@ -1,51 +1,16 @@
 import * as vscode from 'vscode';
-import * as xml2js from 'xml2js';
 import { getProvider as getHoverProvider } from './hover';
 import { getCompletionProvider } from './completions';
 import labels from '../../labels';
 import { getLabelCreateOnCodeActionProvider } from './create';
+import { getDefinitionProvider, getReferenceProvider } from './navigation';
+import { getRenameProvider } from './rename';
 import { checkIfWorkspaceIsValidSfdxProject } from '../shared/utilities';
+import CustomLabel, { LabelSource, SalesforceLabelsStore } from './store';
+import { findPackageDirectory, getPackageDirectoryPaths, isLabelMetadataFile, parseLabelFileContent } from './parse';
+import { getTranslationLanguage, isTranslationFile, parseTranslationFileContent } from './translations';
 
-export default interface CustomLabel {
-    fullName: String;
-    value: String;
-    categories?: String;
-    language?: String;
-    protected?: Boolean;
-    shortDescription?: String;
-    // eslint-disable-next-line semi
-};
-
-interface LabelMap {
-    [fullName: string]: CustomLabel;
-}
-
-class SalesforceLabelsStore {
-    private static instance: SalesforceLabelsStore;
-    public salesforceLabels: LabelMap = {};
-
-    private constructor() { }
-
-    public static getInstance(): SalesforceLabelsStore {
-        if (!SalesforceLabelsStore.instance) {
-            SalesforceLabelsStore.instance = new SalesforceLabelsStore();
-        }
-
-        return SalesforceLabelsStore.instance;
-    }
-
-    public updateLabel(fullName: string, label: CustomLabel) {
-        this.salesforceLabels[fullName] = label;
-    }
-
-    public getAllLabels(): CustomLabel[] {
-        return Object.values(this.salesforceLabels).sort();
-    }
-
-    public clear() {
-        this.salesforceLabels = {};
-    }
-}
+export type { default } from './store';
 
 export let activeLabelCategories: String[] = [];
 export let labelFiles = [] as vscode.Uri[];
@@ -58,6 +23,18 @@ export function getSalesforceLabelsStore(): SalesforceLabelsStore {
 let labelCompletionProviderDisposable: vscode.Disposable | undefined;
 let labelHoverProviderDisposable: vscode.Disposable | undefined;
 let labelContextMenuProvider: vscode.Disposable | undefined;
+let labelDefinitionProviderDisposable: vscode.Disposable | undefined;
+let labelReferenceProviderDisposable: vscode.Disposable | undefined;
+let labelRenameProviderDisposable: vscode.Disposable | undefined;
+let labelFileWatchers: vscode.Disposable[] | undefined;
+
+// package directories and namespace from sfdx-project.json, as of the last full load
+let knownPackageDirectories: string[] = [];
+let projectNamespace: string | undefined;
+
+// pending re-parses per file, so a burst of watcher events (e.g. a retrieve) parses each file once
+const pendingReloads = new Map<string, ReturnType<typeof setTimeout>>();
+const RELOAD_DEBOUNCE_MS = 200;
 
 export async function activate(context: vscode.ExtensionContext, silent: boolean = false) {
     const commands = await vscode.commands.getCommands(true);
@@ -72,10 +49,175 @@ export async function activate(context: vscode.ExtensionContext, silent: boolean
     // Load labels from the XML file
     await loadLabelsInWorkspace(silent);
 
-    // load providers that depend on the context
-    loadCompletionProvider(context);
-    loadHoverProvider(context);
-    loadQuickFixProvider(context);
+    // keep the store in sync with label files edited by hand or by retrieves
+    if (!labelFileWatchers) {
+        labelFileWatchers = watchLabelFiles();
+        context.subscriptions.push(...labelFileWatchers);
+    }
+
+    // load providers that depend on the context, they read from the store so they are registered only once
+    if (!labelCompletionProviderDisposable) {
+        loadCompletionProvider(context);
+    }
+    if (!labelHoverProviderDisposable) {
+        loadHoverProvider(context);
+    }
+    if (!labelContextMenuProvider) {
+        loadQuickFixProvider(context);
+    }
+    if (!labelDefinitionProviderDisposable) {
+        loadDefinitionProvider(context);
+    }
+    if (!labelReferenceProviderDisposable) {
+        loadReferenceProvider(context);
+    }
+    if (!labelRenameProviderDisposable) {
+        loadRenameProvider(context);
+    }
+}
+
+function watchLabelFiles(): vscode.Disposable[] {
+    const watchers = [
+        vscode.workspace.createFileSystemWatcher('**/labels/*.labels-meta.xml'),
+        vscode.workspace.createFileSystemWatcher('**/labels/*.label-meta.xml'),
+        vscode.workspace.createFileSystemWatcher('**/translations/*.translation-meta.xml')
+    ];
+
+    for (const watcher of watchers) {
+        watcher.onDidCreate(uri => scheduleLabelFileReload(uri));
+        watcher.onDidChange(uri => scheduleLabelFileReload(uri));
+        watcher.onDidDelete(uri => isTranslationFile(uri.fsPath) ? removeTranslationFile(uri) : removeLabelFile(uri));
+    }
+
+    return [
+        ...watchers,
+        {
+            dispose: () => {
+                pendingReloads.forEach(timeout => clearTimeout(timeout));
+                pendingReloads.clear();
+            }
+        }
+    ];
+}
+
+function isWatchedLabelFile(uri: vscode.Uri): boolean {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+
+    if (!workspaceFolders || !(isLabelMetadataFile(uri.fsPath) || isTranslationFile(uri.fsPath)) || uri.fsPath.includes('node_modules')) {
+        return false;
+    }
+
+    // only files inside a package directory are loaded, same as the full load
+    return knownPackageDirectories.length === 0 ||
+        !!findPackageDirectory(uri.fsPath, workspaceFolders[0].uri.fsPath, knownPackageDirectories);
+}
+
+function scheduleLabelFileReload(uri: vscode.Uri) {
+    if (!isWatchedLabelFile(uri)) {
+        return;
+    }
+
+    const pending = pendingReloads.get(uri.fsPath);
+
+    if (pending) {
+        clearTimeout(pending);
+    }
+
+    pendingReloads.set(uri.fsPath, setTimeout(() => {
+        pendingReloads.delete(uri.fsPath);
+
+        const reload = isTranslationFile(uri.fsPath) ? reloadTranslationFile(uri) : reloadLabelFile(uri);
+
+        reload.catch(err => console.error(`Failed to reload labels from ${uri.fsPath}:`, err));
+    }, RELOAD_DEBOUNCE_MS));
+}
+
+/**
+ * Re-parse a single label file and replace its labels in the store.
+ */
+export async function reloadLabelFile(uri: vscode.Uri) {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+
+    if (!workspaceFolders) {
+        return;
+    }
+
+    let labelFileString: string;
+
+    try {
+        labelFileString = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        // the file is gone by the time we got to read it
+        removeLabelFile(uri);
+        return;
+    }
+
+    if (!labelFiles.some(labelFile => labelFile.fsPath === uri.fsPath)) {
+        labelFiles = [...labelFiles, uri];
+    }
+
+    await parseLabelFile(labelFileString, {
+        filePath: uri.fsPath,
+        packageDirectory: findPackageDirectory(uri.fsPath, workspaceFolders[0].uri.fsPath, knownPackageDirectories)
+    }, true);
+
+    refreshActiveLabelCategories();
+}
+
+function removeLabelFile(uri: vscode.Uri) {
+    const pending = pendingReloads.get(uri.fsPath);
+
+    if (pending) {
+        clearTimeout(pending);
+        pendingReloads.delete(uri.fsPath);
+    }
+
+    labelFiles = labelFiles.filter(labelFile => labelFile.fsPath !== uri.fsPath);
+
+    if (salesforceLabelsStore.removeFile(uri.fsPath)) {
+        refreshActiveLabelCategories();
+    }
+}
+
+/**
+ * Re-parse a single Translations file and replace its label translations in the store.
+ */
+export async function reloadTranslationFile(uri: vscode.Uri) {
+    let translationFileString: string;
+
+    try {
+        translationFileString = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+    } catch {
+        removeTranslationFile(uri);
+        return;
+    }
+
+    await parseTranslationFile(translationFileString, uri.fsPath);
+}
+
+function removeTranslationFile(uri: vscode.Uri) {
+    const pending = pendingReloads.get(uri.fsPath);
+
+    if (pending) {
+        clearTimeout(pending);
+        pendingReloads.delete(uri.fsPath);
+    }
+
+    salesforceLabelsStore.removeTranslationFile(uri.fsPath);
+}
+
+async function parseTranslationFile(translationFileString: string, filePath: string) {
+    try {
+        const entries = await parseTranslationFileContent(translationFileString);
+
+        salesforceLabelsStore.setFileTranslations(filePath, getTranslationLanguage(filePath), entries);
+    } catch (err) {
+        console.error(labels.warningMessages.FAILED_TO_PARSE_FILE_AT_PATH(filePath, err as Error));
+    }
+}
+
+function refreshActiveLabelCategories() {
+    activeLabelCategories = salesforceLabelsStore.getCategories();
 }
 
 export async function loadCompletionProvider(context: vscode.ExtensionContext) {
@@ -83,7 +225,7 @@ export async function loadCompletionProvider(context: vscode.ExtensionContext) {
         labelCompletionProviderDisposable.dispose();
     }
 
-    labelCompletionProviderDisposable = await getCompletionProvider();
+    labelCompletionProviderDisposable = await getCompletionProvider(context);
 
     if (labelCompletionProviderDisposable) {
         context.subscriptions.push(labelCompletionProviderDisposable);
@@ -114,6 +256,42 @@ export async function loadQuickFixProvider(context: vscode.ExtensionContext) {
     }
 }
 
+export async function loadDefinitionProvider(context: vscode.ExtensionContext) {
+    if (labelDefinitionProviderDisposable) {
+        labelDefinitionProviderDisposable.dispose();
+    }
+
+    labelDefinitionProviderDisposable = await getDefinitionProvider();
+
+    if (labelDefinitionProviderDisposable) {
+        context.subscriptions.push(labelDefinitionProviderDisposable);
+    }
+}
+
+export async function loadReferenceProvider(context: vscode.ExtensionContext) {
+    if (labelReferenceProviderDisposable) {
+        labelReferenceProviderDisposable.dispose();
+    }
+
+    labelReferenceProviderDisposable = await getReferenceProvider();
+
+    if (labelReferenceProviderDisposable) {
+        context.subscriptions.push(labelReferenceProviderDisposable);
+    }
+}
+
+export async function loadRenameProvider(context: vscode.ExtensionContext) {
+    if (labelRenameProviderDisposable) {
+        labelRenameProviderDisposable.dispose();
+    }
+
+    labelRenameProviderDisposable = await getRenameProvider();
+
+    if (labelRenameProviderDisposable) {
+        context.subscriptions.push(labelRenameProviderDisposable);
+    }
+}
+
 async function loadLabelsInWorkspace(silent: boolean = false) {
     const workspaceFolders = vscode.workspace.workspaceFolders;
 
@@ -133,104 +311,191 @@ async function loadLabelsInWorkspace(silent: boolean = false) {
         return;
     }
 
-    // Search for both standard and decomposed metadata label files
-    const labelFilesPromise = Promise.all([
-        vscode.workspace.findFiles('**/force-app/**/labels/*.labels-meta.xml'),
-        vscode.workspace.findFiles('**/force-app/**/labels/*.label-meta.xml')
-    ]);
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    const sfdxProject = await readSfdxProject(workspaceRoot);
+    const packageDirectories = getPackageDirectoryPaths(sfdxProject);
+    knownPackageDirectories = packageDirectories;
+    projectNamespace = sfdxProject.namespace || undefined;
 
-    const [standardLabelFiles, decomposedLabelFiles] = await labelFilesPromise;
-    labelFiles = [...standardLabelFiles, ...decomposedLabelFiles];
+    // Search for both standard and decomposed metadata label files in every package directory
+    const searchRoots = packageDirectories.length > 0 ? packageDirectories : ['**'];
+    const labelFilesPromise = Promise.all(searchRoots.map(searchRoot => Promise.all([
+        vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolders[0], `${searchRoot}/**/labels/*.labels-meta.xml`), '**/node_modules/**'),
+        vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolders[0], `${searchRoot}/**/labels/*.label-meta.xml`), '**/node_modules/**')
+    ])));
 
-    if (labelFiles.length === 0) {
-        if (!silent) {
-            vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILES_FOUND);
+    const foundLabelFiles = (await labelFilesPromise).flat(2);
+    labelFiles = foundLabelFiles.filter((uri, index) => foundLabelFiles.findIndex(other => other.fsPath === uri.fsPath) === index);
+
+    // the store rebuilds its index and notifies its listeners once, after every file is loaded
+    salesforceLabelsStore.beginUpdate();
+
+    try {
+        // forget files that no longer exist, keep the rest until they are re-parsed
+        const currentPaths = new Set(labelFiles.map(uri => uri.fsPath));
+
+        for (const filePath of salesforceLabelsStore.getFilePaths()) {
+            if (!currentPaths.has(filePath)) {
+                salesforceLabelsStore.removeFile(filePath);
+            }
         }
 
-        return;
+        if (labelFiles.length === 0) {
+            if (!silent) {
+                vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILES_FOUND);
+            }
+
+            return;
+        }
+
+        for (const labelFileUri of labelFiles) {
+            try {
+                const labelFileContent = await vscode.workspace.fs.readFile(labelFileUri);
+                const labelFileString = new TextDecoder('utf-8').decode(labelFileContent);
+                const source: LabelSource = {
+                    filePath: labelFileUri.fsPath,
+                    packageDirectory: findPackageDirectory(labelFileUri.fsPath, workspaceRoot, packageDirectories)
+                };
+
+                await parseLabelFile(labelFileString, source, silent);
+            } catch (err) {
+                vscode.window.showWarningMessage(labels.warningMessages.FAILED_TO_LOAD_LABELS_AT_PATH(labelFileUri.fsPath, err as Error));
+            }
+        }
+
+        await loadTranslationsInWorkspace(workspaceFolders[0], searchRoots);
+    } finally {
+        salesforceLabelsStore.endUpdate();
     }
 
-    for (const labelFileUri of labelFiles) {
-        try {
-            const labelFileContent = await vscode.workspace.fs.readFile(labelFileUri);
-            const labelFileString = new TextDecoder('utf-8').decode(labelFileContent);
+    refreshActiveLabelCategories();
 
-            salesforceLabelsStore.clear();
+    reportDuplicateLabels(silent);
+}
+
+/**
+ * Load the custom label translations of every Translations file in the package directories.
+ */
+async function loadTranslationsInWorkspace(workspaceFolder: vscode.WorkspaceFolder, searchRoots: string[]) {
+    const foundTranslationFiles = (await Promise.all(searchRoots.map(searchRoot =>
+        vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, `${searchRoot}/**/translations/*.translation-meta.xml`), '**/node_modules/**')
+    ))).flat();
+    const currentPaths = new Set(foundTranslationFiles.map(uri => uri.fsPath));
+
+    for (const filePath of salesforceLabelsStore.getTranslationFilePaths()) {
+        if (!currentPaths.has(filePath)) {
+            salesforceLabelsStore.removeTranslationFile(filePath);
+        }
+    }
+
+    for (const filePath of currentPaths) {
+        try {
+            const translationFileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
 
-            parseLabelFile(labelFileString, labelFileUri.fsPath, silent);
+            await parseTranslationFile(new TextDecoder('utf-8').decode(translationFileContent), filePath);
         } catch (err) {
-            vscode.window.showWarningMessage(labels.warningMessages.FAILED_TO_LOAD_LABELS_AT_PATH(labelFileUri.fsPath, err as Error));
+            console.error(labels.warningMessages.FAILED_TO_LOAD_LABELS_AT_PATH(filePath, err as Error));
         }
     }
 }
 
-function parseLabelFile(labelFileString: string, filePath: string, silent: boolean = false) {
-    xml2js.parseString(labelFileString, async (err: any, result: { CustomLabels: { labels: any; }; }) => {
-        if (err) {
-            vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_PARSE_FILE_AT_PATH(filePath, err));
+async function readSfdxProject(workspaceRoot: string): Promise<{ packageDirectories?: { path?: string }[]; namespace?: string }> {
+    try {
+        const sfdxProjectContent = await vscode.workspace.fs.readFile(vscode.Uri.file(`${workspaceRoot}/sfdx-project.json`));
 
-            return;
-        }
+        return JSON.parse(new TextDecoder('utf-8').decode(sfdxProjectContent));
+    } catch {
+        return {};
+    }
+}
 
-        const customLabels = result.CustomLabels.labels;
-        const labelsCount = customLabels.length;
+/**
+ * `salesforce.namespace` and `salesforce.labels.defaultLanguage` from the workspace's package.json, if any.
+ */
+export async function readPackageJsonSalesforceSettings(): Promise<{ namespace?: string; defaultLanguage?: string }> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 
-        if (!silent) {
-            const showLoadingLabelsProgressNotification = vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: labels.informationMessages.LOADING_LABELS_FROM_PATH(labelsCount, filePath),
-                cancellable: false
-            }, async (progress: vscode.Progress<{ message?: string; increment?: number }>) => {
-                const startTime = Date.now();
-                const categories: string[] = [];
-
-                // Process all labels
-                await processLabelsIntoStorage(customLabels, silent, progress);
-
-                activeLabelCategories = Array.from(new Set(categories));
-                const elapsedTime = Date.now() - startTime;
-
-                if (elapsedTime < 50) {
-                    await new Promise(resolve => setTimeout(resolve, 50 - elapsedTime));
-                }
-            });
+    if (!workspaceFolder) {
+        return {};
+    }
 
-            showLoadingLabelsProgressNotification.then(() => {
-                if (!silent) {
-                    vscode.window.showInformationMessage(labels.informationMessages.PARSED_LABELS_FROM_FILE(labelsCount));
-                }
-            });
+    try {
+        const packageJson = JSON.parse(new TextDecoder('utf-8').decode(
+            await vscode.workspace.fs.readFile(vscode.Uri.joinPath(workspaceFolder.uri, 'package.json'))
+        ));
+
+        return {
+            namespace: packageJson.salesforce?.namespace || undefined,
+            defaultLanguage: packageJson.salesforce?.labels?.defaultLanguage || undefined
+        };
+    } catch {
+        return {};
+    }
+}
 
-            return;
-        }
+/**
+ * Namespace declared in sfdx-project.json, if any.
+ */
+export function getProjectNamespace(): string | undefined {
+    return projectNamespace;
+}
 
-        await processLabelsIntoStorage(customLabels, silent, undefined);
+function reportDuplicateLabels(silent: boolean) {
+    const duplicates = salesforceLabelsStore.getDuplicates();
 
-        if (labelsCount === 0) {
-            if (!silent) {
-                vscode.window.showInformationMessage(labels.informationMessages.NO_LABELS_IN_FILE(filePath));
-            }
-        }
-    });
+    if (!silent && duplicates.length > 0) {
+        vscode.window.showWarningMessage(labels.warningMessages.DUPLICATE_LABELS_FOUND(duplicates.map(duplicate => duplicate.fullName)));
+    }
+}
 
-    async function processLabelsIntoStorage(customLabels: any, silent: boolean = false, progress?: vscode.Progress<{ message?: string; increment?: number }>) {
-        const categories: string[] = [];
-        const labelsCount = customLabels.length;
+async function parseLabelFile(labelFileString: string, source: LabelSource, silent: boolean = false) {
+    const filePath = source.filePath;
+    let customLabels: CustomLabel[];
 
-        for (let i = 0; i < customLabels.length; i++) {
-            const label = customLabels[i];
+    try {
+        customLabels = await parseLabelFileContent(labelFileString, filePath);
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_PARSE_FILE_AT_PATH(filePath, err as Error));
+
+        return;
+    }
+
+    const labelsCount = customLabels.length;
 
-            salesforceLabelsStore.updateLabel(label.fullName, label);
+    if (!silent) {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: labels.informationMessages.LOADING_LABELS_FROM_PATH(labelsCount, filePath),
+            cancellable: false
+        }, async (progress: vscode.Progress<{ message?: string; increment?: number }>) => {
+            const startTime = Date.now();
 
-            if (label.categories) {
-                const cats = label.categories[0].split(',').map((category: string) => category.trim());
+            // Process all labels
+            await processLabelsIntoStorage(customLabels, progress);
 
-                categories.push(...cats);
+            const elapsedTime = Date.now() - startTime;
+
+            if (elapsedTime < 50) {
+                await new Promise(resolve => setTimeout(resolve, 50 - elapsedTime));
             }
+        });
+
+        if (labelsCount === 0) {
+            vscode.window.showInformationMessage(labels.informationMessages.NO_LABELS_IN_FILE(filePath));
+        } else {
+            vscode.window.showInformationMessage(labels.informationMessages.PARSED_LABELS_FROM_FILE(labelsCount));
+        }
+
+        return;
+    }
+
+    await processLabelsIntoStorage(customLabels, undefined);
 
+    async function processLabelsIntoStorage(customLabels: CustomLabel[], progress?: vscode.Progress<{ message?: string; increment?: number }>) {
+        for (let i = 0; i < customLabels.length; i++) {
             // Update progress bar
             progress?.report({
-                message: `Loaded label ${label.fullName} (${i + 1}/${labelsCount})`,
+                message: `Loaded label ${customLabels[i].fullName} (${i + 1}/${labelsCount})`,
                 increment: 100 / labelsCount
             });
 
@@ -239,11 +504,14 @@ function parseLabelFile(labelFileString: string, filePath: string, silent: boole
                 await new Promise(resolve => setTimeout(resolve, 1));
             }
         }
+
+        // labels from this file replace whatever was loaded from it before
+        salesforceLabelsStore.setFileLabels(source, customLabels);
     }
 }
 
 export function deactivate() {
     // Clean up if needed
-    salesforceLabelsStore.salesforceLabels = {};
+    salesforceLabelsStore.clear();
     activeLabelCategories = [];
 }
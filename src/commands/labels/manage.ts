@@ -0,0 +1,479 @@
+/**
+ * "Manage Custom Labels" webview: a sortable, filterable table of every label in the store with
+ * inline editing, rename, delete and bulk category changes written back to the label files.
+ */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import CustomLabel, { getSalesforceLabelsStore, reloadLabelFile, reloadTranslationFile } from './load';
+import labels from '../../labels';
+import { applyLabelChanges, LabelChange, toCustomLabel } from './edit';
+import { getLabelDefinitionLocations } from './navigation';
+import { changeCategories } from './parse';
+import { buildLabelRenameEdit } from './rename';
+import type { StoredCustomLabel } from './store';
+import { getDecomposedLabelFileName, validateLabelApiName } from './writer';
+
+const COMMAND_NAME = 'manageCustomLabels';
+const EDITABLE_FIELDS = ['value', 'categories', 'language', 'shortDescription', 'protected'] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number];
+type CategoryChangeMode = 'replace' | 'add' | 'remove';
+
+type LabelManagerMessage =
+    | { type: 'ready' }
+    | { type: 'update'; fullName: string; field: EditableField; value: string | boolean }
+    | { type: 'rename'; fullName: string }
+    | { type: 'delete'; fullNames: string[] }
+    | { type: 'categorize'; fullNames: string[]; mode: CategoryChangeMode }
+    | { type: 'open'; fullName: string };
+
+let panel: vscode.WebviewPanel | undefined;
+
+export async function activateLabelManager(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand(commandFullName, showLabelManager));
+}
+
+function showLabelManager() {
+    if (panel) {
+        panel.reveal();
+        return;
+    }
+
+    panel = vscode.window.createWebviewPanel(
+        'sfCustomLabels',
+        labels.commands.MANAGE_LABELS_TITLE,
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    // keep the table in sync with the store, whether labels change here, in the files or through other commands
+    const storeListener = getSalesforceLabelsStore().onDidChange(() => postLabels());
+
+    panel.webview.onDidReceiveMessage((message: LabelManagerMessage) => {
+        handleMessage(message).catch(err => vscode.window.showErrorMessage(String(err)));
+    });
+    panel.onDidDispose(() => {
+        storeListener.dispose();
+        panel = undefined;
+    });
+
+    panel.webview.html = getWebviewContent();
+}
+
+function postLabels() {
+    panel?.webview.postMessage({
+        type: 'labels',
+        labels: getSalesforceLabelsStore().getAllLabels().map(label => ({
+            fullName: label.fullName.toString(),
+            value: label.value.toString(),
+            categories: label.categories?.toString() ?? '',
+            language: label.language?.toString() ?? '',
+            protected: label.protected?.valueOf() ?? false,
+            shortDescription: label.shortDescription?.toString() ?? '',
+            source: vscode.workspace.asRelativePath(label.source.filePath)
+        }))
+    });
+}
+
+async function handleMessage(message: LabelManagerMessage) {
+    const store = getSalesforceLabelsStore();
+
+    switch (message.type) {
+        case 'ready':
+            postLabels();
+            return;
+        case 'open': {
+            const [location] = await getLabelDefinitionLocations(message.fullName);
+
+            if (location) {
+                await vscode.window.showTextDocument(location.uri, { selection: location.range, viewColumn: vscode.ViewColumn.Beside });
+            }
+            return;
+        }
+        case 'update': {
+            const label = store.salesforceLabels[message.fullName];
+
+            if (!label || !EDITABLE_FIELDS.includes(message.field)) {
+                return;
+            }
+
+            if (message.field === 'value' && String(message.value).trim().length === 0) {
+                vscode.window.showErrorMessage(labels.warningMessages.LABEL_VALUE_REQUIRED);
+                postLabels();
+                return;
+            }
+
+            const updated: CustomLabel = {
+                ...toCustomLabel(label),
+                [message.field]: message.field === 'protected' ? !!message.value : String(message.value)
+            };
+
+            await saveChanges([{ fullName: message.fullName, label: updated }]);
+            return;
+        }
+        case 'rename': {
+            const label = store.salesforceLabels[message.fullName];
+
+            if (!label) {
+                return;
+            }
+
+            const newFullName = await vscode.window.showInputBox({
+                prompt: labels.commands.RENAME_LABEL_PROMPT(message.fullName),
+                value: message.fullName,
+                validateInput: value => {
+                    if (value === message.fullName) {
+                        return undefined;
+                    }
+
+                    return validateLabelApiName(value) ?? (store.resolveFullName(value) ? labels.warningMessages.LABEL_NAME_ALREADY_USED(value) : undefined);
+                }
+            });
+
+            if (!newFullName || newFullName === message.fullName) {
+                return;
+            }
+
+            await renameLabel(message.fullName, newFullName);
+            return;
+        }
+        case 'delete': {
+            if (message.fullNames.length === 0) {
+                return;
+            }
+
+            const confirmation = await vscode.window.showWarningMessage(
+                labels.commands.CONFIRM_DELETE_LABELS(message.fullNames),
+                { modal: true },
+                labels.misc.YES
+            );
+
+            if (confirmation !== labels.misc.YES) {
+                return;
+            }
+
+            await saveChanges(message.fullNames.map(fullName => ({ fullName })));
+            return;
+        }
+        case 'categorize': {
+            if (message.fullNames.length === 0) {
+                return;
+            }
+
+            const input = await vscode.window.showInputBox({
+                prompt: labels.commands.CHANGE_CATEGORIES_PROMPT(message.mode, message.fullNames.length),
+                placeHolder: labels.commands.SELECT_CATEGORIES_PLACEHOLDER
+            });
+
+            if (input === undefined) {
+                return;
+            }
+
+            const categories = input.split(',');
+            const changes: LabelChange[] = message.fullNames
+                .map(fullName => store.salesforceLabels[fullName])
+                .filter((label): label is StoredCustomLabel => !!label)
+                .map(label => ({
+                    fullName: label.fullName.toString(),
+                    label: { ...toCustomLabel(label), categories: changeCategories(label.categories, categories, message.mode) }
+                }));
+
+            await saveChanges(changes);
+            return;
+        }
+    }
+}
+
+/**
+ * Rename the label like Rename Symbol does: definitions, references and translations in one edit. The files
+ * the edit touches are saved, except those with unsaved changes before, and the label files are reloaded.
+ */
+async function renameLabel(fullName: string, newFullName: string) {
+    const store = getSalesforceLabelsStore();
+    const edit = await buildLabelRenameEdit(fullName, newFullName);
+    const labelFilePaths = store.getDefinitions(fullName).map(definition => definition.source.filePath);
+    const translationFilePaths = store.getTranslations(fullName).map(translation => translation.filePath);
+    // decomposed label files are renamed after the label, the saved document is the renamed one
+    const renamedPaths = new Map(labelFilePaths
+        .filter(filePath => path.basename(filePath) === getDecomposedLabelFileName(fullName))
+        .map(filePath => [filePath, path.join(path.dirname(filePath), getDecomposedLabelFileName(newFullName))]));
+    const dirtyPaths = new Set(vscode.workspace.textDocuments.filter(document => document.isDirty).map(document => document.uri.fsPath));
+    const pathsToSave = new Set(edit.entries()
+        .map(([uri]) => uri.fsPath)
+        .filter(filePath => !dirtyPaths.has(filePath))
+        .map(filePath => renamedPaths.get(filePath) ?? filePath));
+
+    if (!await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_LABEL_CHANGES([`${fullName}: ${labels.warningMessages.LABEL_RENAME_NOT_APPLIED}`]));
+        postLabels();
+        return;
+    }
+
+    for (const document of vscode.workspace.textDocuments) {
+        if (document.isDirty && pathsToSave.has(document.uri.fsPath)) {
+            await document.save();
+        }
+    }
+
+    for (const filePath of [...labelFilePaths, ...renamedPaths.values()]) {
+        await reloadLabelFile(vscode.Uri.file(filePath));
+    }
+
+    for (const filePath of new Set(translationFilePaths)) {
+        await reloadTranslationFile(vscode.Uri.file(filePath));
+    }
+}
+
+async function saveChanges(changes: LabelChange[]) {
+    const failed = await applyLabelChanges(changes);
+
+    if (failed.length > 0) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_LABEL_CHANGES(failed.map(failure => `${failure.fullName}: ${failure.error.message}`)));
+
+        // the store didn't change for failed edits, restore the table
+        postLabels();
+    }
+}
+
+function getWebviewContent(): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <style>
+            body {
+                font-family: var(--vscode-font-family, Arial, sans-serif);
+                margin: 20px;
+                color: var(--vscode-editor-foreground);
+                background-color: var(--vscode-editor-background);
+            }
+            .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 12px; }
+            .toolbar input { flex: 1; min-width: 200px; }
+            input[type="text"] {
+                width: 100%;
+                box-sizing: border-box;
+                color: var(--vscode-input-foreground);
+                background-color: var(--vscode-input-background);
+                border: 1px solid var(--vscode-input-border, transparent);
+                padding: 4px;
+            }
+            input[type="text"]:focus { outline: 1px solid var(--vscode-focusBorder); }
+            button {
+                color: var(--vscode-button-foreground);
+                background-color: var(--vscode-button-background);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+            }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+            button:disabled { opacity: 0.5; cursor: default; }
+            table { border-collapse: collapse; width: 100%; }
+            th, td {
+                border: 1px solid var(--vscode-panel-border, #ddd);
+                padding: 4px 6px;
+                vertical-align: top;
+            }
+            th {
+                background-color: var(--vscode-editor-selectionBackground);
+                color: var(--vscode-editor-selectionForeground, var(--vscode-editor-foreground));
+                text-align: left;
+                cursor: pointer;
+                user-select: none;
+            }
+            th.no-sort { cursor: default; }
+            .api-name {
+                font-family: var(--vscode-editor-font-family, monospace);
+                cursor: pointer;
+            }
+            .api-name:hover { text-decoration: underline; }
+            .source { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+            tr.selected { background-color: var(--vscode-list-inactiveSelectionBackground); }
+        </style>
+    </head>
+    <body>
+        <div class="toolbar">
+            <input id="filter" type="text" placeholder="Filter by name, value, category, language or description" />
+            <span id="count"></span>
+        </div>
+        <div class="toolbar">
+            <span id="selection">0 selected</span>
+            <button id="rename" disabled>Rename</button>
+            <button id="delete" disabled>Delete</button>
+            <button id="set-categories" disabled>Set categories</button>
+            <button id="add-categories" disabled>Add categories</button>
+            <button id="remove-categories" disabled>Remove categories</button>
+        </div>
+        <table>
+            <thead>
+                <tr>
+                    <th class="no-sort"><input id="select-all" type="checkbox" title="Select all visible labels" /></th>
+                    <th data-sort="fullName">Name</th>
+                    <th data-sort="value">Value</th>
+                    <th data-sort="categories">Categories</th>
+                    <th data-sort="language">Language</th>
+                    <th data-sort="protected">Protected</th>
+                    <th data-sort="shortDescription">Short Description</th>
+                </tr>
+            </thead>
+            <tbody id="labels"></tbody>
+        </table>
+        <script>
+            const vscode = acquireVsCodeApi();
+            const state = { labels: [], sortKey: 'fullName', ascending: true, filter: '', selected: new Set() };
+
+            function visibleLabels() {
+                const filter = state.filter.toLowerCase();
+                const visible = state.labels.filter(label => !filter ||
+                    ['fullName', 'value', 'categories', 'language', 'shortDescription'].some(key => label[key].toLowerCase().includes(filter)));
+
+                return visible.sort((a, b) => {
+                    const result = String(a[state.sortKey]).localeCompare(String(b[state.sortKey]));
+                    return state.ascending ? result : -result;
+                });
+            }
+
+            function textInput(label, field) {
+                const input = document.createElement('input');
+                input.type = 'text';
+                input.value = label[field];
+                input.dataset.name = label.fullName;
+                input.dataset.field = field;
+                input.addEventListener('change', () => {
+                    vscode.postMessage({ type: 'update', fullName: label.fullName, field, value: input.value });
+                });
+                return input;
+            }
+
+            function cell(row, child) {
+                const td = document.createElement('td');
+                td.appendChild(child);
+                row.appendChild(td);
+                return td;
+            }
+
+            function render() {
+                const body = document.getElementById('labels');
+                const visible = visibleLabels();
+                const focused = document.activeElement && document.activeElement.dataset && document.activeElement.dataset.field
+                    ? { name: document.activeElement.dataset.name, field: document.activeElement.dataset.field }
+                    : undefined;
+                body.replaceChildren();
+
+                for (const label of visible) {
+                    const row = document.createElement('tr');
+                    row.classList.toggle('selected', state.selected.has(label.fullName));
+
+                    const select = document.createElement('input');
+                    select.type = 'checkbox';
+                    select.checked = state.selected.has(label.fullName);
+                    select.addEventListener('change', () => {
+                        select.checked ? state.selected.add(label.fullName) : state.selected.delete(label.fullName);
+                        row.classList.toggle('selected', select.checked);
+                        updateToolbar();
+                    });
+                    cell(row, select);
+
+                    const name = document.createElement('div');
+                    name.className = 'api-name';
+                    name.title = 'Open the label definition';
+                    name.textContent = label.fullName;
+                    name.addEventListener('click', () => vscode.postMessage({ type: 'open', fullName: label.fullName }));
+                    const nameCell = cell(row, name);
+                    const source = document.createElement('div');
+                    source.className = 'source';
+                    source.textContent = label.source;
+                    nameCell.appendChild(source);
+
+                    cell(row, textInput(label, 'value'));
+                    cell(row, textInput(label, 'categories'));
+                    cell(row, textInput(label, 'language'));
+
+                    const isProtected = document.createElement('input');
+                    isProtected.type = 'checkbox';
+                    isProtected.checked = label.protected;
+                    isProtected.addEventListener('change', () => {
+                        vscode.postMessage({ type: 'update', fullName: label.fullName, field: 'protected', value: isProtected.checked });
+                    });
+                    cell(row, isProtected);
+
+                    cell(row, textInput(label, 'shortDescription'));
+                    body.appendChild(row);
+                }
+
+                // keep the focus on the cell being edited when the table is refreshed after a save
+                if (focused) {
+                    const input = [...body.querySelectorAll('input[data-field]')]
+                        .find(element => element.dataset.name === focused.name && element.dataset.field === focused.field);
+                    input?.focus();
+                }
+
+                document.getElementById('count').textContent = visible.length + ' of ' + state.labels.length + ' labels';
+                document.querySelectorAll('th[data-sort]').forEach(th => {
+                    const arrow = th.dataset.sort === state.sortKey ? (state.ascending ? ' ▲' : ' ▼') : '';
+                    th.textContent = th.textContent.replace(/ [▲▼]$/, '') + arrow;
+                });
+                updateToolbar();
+            }
+
+            function updateToolbar() {
+                const count = state.selected.size;
+                document.getElementById('selection').textContent = count + ' selected';
+                document.getElementById('rename').disabled = count !== 1;
+                ['delete', 'set-categories', 'add-categories', 'remove-categories'].forEach(id => {
+                    document.getElementById(id).disabled = count === 0;
+                });
+            }
+
+            document.getElementById('filter').addEventListener('input', event => {
+                state.filter = event.target.value;
+                render();
+            });
+
+            document.querySelectorAll('th[data-sort]').forEach(th => th.addEventListener('click', () => {
+                state.ascending = state.sortKey === th.dataset.sort ? !state.ascending : true;
+                state.sortKey = th.dataset.sort;
+                render();
+            }));
+
+            document.getElementById('select-all').addEventListener('change', event => {
+                for (const label of visibleLabels()) {
+                    event.target.checked ? state.selected.add(label.fullName) : state.selected.delete(label.fullName);
+                }
+                render();
+            });
+
+            document.getElementById('rename').addEventListener('click', () => {
+                vscode.postMessage({ type: 'rename', fullName: [...state.selected][0] });
+            });
+            document.getElementById('delete').addEventListener('click', () => {
+                vscode.postMessage({ type: 'delete', fullNames: [...state.selected] });
+            });
+            [['set-categories', 'replace'], ['add-categories', 'add'], ['remove-categories', 'remove']].forEach(([id, mode]) => {
+                document.getElementById(id).addEventListener('click', () => {
+                    vscode.postMessage({ type: 'categorize', fullNames: [...state.selected], mode });
+                });
+            });
+
+            window.addEventListener('message', event => {
+                if (event.data.type === 'labels') {
+                    state.labels = event.data.labels;
+
+                    // forget labels that were renamed or deleted
+                    const names = new Set(state.labels.map(label => label.fullName));
+                    state.selected = new Set([...state.selected].filter(name => names.has(name)));
+                    render();
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        </script>
+    </body>
+    </html>`;
+}
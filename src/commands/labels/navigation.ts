@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { getProjectNamespace, getSalesforceLabelsStore } from './load';
+import { findLabelElementOffsets, findLabelFullNameAt, isLabelMetadataFile } from './parse';
+import {
+    createLineIndex,
+    findLabelReferenceAt,
+    findLabelReferences,
+    getLabelReferenceKind,
+    LABEL_REFERENCE_EXCLUDE_GLOB,
+    LABEL_REFERENCE_FILES_GLOB,
+    LabelReferenceKind
+} from './referenceSyntax';
+import { isLocalLabelReference } from './usage';
+
+/**
+ * Source files that can reference labels: Apex, LWC JavaScript, Aura bundles and Visualforce.
+ */
+export const LABEL_SOURCE_SELECTOR: vscode.DocumentFilter[] = [
+    { scheme: 'file', pattern: '**/*.{cls,trigger}' },
+    { scheme: 'file', language: 'apex' },
+    { scheme: 'file', pattern: '**/lwc/**/*.js' },
+    { scheme: 'file', pattern: '**/aura/**/*.{cmp,app,evt,intf,design,js}' },
+    { scheme: 'file', pattern: '**/*.{page,component}' }
+];
+
+/**
+ * Documents where label navigation is available: label references in source files and label metadata files.
+ */
+export const NAVIGATION_SELECTOR: vscode.DocumentSelector = [
+    ...LABEL_SOURCE_SELECTOR,
+    { scheme: 'file', pattern: '**/labels/*.{labels-meta,label-meta}.xml' }
+];
+
+/**
+ * Label reference syntax of the document, from its path or, for unsaved Apex, its language.
+ */
+export function getDocumentLabelReferenceKind(document: vscode.TextDocument): LabelReferenceKind | undefined {
+    return getLabelReferenceKind(document.uri.fsPath) ?? (document.languageId === 'apex' ? 'apex' : undefined);
+}
+
+/**
+ * Label name under the cursor, either a reference in a source file or a `<fullName>` in a label file.
+ * `namespace` is set when the reference names one.
+ */
+export function getLabelNameAt(document: vscode.TextDocument, position: vscode.Position): { name: string; namespace?: string; range: vscode.Range } | undefined {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+
+    if (isLabelMetadataFile(document.uri.fsPath)) {
+        const name = findLabelFullNameAt(text, offset);
+
+        return name ? { name, range: document.getWordRangeAtPosition(position) ?? new vscode.Range(position, position) } : undefined;
+    }
+
+    const kind = getDocumentLabelReferenceKind(document);
+
+    if (!kind) {
+        return undefined;
+    }
+
+    const reference = findLabelReferenceAt(text, kind, offset);
+
+    if (!reference) {
+        return undefined;
+    }
+
+    return {
+        name: reference.name,
+        namespace: reference.namespace,
+        range: new vscode.Range(document.positionAt(reference.nameStart), document.positionAt(reference.nameEnd))
+    };
+}
+
+/**
+ * Text of a file, preferring the open (possibly unsaved) document.
+ */
+export async function readWorkspaceText(uri: vscode.Uri): Promise<string> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+
+    if (openDocument) {
+        return openDocument.getText();
+    }
+
+    return new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+}
+
+/**
+ * Locations of the `<labels>` elements defining the label, one per label file that defines it.
+ */
+export async function getLabelDefinitionLocations(fullName: string): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = [];
+
+    for (const definition of getSalesforceLabelsStore().getDefinitions(fullName)) {
+        const uri = vscode.Uri.file(definition.source.filePath);
+
+        try {
+            const text = await readWorkspaceText(uri);
+            const offsets = findLabelElementOffsets(text, fullName);
+            const toPosition = createLineIndex(text);
+
+            if (!offsets) {
+                locations.push(new vscode.Location(uri, new vscode.Position(0, 0)));
+                continue;
+            }
+
+            const start = toPosition(offsets.start);
+            const end = toPosition(offsets.end);
+
+            locations.push(new vscode.Location(uri, new vscode.Range(start.line, start.character, end.line, end.character)));
+        } catch (err) {
+            console.error(`Failed to read label file ${uri.fsPath}:`, err);
+        }
+    }
+
+    return locations;
+}
+
+/**
+ * Locations of every reference to the label in Apex, LWC, Aura and Visualforce sources of the workspace.
+ */
+export async function findLabelReferenceLocations(fullName: string, token?: vscode.CancellationToken): Promise<vscode.Location[]> {
+    const uris = await vscode.workspace.findFiles(LABEL_REFERENCE_FILES_GLOB, LABEL_REFERENCE_EXCLUDE_GLOB, undefined, token);
+    const locations: vscode.Location[] = [];
+    const lowerName = fullName.toLowerCase();
+
+    for (const uri of uris) {
+        if (token?.isCancellationRequested) {
+            break;
+        }
+
+        const kind = getLabelReferenceKind(uri.fsPath);
+
+        if (!kind) {
+            continue;
+        }
+
+        let text: string;
+
+        try {
+            text = await readWorkspaceText(uri);
+        } catch {
+            continue;
+        }
+
+        // label names are case-insensitive in Apex, exact elsewhere; labels of other namespaces are different labels
+        const references = findLabelReferences(text, kind).filter(reference =>
+            (kind === 'apex' ? reference.name.toLowerCase() === lowerName : reference.name === fullName) &&
+            isLocalLabelReference(reference, getProjectNamespace())
+        );
+
+        if (references.length === 0) {
+            continue;
+        }
+
+        const toPosition = createLineIndex(text);
+
+        for (const reference of references) {
+            const start = toPosition(reference.nameStart);
+            const end = toPosition(reference.nameEnd);
+
+            locations.push(new vscode.Location(uri, new vscode.Range(start.line, start.character, end.line, end.character)));
+        }
+    }
+
+    return locations;
+}
+
+export async function getDefinitionProvider() {
+    // Register a definition provider to jump from a label reference to its metadata definition
+    const labelDefinitionProvider = vscode.languages.registerDefinitionProvider(
+        NAVIGATION_SELECTOR,
+        {
+            async provideDefinition(document, position) {
+                const labelAtPosition = getLabelNameAt(document, position);
+                const fullName = labelAtPosition && getSalesforceLabelsStore().resolveFullName(labelAtPosition.name);
+
+                if (!fullName) {
+                    return undefined;
+                }
+
+                return getLabelDefinitionLocations(fullName);
+            }
+        }
+    );
+
+    return labelDefinitionProvider;
+}
+
+export async function getReferenceProvider() {
+    // Register a reference provider to list every use of a label across the workspace
+    const labelReferenceProvider = vscode.languages.registerReferenceProvider(
+        NAVIGATION_SELECTOR,
+        {
+            async provideReferences(document, position, context, token) {
+                const labelAtPosition = getLabelNameAt(document, position);
+
+                if (!labelAtPosition) {
+                    return undefined;
+                }
+
+                const fullName = getSalesforceLabelsStore().resolveFullName(labelAtPosition.name) ?? labelAtPosition.name;
+                const references = await findLabelReferenceLocations(fullName, token);
+
+                if (!context.includeDeclaration) {
+                    return references;
+                }
+
+                return [...await getLabelDefinitionLocations(fullName), ...references];
+            }
+        }
+    );
+
+    return labelReferenceProvider;
+}
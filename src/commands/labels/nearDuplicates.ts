@@ -0,0 +1,86 @@
+/**
+ * "Find near-duplicate labels" command: groups the labels whose values are the same or nearly the same
+ * so they can be consolidated, and opens the definitions of the labels of a group.
+ */
+import * as vscode from 'vscode';
+import { getSalesforceLabelsStore } from './load';
+import labels from '../../labels';
+import { getLabelDefinitionLocations } from './navigation';
+import { LabelSimilarityIndex, NearDuplicateCluster } from './similarity';
+
+const COMMAND_NAME = 'findNearDuplicateLabels';
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_NEAR_DUPLICATE_THRESHOLD = 'labels.nearDuplicateThreshold';
+const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+export async function activateNearDuplicateLabels(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand(commandFullName, findNearDuplicateLabels));
+}
+
+async function findNearDuplicateLabels() {
+    const store = getSalesforceLabelsStore();
+    const threshold = vscode.workspace.getConfiguration(CONFIG_SECTION).get<number>(CONFIG_KEY_NEAR_DUPLICATE_THRESHOLD, DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+    const clusters = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: labels.informationMessages.FINDING_NEAR_DUPLICATE_LABELS },
+        async () => new LabelSimilarityIndex(store.getAllLabels().map(label => ({
+            fullName: label.fullName.toString(),
+            value: label.value.toString()
+        }))).findClusters(threshold)
+    );
+
+    if (clusters.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_NEAR_DUPLICATE_LABELS(threshold));
+        return;
+    }
+
+    // pick a group, then a label of the group to open its definition, until the user dismisses the list
+    for (;;) {
+        const selectedCluster = await vscode.window.showQuickPick(
+            clusters.map(cluster => ({
+                label: cluster.fullNames.join(', '),
+                description: labels.commands.NEAR_DUPLICATE_CLUSTER_DESCRIPTION(cluster.fullNames.length, cluster.score),
+                detail: [...new Set(cluster.fullNames.map(fullName => store.salesforceLabels[fullName]?.value.toString()))].join(' | '),
+                cluster
+            })),
+            { placeHolder: labels.commands.NEAR_DUPLICATE_CLUSTERS_FOUND(clusters.length), matchOnDetail: true }
+        );
+
+        if (!selectedCluster || !await openClusterLabel(selectedCluster.cluster)) {
+            return;
+        }
+    }
+}
+
+/**
+ * Let the user pick a label of the cluster and open its definition. Returns false when dismissed.
+ */
+async function openClusterLabel(cluster: NearDuplicateCluster): Promise<boolean> {
+    const store = getSalesforceLabelsStore();
+    const selectedLabel = await vscode.window.showQuickPick(
+        cluster.fullNames.map(fullName => ({
+            label: fullName,
+            description: store.salesforceLabels[fullName]?.value.toString(),
+            detail: store.salesforceLabels[fullName] && vscode.workspace.asRelativePath(store.salesforceLabels[fullName].source.filePath)
+        })),
+        { placeHolder: labels.commands.SELECT_NEAR_DUPLICATE_LABEL }
+    );
+
+    if (!selectedLabel) {
+        return false;
+    }
+
+    const [location] = await getLabelDefinitionLocations(selectedLabel.label);
+
+    if (location) {
+        await vscode.window.showTextDocument(location.uri, { selection: location.range, preview: true });
+    }
+
+    return true;
+}
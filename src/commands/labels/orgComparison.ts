@@ -0,0 +1,83 @@
+/**
+ * Pure helpers to compare the labels of the workspace with the `ExternalString` records of an org:
+ * labels only defined locally, only in the org, or with a different value on each side.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import type CustomLabel from './store';
+
+/** Tooling API query returning the custom labels of the org. */
+export const EXTERNAL_STRING_QUERY = 'SELECT Name, Value, Category, Language, IsProtected, MasterLabel, NamespacePrefix FROM ExternalString';
+
+/**
+ * Custom label as returned by the Tooling API.
+ */
+export interface ExternalStringRecord {
+    Name: string;
+    Value: string;
+    Category?: string | null;
+    Language?: string | null;
+    IsProtected?: boolean | null;
+    MasterLabel?: string | null;
+    NamespacePrefix?: string | null;
+}
+
+export type LabelComparisonStatus = 'localOnly' | 'orgOnly' | 'different';
+
+export interface LabelComparisonEntry {
+    // local fullName when defined locally, org name otherwise
+    fullName: string;
+    status: LabelComparisonStatus;
+    localValue?: string;
+    orgValue?: string;
+}
+
+/**
+ * Label of the org, as it would be written to a label file. `MasterLabel` is the short description.
+ */
+export function toOrgLabel(record: ExternalStringRecord): CustomLabel {
+    return {
+        fullName: record.Name,
+        value: record.Value ?? '',
+        categories: record.Category || undefined,
+        language: record.Language || undefined,
+        protected: record.IsProtected ?? false,
+        shortDescription: record.MasterLabel || undefined
+    };
+}
+
+/**
+ * Records of the project's own labels: without namespace, or in the project namespace. Labels of
+ * installed managed packages are left out.
+ */
+export function filterProjectLabelRecords(records: ExternalStringRecord[], namespace?: string): ExternalStringRecord[] {
+    return records.filter(record => !record.NamespacePrefix || record.NamespacePrefix === namespace);
+}
+
+/**
+ * Labels that differ between the workspace and the org, sorted by name. Names are matched ignoring case,
+ * as Salesforce does; labels with the same value on both sides are left out.
+ */
+export function compareLabels(localLabels: CustomLabel[], orgLabels: CustomLabel[]): LabelComparisonEntry[] {
+    const orgByName = new Map(orgLabels.map(label => [label.fullName.toLowerCase(), label]));
+    const entries: LabelComparisonEntry[] = [];
+
+    for (const local of localLabels) {
+        const key = local.fullName.toLowerCase();
+        const org = orgByName.get(key);
+        const localValue = local.value.toString();
+
+        orgByName.delete(key);
+
+        if (!org) {
+            entries.push({ fullName: local.fullName.toString(), status: 'localOnly', localValue });
+        } else if (org.value.toString() !== localValue) {
+            entries.push({ fullName: local.fullName.toString(), status: 'different', localValue, orgValue: org.value.toString() });
+        }
+    }
+
+    for (const org of orgByName.values()) {
+        entries.push({ fullName: org.fullName.toString(), status: 'orgOnly', orgValue: org.value.toString() });
+    }
+
+    return entries.sort((a, b) => a.fullName.localeCompare(b.fullName));
+}
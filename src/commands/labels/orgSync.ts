@@ -0,0 +1,391 @@
+/**
+ * "Compare custom labels with the default org" webview: the labels only in the workspace, only in the org or
+ * with different values, with actions to pull the org value into the label files or deploy the local one.
+ */
+import * as vscode from 'vscode';
+import CustomLabel, { getProjectNamespace, getSalesforceLabelsStore, reloadLabelFile } from './load';
+import labels from '../../labels';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { runSfCommand } from '../shared/utilities';
+import { getLabelFileTargets, writeLabel } from './create';
+import { applyLabelChanges, toCustomLabel } from './edit';
+import { getLabelDefinitionLocations } from './navigation';
+import { compareLabels, EXTERNAL_STRING_QUERY, ExternalStringRecord, filterProjectLabelRecords, toOrgLabel } from './orgComparison';
+
+const COMMAND_NAME = 'compareLabelsWithOrg';
+
+type OrgComparisonMessage =
+    | { type: 'ready' }
+    | { type: 'refresh' }
+    | { type: 'open'; fullName: string }
+    | { type: 'pull'; fullName: string }
+    | { type: 'deploy'; fullName: string };
+
+/**
+ * The org compared with, and its labels by lower-cased name as of the last query or deployment.
+ */
+interface OrgComparisonSession {
+    workspaceRoot: string;
+    targetOrg: string;
+    orgLabels: Map<string, CustomLabel>;
+}
+
+let panel: vscode.WebviewPanel | undefined;
+let session: OrgComparisonSession | undefined;
+
+export async function activateLabelOrgSync(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(vscode.commands.registerCommand(commandFullName, compareLabelsWithOrg));
+}
+
+async function queryOrgLabels(workspaceRoot: string, targetOrg: string): Promise<Map<string, CustomLabel>> {
+    const result = await runSfCommand<{ records?: ExternalStringRecord[] }>(
+        ['data', 'query', '--use-tooling-api', '--query', EXTERNAL_STRING_QUERY, '--target-org', targetOrg],
+        { cwd: workspaceRoot }
+    );
+    const orgLabels = filterProjectLabelRecords(result?.records ?? [], getProjectNamespace()).map(toOrgLabel);
+
+    return new Map(orgLabels.map(label => [label.fullName.toLowerCase(), label]));
+}
+
+/**
+ * Resolve the default org and query its labels. Returns false when it failed, after reporting why.
+ */
+async function loadOrgLabels(): Promise<boolean> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    if (!workspaceRoot) {
+        vscode.window.showErrorMessage(labels.warningMessages.NO_WORKSPACE_IS_OPENED);
+        return false;
+    }
+
+    try {
+        session = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: labels.informationMessages.LOADING_ORG_LABELS },
+            async () => {
+                const targetOrg = await getDefaultOrgUsername(workspaceRoot);
+
+                return { workspaceRoot, targetOrg, orgLabels: await queryOrgLabels(workspaceRoot, targetOrg) };
+            }
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_LOAD_ORG_LABELS(err as Error));
+        return false;
+    }
+
+    return true;
+}
+
+async function compareLabelsWithOrg() {
+    if (!await loadOrgLabels()) {
+        return;
+    }
+
+    if (panel) {
+        panel.reveal();
+        postComparison();
+        return;
+    }
+
+    panel = vscode.window.createWebviewPanel(
+        'sfLabelOrgComparison',
+        labels.commands.ORG_COMPARISON_TITLE,
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    // pulled labels and edits in the label files show up as they are saved
+    const storeListener = getSalesforceLabelsStore().onDidChange(() => postComparison());
+
+    panel.webview.onDidReceiveMessage((message: OrgComparisonMessage) => {
+        handleMessage(message).catch(err => vscode.window.showErrorMessage(String(err)));
+    });
+    panel.onDidDispose(() => {
+        storeListener.dispose();
+        panel = undefined;
+        session = undefined;
+    });
+
+    panel.webview.html = getWebviewContent();
+}
+
+function postComparison() {
+    if (!session) {
+        return;
+    }
+
+    const store = getSalesforceLabelsStore();
+
+    panel?.webview.postMessage({
+        type: 'comparison',
+        targetOrg: session.targetOrg,
+        entries: compareLabels(store.getAllLabels(), [...session.orgLabels.values()]).map(entry => ({
+            ...entry,
+            source: store.salesforceLabels[entry.fullName] && vscode.workspace.asRelativePath(store.salesforceLabels[entry.fullName].source.filePath)
+        }))
+    });
+}
+
+async function handleMessage(message: OrgComparisonMessage) {
+    switch (message.type) {
+        case 'ready':
+            postComparison();
+            return;
+        case 'refresh':
+            if (await loadOrgLabels()) {
+                postComparison();
+            }
+            return;
+        case 'open': {
+            const [location] = await getLabelDefinitionLocations(message.fullName);
+
+            if (location) {
+                await vscode.window.showTextDocument(location.uri, { selection: location.range, viewColumn: vscode.ViewColumn.Beside });
+            }
+            return;
+        }
+        case 'pull':
+            await pullOrgLabel(message.fullName);
+            return;
+        case 'deploy':
+            await deployLocalLabel(message.fullName);
+            return;
+    }
+}
+
+/**
+ * Write the org value of the label to the file defining it, or add the label to a label file when it is
+ * only in the org.
+ */
+async function pullOrgLabel(fullName: string) {
+    const store = getSalesforceLabelsStore();
+    const orgLabel = session?.orgLabels.get(fullName.toLowerCase());
+    const localFullName = store.resolveFullName(fullName);
+
+    if (!orgLabel) {
+        return;
+    }
+
+    if (localFullName) {
+        const failed = await applyLabelChanges([{
+            fullName: localFullName,
+            label: { ...toCustomLabel(store.salesforceLabels[localFullName]), value: orgLabel.value }
+        }]);
+
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(labels.warningMessages.FAILED_LABEL_CHANGES(failed.map(failure => `${failure.fullName}: ${failure.error.message}`)));
+        }
+        return;
+    }
+
+    const targets = getLabelFileTargets(orgLabel.fullName.toString());
+    const target = targets.length > 1
+        ? await vscode.window.showQuickPick(targets, { placeHolder: labels.commands.SELECT_A_CUSTOM_LABEL_FILE })
+        : targets[0];
+
+    if (!target) {
+        vscode.window.showErrorMessage(labels.commands.LABELS_NOT_FOUND_IN_WORKSPACE);
+        return;
+    }
+
+    try {
+        await writeLabel(target, orgLabel);
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_WRITE_LABEL(target.uri.fsPath, err as Error));
+        return;
+    }
+
+    store.updateLabel(orgLabel.fullName.toString(), orgLabel, { filePath: target.uri.fsPath });
+    await reloadLabelFile(target.uri);
+}
+
+/**
+ * Deploy the label from its local definition to the org, once confirmed. Unsaved changes to the file are saved first.
+ */
+async function deployLocalLabel(fullName: string) {
+    const store = getSalesforceLabelsStore();
+    const localFullName = store.resolveFullName(fullName);
+    const localLabel = localFullName ? store.salesforceLabels[localFullName] : undefined;
+
+    if (!session || !localFullName || !localLabel) {
+        return;
+    }
+
+    const { workspaceRoot, targetOrg, orgLabels } = session;
+    const confirmation = await vscode.window.showWarningMessage(
+        labels.commands.CONFIRM_DEPLOY_LABEL(localFullName, targetOrg),
+        { modal: true },
+        labels.commands.DEPLOY
+    );
+
+    if (confirmation !== labels.commands.DEPLOY) {
+        return;
+    }
+
+    await vscode.workspace.textDocuments.find(document => document.uri.fsPath === localLabel.source.filePath && document.isDirty)?.save();
+
+    try {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: labels.informationMessages.DEPLOYING_LABEL(localFullName, targetOrg) },
+            () => runSfCommand(
+                ['project', 'deploy', 'start', '--metadata', `CustomLabel:${localFullName}`, '--target-org', targetOrg],
+                { cwd: workspaceRoot }
+            )
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_DEPLOY_LABEL(localFullName, err as Error));
+        return;
+    }
+
+    orgLabels.set(localFullName.toLowerCase(), toCustomLabel(localLabel));
+    postComparison();
+    vscode.window.showInformationMessage(labels.informationMessages.LABEL_DEPLOYED(localFullName, targetOrg));
+}
+
+function getWebviewContent(): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <style>
+            body {
+                font-family: var(--vscode-font-family, Arial, sans-serif);
+                margin: 20px;
+                color: var(--vscode-editor-foreground);
+                background-color: var(--vscode-editor-background);
+            }
+            .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 12px; }
+            button {
+                color: var(--vscode-button-foreground);
+                background-color: var(--vscode-button-background);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+            }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+            table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+            th, td {
+                border: 1px solid var(--vscode-panel-border, #ddd);
+                padding: 4px 6px;
+                vertical-align: top;
+                text-align: left;
+            }
+            th {
+                background-color: var(--vscode-editor-selectionBackground);
+                color: var(--vscode-editor-selectionForeground, var(--vscode-editor-foreground));
+            }
+            td.value { white-space: pre-wrap; width: 35%; }
+            td.actions { white-space: nowrap; }
+            .api-name { font-family: var(--vscode-editor-font-family, monospace); }
+            .api-name.local { cursor: pointer; }
+            .api-name.local:hover { text-decoration: underline; }
+            .source, .empty { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+        </style>
+    </head>
+    <body>
+        <div class="toolbar">
+            <span id="org"></span>
+            <button id="refresh">Refresh from org</button>
+        </div>
+        <div id="sections"></div>
+        <script>
+            const vscode = acquireVsCodeApi();
+            const SECTIONS = [
+                { status: 'different', title: 'Different values', actions: ['pull', 'deploy'] },
+                { status: 'localOnly', title: 'Only in the workspace', actions: ['deploy'] },
+                { status: 'orgOnly', title: 'Only in the org', actions: ['pull'] }
+            ];
+            const ACTION_TITLES = { pull: 'Pull org value', deploy: 'Deploy local value' };
+
+            function cell(row, text, className) {
+                const td = document.createElement('td');
+                td.textContent = text === undefined ? '' : text;
+                if (className) {
+                    td.className = className;
+                }
+                row.appendChild(td);
+                return td;
+            }
+
+            function render(targetOrg, entries) {
+                const container = document.getElementById('sections');
+                document.getElementById('org').textContent = 'Compared with ' + targetOrg;
+                container.replaceChildren();
+
+                for (const section of SECTIONS) {
+                    const sectionEntries = entries.filter(entry => entry.status === section.status);
+                    const heading = document.createElement('h3');
+                    heading.textContent = section.title + ' (' + sectionEntries.length + ')';
+                    container.appendChild(heading);
+
+                    if (sectionEntries.length === 0) {
+                        const empty = document.createElement('p');
+                        empty.className = 'empty';
+                        empty.textContent = 'No labels';
+                        container.appendChild(empty);
+                        continue;
+                    }
+
+                    const table = document.createElement('table');
+                    const header = document.createElement('tr');
+                    ['Name', 'Local value', 'Org value', ''].forEach(title => {
+                        const th = document.createElement('th');
+                        th.textContent = title;
+                        header.appendChild(th);
+                    });
+                    table.appendChild(header);
+
+                    for (const entry of sectionEntries) {
+                        const row = document.createElement('tr');
+                        const nameCell = cell(row, '');
+                        const name = document.createElement('div');
+                        name.className = 'api-name' + (entry.source ? ' local' : '');
+                        name.textContent = entry.fullName;
+                        if (entry.source) {
+                            name.title = 'Open the label definition';
+                            name.addEventListener('click', () => vscode.postMessage({ type: 'open', fullName: entry.fullName }));
+                            const source = document.createElement('div');
+                            source.className = 'source';
+                            source.textContent = entry.source;
+                            nameCell.append(name, source);
+                        } else {
+                            nameCell.appendChild(name);
+                        }
+
+                        cell(row, entry.localValue, 'value');
+                        cell(row, entry.orgValue, 'value');
+
+                        const actions = cell(row, '', 'actions');
+                        for (const action of section.actions) {
+                            const button = document.createElement('button');
+                            button.textContent = ACTION_TITLES[action];
+                            button.addEventListener('click', () => vscode.postMessage({ type: action, fullName: entry.fullName }));
+                            actions.appendChild(button);
+                            actions.append(' ');
+                        }
+                        table.appendChild(row);
+                    }
+                    container.appendChild(table);
+                }
+            }
+
+            document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+
+            window.addEventListener('message', event => {
+                if (event.data.type === 'comparison') {
+                    render(event.data.targetOrg, event.data.entries);
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        </script>
+    </body>
+    </html>
+    `;
+}
@@ -0,0 +1,247 @@
+/**
+ * Pure helpers to read custom label metadata files (CustomLabels and decomposed CustomLabel)
+ * and to work out which package directory a label file belongs to.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import * as path from 'path';
+import { parseStringPromise } from 'xml2js';
+import type CustomLabel from './store';
+
+const DECOMPOSED_LABEL_SUFFIX = '.label-meta.xml';
+const LABELS_FILE_SUFFIX = '.labels-meta.xml';
+
+/** Return the text of an xml2js node (handles arrays and nodes with attributes). */
+export function textOf(node: unknown): string | undefined {
+    const value = Array.isArray(node) ? node[0] : node;
+
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    if (typeof value === 'object') {
+        const text = (value as { _?: unknown })._;
+        return typeof text === 'string' ? text : '';
+    }
+
+    return String(value);
+}
+
+function toCustomLabel(entry: Record<string, unknown>, fallbackFullName?: string): CustomLabel | undefined {
+    const fullName = textOf(entry.fullName) ?? fallbackFullName;
+
+    if (!fullName) {
+        return undefined;
+    }
+
+    const label: CustomLabel = {
+        fullName,
+        value: textOf(entry.value) ?? ''
+    };
+
+    const categories = textOf(entry.categories);
+    const language = textOf(entry.language);
+    const isProtected = textOf(entry.protected);
+    const shortDescription = textOf(entry.shortDescription);
+
+    if (categories) {
+        label.categories = categories;
+    }
+    if (language) {
+        label.language = language;
+    }
+    if (isProtected !== undefined) {
+        label.protected = isProtected.trim() === 'true';
+    }
+    if (shortDescription) {
+        label.shortDescription = shortDescription;
+    }
+
+    return label;
+}
+
+/**
+ * Parse the content of a label metadata file into labels.
+ * Supports the standard `CustomLabels` file and the decomposed one-file-per-label `CustomLabel` format,
+ * where the fullName falls back to the file name.
+ */
+export async function parseLabelFileContent(xml: string, filePath: string): Promise<CustomLabel[]> {
+    const result = await parseStringPromise(xml.replace(/^\uFEFF/, ''));
+
+    if (result?.CustomLabels) {
+        const entries: Record<string, unknown>[] = result.CustomLabels.labels ?? [];
+
+        return entries
+            .map(entry => toCustomLabel(entry))
+            .filter((label): label is CustomLabel => !!label);
+    }
+
+    if (result?.CustomLabel) {
+        const base = path.basename(filePath);
+        const fallbackFullName = base.endsWith(DECOMPOSED_LABEL_SUFFIX) ? base.slice(0, -DECOMPOSED_LABEL_SUFFIX.length) : undefined;
+        const label = toCustomLabel(result.CustomLabel, fallbackFullName);
+
+        return label ? [label] : [];
+    }
+
+    return [];
+}
+
+/**
+ * Offsets of a label definition inside the text of a label metadata file.
+ * `start`/`end` delimit the whole `<labels>` (or decomposed `<CustomLabel>`) element,
+ * `nameStart`/`nameEnd` the fullName value when present.
+ */
+export interface LabelElementOffsets {
+    start: number;
+    end: number;
+    nameStart?: number;
+    nameEnd?: number;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the element defining `fullName` in the raw text of a label metadata file.
+ * Works on the text rather than the parsed XML so editors can navigate to the exact position.
+ */
+export function findLabelElementOffsets(xml: string, fullName: string): LabelElementOffsets | undefined {
+    const fullNamePattern = new RegExp(`<fullName>\\s*(${escapeRegExp(fullName)})\\s*</fullName>`);
+    const elementPattern = /<labels>[\s\S]*?<\/labels>/g;
+    let element: RegExpExecArray | null;
+
+    while ((element = elementPattern.exec(xml)) !== null) {
+        const fullNameMatch = fullNamePattern.exec(element[0]);
+
+        if (fullNameMatch) {
+            const nameStart = element.index + fullNameMatch.index + fullNameMatch[0].indexOf(fullNameMatch[1]);
+
+            return {
+                start: element.index,
+                end: element.index + element[0].length,
+                nameStart,
+                nameEnd: nameStart + fullName.length
+            };
+        }
+    }
+
+    // decomposed files hold a single label, so the root element is the definition
+    const decomposed = /<CustomLabel[\s>][\s\S]*<\/CustomLabel>/.exec(xml);
+
+    if (decomposed) {
+        const fullNameMatch = fullNamePattern.exec(decomposed[0]);
+        const nameStart = fullNameMatch ? decomposed.index + fullNameMatch.index + fullNameMatch[0].indexOf(fullNameMatch[1]) : undefined;
+
+        return {
+            start: decomposed.index,
+            end: decomposed.index + decomposed[0].length,
+            nameStart,
+            nameEnd: nameStart !== undefined ? nameStart + fullName.length : undefined
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * Return the fullName whose `<fullName>` value contains the offset, if any.
+ */
+export function findLabelFullNameAt(xml: string, offset: number): string | undefined {
+    const pattern = /<fullName>\s*([^<\s]+)\s*<\/fullName>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(xml)) !== null) {
+        if (offset >= match.index && offset <= match.index + match[0].length) {
+            return match[1];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * True for standard (`*.labels-meta.xml`) and decomposed (`*.label-meta.xml`) label files inside a `labels` folder.
+ */
+export function isLabelMetadataFile(filePath: string): boolean {
+    const normalized = filePath.split(path.sep).join('/');
+
+    return /\/labels\/[^/]+$/.test(normalized) &&
+        (normalized.endsWith(LABELS_FILE_SUFFIX) || normalized.endsWith(DECOMPOSED_LABEL_SUFFIX));
+}
+
+/**
+ * Split a comma-separated categories value into trimmed, non-empty category names.
+ */
+export function splitCategories(categories?: String): string[] {
+    if (!categories) {
+        return [];
+    }
+
+    return categories.split(',').map(category => category.trim()).filter(category => category.length > 0);
+}
+
+/**
+ * Categories after a bulk change: `replace` sets them, `add` appends the missing ones and `remove`
+ * drops them (case-insensitive). Returns the comma-separated value, empty when no category is left.
+ */
+export function changeCategories(current: String | undefined, categories: string[], mode: 'replace' | 'add' | 'remove'): string {
+    const existing = splitCategories(current);
+    const changed = categories.map(category => category.trim()).filter(category => category.length > 0);
+    const lowerChanged = new Set(changed.map(category => category.toLowerCase()));
+
+    switch (mode) {
+        case 'replace':
+            return [...new Set(changed)].join(',');
+        case 'add': {
+            const lowerExisting = new Set(existing.map(category => category.toLowerCase()));
+
+            return [...existing, ...changed.filter(category => !lowerExisting.has(category.toLowerCase()))].join(',');
+        }
+        case 'remove':
+            return existing.filter(category => !lowerChanged.has(category.toLowerCase())).join(',');
+    }
+}
+
+/**
+ * Categories after renaming the category `from` (case-insensitive) to `to`, in place. The renamed category
+ * is dropped when the label already has `to`. Returns the comma-separated value.
+ */
+export function renameCategory(current: String | undefined, from: string, to: string): string {
+    const lowerFrom = from.trim().toLowerCase();
+    const renamed = splitCategories(current).map(category => category.toLowerCase() === lowerFrom ? to.trim() : category);
+    const seen = new Set<string>();
+
+    return renamed
+        .filter(category => {
+            const lowerCategory = category.toLowerCase();
+            const keep = category.length > 0 && !seen.has(lowerCategory);
+
+            seen.add(lowerCategory);
+
+            return keep;
+        })
+        .join(',');
+}
+
+/**
+ * Read the package directory paths declared in sfdx-project.json.
+ */
+export function getPackageDirectoryPaths(sfdxProjectJson: { packageDirectories?: { path?: string }[] }): string[] {
+    return (sfdxProjectJson.packageDirectories ?? [])
+        .map(directory => directory.path)
+        .filter((directoryPath): directoryPath is string => typeof directoryPath === 'string' && directoryPath.length > 0)
+        .map(directoryPath => directoryPath.replace(/^\.\//, '').replace(/[\\/]+$/, ''));
+}
+
+/**
+ * Return the package directory (as declared in sfdx-project.json) that contains the file.
+ * When directories are nested, the deepest one wins.
+ */
+export function findPackageDirectory(filePath: string, workspaceRoot: string, packageDirectories: string[]): string | undefined {
+    const relative = path.relative(workspaceRoot, filePath).split(path.sep).join('/');
+
+    return packageDirectories
+        .filter(directory => relative === directory || relative.startsWith(`${directory}/`))
+        .sort((a, b) => b.length - a.length)[0];
+}
@@ -0,0 +1,319 @@
+/**
+ * Pure helpers to find custom label references in Apex, LWC, Aura and Visualforce sources.
+ * No vscode dependencies so they can be tested without mocks.
+ *
+ * Apex:        Label.Name, System.Label.Name
+ * LWC:         import name from '@salesforce/label/c.Name';
+ * Aura:        {!$Label.c.Name}, $A.get("$Label.c.Name")
+ * Visualforce: {!$Label.Name}
+ */
+import * as path from 'path';
+
+export type LabelReferenceKind = 'apex' | 'lwc' | 'aura' | 'visualforce';
+
+/**
+ * A label reference found in a source file. Offsets are zero-based character offsets in the text.
+ * `nameStart`/`nameEnd` delimit the label name only, `start`/`end` the whole expression.
+ * `namespace` is set for syntaxes that name it (`c` for the default namespace in LWC and Aura).
+ */
+export interface LabelReference {
+    name: string;
+    namespace?: string;
+    start: number;
+    end: number;
+    nameStart: number;
+    nameEnd: number;
+}
+
+/** Glob matching every file that may hold a label reference, used for workspace scans. */
+export const LABEL_REFERENCE_FILES_GLOB = '**/*.{cls,trigger,js,cmp,app,evt,intf,design,page,component}';
+
+/** Folders never scanned for label references. */
+export const LABEL_REFERENCE_EXCLUDE_GLOB = '{**/node_modules/**,**/.sfdx/**,**/.sf/**}';
+
+// the last capture group is the label name, a preceding one the namespace
+// Apex excludes method calls such as Label.get('ns', 'Name')
+const REFERENCE_PATTERNS: Record<LabelReferenceKind, RegExp> = {
+    apex: /(?<![\w.$])(?:system\.)?label\.(\w+)\b(?!\s*\()/gi,
+    lwc: /@salesforce\/label\/(\w+)\.(\w+)/g,
+    aura: /\$Label\.(\w+)\.(\w+)/g,
+    visualforce: /\$Label\.(\w+)\b(?!\.)/g
+};
+
+// same syntaxes, anchored at the cursor and allowing an empty or partially typed label name, or words
+// separated by single spaces to search the labels by value
+const COMPLETION_PATTERNS: Record<LabelReferenceKind, RegExp> = {
+    apex: /(?<![\w.$])(?:system\.)?label\.((?:\w+ )*\w*)$/i,
+    lwc: /@salesforce\/label\/(\w+)\.((?:\w+ )*\w*)$/,
+    aura: /\$Label\.(\w+)\.((?:\w+ )*\w*)$/,
+    visualforce: /\$Label\.((?:\w+ )*\w*)$/
+};
+
+const QUOTES = ['\'', '"', '`'];
+
+/**
+ * Work out which reference syntax applies to a file from its extension and folder.
+ * Returns undefined for files that cannot reference labels.
+ */
+export function getLabelReferenceKind(filePath: string): LabelReferenceKind | undefined {
+    const normalized = filePath.split(path.sep).join('/');
+    const extension = path.extname(normalized).toLowerCase();
+
+    switch (extension) {
+        case '.cls':
+        case '.trigger':
+            return 'apex';
+        case '.page':
+        case '.component':
+            return 'visualforce';
+        case '.cmp':
+        case '.app':
+        case '.evt':
+        case '.intf':
+        case '.design':
+            return 'aura';
+        case '.js':
+            if (normalized.includes('/lwc/')) {
+                return 'lwc';
+            }
+            if (normalized.includes('/aura/')) {
+                return 'aura';
+            }
+            return undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Find every label reference in the text using the syntax of the given kind.
+ */
+export function findLabelReferences(text: string, kind: LabelReferenceKind): LabelReference[] {
+    const pattern = new RegExp(REFERENCE_PATTERNS[kind]);
+    const references: LabelReference[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+        const name = match[match.length - 1];
+        const end = match.index + match[0].length;
+
+        references.push({
+            name,
+            namespace: match.length > 2 ? match[1] : undefined,
+            start: match.index,
+            end,
+            nameStart: end - name.length,
+            nameEnd: end
+        });
+    }
+
+    return references;
+}
+
+/**
+ * Apex text with its comments and string literals blanked out, keeping offsets and line breaks, so that
+ * only references made in code are found.
+ */
+export function maskApexCommentsAndStrings(text: string): string {
+    const masked = text.split('');
+    let i = 0;
+
+    const blank = (from: number, to: number) => {
+        for (let j = from; j < to; j++) {
+            if (masked[j] !== '\n' && masked[j] !== '\r') {
+                masked[j] = ' ';
+            }
+        }
+    };
+
+    while (i < text.length) {
+        if (text.startsWith('//', i)) {
+            const end = text.indexOf('\n', i);
+            const stop = end === -1 ? text.length : end;
+
+            blank(i, stop);
+            i = stop;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            const stop = end === -1 ? text.length : end + 2;
+
+            blank(i, stop);
+            i = stop;
+        } else if (text[i] === '\'') {
+            let stop = i + 1;
+
+            while (stop < text.length && text[stop] !== '\'' && text[stop] !== '\n') {
+                stop += text[stop] === '\\' ? 2 : 1;
+            }
+
+            stop = Math.min(stop + 1, text.length);
+            blank(i, stop);
+            i = stop;
+        } else {
+            i++;
+        }
+    }
+
+    return masked.join('');
+}
+
+/**
+ * Return the reference whose expression contains the offset, if any.
+ */
+export function findLabelReferenceAt(text: string, kind: LabelReferenceKind, offset: number): LabelReference | undefined {
+    return findLabelReferences(text, kind).find(reference => offset >= reference.start && offset <= reference.end);
+}
+
+/**
+ * Build a converter from character offsets to zero-based line/character positions for the text.
+ */
+export function createLineIndex(text: string): (offset: number) => { line: number; character: number } {
+    const lineStarts = [0];
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+
+    return (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return { line: low, character: offset - lineStarts[low] };
+    };
+}
+
+/**
+ * Partially typed label name (and namespace, where the syntax names it) when the text before the
+ * cursor is an incomplete label reference, e.g. `System.Label.Gre` or `@salesforce/label/c.`. The partial
+ * name can hold words of the value separated by spaces, e.g. `Label.welcome ba`, which the completion replaces.
+ */
+export function getLabelCompletionContext(linePrefix: string, kind: LabelReferenceKind): { namespace?: string; partialName: string } | undefined {
+    const match = COMPLETION_PATTERNS[kind].exec(linePrefix);
+
+    if (!match) {
+        return undefined;
+    }
+
+    return {
+        namespace: match.length > 2 ? match[1] : undefined,
+        partialName: match[match.length - 1]
+    };
+}
+
+/**
+ * True for JavaScript files, where Aura labels are read with `$A.get()` instead of markup expressions.
+ */
+export function isScriptFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.js';
+}
+
+/**
+ * Expression that references the label in the given syntax. LWC has no such expression: labels are
+ * used through the identifier of their import, see planLabelImport.
+ */
+export function formatLabelReference(kind: LabelReferenceKind, fullName: string, inScript: boolean = false): string {
+    switch (kind) {
+        case 'apex':
+            return `System.Label.${fullName}`;
+        case 'lwc':
+            return toLabelImportIdentifier(fullName);
+        case 'aura':
+            return inScript ? `$A.get('$Label.c.${fullName}')` : `{!$Label.c.${fullName}}`;
+        case 'visualforce':
+            return `{!$Label.${fullName}}`;
+    }
+}
+
+/**
+ * JavaScript identifier for a label import, e.g. `Error_Message` becomes `errorMessage`.
+ */
+export function toLabelImportIdentifier(fullName: string): string {
+    const parts = fullName.split('_').filter(part => part.length > 0);
+
+    if (parts.length === 0) {
+        return 'label';
+    }
+
+    return parts
+        .map((part, index) => index === 0
+            ? part.charAt(0).toLowerCase() + part.slice(1)
+            : part.charAt(0).toUpperCase() + part.slice(1))
+        .join('');
+}
+
+/**
+ * How to reference a label from an LWC module: the identifier to use and, when the module does not
+ * import the label yet, the import statement to insert at `insertOffset` (after the last import).
+ */
+export function planLabelImport(text: string, fullName: string): { identifier: string; importStatement?: string; insertOffset?: number } {
+    const existingImport = new RegExp(`import\\s+(\\w+)\\s+from\\s+['"]@salesforce\\/label\\/c\\.${fullName}['"]`).exec(text);
+
+    if (existingImport) {
+        return { identifier: existingImport[1] };
+    }
+
+    let identifier = toLabelImportIdentifier(fullName);
+
+    // don't shadow anything already named like the label in the module
+    while (new RegExp(`\\b${identifier}\\b`).test(text)) {
+        identifier = `${identifier}Label`;
+    }
+
+    const statement = `import ${identifier} from '@salesforce/label/c.${fullName}';`;
+    const importPattern = /^import\b[^;]*?['"][^'"]+['"]\s*;?/gm;
+    let insertOffset: number | undefined;
+    let match: RegExpExecArray | null;
+
+    while ((match = importPattern.exec(text)) !== null) {
+        insertOffset = match.index + match[0].length;
+    }
+
+    if (insertOffset === undefined) {
+        return { identifier, importStatement: `${statement}\n`, insertOffset: 0 };
+    }
+
+    return { identifier, importStatement: `\n${statement}`, insertOffset };
+}
+
+/**
+ * Extend a selection to the quotes of the string literal it is the content of, so replacing it with a
+ * label reference doesn't leave the quotes behind. Selections that already include the quotes are kept.
+ */
+export function expandToStringLiteral(text: string, start: number, end: number): { start: number; end: number } {
+    const selected = text.slice(start, end);
+
+    if (selected.length >= 2 && QUOTES.includes(selected[0]) && selected[0] === selected[selected.length - 1]) {
+        return { start, end };
+    }
+
+    const before = text[start - 1];
+
+    if (before !== undefined && QUOTES.includes(before) && before === text[end]) {
+        return { start: start - 1, end: end + 1 };
+    }
+
+    return { start, end };
+}
+
+/**
+ * Remove the quotes around a selected string literal, if any.
+ */
+export function unquote(value: string): string {
+    if (value.length >= 2 && QUOTES.includes(value[0]) && value[0] === value[value.length - 1]) {
+        return value.slice(1, -1);
+    }
+
+    return value;
+}
@@ -0,0 +1,106 @@
+/**
+ * Rename refactoring for custom labels: the `fullName` in the label files, every reference in Apex, LWC,
+ * Aura and Visualforce and the translation entries are renamed in a single, previewable WorkspaceEdit.
+ */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getSalesforceLabelsStore } from './load';
+import labels from '../../labels';
+import { findLabelReferenceLocations, getLabelNameAt, NAVIGATION_SELECTOR, readWorkspaceText } from './navigation';
+import { findLabelElementOffsets } from './parse';
+import { createLineIndex } from './referenceSyntax';
+import { findTranslationNameOffsets } from './translations';
+import { getDecomposedLabelFileName, validateLabelApiName } from './writer';
+
+/**
+ * Build the edit renaming the label everywhere in the workspace.
+ */
+export async function buildLabelRenameEdit(fullName: string, newName: string, token?: vscode.CancellationToken): Promise<vscode.WorkspaceEdit> {
+    const store = getSalesforceLabelsStore();
+    const edit = new vscode.WorkspaceEdit();
+    const renameMetadata: vscode.WorkspaceEditEntryMetadata = { label: labels.commands.RENAME_LABEL_EDIT(fullName, newName), needsConfirmation: false };
+
+    // definitions: <fullName> in CustomLabels files, file name (and <fullName>, when present) of decomposed files
+    for (const definition of store.getDefinitions(fullName)) {
+        const uri = vscode.Uri.file(definition.source.filePath);
+        const text = await readWorkspaceText(uri);
+        const offsets = findLabelElementOffsets(text, fullName);
+
+        if (offsets?.nameStart !== undefined && offsets.nameEnd !== undefined) {
+            edit.replace(uri, toRange(text, offsets.nameStart, offsets.nameEnd), newName, renameMetadata);
+        }
+
+        if (path.basename(uri.fsPath) === getDecomposedLabelFileName(fullName)) {
+            edit.renameFile(uri, vscode.Uri.joinPath(uri, '..', getDecomposedLabelFileName(newName)), undefined, renameMetadata);
+        }
+    }
+
+    // translations: <name> of the <customLabels> entries
+    for (const translation of store.getTranslations(fullName)) {
+        const uri = vscode.Uri.file(translation.filePath);
+        const text = await readWorkspaceText(uri);
+
+        for (const offsets of findTranslationNameOffsets(text, fullName)) {
+            edit.replace(uri, toRange(text, offsets.start, offsets.end), newName, renameMetadata);
+        }
+    }
+
+    for (const location of await findLabelReferenceLocations(fullName, token)) {
+        edit.replace(location.uri, location.range, newName, renameMetadata);
+    }
+
+    return edit;
+}
+
+function toRange(text: string, start: number, end: number): vscode.Range {
+    const toPosition = createLineIndex(text);
+    const startPosition = toPosition(start);
+    const endPosition = toPosition(end);
+
+    return new vscode.Range(startPosition.line, startPosition.character, endPosition.line, endPosition.character);
+}
+
+export async function getRenameProvider() {
+    // Register a rename provider so F2 on a label reference or <fullName> renames the label everywhere
+    const labelRenameProvider = vscode.languages.registerRenameProvider(
+        NAVIGATION_SELECTOR,
+        {
+            prepareRename(document, position) {
+                const labelAtPosition = getLabelNameAt(document, position);
+                const fullName = labelAtPosition && getSalesforceLabelsStore().resolveFullName(labelAtPosition.name);
+
+                if (!labelAtPosition || !fullName) {
+                    throw new Error(labels.warningMessages.NO_LABEL_TO_RENAME);
+                }
+
+                return { range: labelAtPosition.range, placeholder: fullName };
+            },
+            async provideRenameEdits(document, position, newName, token) {
+                const store = getSalesforceLabelsStore();
+                const labelAtPosition = getLabelNameAt(document, position);
+                const fullName = labelAtPosition && store.resolveFullName(labelAtPosition.name);
+
+                if (!fullName) {
+                    throw new Error(labels.warningMessages.NO_LABEL_TO_RENAME);
+                }
+
+                const nameError = validateLabelApiName(newName);
+
+                if (nameError) {
+                    throw new Error(nameError);
+                }
+
+                const existing = store.resolveFullName(newName);
+
+                // changing only the casing of the name is allowed
+                if (existing && existing !== fullName) {
+                    throw new Error(labels.warningMessages.LABEL_NAME_ALREADY_USED(newName));
+                }
+
+                return buildLabelRenameEdit(fullName, newName, token);
+            }
+        }
+    );
+
+    return labelRenameProvider;
+}
@@ -0,0 +1,181 @@
+/**
+ * Pure helpers to find labels with the same or nearly the same value: values are compared once normalized
+ * (case, whitespace and punctuation insensitive) and scored by edit distance.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+
+export interface LabelValueEntry {
+    fullName: string;
+    value: string;
+}
+
+/**
+ * A label and how similar its value is to the text looked up, from 0 to 1 (same normalized value).
+ */
+export interface SimilarLabel {
+    fullName: string;
+    score: number;
+}
+
+/**
+ * Labels whose values are all similar to one another, directly or through other members.
+ * `score` is the lowest similarity of the links holding the cluster together.
+ */
+export interface NearDuplicateCluster {
+    fullNames: string[];
+    score: number;
+}
+
+/**
+ * Value reduced to what a reader sees: lower case, without punctuation or symbols, single spaces.
+ */
+export function normalizeLabelValue(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[\p{P}\p{S}]+/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Levenshtein distance between the strings, or `maxDistance + 1` as soon as it is known to exceed `maxDistance`.
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+    if (Math.abs(a.length - b.length) > maxDistance) {
+        return maxDistance + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMinimum = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            rowMinimum = Math.min(rowMinimum, current[j]);
+        }
+
+        if (rowMinimum > maxDistance) {
+            return maxDistance + 1;
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized values from 0 to 1, or 0 when it is below `minScore`.
+ */
+function normalizedSimilarity(a: string, b: string, minScore: number): number {
+    const longest = Math.max(a.length, b.length);
+
+    if (longest === 0) {
+        return 1;
+    }
+
+    const maxDistance = Math.floor(longest * (1 - minScore));
+    const distance = editDistance(a, b, maxDistance);
+
+    return distance > maxDistance ? 0 : 1 - distance / longest;
+}
+
+/**
+ * Similarity of two label values from 0 to 1, once normalized.
+ */
+export function labelValueSimilarity(a: string, b: string): number {
+    return normalizedSimilarity(normalizeLabelValue(a), normalizeLabelValue(b), 0);
+}
+
+/**
+ * Normalized values of the labels, built once and queried for the labels closest to a text.
+ */
+export class LabelSimilarityIndex {
+    // labels by normalized value
+    private readonly byValue = new Map<string, string[]>();
+
+    constructor(entries: LabelValueEntry[]) {
+        for (const entry of entries) {
+            const normalized = normalizeLabelValue(entry.value);
+            const fullNames = this.byValue.get(normalized) ?? [];
+
+            fullNames.push(entry.fullName);
+            this.byValue.set(normalized, fullNames);
+        }
+    }
+
+    /**
+     * Labels whose value scores at least `minScore` against the text, closest first, at most `limit` of them.
+     */
+    public findSimilar(text: string, minScore: number, limit: number = Infinity): SimilarLabel[] {
+        const normalized = normalizeLabelValue(text);
+        const similar: SimilarLabel[] = [];
+
+        for (const [value, fullNames] of this.byValue) {
+            // values too short or too long to reach the score are skipped without computing the distance
+            if (Math.min(value.length, normalized.length) < Math.max(value.length, normalized.length) * minScore) {
+                continue;
+            }
+
+            const score = normalizedSimilarity(normalized, value, minScore);
+
+            if (score >= minScore && score > 0) {
+                similar.push(...fullNames.map(fullName => ({ fullName, score })));
+            }
+        }
+
+        return similar
+            .sort((a, b) => b.score - a.score || a.fullName.localeCompare(b.fullName))
+            .slice(0, limit);
+    }
+
+    /**
+     * Groups of labels whose values score at least `minScore` against another member, largest groups first.
+     */
+    public findClusters(minScore: number): NearDuplicateCluster[] {
+        const values = [...this.byValue.keys()].sort((a, b) => a.length - b.length);
+        const parents = values.map((_, index) => index);
+        const linkScores = values.map(() => 1);
+        const find = (index: number): number => parents[index] === index ? index : (parents[index] = find(parents[index]));
+
+        for (let i = 0; i < values.length; i++) {
+            for (let j = i + 1; j < values.length; j++) {
+                // sorted by length: the following values are all too long to reach the score
+                if (values[i].length < values[j].length * minScore) {
+                    break;
+                }
+
+                const score = normalizedSimilarity(values[i], values[j], minScore);
+
+                const rootI = find(i);
+                const rootJ = find(j);
+
+                if (score >= minScore && score > 0 && rootI !== rootJ) {
+                    linkScores[rootI] = Math.min(score, linkScores[rootI], linkScores[rootJ]);
+                    parents[rootJ] = rootI;
+                }
+            }
+        }
+
+        const clusters = new Map<number, NearDuplicateCluster>();
+
+        values.forEach((value, index) => {
+            const root = find(index);
+            const cluster = clusters.get(root) ?? { fullNames: [], score: linkScores[root] };
+
+            cluster.fullNames.push(...this.byValue.get(value)!);
+            clusters.set(root, cluster);
+        });
+
+        return [...clusters.values()]
+            .filter(cluster => cluster.fullNames.length > 1)
+            .map(cluster => ({ ...cluster, fullNames: cluster.fullNames.sort() }))
+            .sort((a, b) => b.fullNames.length - a.fullNames.length || b.score - a.score || a.fullNames[0].localeCompare(b.fullNames[0]));
+    }
+}
@@ -0,0 +1,367 @@
+/**
+ * In-memory store of custom labels loaded from every label metadata file in the workspace.
+ * Keeps track of the file (and package directory) each label was defined in, and of the label
+ * translations loaded from Translations metadata files.
+ * No vscode dependencies so it can be tested without mocks.
+ */
+import { splitCategories } from './parse';
+import type { LabelTranslationEntry } from './translations';
+
+export default interface CustomLabel {
+    fullName: String;
+    value: String;
+    categories?: String;
+    language?: String;
+    protected?: Boolean;
+    shortDescription?: String;
+    // eslint-disable-next-line semi
+};
+
+/**
+ * Where a label was loaded from.
+ */
+export interface LabelSource {
+    filePath: string;
+    packageDirectory?: string;
+}
+
+/**
+ * A label together with the file it was loaded from.
+ */
+export interface StoredCustomLabel extends CustomLabel {
+    source: LabelSource;
+}
+
+/**
+ * A label whose fullName is defined in more than one label file.
+ */
+export interface DuplicateLabel {
+    fullName: string;
+    sources: LabelSource[];
+}
+
+/**
+ * Translated value of a label in one language, with the Translations file it was loaded from.
+ */
+export interface LabelTranslation {
+    language: string;
+    value: string;
+    filePath: string;
+}
+
+/**
+ * Labels without a translation in a language that has translation files.
+ */
+export interface MissingTranslations {
+    language: string;
+    fullNames: string[];
+}
+
+interface LabelMap {
+    [fullName: string]: StoredCustomLabel;
+}
+
+type StoreListener = () => void;
+
+export class SalesforceLabelsStore {
+    private static instance: SalesforceLabelsStore;
+
+    /** First definition of each label, keyed by fullName. */
+    public salesforceLabels: LabelMap = {};
+
+    private labelsByFile = new Map<string, StoredCustomLabel[]>();
+    private definitions = new Map<string, StoredCustomLabel[]>();
+    // labels by lower-cased category, with the spelling of the first label using the category
+    private categories = new Map<string, { category: string; labels: StoredCustomLabel[] }>();
+    private translationsByFile = new Map<string, { language: string; entries: LabelTranslationEntry[] }>();
+    private translations = new Map<string, LabelTranslation[]>();
+    private listeners: StoreListener[] = [];
+    // open beginUpdate calls; the index is rebuilt when the last one ends
+    private updateDepth = 0;
+    private pendingRebuild = false;
+
+    private constructor() { }
+
+    public static getInstance(): SalesforceLabelsStore {
+        if (!SalesforceLabelsStore.instance) {
+            SalesforceLabelsStore.instance = new SalesforceLabelsStore();
+        }
+
+        return SalesforceLabelsStore.instance;
+    }
+
+    /**
+     * Defers rebuilding the index and notifying listeners until the matching endUpdate, so loading many
+     * files rebuilds once. Calls can be nested.
+     */
+    public beginUpdate() {
+        this.updateDepth++;
+    }
+
+    /**
+     * Ends a beginUpdate; the last one rebuilds the index and notifies listeners once if anything changed.
+     */
+    public endUpdate() {
+        this.updateDepth = Math.max(0, this.updateDepth - 1);
+
+        if (this.updateDepth === 0 && this.pendingRebuild) {
+            this.rebuildIndex();
+        }
+    }
+
+    /**
+     * Replaces all labels previously loaded from `source.filePath` with the given ones.
+     */
+    public setFileLabels(source: LabelSource, labels: CustomLabel[]) {
+        this.labelsByFile.set(source.filePath, labels.map(label => ({ ...label, source })));
+        this.rebuildIndex();
+    }
+
+    /**
+     * Forgets every label loaded from the given file. Returns false when the file was not loaded.
+     */
+    public removeFile(filePath: string): boolean {
+        const removed = this.labelsByFile.delete(filePath);
+
+        if (removed) {
+            this.rebuildIndex();
+        }
+
+        return removed;
+    }
+
+    /**
+     * Adds or replaces a single label. When no source is given, the label keeps the source of
+     * its existing definition.
+     */
+    public updateLabel(fullName: string, label: CustomLabel, source?: LabelSource) {
+        const labelSource = source ?? this.salesforceLabels[fullName]?.source;
+
+        if (!labelSource) {
+            return;
+        }
+
+        const fileLabels = this.labelsByFile.get(labelSource.filePath) ?? [];
+        const stored: StoredCustomLabel = { ...label, fullName, source: labelSource };
+        const index = fileLabels.findIndex(existing => existing.fullName.toString() === fullName);
+
+        if (index >= 0) {
+            fileLabels[index] = stored;
+        } else {
+            fileLabels.push(stored);
+        }
+
+        this.labelsByFile.set(labelSource.filePath, fileLabels);
+        this.rebuildIndex();
+    }
+
+    public getAllLabels(): StoredCustomLabel[] {
+        return Object.values(this.salesforceLabels).sort((a, b) => a.fullName.toString().localeCompare(b.fullName.toString()));
+    }
+
+    /**
+     * Every definition of the label across all loaded files, in load order.
+     */
+    public getDefinitions(fullName: string): StoredCustomLabel[] {
+        return this.definitions.get(fullName) ?? [];
+    }
+
+    /**
+     * Resolve a referenced name to a stored fullName. Exact matches win, otherwise the match is
+     * case-insensitive, as label names are in Apex.
+     */
+    public resolveFullName(name: string): string | undefined {
+        if (this.definitions.has(name)) {
+            return name;
+        }
+
+        const lowerName = name.toLowerCase();
+
+        return [...this.definitions.keys()].find(fullName => fullName.toLowerCase() === lowerName);
+    }
+
+    public getLabelsInFile(filePath: string): StoredCustomLabel[] {
+        return this.labelsByFile.get(filePath) ?? [];
+    }
+
+    public getFilePaths(): string[] {
+        return [...this.labelsByFile.keys()];
+    }
+
+    /**
+     * Labels whose fullName is defined in more than one file.
+     */
+    public getDuplicates(): DuplicateLabel[] {
+        const duplicates: DuplicateLabel[] = [];
+
+        for (const [fullName, definitions] of this.definitions) {
+            const filePaths = new Set(definitions.map(definition => definition.source.filePath));
+
+            if (filePaths.size > 1) {
+                duplicates.push({ fullName, sources: definitions.map(definition => definition.source) });
+            }
+        }
+
+        return duplicates;
+    }
+
+    /**
+     * Categories used by the labels, sorted. Categories differing only by case are the same category,
+     * spelled as in the first label using it.
+     */
+    public getCategories(): string[] {
+        return [...this.categories.values()].map(entry => entry.category).sort((a, b) => a.localeCompare(b));
+    }
+
+    /**
+     * Labels having the category (case-insensitive), sorted by fullName.
+     */
+    public getLabelsInCategory(category: string): StoredCustomLabel[] {
+        return [...this.categories.get(category.toLowerCase())?.labels ?? []]
+            .sort((a, b) => a.fullName.toString().localeCompare(b.fullName.toString()));
+    }
+
+    /**
+     * Labels without any category, sorted by fullName.
+     */
+    public getUncategorizedLabels(): StoredCustomLabel[] {
+        return this.getAllLabels().filter(label => splitCategories(label.categories).length === 0);
+    }
+
+    /**
+     * Replaces all label translations previously loaded from the Translations file.
+     */
+    public setFileTranslations(filePath: string, language: string, entries: LabelTranslationEntry[]) {
+        this.translationsByFile.set(filePath, { language, entries });
+        this.rebuildIndex();
+    }
+
+    /**
+     * Forgets the translations loaded from the given file. Returns false when the file was not loaded.
+     */
+    public removeTranslationFile(filePath: string): boolean {
+        const removed = this.translationsByFile.delete(filePath);
+
+        if (removed) {
+            this.rebuildIndex();
+        }
+
+        return removed;
+    }
+
+    /**
+     * Translations of the label, sorted by language.
+     */
+    public getTranslations(fullName: string): LabelTranslation[] {
+        return this.translations.get(fullName) ?? [];
+    }
+
+    /**
+     * Languages that have at least one Translations file, sorted.
+     */
+    public getTranslationLanguages(): string[] {
+        return [...new Set([...this.translationsByFile.values()].map(file => file.language))].sort();
+    }
+
+    /**
+     * Translations files loaded for the language, or for every language when none is given.
+     */
+    public getTranslationFilePaths(language?: string): string[] {
+        return [...this.translationsByFile.entries()]
+            .filter(([, file]) => language === undefined || file.language === language)
+            .map(([filePath]) => filePath);
+    }
+
+    /**
+     * For each language with Translations files, the labels that have no translation in it.
+     * A label is not reported for its own language.
+     */
+    public getMissingTranslations(): MissingTranslations[] {
+        return this.getTranslationLanguages().map(language => ({
+            language,
+            fullNames: this.getAllLabels()
+                .filter(label => label.language?.toString() !== language)
+                .map(label => label.fullName.toString())
+                .filter(fullName => !this.getTranslations(fullName).some(translation => translation.language === language))
+        }));
+    }
+
+    /**
+     * Registers a listener called whenever the stored labels change.
+     */
+    public onDidChange(listener: StoreListener): { dispose(): void } {
+        this.listeners.push(listener);
+
+        return {
+            dispose: () => {
+                this.listeners = this.listeners.filter(registered => registered !== listener);
+            }
+        };
+    }
+
+    public clear() {
+        this.labelsByFile.clear();
+        this.translationsByFile.clear();
+        this.rebuildIndex();
+    }
+
+    private rebuildIndex() {
+        if (this.updateDepth > 0) {
+            this.pendingRebuild = true;
+
+            return;
+        }
+
+        this.pendingRebuild = false;
+        this.definitions.clear();
+        this.salesforceLabels = {};
+
+        for (const fileLabels of this.labelsByFile.values()) {
+            for (const label of fileLabels) {
+                const fullName = label.fullName.toString();
+                const existing = this.definitions.get(fullName);
+
+                if (existing) {
+                    existing.push(label);
+                } else {
+                    this.definitions.set(fullName, [label]);
+                    this.salesforceLabels[fullName] = label;
+                }
+            }
+        }
+
+        this.categories.clear();
+
+        for (const label of Object.values(this.salesforceLabels)) {
+            for (const category of splitCategories(label.categories)) {
+                const key = category.toLowerCase();
+                const entry = this.categories.get(key) ?? { category, labels: [] };
+
+                if (!entry.labels.includes(label)) {
+                    entry.labels.push(label);
+                }
+
+                this.categories.set(key, entry);
+            }
+        }
+
+        this.translations.clear();
+
+        for (const [filePath, file] of this.translationsByFile) {
+            for (const entry of file.entries) {
+                const translations = this.translations.get(entry.name) ?? [];
+
+                translations.push({ language: file.language, value: entry.value, filePath });
+                this.translations.set(entry.name, translations);
+            }
+        }
+
+        for (const translations of this.translations.values()) {
+            translations.sort((a, b) => a.language.localeCompare(b.language));
+        }
+
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
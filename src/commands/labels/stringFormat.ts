@@ -0,0 +1,182 @@
+/**
+ * Pure helpers for labels formatted with `String.format(System.Label.X, new List<Object>{...})` in Apex:
+ * the `{0}`, `{1}` placeholders of a value, the arguments passed to the calls and the rendered value.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { findLabelReferences, LabelReference } from './referenceSyntax';
+
+/**
+ * An argument expression of the list passed to `String.format`.
+ */
+export interface FormatArgument {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A `String.format` call whose template is a label reference.
+ */
+export interface LabelFormatCall {
+    reference: LabelReference;
+    // offsets of the second argument of the call
+    argumentsStart: number;
+    argumentsEnd: number;
+    // undefined when the arguments are not an inline list, e.g. a variable
+    arguments?: FormatArgument[];
+}
+
+const PLACEHOLDER_PATTERN = /^\{(\d+)(?:,[^}]*)?\}/;
+const LIST_LITERAL_PATTERN = /^new\s+(?:List\s*<[\w\s.<>,]*>|[\w.]+\s*\[\s*\])\s*\{/i;
+
+/**
+ * Placeholder indexes used by the value, in order of appearance. Text between single quotes is literal
+ * and `''` is a quote, as in `String.format`.
+ */
+export function findPlaceholderIndexes(value: string): number[] {
+    const indexes: number[] = [];
+    let quoted = false;
+
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+
+        if (char === '\'') {
+            if (value[index + 1] === '\'') {
+                index++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (char === '{' && !quoted) {
+            const placeholder = PLACEHOLDER_PATTERN.exec(value.slice(index));
+
+            if (placeholder) {
+                indexes.push(Number(placeholder[1]));
+                index += placeholder[0].length - 1;
+            }
+        }
+    }
+
+    return indexes;
+}
+
+/**
+ * Number of arguments the value expects: the highest placeholder index plus one, 0 without placeholders.
+ */
+export function getExpectedArgumentCount(value: string): number {
+    return Math.max(-1, ...findPlaceholderIndexes(value)) + 1;
+}
+
+/**
+ * The value with each placeholder replaced by the matching replacement. Placeholders without replacement
+ * are kept as is; quoting is left untouched as the result is only a preview.
+ */
+export function renderFormattedValue(value: string, replacements: string[]): string {
+    return value.replace(/\{(\d+)(?:,[^}]*)?\}/g, (placeholder, index: string) => replacements[Number(index)] ?? placeholder);
+}
+
+/**
+ * The source with comments and string literals replaced by spaces, so offsets are kept
+ * and brackets or commas inside them are ignored.
+ */
+function maskApexSource(text: string): string {
+    return text.replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:\\.|[^'\\\n])*'?/g, match => match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Top-level comma-separated parts of `masked` between `start` and the bracket closing at depth 0,
+ * and the offset of that bracket.
+ */
+function splitTopLevel(masked: string, start: number): { parts: { start: number; end: number }[]; end: number } | undefined {
+    const parts: { start: number; end: number }[] = [];
+    let depth = 0;
+    let partStart = start;
+
+    for (let index = start; index < masked.length; index++) {
+        const char = masked[index];
+
+        if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            if (depth === 0) {
+                parts.push({ start: partStart, end: index });
+                return { parts, end: index };
+            }
+
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push({ start: partStart, end: index });
+            partStart = index + 1;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Trim the whitespace around the part.
+ */
+function trimPart(text: string, part: { start: number; end: number }): FormatArgument {
+    const raw = text.slice(part.start, part.end);
+    const start = part.start + (raw.length - raw.trimStart().length);
+
+    return { text: raw.trim(), start, end: start + raw.trim().length };
+}
+
+/**
+ * Arguments of an inline list or array literal, undefined for any other expression.
+ */
+function parseListLiteral(text: string, masked: string, argument: FormatArgument): FormatArgument[] | undefined {
+    const literal = LIST_LITERAL_PATTERN.exec(masked.slice(argument.start, argument.end));
+
+    if (!literal) {
+        return undefined;
+    }
+
+    const items = splitTopLevel(masked, argument.start + literal[0].length);
+
+    if (!items || items.end !== argument.end - 1) {
+        return undefined;
+    }
+
+    const elements = items.parts.map(part => trimPart(text, part));
+
+    // `{}` is an empty list, a trailing comma is not an element
+    return elements.length === 1 && elements[0].text.length === 0 ? [] : elements.filter(element => element.text.length > 0);
+}
+
+/**
+ * `String.format` calls of the Apex source whose first argument is a label reference.
+ */
+export function findLabelFormatCalls(text: string): LabelFormatCall[] {
+    const masked = maskApexSource(text);
+    const references = findLabelReferences(masked, 'apex');
+    const callPattern = /\bString\s*\.\s*format\s*\(/gi;
+    const calls: LabelFormatCall[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = callPattern.exec(masked)) !== null) {
+        const callArguments = splitTopLevel(masked, match.index + match[0].length);
+
+        if (!callArguments || callArguments.parts.length !== 2) {
+            continue;
+        }
+
+        const template = trimPart(text, callArguments.parts[0]);
+        const reference = references.find(candidate => candidate.start === template.start && candidate.end === template.end);
+
+        if (!reference) {
+            continue;
+        }
+
+        const formatArguments = trimPart(text, callArguments.parts[1]);
+
+        calls.push({
+            reference,
+            argumentsStart: formatArguments.start,
+            argumentsEnd: formatArguments.end,
+            arguments: parseListLiteral(text, masked, formatArguments)
+        });
+    }
+
+    return calls;
+}
@@ -0,0 +1,184 @@
+/**
+ * Commands to list labels missing a translation and to add or edit the translation of a label.
+ */
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getSalesforceLabelsStore, reloadTranslationFile } from './load';
+import labels from '../../labels';
+import { getLabelNameAt } from './navigation';
+import { buildEmptyTranslationFile, setLabelTranslationInFile, TRANSLATION_FILE_SUFFIX } from './translations';
+
+const LIST_MISSING_COMMAND_NAME = 'listMissingLabelTranslations';
+const EDIT_COMMAND_NAME = 'editLabelTranslation';
+
+export async function activateLabelTranslations(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const listMissingCommandFullName = `${labels.misc.EXTENSION_NAME}.${LIST_MISSING_COMMAND_NAME}`;
+    const editCommandFullName = `${labels.misc.EXTENSION_NAME}.${EDIT_COMMAND_NAME}`;
+
+    if (commands.includes(editCommandFullName)) {
+        return;
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(listMissingCommandFullName, listMissingTranslations),
+        vscode.commands.registerCommand(editCommandFullName, editLabelTranslation)
+    );
+}
+
+async function listMissingTranslations() {
+    const missingTranslations = getSalesforceLabelsStore().getMissingTranslations();
+
+    if (missingTranslations.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_TRANSLATION_FILES_FOUND);
+        return;
+    }
+
+    const selectedLanguage = await vscode.window.showQuickPick(
+        missingTranslations.map(missing => ({
+            label: missing.language,
+            description: labels.commands.MISSING_TRANSLATIONS_COUNT(missing.fullNames.length),
+            missing
+        })),
+        { placeHolder: labels.commands.SELECT_TRANSLATION_LANGUAGE_TO_REVIEW }
+    );
+
+    if (!selectedLanguage) {
+        return;
+    }
+
+    if (selectedLanguage.missing.fullNames.length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.ALL_LABELS_TRANSLATED(selectedLanguage.label));
+        return;
+    }
+
+    const store = getSalesforceLabelsStore();
+    const selectedLabel = await vscode.window.showQuickPick(
+        selectedLanguage.missing.fullNames.map(fullName => ({
+            label: fullName,
+            description: store.salesforceLabels[fullName]?.value.toString()
+        })),
+        {
+            placeHolder: labels.commands.SELECT_LABEL_TO_TRANSLATE(selectedLanguage.label),
+            matchOnDescription: true
+        }
+    );
+
+    if (selectedLabel) {
+        await editLabelTranslation({ fullName: selectedLabel.label, language: selectedLanguage.label });
+    }
+}
+
+/**
+ * Add or edit the translation of a label. The label defaults to the one under the cursor and
+ * the language is picked among the languages that have Translations files, or entered.
+ */
+async function editLabelTranslation(args?: { fullName?: string; language?: string }) {
+    const store = getSalesforceLabelsStore();
+    const fullName = args?.fullName ?? await pickLabel();
+    const label = fullName ? store.salesforceLabels[fullName] : undefined;
+
+    if (!fullName || !label) {
+        return;
+    }
+
+    const language = args?.language ?? await pickLanguage(fullName);
+
+    if (!language) {
+        return;
+    }
+
+    const existing = store.getTranslations(fullName).find(translation => translation.language === language);
+    const value = await vscode.window.showInputBox({
+        prompt: labels.commands.ENTER_TRANSLATION(fullName, language),
+        placeHolder: label.value.toString(),
+        value: existing?.value ?? ''
+    });
+
+    if (value === undefined) {
+        return;
+    }
+
+    const translationFileUri = existing
+        ? vscode.Uri.file(existing.filePath)
+        : getTranslationFileUri(language, label.source.filePath);
+
+    try {
+        const exists = await vscode.workspace.fs.stat(translationFileUri).then(() => true, () => false);
+        const content = exists
+            ? new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(translationFileUri))
+            : buildEmptyTranslationFile();
+
+        if (!exists) {
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(translationFileUri, '..'));
+        }
+
+        await vscode.workspace.fs.writeFile(
+            translationFileUri,
+            Buffer.from(setLabelTranslationInFile(content, fullName, value, translationFileUri.fsPath), 'utf-8')
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(labels.warningMessages.FAILED_TO_WRITE_LABEL(translationFileUri.fsPath, err as Error));
+        return;
+    }
+
+    await reloadTranslationFile(translationFileUri);
+    vscode.window.showInformationMessage(labels.informationMessages.TRANSLATION_SAVED(fullName, language, vscode.workspace.asRelativePath(translationFileUri)));
+}
+
+async function pickLabel(): Promise<string | undefined> {
+    const store = getSalesforceLabelsStore();
+    const editor = vscode.window.activeTextEditor;
+    const labelAtCursor = editor && getLabelNameAt(editor.document, editor.selection.active);
+    const fullName = labelAtCursor && store.resolveFullName(labelAtCursor.name);
+
+    if (fullName) {
+        return fullName;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        store.getAllLabels().map(label => ({ label: label.fullName.toString(), description: label.value.toString() })),
+        { placeHolder: labels.commands.SELECT_LABEL_TO_TRANSLATE(), matchOnDescription: true }
+    );
+
+    return selected?.label;
+}
+
+async function pickLanguage(fullName: string): Promise<string | undefined> {
+    const store = getSalesforceLabelsStore();
+    const translations = store.getTranslations(fullName);
+    const otherLanguage = { label: labels.commands.OTHER_TRANSLATION_LANGUAGE, description: undefined as string | undefined };
+    const selected = await vscode.window.showQuickPick(
+        [
+            ...store.getTranslationLanguages().map(language => ({
+                label: language,
+                description: translations.find(translation => translation.language === language)?.value ?? labels.commands.NOT_TRANSLATED
+            })),
+            otherLanguage
+        ],
+        { placeHolder: labels.commands.SELECT_TRANSLATION_LANGUAGE(fullName) }
+    );
+
+    if (selected !== otherLanguage) {
+        return selected?.label;
+    }
+
+    return vscode.window.showInputBox({
+        prompt: labels.commands.ENTER_TRANSLATION_LANGUAGE,
+        placeHolder: labels.commands.TRANSLATION_LANGUAGE_PLACEHOLDER,
+        validateInput: value => /^[A-Za-z]{2,3}(_[A-Za-z0-9]+)*$/.test(value) ? undefined : labels.warningMessages.INVALID_LANGUAGE_CODE(value)
+    });
+}
+
+/**
+ * Translations file for the language: an existing one, preferably in the same package directory as the
+ * label, otherwise a new file in the `translations` folder next to the label's `labels` folder.
+ */
+export function getTranslationFileUri(language: string, labelFilePath: string): vscode.Uri {
+    const store = getSalesforceLabelsStore();
+    const metadataFolder = path.dirname(path.dirname(labelFilePath));
+    const existingFiles = store.getTranslationFilePaths(language);
+    const existingFile = existingFiles.find(filePath => filePath.startsWith(metadataFolder + path.sep)) ?? existingFiles[0];
+
+    return vscode.Uri.file(existingFile ?? path.join(metadataFolder, 'translations', `${language}${TRANSLATION_FILE_SUFFIX}`));
+}
@@ -0,0 +1,149 @@
+/**
+ * Pure helpers to read and write custom label translations stored in Translations metadata files
+ * (`translations/<language>.translation-meta.xml`, `<customLabels>` entries).
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import * as path from 'path';
+import { parseStringPromise } from 'xml2js';
+import labels from '../../labels';
+import { textOf } from './parse';
+import { escapeXml } from './writer';
+
+export const TRANSLATION_FILE_SUFFIX = '.translation-meta.xml';
+
+const METADATA_NAMESPACE = 'http://soap.sforce.com/2006/04/metadata';
+const DEFAULT_INDENT = '    ';
+
+/**
+ * Translated value of a label, keyed by the label's fullName (`<name>`).
+ */
+export interface LabelTranslationEntry {
+    name: string;
+    value: string;
+}
+
+export function isTranslationFile(filePath: string): boolean {
+    return filePath.endsWith(TRANSLATION_FILE_SUFFIX);
+}
+
+/**
+ * Language code of a translation file, from its name (e.g. `fr` for `fr.translation-meta.xml`).
+ */
+export function getTranslationLanguage(filePath: string): string {
+    return path.basename(filePath).slice(0, -TRANSLATION_FILE_SUFFIX.length);
+}
+
+/**
+ * Read the custom label translations of a Translations file. Other translated components are ignored.
+ */
+export async function parseTranslationFileContent(xml: string): Promise<LabelTranslationEntry[]> {
+    const result = await parseStringPromise(xml.replace(/^\uFEFF/, ''));
+    const entries: Record<string, unknown>[] = result?.Translations?.customLabels ?? [];
+
+    return entries
+        .map(entry => ({ name: textOf(entry.name), value: textOf(entry.label) }))
+        .filter((entry): entry is LabelTranslationEntry => entry.name !== undefined)
+        .map(entry => ({ name: entry.name, value: entry.value ?? '' }));
+}
+
+/**
+ * Offsets of the `<name>` text of every `<customLabels>` entry translating the label.
+ */
+export function findTranslationNameOffsets(xml: string, name: string): { start: number; end: number }[] {
+    const offsets: { start: number; end: number }[] = [];
+    const escapedName = escapeXml(name);
+
+    for (const match of xml.matchAll(/<customLabels>([\s\S]*?)<\/customLabels>/g)) {
+        const nameMatch = /<name>\s*([\s\S]*?)\s*<\/name>/.exec(match[1]);
+
+        if (nameMatch && nameMatch[1] === escapedName) {
+            const start = match.index! + '<customLabels>'.length + nameMatch.index + nameMatch[0].indexOf(nameMatch[1], '<name>'.length);
+
+            offsets.push({ start, end: start + nameMatch[1].length });
+        }
+    }
+
+    return offsets;
+}
+
+/**
+ * Content of a new Translations file without any translated component.
+ */
+export function buildEmptyTranslationFile(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<Translations xmlns="${METADATA_NAMESPACE}">\n</Translations>\n`;
+}
+
+/**
+ * Set the translation of a label in the content of a Translations file. An existing `<customLabels>`
+ * entry is updated in place, otherwise a new one is inserted in `<name>` order, after the translated
+ * components that sort before `customLabels` so the file stays in the order Salesforce retrieves it.
+ */
+export function setLabelTranslationInFile(xml: string, name: string, value: string, filePath: string): string {
+    if (!/<Translations[\s>/]/.test(xml)) {
+        throw new Error(labels.warningMessages.NOT_A_TRANSLATIONS_FILE(filePath));
+    }
+
+    const newline = xml.includes('\r\n') ? '\r\n' : '\n';
+    const indent = /^([ \t]+)<\w+>/m.exec(xml)?.[1] ?? DEFAULT_INDENT;
+    const entries = [...xml.matchAll(/<customLabels>([\s\S]*?)<\/customLabels>/g)].map(match => ({
+        start: match.index!,
+        end: match.index! + match[0].length,
+        name: /<name>([\s\S]*?)<\/name>/.exec(match[1])?.[1]?.trim() ?? ''
+    }));
+    const escapedName = escapeXml(name);
+    const existing = entries.find(entry => entry.name === escapedName);
+    const element = [
+        '<customLabels>',
+        `${indent}${indent}<label>${escapeXml(value)}</label>`,
+        `${indent}${indent}<name>${escapedName}</name>`,
+        `${indent}</customLabels>`
+    ].join(newline);
+
+    if (existing) {
+        return xml.slice(0, existing.start) + element + xml.slice(existing.end);
+    }
+
+    const following = entries.find(entry => entry.name.localeCompare(escapedName) > 0);
+
+    if (following) {
+        return insertLine(xml, following.start, `${indent}${element}`, newline);
+    }
+
+    if (entries.length > 0) {
+        const last = entries[entries.length - 1];
+
+        return xml.slice(0, last.end) + newline + indent + element + xml.slice(last.end);
+    }
+
+    // first label translation: before the first top-level component that sorts after customLabels
+    const nextComponent = [...xml.matchAll(new RegExp(`^${indent}<(\\w+)>`, 'gm'))].find(match => match[1].localeCompare('customLabels') > 0);
+
+    if (nextComponent) {
+        return insertLine(xml, nextComponent.index!, `${indent}${element}`, newline);
+    }
+
+    const selfClosing = /<Translations\b([^>]*?)\s*\/>/.exec(xml);
+
+    if (selfClosing) {
+        const expanded = `<Translations${selfClosing[1]}>${newline}${indent}${element}${newline}</Translations>`;
+
+        return xml.slice(0, selfClosing.index) + expanded + xml.slice(selfClosing.index + selfClosing[0].length);
+    }
+
+    const closingTag = xml.lastIndexOf('</Translations>');
+
+    return insertLine(xml, closingTag, `${indent}${element}`, newline);
+}
+
+/**
+ * Insert the text as a line of its own before the line holding the offset.
+ */
+function insertLine(xml: string, offset: number, text: string, newline: string): string {
+    const lineStart = xml.lastIndexOf('\n', offset) + 1;
+
+    if (xml.slice(lineStart, offset).trim().length === 0) {
+        return xml.slice(0, lineStart) + text + newline + xml.slice(lineStart);
+    }
+
+    return xml.slice(0, offset) + newline + text + newline + xml.slice(offset);
+}
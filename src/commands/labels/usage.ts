@@ -0,0 +1,113 @@
+/**
+ * Pure helpers to work out missing and unused custom labels from the references found in source files.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import type { LabelReference, LabelReferenceKind } from './referenceSyntax';
+
+/**
+ * References found in one source file, tagged with a stamp (e.g. modification time or document version)
+ * so the file is only read again when it changes. `positionOf` converts offsets of the scanned text
+ * to line/character positions.
+ */
+export interface CachedFileReferences {
+    stamp: string;
+    kind: LabelReferenceKind;
+    references: LabelReference[];
+    positionOf: (offset: number) => { line: number; character: number };
+}
+
+/**
+ * True when the reference points to a label of this project rather than one from another namespace
+ * (e.g. a managed package). `c` is the default namespace in LWC and Aura.
+ */
+export function isLocalLabelReference(reference: Pick<LabelReference, 'namespace'>, projectNamespace?: string): boolean {
+    return !reference.namespace || reference.namespace === 'c' || reference.namespace === projectNamespace;
+}
+
+/**
+ * References to labels of this project that are not defined in any label file.
+ * Apex label names are case-insensitive, other syntaxes are matched exactly.
+ */
+export function findMissingLabelReferences(
+    references: LabelReference[],
+    kind: LabelReferenceKind,
+    labelNames: Iterable<string>,
+    projectNamespace?: string
+): LabelReference[] {
+    const exactNames = new Set(labelNames);
+    const lowerNames = new Set([...exactNames].map(name => name.toLowerCase()));
+
+    return references.filter(reference => {
+        if (!isLocalLabelReference(reference, projectNamespace)) {
+            return false;
+        }
+
+        return kind === 'apex' ? !lowerNames.has(reference.name.toLowerCase()) : !exactNames.has(reference.name);
+    });
+}
+
+/**
+ * Label names that no reference points to. Matching is case-insensitive so an Apex reference
+ * with different casing still counts as a use.
+ */
+export function findUnusedLabelNames(labelNames: Iterable<string>, references: Iterable<LabelReference>, projectNamespace?: string): string[] {
+    const referenced = new Set<string>();
+
+    for (const reference of references) {
+        if (isLocalLabelReference(reference, projectNamespace)) {
+            referenced.add(reference.name.toLowerCase());
+        }
+    }
+
+    return [...labelNames].filter(name => !referenced.has(name.toLowerCase()));
+}
+
+/**
+ * Cache of the label references found in each source file of the workspace.
+ */
+export class LabelReferenceCache {
+    private files = new Map<string, CachedFileReferences>();
+
+    public get(filePath: string, stamp?: string): CachedFileReferences | undefined {
+        const cached = this.files.get(filePath);
+
+        if (!cached || (stamp !== undefined && cached.stamp !== stamp)) {
+            return undefined;
+        }
+
+        return cached;
+    }
+
+    public set(filePath: string, entry: CachedFileReferences) {
+        this.files.set(filePath, entry);
+    }
+
+    public delete(filePath: string): boolean {
+        return this.files.delete(filePath);
+    }
+
+    /**
+     * Forgets files that are not in the given list (e.g. deleted since the last scan).
+     */
+    public retain(filePaths: Iterable<string>) {
+        const keep = new Set(filePaths);
+
+        for (const filePath of [...this.files.keys()]) {
+            if (!keep.has(filePath)) {
+                this.files.delete(filePath);
+            }
+        }
+    }
+
+    public entries(): [string, CachedFileReferences][] {
+        return [...this.files.entries()];
+    }
+
+    public allReferences(): LabelReference[] {
+        return [...this.files.values()].flatMap(entry => entry.references);
+    }
+
+    public clear() {
+        this.files.clear();
+    }
+}
@@ -0,0 +1,294 @@
+/**
+ * Label rules for managed package projects, reported as diagnostics in the label files and checked by the
+ * create wizard: API name rules, value length, the namespace prefix from package.json and unprotected
+ * labels used by subscriber-facing Apex.
+ */
+import * as vscode from 'vscode';
+import CustomLabel, { getProjectNamespace, getSalesforceLabelsStore, readPackageJsonSalesforceSettings } from './load';
+import labels from '../../labels';
+import { readWorkspaceText } from './navigation';
+import { createLineIndex, findLabelReferences, LABEL_REFERENCE_EXCLUDE_GLOB } from './referenceSyntax';
+import { isLocalLabelReference } from './usage';
+import { findLabelFieldOffsets, getSubscriberFacingApexClassName, LabelValidationContext, validateLabel } from './validation';
+
+const COMMAND_NAME = 'validateCustomLabels';
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_MANAGED_PACKAGE_RULES = 'labels.validateManagedPackageRules';
+const APEX_FILES_GLOB = '**/*.cls';
+const PUBLISH_DEBOUNCE_MS = 200;
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+// global Apex classes and the labels they reference, by file path, once the workspace was scanned
+const subscriberFacingClasses = new Map<string, { className: string; labelNames: string[] }>();
+let apexScan: Promise<void> | undefined;
+
+// publications still running are dropped when a newer one starts
+let publishGeneration = 0;
+let pendingPublish: ReturnType<typeof setTimeout> | undefined;
+
+// label file texts by path, re-read only when the open document version or the file on disk changes
+const labelFileTexts = new Map<string, { stamp: string; text: string }>();
+
+export async function activateLabelValidation(context: vscode.ExtensionContext) {
+    const commands = await vscode.commands.getCommands(true);
+    const commandFullName = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
+
+    if (commands.includes(commandFullName)) {
+        return;
+    }
+
+    diagnosticCollection = vscode.languages.createDiagnosticCollection(`${labels.misc.EXTENSION_NAME}.labelRules`);
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        vscode.commands.registerCommand(commandFullName, validateCustomLabels),
+        // the store changes once per reloaded file
+        getSalesforceLabelsStore().onDidChange(() => schedulePublishDiagnostics()),
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (apexScan && document.uri.fsPath.endsWith('.cls')) {
+                updateApexFile(document.uri.fsPath, document.getText());
+                publishDiagnostics();
+            }
+        }),
+        vscode.workspace.onDidDeleteFiles(event => {
+            if (event.files.some(uri => subscriberFacingClasses.delete(uri.fsPath))) {
+                publishDiagnostics();
+            }
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(`${CONFIG_SECTION}.${CONFIG_KEY_MANAGED_PACKAGE_RULES}`)) {
+                publishDiagnostics();
+            }
+        }),
+        {
+            dispose: () => {
+                clearTimeout(pendingPublish);
+                labelFileTexts.clear();
+            }
+        }
+    );
+
+    publishDiagnostics();
+}
+
+/**
+ * Managed package rules apply to projects with a namespace, in package.json or sfdx-project.json, unless disabled.
+ */
+function appliesManagedPackageRules(namespacePrefix?: string): boolean {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>(CONFIG_KEY_MANAGED_PACKAGE_RULES, true)
+        && !!(namespacePrefix || getProjectNamespace());
+}
+
+function updateApexFile(filePath: string, text: string) {
+    const className = getSubscriberFacingApexClassName(text);
+
+    if (!className) {
+        subscriberFacingClasses.delete(filePath);
+        return;
+    }
+
+    const labelNames = findLabelReferences(text, 'apex')
+        .filter(reference => isLocalLabelReference(reference, getProjectNamespace()))
+        .map(reference => reference.name);
+
+    subscriberFacingClasses.set(filePath, { className, labelNames });
+}
+
+async function scanApexClasses() {
+    const uris = await vscode.workspace.findFiles(APEX_FILES_GLOB, LABEL_REFERENCE_EXCLUDE_GLOB);
+
+    subscriberFacingClasses.clear();
+
+    for (const uri of uris) {
+        try {
+            updateApexFile(uri.fsPath, await readWorkspaceText(uri));
+        } catch (err) {
+            console.error(`Failed to scan ${uri.fsPath} for label references:`, err);
+        }
+    }
+}
+
+/**
+ * Rules context: the package.json namespace prefix and the labels used by global Apex, only when the
+ * managed package rules apply.
+ */
+async function getValidationContext(): Promise<LabelValidationContext> {
+    const namespacePrefix = (await readPackageJsonSalesforceSettings()).namespace;
+
+    if (!appliesManagedPackageRules(namespacePrefix)) {
+        return { subscriberFacingReferences: new Map() };
+    }
+
+    // the Apex classes are scanned once, then kept up to date as they are saved
+    apexScan ??= scanApexClasses();
+    await apexScan;
+
+    const subscriberFacingReferences = new Map<string, string[]>();
+
+    for (const { className, labelNames } of subscriberFacingClasses.values()) {
+        for (const name of new Set(labelNames.map(labelName => labelName.toLowerCase()))) {
+            subscriberFacingReferences.set(name, [...subscriberFacingReferences.get(name) ?? [], className].sort());
+        }
+    }
+
+    return { namespacePrefix, subscriberFacingReferences };
+}
+
+function schedulePublishDiagnostics() {
+    clearTimeout(pendingPublish);
+    pendingPublish = setTimeout(() => {
+        pendingPublish = undefined;
+        publishDiagnostics();
+    }, PUBLISH_DEBOUNCE_MS);
+}
+
+async function readLabelFileText(filePath: string): Promise<string> {
+    const uri = vscode.Uri.file(filePath);
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === filePath);
+    let stamp: string;
+
+    if (openDocument) {
+        stamp = `open:${openDocument.version}`;
+    } else {
+        const stat = await vscode.workspace.fs.stat(uri);
+
+        stamp = `${stat.mtime}:${stat.size}`;
+    }
+
+    const cached = labelFileTexts.get(filePath);
+
+    if (cached?.stamp === stamp) {
+        return cached.text;
+    }
+
+    const text = await readWorkspaceText(uri);
+
+    labelFileTexts.set(filePath, { stamp, text });
+
+    return text;
+}
+
+async function publishDiagnostics() {
+    const generation = ++publishGeneration;
+    const store = getSalesforceLabelsStore();
+    const validationContext = await getValidationContext();
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+    const filePaths = store.getFilePaths();
+    const loadedPaths = new Set(filePaths);
+
+    for (const filePath of [...labelFileTexts.keys()]) {
+        if (!loadedPaths.has(filePath)) {
+            labelFileTexts.delete(filePath);
+        }
+    }
+
+    for (const filePath of filePaths) {
+        // a newer publication started while the files were read
+        if (generation !== publishGeneration) {
+            return;
+        }
+
+        const fileLabels = store.getLabelsInFile(filePath);
+        let text = '';
+
+        try {
+            text = await readLabelFileText(filePath);
+        } catch {
+            // the issues are reported at the start of the file
+        }
+
+        const toPosition = createLineIndex(text);
+
+        diagnosticsByFile.set(filePath, fileLabels.flatMap(label => validateLabel(label, validationContext).map(issue => {
+            const offsets = findLabelFieldOffsets(text, label.fullName.toString(), issue.field) ?? { start: 0, end: 0 };
+            const start = toPosition(offsets.start);
+            const end = toPosition(offsets.end);
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start.line, start.character, end.line, end.character),
+                issue.message,
+                issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+
+            diagnostic.source = labels.misc.EXTENSION_SOURCE_NAME;
+            diagnostic.code = `${labels.misc.EXTENSION_NAME}.${issue.code}`;
+
+            return diagnostic;
+        })));
+    }
+
+    if (generation !== publishGeneration || !diagnosticCollection) {
+        return;
+    }
+
+    diagnosticCollection.clear();
+
+    for (const [filePath, diagnostics] of diagnosticsByFile) {
+        if (diagnostics.length > 0) {
+            diagnosticCollection.set(vscode.Uri.file(filePath), diagnostics);
+        }
+    }
+}
+
+async function validateCustomLabels() {
+    if (getSalesforceLabelsStore().getFilePaths().length === 0) {
+        vscode.window.showInformationMessage(labels.informationMessages.NO_LABEL_FILES_FOUND);
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: labels.informationMessages.VALIDATING_LABELS },
+        async () => {
+            // rescan, classes may have changed outside the editor
+            apexScan = undefined;
+            await publishDiagnostics();
+        }
+    );
+
+    let errorCount = 0;
+    let warningCount = 0;
+
+    diagnosticCollection?.forEach((_uri, diagnostics) => {
+        errorCount += diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error).length;
+        warningCount += diagnostics.filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Warning).length;
+    });
+
+    vscode.window.showInformationMessage(labels.informationMessages.LABEL_VALIDATION_SUMMARY(errorCount, warningCount));
+}
+
+/**
+ * Check a label about to be created: errors are shown and block the creation, warnings ask for confirmation.
+ * When created from a global Apex class, the label counts as used by it. Returns whether to create the label.
+ */
+export async function confirmNewLabelRules(label: CustomLabel, document?: vscode.TextDocument): Promise<boolean> {
+    const fullName = label.fullName.toString();
+    const validationContext = await getValidationContext();
+    const className = document?.uri.fsPath.endsWith('.cls') && appliesManagedPackageRules(validationContext.namespacePrefix)
+        ? getSubscriberFacingApexClassName(document.getText())
+        : undefined;
+
+    if (className) {
+        const references = new Map(validationContext.subscriberFacingReferences);
+        const key = fullName.toLowerCase();
+
+        references.set(key, [...references.get(key) ?? [], className]);
+        validationContext.subscriberFacingReferences = references;
+    }
+
+    const issues = validateLabel(label, validationContext);
+    const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+    const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+
+    if (errors.length > 0) {
+        vscode.window.showErrorMessage(labels.warningMessages.LABEL_RULE_ERRORS(fullName, errors));
+        return false;
+    }
+
+    if (warnings.length > 0) {
+        const choice = await vscode.window.showWarningMessage(labels.warningMessages.LABEL_RULE_WARNINGS(fullName, warnings), { modal: true }, labels.commands.CREATE_ANYWAY);
+
+        return choice === labels.commands.CREATE_ANYWAY;
+    }
+
+    return true;
+}
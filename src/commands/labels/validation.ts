@@ -0,0 +1,120 @@
+/**
+ * Pure rules checking custom labels for managed package projects: API name rules, value length, the configured
+ * namespace prefix and unprotected labels used by subscriber-facing (global) Apex.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import type CustomLabel from './store';
+import labels from '../../labels';
+import { findLabelElementOffsets } from './parse';
+import { MAX_LABEL_VALUE_LENGTH, validateLabelApiName } from './writer';
+
+export type LabelRuleCode = 'invalidApiName' | 'valueTooLong' | 'missingNamespacePrefix' | 'unprotectedSubscriberLabel';
+
+/**
+ * A broken rule. Errors make the label fail to deploy, warnings are risky in a managed package.
+ */
+export interface LabelValidationIssue {
+    code: LabelRuleCode;
+    severity: 'error' | 'warning';
+    message: string;
+    // element of the label the issue is reported on
+    field: 'fullName' | 'value' | 'protected';
+}
+
+export interface LabelValidationContext {
+    // prefix every label name should start with, e.g. the package.json `salesforce.namespace`
+    namespacePrefix?: string;
+    // subscriber-facing Apex classes referencing each label, keyed by lower-cased label name
+    subscriberFacingReferences: ReadonlyMap<string, string[]>;
+}
+
+/**
+ * Whether the label name starts with `<prefix>_`, ignoring case.
+ */
+export function hasNamespacePrefix(fullName: string, prefix: string): boolean {
+    return fullName.toLowerCase().startsWith(`${prefix.toLowerCase()}_`);
+}
+
+/**
+ * Rules the label breaks, errors first.
+ */
+export function validateLabel(label: CustomLabel, context: LabelValidationContext): LabelValidationIssue[] {
+    const fullName = label.fullName.toString();
+    const value = (label.value ?? '').toString();
+    const issues: LabelValidationIssue[] = [];
+    const nameError = validateLabelApiName(fullName);
+
+    if (nameError) {
+        issues.push({ code: 'invalidApiName', severity: 'error', message: nameError, field: 'fullName' });
+    }
+
+    if (value.length > MAX_LABEL_VALUE_LENGTH) {
+        issues.push({
+            code: 'valueTooLong',
+            severity: 'error',
+            message: labels.warningMessages.LABEL_VALUE_TOO_LONG(fullName, value.length, MAX_LABEL_VALUE_LENGTH),
+            field: 'value'
+        });
+    }
+
+    if (context.namespacePrefix && !hasNamespacePrefix(fullName, context.namespacePrefix)) {
+        issues.push({
+            code: 'missingNamespacePrefix',
+            severity: 'warning',
+            message: labels.warningMessages.LABEL_MISSING_NAMESPACE_PREFIX(fullName, context.namespacePrefix),
+            field: 'fullName'
+        });
+    }
+
+    const subscriberClasses = context.subscriberFacingReferences.get(fullName.toLowerCase()) ?? [];
+
+    if (label.protected !== true && subscriberClasses.length > 0) {
+        issues.push({
+            code: 'unprotectedSubscriberLabel',
+            severity: 'warning',
+            message: labels.warningMessages.UNPROTECTED_SUBSCRIBER_LABEL(fullName, subscriberClasses),
+            field: 'protected'
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Name of the class when the Apex source declares a `global` class, interface or enum, the API
+ * a managed package exposes to subscribers.
+ */
+export function getSubscriberFacingApexClassName(text: string): string | undefined {
+    const code = text.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, '');
+    const declaration = /\bglobal\s+(?:(?:with|without|inherited)\s+sharing\s+|virtual\s+|abstract\s+)*(?:class|interface|enum)\s+(\w+)/i.exec(code);
+
+    return declaration?.[1];
+}
+
+/**
+ * Offsets of the text of the label's `<field>` element in a label metadata file, falling back to the
+ * `<fullName>` value (or the start of the label element) when the element is not in the file.
+ */
+export function findLabelFieldOffsets(xml: string, fullName: string, field: LabelValidationIssue['field']): { start: number; end: number } | undefined {
+    const element = findLabelElementOffsets(xml, fullName);
+
+    if (!element) {
+        return undefined;
+    }
+
+    const nameOffsets = { start: element.nameStart ?? element.start, end: element.nameEnd ?? element.start };
+
+    if (field === 'fullName') {
+        return nameOffsets;
+    }
+
+    const fieldMatch = new RegExp(`<${field}>([\\s\\S]*?)</${field}>`).exec(xml.slice(element.start, element.end));
+
+    if (!fieldMatch) {
+        return nameOffsets;
+    }
+
+    const start = element.start + fieldMatch.index + field.length + 2;
+
+    return { start, end: start + fieldMatch[1].length };
+}
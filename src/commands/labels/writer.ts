@@ -0,0 +1,207 @@
+/**
+ * Pure helpers to write custom labels to metadata files: insert, replace or remove a label in a
+ * `CustomLabels` file, or build a decomposed one-file-per-label `CustomLabel` file.
+ * Only the affected `<labels>` element is touched, the rest of the file is kept as is so diffs stay small.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import type CustomLabel from './store';
+import labels from '../../labels';
+import { findLabelElementOffsets, parseLabelFileContent, splitCategories } from './parse';
+
+const METADATA_NAMESPACE = 'http://soap.sforce.com/2006/04/metadata';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+const DEFAULT_INDENT = '    ';
+
+export const DECOMPOSED_LABEL_FILE_SUFFIX = '.label-meta.xml';
+export const MAX_LABEL_API_NAME_LENGTH = 80;
+export const MAX_LABEL_VALUE_LENGTH = 1000;
+
+/**
+ * Error message when the name can't be used as a label API name: it must start with a letter, contain
+ * only letters, numbers and single underscores, not end with an underscore and be at most 80 characters.
+ */
+export function validateLabelApiName(name: string): string | undefined {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name) || name.includes('__') || name.endsWith('_')) {
+        return labels.warningMessages.INVALID_LABEL_API_NAME(name);
+    }
+
+    if (name.length > MAX_LABEL_API_NAME_LENGTH) {
+        return labels.warningMessages.LABEL_API_NAME_TOO_LONG(name, MAX_LABEL_API_NAME_LENGTH);
+    }
+
+    return undefined;
+}
+
+/**
+ * Escape the characters that are not allowed as is in XML element text.
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Child elements of a label in metadata order. Empty optional elements are left out and
+ * categories are normalized (trimmed, no empty entries).
+ */
+function serializeLabelElements(label: CustomLabel, indent: string, newline: string): string {
+    const categories = splitCategories(label.categories).join(',');
+    const elements: [string, string | undefined][] = [
+        ['fullName', label.fullName.toString()],
+        ['categories', categories],
+        ['language', label.language?.toString()],
+        ['protected', label.protected === undefined ? undefined : String(label.protected.valueOf())],
+        ['shortDescription', label.shortDescription?.toString()],
+        ['value', label.value.toString()]
+    ];
+
+    return elements
+        .filter(([name, value]) => name === 'value' || (value !== undefined && value.trim().length > 0))
+        .map(([name, value]) => `${indent}<${name}>${escapeXml(value ?? '')}</${name}>`)
+        .join(newline);
+}
+
+/**
+ * Content of a decomposed `<fullName>.label-meta.xml` file holding a single label.
+ */
+export function buildDecomposedLabelFile(label: CustomLabel): string {
+    return [
+        XML_DECLARATION,
+        `<CustomLabel xmlns="${METADATA_NAMESPACE}">`,
+        serializeLabelElements(label, DEFAULT_INDENT, '\n'),
+        '</CustomLabel>',
+        ''
+    ].join('\n');
+}
+
+export function getDecomposedLabelFileName(fullName: string): string {
+    return `${fullName}${DECOMPOSED_LABEL_FILE_SUFFIX}`;
+}
+
+/**
+ * Content of a new, empty `CustomLabels` file.
+ */
+export function buildEmptyLabelsFile(): string {
+    return `${XML_DECLARATION}\n<CustomLabels xmlns="${METADATA_NAMESPACE}">\n</CustomLabels>\n`;
+}
+
+/**
+ * Insert a label into the content of a `CustomLabels` file, before the first label whose fullName sorts
+ * after it. The indentation and line endings of the file are reused.
+ * Throws when the file can't be parsed or already defines the label.
+ */
+export async function insertLabelIntoLabelsFile(xml: string, label: CustomLabel, filePath: string): Promise<string> {
+    const fullName = label.fullName.toString();
+    const existingLabels = await parseLabelFileContent(xml, filePath);
+
+    if (!/<CustomLabels[\s>/]/.test(xml)) {
+        throw new Error(labels.warningMessages.NOT_A_LABELS_FILE(filePath));
+    }
+
+    if (existingLabels.some(existing => existing.fullName.toString() === fullName)) {
+        throw new Error(labels.warningMessages.LABEL_ALREADY_IN_FILE(fullName, filePath));
+    }
+
+    const newline = xml.includes('\r\n') ? '\r\n' : '\n';
+    const indent = /^([ \t]+)<labels>/m.exec(xml)?.[1] ?? DEFAULT_INDENT;
+    const block = [
+        `${indent}<labels>`,
+        serializeLabelElements(label, indent + indent, newline),
+        `${indent}</labels>`
+    ].join(newline);
+
+    const following = existingLabels.find(existing => existing.fullName.toString().localeCompare(fullName) > 0);
+    const followingOffsets = following && findLabelElementOffsets(xml, following.fullName.toString());
+
+    if (followingOffsets) {
+        const lineStart = xml.lastIndexOf('\n', followingOffsets.start) + 1;
+
+        return xml.slice(0, lineStart) + block + newline + xml.slice(lineStart);
+    }
+
+    const last = existingLabels[existingLabels.length - 1];
+    const lastOffsets = last && findLabelElementOffsets(xml, last.fullName.toString());
+
+    if (lastOffsets) {
+        return xml.slice(0, lastOffsets.end) + newline + block + xml.slice(lastOffsets.end);
+    }
+
+    // no labels yet: <CustomLabels/> or <CustomLabels></CustomLabels>
+    const selfClosing = /<CustomLabels\b([^>]*?)\s*\/>/.exec(xml);
+
+    if (selfClosing) {
+        const expanded = `<CustomLabels${selfClosing[1]}>${newline}${block}${newline}</CustomLabels>`;
+
+        return xml.slice(0, selfClosing.index) + expanded + xml.slice(selfClosing.index + selfClosing[0].length);
+    }
+
+    const closingTag = xml.lastIndexOf('</CustomLabels>');
+    const lineStart = xml.lastIndexOf('\n', closingTag) + 1;
+
+    if (xml.slice(lineStart, closingTag).trim().length === 0) {
+        return xml.slice(0, lineStart) + block + newline + xml.slice(lineStart);
+    }
+
+    return xml.slice(0, closingTag) + newline + block + newline + xml.slice(closingTag);
+}
+
+/**
+ * Replace a label of a `CustomLabels` file, in place. When the fullName changes the label is moved
+ * to keep the file in alphabetical order.
+ * Throws when the file doesn't define the label or already defines the new fullName.
+ */
+export async function updateLabelInLabelsFile(xml: string, fullName: string, label: CustomLabel, filePath: string): Promise<string> {
+    const newFullName = label.fullName.toString();
+    const existingLabels = await parseLabelFileContent(xml, filePath);
+
+    if (!existingLabels.some(existing => existing.fullName.toString() === fullName)) {
+        throw new Error(labels.warningMessages.LABEL_NOT_IN_FILE(fullName, filePath));
+    }
+
+    if (newFullName !== fullName) {
+        return insertLabelIntoLabelsFile(await removeLabelFromLabelsFile(xml, fullName, filePath), label, filePath);
+    }
+
+    const offsets = findLabelElementOffsets(xml, fullName)!;
+    const lineStart = xml.lastIndexOf('\n', offsets.start) + 1;
+    const leading = xml.slice(lineStart, offsets.start);
+    const indent = leading.trim().length === 0 && leading.length > 0 ? leading : DEFAULT_INDENT;
+    const newline = xml.includes('\r\n') ? '\r\n' : '\n';
+    const element = [
+        '<labels>',
+        serializeLabelElements(label, indent + indent, newline),
+        `${indent}</labels>`
+    ].join(newline);
+
+    return xml.slice(0, offsets.start) + element + xml.slice(offsets.end);
+}
+
+/**
+ * Remove a label, and the line it was on, from a `CustomLabels` file.
+ * Throws when the file doesn't define the label.
+ */
+export async function removeLabelFromLabelsFile(xml: string, fullName: string, filePath: string): Promise<string> {
+    const existingLabels = await parseLabelFileContent(xml, filePath);
+    const offsets = existingLabels.some(existing => existing.fullName.toString() === fullName)
+        ? findLabelElementOffsets(xml, fullName)
+        : undefined;
+
+    if (!offsets) {
+        throw new Error(labels.warningMessages.LABEL_NOT_IN_FILE(fullName, filePath));
+    }
+
+    let start = offsets.start;
+    let end = offsets.end;
+    const lineStart = xml.lastIndexOf('\n', start) + 1;
+
+    if (xml.slice(lineStart, start).trim().length === 0) {
+        start = lineStart;
+        end += /^[ \t]*\r?\n/.exec(xml.slice(end))?.[0].length ?? 0;
+    }
+
+    return xml.slice(0, start) + xml.slice(end);
+}
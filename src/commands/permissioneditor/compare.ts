@@ -0,0 +1,616 @@
+/**
+ * Compare permissions webview: two permission sets or profiles side by side, each from the project metadata,
+ * the default org or another authenticated org, with actions to copy a single permission from one side to the other.
+ */
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { connectToOrg, createRecord, deleteRecord, restQuery, updateRecords } from '../permsets/orgDataClient';
+import type { FieldPermissionsRecord, ObjectPermissionsRecord } from '../shared/types';
+import {
+    buildOrgPermissionQueries,
+    buildSetupEntityNameQuery,
+    comparePermissions,
+    extractPermissionsFromMetadata,
+    extractPermissionsFromOrgRecords,
+    grantsNothing,
+    ORG_UNAVAILABLE_CATEGORIES,
+    PERMISSION_CATEGORIES,
+    PermissionCategory,
+    PermissionEntry,
+    PermissionValues,
+    toOrgPermissionFields,
+    toSetupEntityName
+} from './comparison';
+import { getDefaultOrgUsername, listAuthenticatedOrgs } from './refresh';
+import { listPermissionSetsInWorkspace, listProfilesInWorkspace, TargetKind } from './resolve';
+import { queryRecords, SfOrgContext } from './soql';
+import { applyPermissionEntryToFile, parsePermissionMetadata } from './xmlEdit';
+
+// permissions that can be written to an org as records; the others go through metadata deployments
+const ORG_WRITABLE_CATEGORIES: PermissionCategory[] = ['object', 'field', 'apexClass', 'apexPage'];
+
+// keeps the SOQL `IN` lists of the Apex class and page name queries short enough for the command line
+const SETUP_ENTITY_ID_CHUNK_SIZE = 200;
+
+type ComparisonSource =
+    | { type: 'local'; kind: TargetKind; name: string; filePath: string }
+    | { type: 'org'; kind: TargetKind; name: string; context: SfOrgContext; parentId: string };
+
+interface ComparisonSide {
+    source: ComparisonSource;
+    title: string;
+    entries: PermissionEntry[];
+}
+
+type ComparisonMessage =
+    | { type: 'ready' }
+    | { type: 'refresh' }
+    | { type: 'copy'; category: PermissionCategory; name: string; direction: 'toLeft' | 'toRight' };
+
+let panel: vscode.WebviewPanel | undefined;
+let session: { left: ComparisonSide; right: ComparisonSide } | undefined;
+
+const KIND_LABELS: Record<TargetKind, string> = { permissionSet: 'Permission Set', profile: 'Profile' };
+
+interface ContainerRecord {
+    Id: string;
+    Name: string;
+    Label?: string;
+    Profile?: { Name?: string } | null;
+}
+
+/**
+ * Ask where one side of the comparison comes from and which permission set or profile it is.
+ */
+async function pickComparisonSource(workspaceRoot: string, position: string): Promise<ComparisonSource | undefined> {
+    const title = `Compare Permissions (${position})`;
+    let defaultOrg: string | undefined;
+    try {
+        defaultOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch {
+        // only the project and other orgs are offered
+    }
+
+    const origins: (vscode.QuickPickItem & { origin: 'local' | 'defaultOrg' | 'otherOrg' })[] = [
+        { label: 'Project metadata', description: 'Local XML files', origin: 'local' },
+        ...(defaultOrg ? [{ label: 'Default org', description: defaultOrg, origin: 'defaultOrg' as const }] : []),
+        { label: 'Another authenticated org...', origin: 'otherOrg' }
+    ];
+    const origin = await vscode.window.showQuickPick(origins, { title, placeHolder: `Where does the ${position} side come from?` });
+    if (!origin) {
+        return undefined;
+    }
+
+    let targetOrg = defaultOrg;
+    if (origin.origin === 'otherOrg') {
+        let orgs: Awaited<ReturnType<typeof listAuthenticatedOrgs>>;
+        try {
+            orgs = await listAuthenticatedOrgs(workspaceRoot);
+        } catch (err) {
+            vscode.window.showErrorMessage(`Could not list the authenticated orgs: ${(err as Error).message}`);
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            orgs.filter((org) => org.username).map((org) => ({ label: org.alias ?? org.username!, description: org.alias ? org.username : undefined, username: org.username! })),
+            { title, placeHolder: 'Select the org', matchOnDescription: true }
+        );
+        if (!picked) {
+            return undefined;
+        }
+        targetOrg = picked.username;
+    }
+
+    const kind = await vscode.window.showQuickPick(
+        (Object.keys(KIND_LABELS) as TargetKind[]).map((value) => ({ label: KIND_LABELS[value], targetKind: value })),
+        { title, placeHolder: 'Compare a permission set or a profile?' }
+    );
+    if (!kind) {
+        return undefined;
+    }
+
+    if (origin.origin === 'local') {
+        const files = kind.targetKind === 'profile' ? listProfilesInWorkspace(workspaceRoot) : listPermissionSetsInWorkspace(workspaceRoot);
+        if (files.length === 0) {
+            vscode.window.showErrorMessage(`No ${KIND_LABELS[kind.targetKind].toLowerCase()} metadata found in the workspace.`);
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            files.map((file) => ({ label: file.name, description: vscode.workspace.asRelativePath(file.filePath), file })),
+            { title, placeHolder: `Select the ${KIND_LABELS[kind.targetKind].toLowerCase()}`, matchOnDescription: true }
+        );
+        return picked && { type: 'local', kind: kind.targetKind, name: picked.file.name, filePath: picked.file.filePath };
+    }
+
+    const context = { cwd: workspaceRoot, targetOrg: targetOrg! };
+    let records: ContainerRecord[];
+    try {
+        records = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Loading ${KIND_LABELS[kind.targetKind].toLowerCase()}s from ${targetOrg}...` },
+            () => queryRecords<ContainerRecord>(
+                kind.targetKind === 'profile'
+                    ? 'SELECT Id, Name, Profile.Name FROM PermissionSet WHERE IsOwnedByProfile = true ORDER BY Profile.Name'
+                    : 'SELECT Id, Name, Label FROM PermissionSet WHERE IsOwnedByProfile = false AND PermissionSetGroupId = null ORDER BY Label',
+                context
+            )
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Could not list the ${KIND_LABELS[kind.targetKind].toLowerCase()}s of ${targetOrg}: ${(err as Error).message}`);
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        records.map((record) => kind.targetKind === 'profile'
+            ? { label: record.Profile?.Name ?? record.Name, name: record.Profile?.Name ?? record.Name, id: record.Id }
+            : { label: record.Label ?? record.Name, description: record.Name, name: record.Name, id: record.Id }),
+        { title, placeHolder: `Select the ${KIND_LABELS[kind.targetKind].toLowerCase()}`, matchOnDescription: true }
+    );
+    return picked && { type: 'org', kind: kind.targetKind, name: picked.name, context, parentId: picked.id };
+}
+
+/**
+ * Permissions of a permission set, or of the permission set owned by a profile, read from the org records.
+ */
+export async function loadOrgPermissions(context: SfOrgContext, parentId: string): Promise<PermissionEntry[]> {
+    const queries = buildOrgPermissionQueries(parentId);
+    const [objects, fields, setupEntities, tabs, [permissionSet]] = await Promise.all([
+        queryRecords<ObjectPermissionsRecord>(queries.objects, context),
+        queryRecords<FieldPermissionsRecord>(queries.fields, context),
+        queryRecords<{ SetupEntityId: string; SetupEntityType: string }>(queries.setupEntities, context),
+        queryRecords<{ Name: string; Visibility: string }>(queries.tabs, context),
+        queryRecords<Record<string, unknown>>(queries.userPermissions, context)
+    ]);
+
+    const setupEntityNames = new Map<string, string>();
+    for (const sobject of ['ApexClass', 'ApexPage'] as const) {
+        const ids = setupEntities.filter((access) => access.SetupEntityType === sobject).map((access) => access.SetupEntityId);
+        for (let i = 0; i < ids.length; i += SETUP_ENTITY_ID_CHUNK_SIZE) {
+            const records = await queryRecords<{ Id: string; Name: string; NamespacePrefix?: string | null }>(
+                buildSetupEntityNameQuery(sobject, ids.slice(i, i + SETUP_ENTITY_ID_CHUNK_SIZE)),
+                context
+            );
+            records.forEach((record) => setupEntityNames.set(record.Id, toSetupEntityName(record)));
+        }
+    }
+
+    return extractPermissionsFromOrgRecords({ objects, fields, setupEntities, setupEntityNames, tabs, permissionSet });
+}
+
+async function loadSide(source: ComparisonSource): Promise<ComparisonSide> {
+    if (source.type === 'local') {
+        const { kind, root } = parsePermissionMetadata(fs.readFileSync(source.filePath, 'utf8'));
+        return {
+            source,
+            title: `${source.name} (${KIND_LABELS[kind]}, ${vscode.workspace.asRelativePath(source.filePath)})`,
+            entries: extractPermissionsFromMetadata(root, kind)
+        };
+    }
+
+    return {
+        source,
+        title: `${source.name} (${KIND_LABELS[source.kind]}, ${source.context.targetOrg})`,
+        entries: await loadOrgPermissions(source.context, source.parentId)
+    };
+}
+
+async function loadSession(left: ComparisonSource, right: ComparisonSource): Promise<boolean> {
+    try {
+        session = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading permissions to compare...' },
+            async () => ({ left: await loadSide(left), right: await loadSide(right) })
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to load the permissions to compare: ${(err as Error).message}`);
+        return false;
+    }
+    return true;
+}
+
+export async function comparePermissionContainers(): Promise<void> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+
+    const left = await pickComparisonSource(workspaceRoot, 'left');
+    if (!left) {
+        return;
+    }
+    const right = await pickComparisonSource(workspaceRoot, 'right');
+    if (!right || !await loadSession(left, right)) {
+        return;
+    }
+
+    if (panel) {
+        panel.reveal();
+        postComparison();
+        return;
+    }
+
+    panel = vscode.window.createWebviewPanel(
+        'sfPermissionComparison',
+        'Compare Permissions',
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    panel.webview.onDidReceiveMessage((message: ComparisonMessage) => {
+        handleMessage(message).catch((err) => vscode.window.showErrorMessage(String(err)));
+    });
+    panel.onDidDispose(() => {
+        panel = undefined;
+        session = undefined;
+    });
+    panel.webview.html = getWebviewContent();
+}
+
+function getUnavailableCategories(side: ComparisonSide): PermissionCategory[] {
+    return side.source.type === 'org' ? ORG_UNAVAILABLE_CATEGORIES : [];
+}
+
+function canCopyTo(side: ComparisonSide, category: PermissionCategory): boolean {
+    return side.source.type === 'local' || ORG_WRITABLE_CATEGORIES.includes(category);
+}
+
+function postComparison() {
+    if (!session) {
+        return;
+    }
+
+    const { left, right } = session;
+    const unavailable = [...new Set([...getUnavailableCategories(left), ...getUnavailableCategories(right)])];
+
+    panel?.webview.postMessage({
+        type: 'comparison',
+        left: left.title,
+        right: right.title,
+        categories: PERMISSION_CATEGORIES.map((definition) => ({
+            category: definition.category,
+            label: definition.label,
+            fields: Object.keys(definition.defaults),
+            defaults: definition.defaults,
+            unavailable: unavailable.includes(definition.category)
+        })),
+        rows: comparePermissions(left.entries, right.entries, unavailable).map((row) => ({
+            ...row,
+            copyToLeft: canCopyTo(left, row.category),
+            copyToRight: canCopyTo(right, row.category)
+        }))
+    });
+}
+
+async function handleMessage(message: ComparisonMessage) {
+    switch (message.type) {
+        case 'ready':
+            postComparison();
+            return;
+        case 'refresh':
+            if (session && await loadSession(session.left.source, session.right.source)) {
+                postComparison();
+            }
+            return;
+        case 'copy':
+            await copyPermission(message.category, message.name, message.direction);
+            return;
+    }
+}
+
+function findEntry(side: ComparisonSide, category: PermissionCategory, name: string): PermissionEntry | undefined {
+    return side.entries.find((entry) => entry.category === category && entry.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Make the permission of the target side match the other side: set its values, or remove it when the other side has none.
+ */
+async function copyPermission(category: PermissionCategory, name: string, direction: 'toLeft' | 'toRight') {
+    if (!session) {
+        return;
+    }
+
+    const from = direction === 'toRight' ? session.left : session.right;
+    const to = direction === 'toRight' ? session.right : session.left;
+    const values = findEntry(from, category, name)?.values;
+    // keeps the casing of an existing entry
+    const targetName = findEntry(to, category, name)?.name ?? name;
+
+    if (to.source.type === 'local') {
+        try {
+            applyPermissionEntryToFile(to.source.filePath, category, targetName, values);
+            session[direction === 'toRight' ? 'right' : 'left'] = await loadSide(to.source);
+        } catch (err) {
+            vscode.window.showErrorMessage(`Failed to update ${to.source.filePath}: ${(err as Error).message}`);
+            return;
+        }
+        postComparison();
+        return;
+    }
+
+    if (!ORG_WRITABLE_CATEGORIES.includes(category)) {
+        vscode.window.showInformationMessage(
+            `${PERMISSION_CATEGORIES.find((definition) => definition.category === category)!.label} cannot be copied to an org directly. Compare with the project metadata instead and deploy it.`
+        );
+        return;
+    }
+
+    const { context, parentId } = to.source;
+    const confirmation = await vscode.window.showWarningMessage(
+        `Copy ${name} to ${to.source.name} in ${context.targetOrg}?`,
+        { modal: true },
+        'Copy'
+    );
+    if (confirmation !== 'Copy') {
+        return;
+    }
+
+    try {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Updating ${name} in ${context.targetOrg}...` },
+            () => writeOrgPermission(context, parentId, category, targetName, values)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to update ${name} in ${context.targetOrg}: ${(err as Error).message}`);
+        return;
+    }
+
+    to.entries = to.entries.filter((entry) => !(entry.category === category && entry.name.toLowerCase() === name.toLowerCase()));
+    if (!grantsNothing(values)) {
+        to.entries.push({ category, name: targetName, values: { ...values } });
+    }
+    postComparison();
+}
+
+function escapeSoql(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'');
+}
+
+/**
+ * Create, update or delete the ObjectPermissions, FieldPermissions or SetupEntityAccess record holding the permission,
+ * through the REST API.
+ */
+async function writeOrgPermission(
+    context: SfOrgContext,
+    parentId: string,
+    category: PermissionCategory,
+    name: string,
+    values: PermissionValues | undefined
+): Promise<void> {
+    const connection = await connectToOrg(context.targetOrg, context.cwd);
+
+    if (category === 'object' || category === 'field') {
+        const sobject = category === 'object' ? 'ObjectPermissions' : 'FieldPermissions';
+        const filter = category === 'object' ? `SobjectType = '${escapeSoql(name)}'` : `Field = '${escapeSoql(name)}'`;
+        const [existing] = await restQuery<{ Id: string }>(connection, `SELECT Id FROM ${sobject} WHERE ParentId = '${parentId}' AND ${filter}`);
+
+        if (grantsNothing(values)) {
+            if (existing) {
+                await deleteRecord(connection, sobject, existing.Id);
+            }
+            return;
+        }
+
+        const fields = toOrgPermissionFields(category, values!);
+        if (existing) {
+            const [result] = await updateRecords(connection, sobject, [{ Id: existing.Id, ...fields }]);
+            if (!result?.success) {
+                throw new Error(result?.message ?? 'Update failed');
+            }
+        } else {
+            await createRecord(connection, sobject, {
+                ParentId: parentId,
+                SobjectType: category === 'object' ? name : name.split('.')[0],
+                ...(category === 'field' ? { Field: name } : {}),
+                ...fields
+            });
+        }
+        return;
+    }
+
+    const sobject = category === 'apexPage' ? 'ApexPage' : 'ApexClass';
+    const [namespace, localName] = name.includes('__') ? name.split('__', 2) : [undefined, name];
+    const namespaceFilter = namespace ? `NamespacePrefix = '${escapeSoql(namespace)}'` : 'NamespacePrefix = null';
+    const [entity] = await restQuery<{ Id: string }>(connection, `SELECT Id FROM ${sobject} WHERE Name = '${escapeSoql(localName)}' AND ${namespaceFilter}`);
+    if (!entity) {
+        throw new Error(`${sobject} ${name} does not exist in the org.`);
+    }
+
+    const [existing] = await restQuery<{ Id: string }>(
+        connection,
+        `SELECT Id FROM SetupEntityAccess WHERE ParentId = '${parentId}' AND SetupEntityId = '${entity.Id}'`
+    );
+    if (values?.enabled === true && !existing) {
+        await createRecord(connection, 'SetupEntityAccess', { ParentId: parentId, SetupEntityId: entity.Id });
+    } else if (values?.enabled !== true && existing) {
+        await deleteRecord(connection, 'SetupEntityAccess', existing.Id);
+    }
+}
+
+function getWebviewContent(): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <style>
+            body {
+                font-family: var(--vscode-font-family, Arial, sans-serif);
+                margin: 20px;
+                color: var(--vscode-editor-foreground);
+                background-color: var(--vscode-editor-background);
+            }
+            .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 12px; }
+            button {
+                color: var(--vscode-button-foreground);
+                background-color: var(--vscode-button-background);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+            }
+            button:hover { background-color: var(--vscode-button-hoverBackground); }
+            button:disabled { opacity: 0.4; cursor: default; }
+            input, select {
+                color: var(--vscode-input-foreground);
+                background-color: var(--vscode-input-background);
+                border: 1px solid var(--vscode-input-border, transparent);
+                padding: 3px 6px;
+            }
+            table { border-collapse: collapse; width: 100%; margin-bottom: 20px; }
+            th, td {
+                border: 1px solid var(--vscode-panel-border, #ddd);
+                padding: 4px 6px;
+                vertical-align: top;
+                text-align: left;
+            }
+            th {
+                background-color: var(--vscode-editor-selectionBackground);
+                color: var(--vscode-editor-selectionForeground, var(--vscode-editor-foreground));
+            }
+            td.values { width: 35%; }
+            td.actions { white-space: nowrap; text-align: center; }
+            tr.different td.name { border-left: 3px solid var(--vscode-editorWarning-foreground, orange); }
+            .api-name { font-family: var(--vscode-editor-font-family, monospace); }
+            .value { display: inline-block; margin-right: 8px; }
+            .value.diff {
+                background-color: var(--vscode-diffEditor-insertedTextBackground, rgba(255, 200, 0, 0.3));
+                font-weight: bold;
+            }
+            .missing, .empty, .note { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+        </style>
+    </head>
+    <body>
+        <div class="toolbar">
+            <label><input type="checkbox" id="differences" checked> Only differences</label>
+            <select id="category"><option value="">All categories</option></select>
+            <input id="filter" type="text" placeholder="Filter by name">
+            <button id="refresh">Reload both sides</button>
+        </div>
+        <div id="sections"></div>
+        <script>
+            const vscode = acquireVsCodeApi();
+            const FIELD_LABELS = {
+                allowRead: 'Read', allowCreate: 'Create', allowEdit: 'Edit', allowDelete: 'Delete',
+                viewAllRecords: 'View All', modifyAllRecords: 'Modify All', readable: 'Read', editable: 'Edit',
+                enabled: 'Enabled', visibility: 'Visibility', visible: 'Visible'
+            };
+            let comparison;
+
+            function cell(row, text, className) {
+                const td = document.createElement('td');
+                td.textContent = text === undefined ? '' : text;
+                if (className) {
+                    td.className = className;
+                }
+                row.appendChild(td);
+                return td;
+            }
+
+            function renderValues(td, category, values, differences) {
+                if (!values) {
+                    const missing = document.createElement('span');
+                    missing.className = 'missing';
+                    missing.textContent = 'Not set';
+                    td.appendChild(missing);
+                }
+                for (const field of category.fields) {
+                    if (!values && !differences.includes(field)) {
+                        continue;
+                    }
+                    const value = values && values[field] !== undefined ? values[field] : category.defaults[field];
+                    const span = document.createElement('span');
+                    span.className = 'value' + (differences.includes(field) ? ' diff' : '');
+                    span.textContent = FIELD_LABELS[field] + ': ' + (value === true ? '✓' : value === false ? '✗' : value);
+                    td.append(' ', span);
+                }
+            }
+
+            function render() {
+                const container = document.getElementById('sections');
+                const onlyDifferences = document.getElementById('differences').checked;
+                const selectedCategory = document.getElementById('category').value;
+                const filter = document.getElementById('filter').value.trim().toLowerCase();
+                container.replaceChildren();
+
+                for (const category of comparison.categories) {
+                    if (selectedCategory && category.category !== selectedCategory) {
+                        continue;
+                    }
+                    const allRows = comparison.rows.filter(row => row.category === category.category);
+                    const rows = allRows.filter(row => (!onlyDifferences || row.differences.length > 0)
+                        && (!filter || row.name.toLowerCase().includes(filter)));
+                    const heading = document.createElement('h3');
+                    heading.textContent = category.label + ' (' + allRows.filter(row => row.differences.length > 0).length + ' different of ' + allRows.length + ')';
+                    container.appendChild(heading);
+
+                    if (category.unavailable) {
+                        const note = document.createElement('p');
+                        note.className = 'note';
+                        note.textContent = 'Not compared: only available from metadata, not from an org.';
+                        container.appendChild(note);
+                        continue;
+                    }
+                    if (rows.length === 0) {
+                        const empty = document.createElement('p');
+                        empty.className = 'empty';
+                        empty.textContent = onlyDifferences ? 'No differences' : 'No permissions';
+                        container.appendChild(empty);
+                        continue;
+                    }
+
+                    const table = document.createElement('table');
+                    const header = document.createElement('tr');
+                    ['Name', comparison.left, '', comparison.right].forEach(title => {
+                        const th = document.createElement('th');
+                        th.textContent = title;
+                        header.appendChild(th);
+                    });
+                    table.appendChild(header);
+
+                    for (const row of rows) {
+                        const tr = document.createElement('tr');
+                        tr.className = row.differences.length > 0 ? 'different' : '';
+                        const name = cell(tr, '', 'name');
+                        const apiName = document.createElement('span');
+                        apiName.className = 'api-name';
+                        apiName.textContent = row.name;
+                        name.appendChild(apiName);
+
+                        renderValues(cell(tr, '', 'values'), category, row.left, row.differences);
+                        const actions = cell(tr, '', 'actions');
+                        renderValues(cell(tr, '', 'values'), category, row.right, row.differences);
+
+                        [
+                            { text: '→', direction: 'toRight', allowed: row.copyToRight, title: 'Copy to ' + comparison.right },
+                            { text: '←', direction: 'toLeft', allowed: row.copyToLeft, title: 'Copy to ' + comparison.left }
+                        ].forEach(action => {
+                            const button = document.createElement('button');
+                            button.textContent = action.text;
+                            button.title = action.allowed ? action.title : 'Cannot be copied to an org directly';
+                            button.disabled = row.differences.length === 0 || !action.allowed;
+                            button.addEventListener('click', () => vscode.postMessage({
+                                type: 'copy', category: row.category, name: row.name, direction: action.direction
+                            }));
+                            actions.append(button, ' ');
+                        });
+                        table.appendChild(tr);
+                    }
+                    container.appendChild(table);
+                }
+            }
+
+            document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+            ['differences', 'category', 'filter'].forEach(id => document.getElementById(id).addEventListener('input', () => comparison && render()));
+
+            window.addEventListener('message', event => {
+                if (event.data.type === 'comparison') {
+                    comparison = event.data;
+                    const select = document.getElementById('category');
+                    if (select.options.length === 1) {
+                        comparison.categories.forEach(category => select.add(new Option(category.label, category.category)));
+                    }
+                    render();
+                }
+            });
+
+            vscode.postMessage({ type: 'ready' });
+        </script>
+    </body>
+    </html>
+    `;
+}
@@ -0,0 +1,249 @@
+/**
+ * Pure model of the permission comparison: the permissions of a permission set or profile by category, read from
+ * metadata XML or org records, and the rows comparing two of them.
+ * No CLI or vscode dependencies so they can be tested without mocks.
+ */
+import type { FieldPermissionsRecord, ObjectPermissionsRecord } from '../shared/types';
+import { fieldPermissionsRecordToFlags, objectPermissionsRecordToFlags } from './soqlMappers';
+import type { TargetKind } from './resolve';
+
+export type PermissionCategory = 'object' | 'field' | 'apexClass' | 'apexPage' | 'tab' | 'recordType' | 'userPermission';
+
+export type PermissionValue = boolean | string;
+
+export type PermissionValues = Record<string, PermissionValue>;
+
+export interface PermissionEntry {
+    category: PermissionCategory;
+    // object, field, class, page, tab, record type or user permission API name
+    name: string;
+    values: PermissionValues;
+}
+
+export interface CategoryDefinition {
+    category: PermissionCategory;
+    label: string;
+    // metadata element of the category in a permission set
+    tag: string;
+    // metadata element in a profile, when different
+    profileTag?: string;
+    // element holding the name
+    keyField: string;
+    // values when the container has no entry: no access
+    defaults: PermissionValues;
+}
+
+export const PERMISSION_CATEGORIES: CategoryDefinition[] = [
+    {
+        category: 'object',
+        label: 'Object permissions',
+        tag: 'objectPermissions',
+        keyField: 'object',
+        defaults: { allowRead: false, allowCreate: false, allowEdit: false, allowDelete: false, viewAllRecords: false, modifyAllRecords: false }
+    },
+    { category: 'field', label: 'Field permissions', tag: 'fieldPermissions', keyField: 'field', defaults: { readable: false, editable: false } },
+    { category: 'apexClass', label: 'Apex class access', tag: 'classAccesses', keyField: 'apexClass', defaults: { enabled: false } },
+    { category: 'apexPage', label: 'Visualforce page access', tag: 'pageAccesses', keyField: 'apexPage', defaults: { enabled: false } },
+    { category: 'tab', label: 'Tab settings', tag: 'tabSettings', profileTag: 'tabVisibilities', keyField: 'tab', defaults: { visibility: 'None' } },
+    { category: 'recordType', label: 'Record types', tag: 'recordTypeVisibilities', keyField: 'recordType', defaults: { visible: false } },
+    { category: 'userPermission', label: 'User permissions', tag: 'userPermissions', keyField: 'name', defaults: { enabled: false } }
+];
+
+// record type visibility is metadata only, it cannot be queried
+export const ORG_UNAVAILABLE_CATEGORIES: PermissionCategory[] = ['recordType'];
+
+// profile tab visibilities in the permission set vocabulary
+const PROFILE_TO_PERMISSION_SET_TAB_VISIBILITY: Record<string, string> = { DefaultOn: 'Visible', DefaultOff: 'Available', Hidden: 'None' };
+
+export function getCategoryDefinition(category: PermissionCategory): CategoryDefinition {
+    return PERMISSION_CATEGORIES.find(definition => definition.category === category)!;
+}
+
+export function toPermissionSetTabVisibility(visibility: string): string {
+    return PROFILE_TO_PERMISSION_SET_TAB_VISIBILITY[visibility] ?? visibility;
+}
+
+export function toProfileTabVisibility(visibility: string): string {
+    return Object.entries(PROFILE_TO_PERMISSION_SET_TAB_VISIBILITY).find(([, value]) => value === visibility)?.[0] ?? visibility;
+}
+
+function toPermissionValue(value: unknown): PermissionValue {
+    if (value === true || value === 'true') {
+        return true;
+    }
+    if (value === false || value === 'false') {
+        return false;
+    }
+    return String(value ?? '');
+}
+
+/**
+ * Permissions of a parsed PermissionSet or Profile metadata root, for the compared categories.
+ */
+export function extractPermissionsFromMetadata(root: Record<string, unknown>, kind: TargetKind): PermissionEntry[] {
+    const entries: PermissionEntry[] = [];
+
+    for (const definition of PERMISSION_CATEGORIES) {
+        const tag = kind === 'profile' ? definition.profileTag ?? definition.tag : definition.tag;
+        const raw = root[tag];
+        const elements = (Array.isArray(raw) ? raw : raw === undefined ? [] : [raw]) as Record<string, unknown>[];
+
+        for (const element of elements) {
+            const name = element?.[definition.keyField];
+
+            if (typeof name !== 'string' || !name.trim()) {
+                continue;
+            }
+
+            const values: PermissionValues = {};
+
+            for (const field of Object.keys(definition.defaults)) {
+                if (element[field] !== undefined) {
+                    values[field] = toPermissionValue(element[field]);
+                }
+            }
+
+            if (definition.category === 'tab' && typeof values.visibility === 'string') {
+                values.visibility = toPermissionSetTabVisibility(values.visibility);
+            }
+
+            entries.push({ category: definition.category, name: name.trim(), values });
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Queries of the permissions of a permission set, or of the permission set owned by a profile, in an org.
+ * Apex class and page names are read afterwards with buildSetupEntityNameQuery.
+ */
+export function buildOrgPermissionQueries(parentId: string): Record<'objects' | 'fields' | 'setupEntities' | 'tabs' | 'userPermissions', string> {
+    const parent = `'${parentId.replace(/'/g, '\\\'')}'`;
+
+    return {
+        objects: 'SELECT Id, ParentId, SobjectType, PermissionsCreate, PermissionsRead, PermissionsEdit, PermissionsDelete, PermissionsViewAllRecords, PermissionsModifyAllRecords '
+            + `FROM ObjectPermissions WHERE ParentId = ${parent}`,
+        fields: `SELECT Id, ParentId, Field, SobjectType, PermissionsRead, PermissionsEdit FROM FieldPermissions WHERE ParentId = ${parent}`,
+        setupEntities: `SELECT Id, SetupEntityId, SetupEntityType FROM SetupEntityAccess WHERE ParentId = ${parent} AND SetupEntityType IN ('ApexClass', 'ApexPage')`,
+        tabs: `SELECT Id, Name, Visibility FROM PermissionSetTabSetting WHERE ParentId = ${parent}`,
+        userPermissions: `SELECT FIELDS(ALL) FROM PermissionSet WHERE Id = ${parent} LIMIT 1`
+    };
+}
+
+export function buildSetupEntityNameQuery(sobject: 'ApexClass' | 'ApexPage', ids: string[]): string {
+    return `SELECT Id, Name, NamespacePrefix FROM ${sobject} WHERE Id IN (${ids.map(id => `'${id}'`).join(', ')})`;
+}
+
+/**
+ * Metadata name of an Apex class or page: `<namespace>__<name>` for managed ones.
+ */
+export function toSetupEntityName(record: { Name: string; NamespacePrefix?: string | null }): string {
+    return record.NamespacePrefix ? `${record.NamespacePrefix}__${record.Name}` : record.Name;
+}
+
+/**
+ * Permissions of a permission set from the records of buildOrgPermissionQueries.
+ */
+export function extractPermissionsFromOrgRecords(records: {
+    objects: ObjectPermissionsRecord[];
+    fields: FieldPermissionsRecord[];
+    setupEntities: { SetupEntityId: string; SetupEntityType: string }[];
+    // metadata names of the Apex classes and pages by id
+    setupEntityNames: ReadonlyMap<string, string>;
+    tabs: { Name: string; Visibility: string }[];
+    permissionSet?: Record<string, unknown>;
+}): PermissionEntry[] {
+    const entries: PermissionEntry[] = [
+        ...records.objects.map(record => ({ category: 'object' as const, name: record.SobjectType, values: { ...objectPermissionsRecordToFlags(record) } })),
+        ...records.fields.map(record => ({ category: 'field' as const, name: record.Field, values: { ...fieldPermissionsRecordToFlags(record) } }))
+    ];
+
+    for (const access of records.setupEntities) {
+        const name = records.setupEntityNames.get(access.SetupEntityId);
+
+        if (name) {
+            entries.push({ category: access.SetupEntityType === 'ApexPage' ? 'apexPage' : 'apexClass', name, values: { enabled: true } });
+        }
+    }
+
+    entries.push(...records.tabs.map(tab => ({ category: 'tab' as const, name: tab.Name, values: { visibility: toPermissionSetTabVisibility(tab.Visibility) } })));
+
+    for (const [field, value] of Object.entries(records.permissionSet ?? {})) {
+        if (field.startsWith('Permissions') && value === true) {
+            entries.push({ category: 'userPermission', name: field.slice('Permissions'.length), values: { enabled: true } });
+        }
+    }
+
+    return entries;
+}
+
+export interface ComparisonRow {
+    category: PermissionCategory;
+    name: string;
+    // undefined when the side has no entry
+    left?: PermissionValues;
+    right?: PermissionValues;
+    // value fields that differ, once missing entries and values count as no access
+    differences: string[];
+}
+
+/**
+ * Rows comparing the permissions of two sides, by category then name. Categories a side cannot provide are left out.
+ */
+export function comparePermissions(
+    left: PermissionEntry[],
+    right: PermissionEntry[],
+    unavailableCategories: PermissionCategory[] = []
+): ComparisonRow[] {
+    const rows = new Map<string, ComparisonRow>();
+    const key = (entry: PermissionEntry) => `${entry.category}:${entry.name.toLowerCase()}`;
+
+    for (const [side, entries] of [['left', left], ['right', right]] as const) {
+        for (const entry of entries) {
+            if (unavailableCategories.includes(entry.category)) {
+                continue;
+            }
+
+            const row = rows.get(key(entry)) ?? { category: entry.category, name: entry.name, differences: [] };
+            row[side] = entry.values;
+            rows.set(key(entry), row);
+        }
+    }
+
+    const categoryOrder = PERMISSION_CATEGORIES.map(definition => definition.category);
+
+    return [...rows.values()]
+        .map(row => {
+            const defaults = getCategoryDefinition(row.category).defaults;
+            const differences = Object.keys(defaults).filter(field => (row.left?.[field] ?? defaults[field]) !== (row.right?.[field] ?? defaults[field]));
+
+            return { ...row, differences };
+        })
+        .sort((a, b) => categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Fields of an ObjectPermissions or FieldPermissions record granting the values.
+ */
+export function toOrgPermissionFields(category: 'object' | 'field', values: PermissionValues): Record<string, boolean> {
+    if (category === 'object') {
+        return {
+            PermissionsRead: values.allowRead === true,
+            PermissionsCreate: values.allowCreate === true,
+            PermissionsEdit: values.allowEdit === true,
+            PermissionsDelete: values.allowDelete === true,
+            PermissionsViewAllRecords: values.viewAllRecords === true,
+            PermissionsModifyAllRecords: values.modifyAllRecords === true
+        };
+    }
+
+    return { PermissionsRead: values.readable === true, PermissionsEdit: values.editable === true };
+}
+
+/**
+ * Whether the values grant nothing, in which case the org holds no record for them.
+ */
+export function grantsNothing(values: PermissionValues | undefined): boolean {
+    return !values || Object.values(values).every(value => value === false || value === 'None');
+}
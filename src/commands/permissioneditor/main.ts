@@ -1,14 +1,17 @@
 /**
- * Permission editor: refresh permission metadata (profiles & permission sets) and toggle object/field permissions.
+ * Permission editor: refresh permission metadata (profiles & permission sets), toggle object/field permissions
+ * and compare permission sets and profiles.
  */
 import * as vscode from 'vscode';
 import labels from '../../labels';
 import { checkIfWorkspaceIsValidSfdxProject } from '../shared/utilities';
+import { comparePermissionContainers } from './compare';
 import { refreshPermissionMetadata } from './refresh';
 import { runToggleObjectFieldPermissions } from './toggle';
 
 const REFRESH_COMMAND_NAME = 'refreshPermissionMetadata';
 const TOGGLE_COMMAND_NAME = 'toggleObjectFieldPermissions';
+const COMPARE_COMMAND_NAME = 'comparePermissions';
 
 const CONFIG_SECTION = 'sf-ext-plus';
 const CONFIG_KEY_REFRESH_INTERVAL = 'permissionMetadata.refreshIntervalMinutes';
@@ -54,6 +57,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     context.subscriptions.push(
         vscode.commands.registerCommand(`${ext}.${TOGGLE_COMMAND_NAME}`, () => runToggleObjectFieldPermissions(context))
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(`${ext}.${COMPARE_COMMAND_NAME}`, comparePermissionContainers)
+    );
 
     scheduleBackgroundRefresh(context);
     context.subscriptions.push(
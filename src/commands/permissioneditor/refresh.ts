@@ -2,9 +2,9 @@
  * Refresh permission metadata: fetches Profiles and Permission Sets from the org via Salesforce CLI
  * and stores in extension globalState.
  */
-import * as cp from 'child_process';
 import * as vscode from 'vscode';
 import type { CachedProfile, CachedPermissionSet } from '../shared/types';
+import { runSfCommand, runSfDataQuery } from '../shared/utilities';
 
 const GLOBAL_STATE_KEY_PROFILES = 'permissionEditor.profiles';
 const GLOBAL_STATE_KEY_PERMISSION_SETS = 'permissionEditor.permissionSets';
@@ -28,54 +28,30 @@ export function getProfilePermissionSetIds(context: vscode.ExtensionContext): Re
     return context.globalState.get<Record<string, string>>(GLOBAL_STATE_KEY_PROFILE_PERM_SET_IDS) ?? {};
 }
 
-interface SfQueryPayload<T> {
-    status?: number;
-    result?: { records?: T[] };
-    message?: string;
-    name?: string;
-}
-
-interface OrgListEntry {
+export interface OrgListEntry {
     username?: string;
     alias?: string;
     isDefaultUsername?: boolean;
 }
 
-interface SfOrgListPayload {
-    status?: number;
-    result?: {
-        nonScratchOrgs?: OrgListEntry[];
-        sandboxes?: OrgListEntry[];
-        scratchOrgs?: OrgListEntry[];
-        other?: OrgListEntry[];
-    };
-    message?: string;
-    name?: string;
+interface SfOrgListResult {
+    nonScratchOrgs?: OrgListEntry[];
+    sandboxes?: OrgListEntry[];
+    scratchOrgs?: OrgListEntry[];
+    other?: OrgListEntry[];
 }
 
 /**
- * Run a shell command with optional cwd and return stdout. On failure, parses JSON from stdout for the CLI message.
+ * List the authenticated orgs by running sf org list --json in the workspace.
  */
-function runSfCommand(
-    args: string[],
-    options: { cwd: string }
-): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const cmd = `sf ${args.join(' ')}`;
-        cp.exec(cmd, { cwd: options.cwd }, (err, stdout, stderr) => {
-            if (err) {
-                let msg = err.message;
-                try {
-                    const parsed = JSON.parse(stdout || '{}') as { message?: string; name?: string };
-                    msg = parsed.message ?? parsed.name ?? stderr?.trim() ?? msg;
-                } catch {
-                    msg = stderr?.trim() ?? msg;
-                }
-                return reject(new Error(msg));
-            }
-            resolve(stdout ?? '');
-        });
-    });
+export async function listAuthenticatedOrgs(workspaceRoot: string): Promise<OrgListEntry[]> {
+    const result = (await runSfCommand<SfOrgListResult>(['org', 'list'], { cwd: workspaceRoot, fallbackMessage: 'Failed to list orgs' })) ?? {};
+    return [
+        ...(result.nonScratchOrgs ?? []),
+        ...(result.sandboxes ?? []),
+        ...(result.scratchOrgs ?? []),
+        ...(result.other ?? [])
+    ];
 }
 
 /**
@@ -83,18 +59,7 @@ function runSfCommand(
  * Returns the username of the org with isDefaultUsername === true.
  */
 export async function getDefaultOrgUsername(workspaceRoot: string): Promise<string> {
-    const out = await runSfCommand(['org', 'list', '--json'], { cwd: workspaceRoot });
-    const parsed = JSON.parse(out) as SfOrgListPayload;
-    if (parsed.status !== 0 && parsed.status !== undefined) {
-        throw new Error(parsed.message ?? 'Failed to list orgs');
-    }
-    const result = parsed.result ?? {};
-    const allOrgs: OrgListEntry[] = [
-        ...(result.nonScratchOrgs ?? []),
-        ...(result.sandboxes ?? []),
-        ...(result.scratchOrgs ?? []),
-        ...(result.other ?? [])
-    ];
+    const allOrgs = await listAuthenticatedOrgs(workspaceRoot);
     const defaultOrg = allOrgs.find((org) => org.isDefaultUsername === true);
     if (!defaultOrg?.username) {
         throw new Error(
@@ -112,35 +77,6 @@ export async function getDefaultOrgContext(workspaceRoot: string): Promise<{ cwd
     return { cwd: workspaceRoot, targetOrg };
 }
 
-/**
- * Run sf data query with cwd and target-org so the extension uses the same context as the terminal.
- */
-function runSfDataQuery<T>(
-    soql: string,
-    options: { cwd: string; targetOrg: string }
-): Promise<SfQueryPayload<T>> {
-    return new Promise((resolve, reject) => {
-        const targetOrgArg = `--target-org ${JSON.stringify(options.targetOrg)}`;
-        const cmd = `sf data query --query ${JSON.stringify(soql)} ${targetOrgArg} --json`;
-        cp.exec(cmd, { cwd: options.cwd }, (err, stdout, stderr) => {
-            let parsed: SfQueryPayload<T>;
-            try {
-                parsed = JSON.parse(stdout || '{}') as SfQueryPayload<T>;
-            } catch {
-                parsed = {};
-            }
-            if (err) {
-                const msg = parsed.message ?? parsed.name ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
-            }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Query failed'));
-            }
-            resolve(parsed);
-        });
-    });
-}
-
 /**
  * Runs sf org list to resolve the default org, then the three sf data query calls in parallel,
  * with cwd set to the workspace so the CLI uses the same context as the terminal.
@@ -175,7 +111,7 @@ export async function refreshPermissionMetadata(
             }
             const queryOpts = { cwd: workspaceRoot, targetOrg };
 
-            const [profilesPayload, permSetsPayload, profilePermSetPayload] = await Promise.all([
+            const [profileRecords, permSetRecords, profilePermSetRecords] = await Promise.all([
                 runSfDataQuery<{ Id: string; Name: string }>('SELECT Id, Name FROM Profile', queryOpts),
                 runSfDataQuery<{ Id: string; Name: string; Label?: string; NamespacePrefix?: string; IsOwnedByProfile?: boolean }>(
                     'SELECT Id, Name, Label, NamespacePrefix, IsOwnedByProfile FROM PermissionSet WHERE IsOwnedByProfile = false',
@@ -187,10 +123,8 @@ export async function refreshPermissionMetadata(
                 )
             ]);
 
-            const profileRecords = profilesPayload.result?.records ?? [];
             const profiles: CachedProfile[] = profileRecords.map((r) => ({ id: r.Id, name: r.Name }));
 
-            const permSetRecords = permSetsPayload.result?.records ?? [];
             const permissionSets: CachedPermissionSet[] = permSetRecords.map((r) => ({
                 id: r.Id,
                 name: r.Name,
@@ -200,7 +134,6 @@ export async function refreshPermissionMetadata(
             }));
 
             const profilePermissionSetIds: Record<string, string> = {};
-            const profilePermSetRecords = profilePermSetPayload.result?.records ?? [];
             for (const r of profilePermSetRecords) {
                 profilePermissionSetIds[r.ProfileId] = r.Id;
             }
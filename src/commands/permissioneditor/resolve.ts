@@ -36,6 +36,15 @@ export function listPermissionSetsInWorkspace(workspaceRoot: string): { name: st
     return result.sort((a, b) => a.name.localeCompare(b.name));
 }
 
+/**
+ * List profile names and their file paths by scanning the workspace.
+ */
+export function listProfilesInWorkspace(workspaceRoot: string): { name: string; filePath: string }[] {
+    return glob.sync('**/profiles/*.profile-meta.xml', { cwd: workspaceRoot, absolute: true })
+        .map((filePath) => ({ name: path.basename(filePath).replace(/\.profile-meta\.xml$/i, ''), filePath }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
 /**
  * Find metadata file in workspace: permissionSets/<Name>.permissionSet-meta.xml or profiles/<Name>.profile-meta.xml.
  * For permission sets, matches both .permissionSet-meta.xml and .permissionset-meta.xml (Salesforce uses lowercase on disk).
@@ -1,8 +1,8 @@
 /**
  * Query ObjectPermissions and FieldPermissions via Salesforce CLI (sf data query).
  */
-import * as cp from 'child_process';
 import type { ObjectPermissionsRecord, FieldPermissionsRecord } from '../shared/types';
+import { runSfDataQuery } from '../shared/utilities';
 
 export { objectPermissionsRecordToFlags, fieldPermissionsRecordToFlags } from './soqlMappers';
 
@@ -11,33 +11,11 @@ export interface SfOrgContext {
     targetOrg: string;
 }
 
-interface SfDataQueryResult<T> {
-    status?: number;
-    result?: { records?: T[] };
-    message?: string;
-}
-
-function runSfDataQueryWithContext<T>(soql: string, context: SfOrgContext): Promise<SfDataQueryResult<T>> {
-    return new Promise((resolve, reject) => {
-        const targetOrgArg = `--target-org ${JSON.stringify(context.targetOrg)}`;
-        const cmd = `sf data query --query ${JSON.stringify(soql)} ${targetOrgArg} --json`;
-        cp.exec(cmd, { cwd: context.cwd }, (err, stdout, stderr) => {
-            let parsed: SfDataQueryResult<T>;
-            try {
-                parsed = JSON.parse(stdout || '{}') as SfDataQueryResult<T>;
-            } catch {
-                parsed = {};
-            }
-            if (err) {
-                const msg = parsed.message ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
-            }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Query failed'));
-            }
-            resolve(parsed);
-        });
-    });
+/**
+ * Run a SOQL query in the org and return its records. Unlike the permission queries below, failures are thrown.
+ */
+export function queryRecords<T>(soql: string, context: SfOrgContext): Promise<T[]> {
+    return runSfDataQuery<T>(soql, context);
 }
 
 export async function queryObjectPermissions(
@@ -51,8 +29,7 @@ export async function queryObjectPermissions(
     const ids = parentIds.map((id) => `'${id}'`).join(',');
     const soql = `SELECT ParentId, SobjectType, PermissionsCreate, PermissionsRead, PermissionsEdit, PermissionsDelete, PermissionsViewAllRecords, PermissionsModifyAllRecords FROM ObjectPermissions WHERE ParentId IN (${ids}) AND SobjectType = '${objectApiName.replace(/'/g, "\\'")}'`;
     try {
-        const json = await runSfDataQueryWithContext<ObjectPermissionsRecord>(soql, context);
-        return json.result?.records ?? [];
+        return await runSfDataQuery<ObjectPermissionsRecord>(soql, context);
     } catch {
         return [];
     }
@@ -70,8 +47,7 @@ export async function queryFieldPermissions(
     const ids = parentIds.map((id) => `'${id}'`).join(',');
     const soql = `SELECT ParentId, Field, SobjectType, PermissionsRead, PermissionsEdit FROM FieldPermissions WHERE ParentId IN (${ids}) AND SobjectType = '${objectApiName.replace(/'/g, "\\'")}' AND Field = '${fieldFullName.replace(/'/g, "\\'")}'`;
     try {
-        const json = await runSfDataQueryWithContext<FieldPermissionsRecord>(soql, context);
-        return json.result?.records ?? [];
+        return await runSfDataQuery<FieldPermissionsRecord>(soql, context);
     } catch {
         return [];
     }
@@ -1,11 +1,15 @@
 /**
- * Edit PermissionSet or Profile metadata XML: add/update objectPermissions and fieldPermissions.
+ * Edit PermissionSet or Profile metadata XML: add/update objectPermissions and fieldPermissions,
+ * and the other permission entries copied by the permission comparison.
  */
 import * as fs from 'fs';
 import * as path from 'path';
 import { XMLParser, XMLBuilder } from 'fast-xml-parser';
 import type { ObjectPermissionFlags, FieldPermissionFlags } from '../shared/types';
 import { normalizeObjectPermissionFlags, normalizeFieldPermissionFlags } from './permissionFlags';
+import { getCategoryDefinition, toProfileTabVisibility } from './comparison';
+import type { PermissionCategory, PermissionValues } from './comparison';
+import type { TargetKind } from './resolve';
 
 const PARSER_OPTIONS = {
     ignoreAttributes: false,
@@ -138,3 +142,82 @@ export function applyFieldPermissionsToFile(
     const out = builder.build(parsed);
     fs.writeFileSync(filePath, out, 'utf8');
 }
+
+/**
+ * Parse PermissionSet or Profile metadata XML into its kind and root element.
+ */
+export function parsePermissionMetadata(xml: string): { kind: TargetKind; root: Record<string, unknown> } {
+    const parsed = new XMLParser(PARSER_OPTIONS).parse(xml) as Record<string, unknown>;
+    const root = getRoot(parsed);
+    if (!root) {
+        throw new Error('Unsupported metadata root, expected PermissionSet or Profile');
+    }
+    return { kind: root === parsed.Profile ? 'profile' : 'permissionSet', root };
+}
+
+/**
+ * Set a permission entry of any compared category in a PermissionSet or Profile metadata file,
+ * or remove it when values is undefined. Values use the permission set vocabulary, tab visibilities
+ * are converted for profiles.
+ */
+export function applyPermissionEntryToFile(
+    filePath: string,
+    category: PermissionCategory,
+    name: string,
+    values: PermissionValues | undefined
+): void {
+    const xml = fs.readFileSync(filePath, 'utf8');
+    const parser = new XMLParser(PARSER_OPTIONS);
+    const parsed = parser.parse(xml) as Record<string, unknown>;
+    const root = getRoot(parsed);
+    if (!root) {
+        throw new Error(`Unsupported metadata root in ${filePath}`);
+    }
+    const isProfile = root === parsed.Profile;
+    const definition = getCategoryDefinition(category);
+    const tag = isProfile ? definition.profileTag ?? definition.tag : definition.tag;
+
+    if (values && category === 'object') {
+        ensureObjectPermissionsInRoot(root, name, normalizeObjectPermissionFlags({
+            allowCreate: values.allowCreate === true,
+            allowDelete: values.allowDelete === true,
+            allowEdit: values.allowEdit === true,
+            allowRead: values.allowRead === true,
+            viewAllRecords: values.viewAllRecords === true,
+            modifyAllRecords: values.modifyAllRecords === true
+        }));
+    } else if (values && category === 'field') {
+        ensureFieldPermissionsInRoot(root, name, normalizeFieldPermissionFlags({
+            readable: values.readable === true,
+            editable: values.editable === true
+        }));
+    } else {
+        const list = normalizeToArray(root[tag] as Record<string, unknown> | Record<string, unknown>[] | undefined);
+        const index = list.findIndex((e) => typeof e[definition.keyField] === 'string' && (e[definition.keyField] as string).trim() === name);
+        if (!values) {
+            if (index >= 0) {
+                list.splice(index, 1);
+            }
+        } else {
+            const entry = index >= 0 ? list[index] : { [definition.keyField]: name };
+            if (index < 0) {
+                list.push(entry);
+            }
+            for (const [field, value] of Object.entries(values)) {
+                entry[field] = isProfile && field === 'visibility' && typeof value === 'string' ? toProfileTabVisibility(value) : value;
+            }
+            // profiles require the default flag on every record type visibility
+            if (isProfile && category === 'recordType' && entry.default === undefined) {
+                entry.default = false;
+            }
+        }
+        if (list.length > 0) {
+            root[tag] = list;
+        } else {
+            delete root[tag];
+        }
+    }
+    const builder = new XMLBuilder(BUILDER_OPTIONS);
+    const out = builder.build(parsed);
+    fs.writeFileSync(filePath, out, 'utf8');
+}
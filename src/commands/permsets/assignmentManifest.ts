@@ -0,0 +1,172 @@
+/**
+ * Pure helpers for the permission set assignment manifest of a project: the file mapping usernames or aliases to
+ * the permission sets, permission set groups and permission set licenses they should have, and the steps
+ * bringing an org in line with it.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { AssignmentItem, AssignmentItemKind, AssignmentResult, AssignmentUser, ExistingAssignment } from './assignments';
+
+export const ASSIGNMENT_MANIFEST_PATH = 'config/permset-assignments.json';
+
+// manifest key standing for the default org's own user
+export const DEFAULT_USER_KEY = '$default';
+
+// usernames have the form of an email address; aliases use the same characters, without `@`
+const MANIFEST_USER_PATTERN = /^[\w.+-]+(@[\w-]+(\.[\w-]+)*)?$/;
+
+/**
+ * Manifest property listing each kind of item.
+ */
+export const MANIFEST_ITEM_KEYS: Record<AssignmentItemKind, string> = {
+    permissionSet: 'permissionSets',
+    permissionSetGroup: 'permissionSetGroups',
+    permissionSetLicense: 'permissionSetLicenses'
+};
+
+export type ManifestItems = Partial<Record<AssignmentItemKind, string[]>>;
+
+export interface ManifestEntry {
+    // username, alias or DEFAULT_USER_KEY
+    user: string;
+    // API names by kind; only the kinds listed are reconciled
+    items: ManifestItems;
+}
+
+/**
+ * A change, or the lack of one, reconciling a user with the manifest.
+ */
+export interface ReconcileStep extends AssignmentResult {
+    // assignment record to delete for `toRemove` steps
+    recordId?: string;
+}
+
+export const SAMPLE_ASSIGNMENT_MANIFEST = `${JSON.stringify({
+    [DEFAULT_USER_KEY]: {
+        permissionSets: [],
+        permissionSetGroups: [],
+        permissionSetLicenses: []
+    }
+}, null, 4)}\n`;
+
+/**
+ * Entries of the manifest, in file order. Throws when the file is not a manifest.
+ */
+export function parseAssignmentManifest(text: string): ManifestEntry[] {
+    let parsed: unknown;
+
+    try {
+        parsed = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`${ASSIGNMENT_MANIFEST_PATH} is not valid JSON: ${(err as Error).message}`);
+    }
+
+    if (!isPlainObject(parsed)) {
+        throw new Error(`${ASSIGNMENT_MANIFEST_PATH} must map usernames or aliases to the items to assign.`);
+    }
+
+    const itemKinds = Object.entries(MANIFEST_ITEM_KEYS) as [AssignmentItemKind, string][];
+
+    return Object.entries(parsed).map(([user, value]) => {
+        if (user !== DEFAULT_USER_KEY && !MANIFEST_USER_PATTERN.test(user)) {
+            throw new Error(`"${user}" in ${ASSIGNMENT_MANIFEST_PATH} is not a username, an alias or ${DEFAULT_USER_KEY}.`);
+        }
+
+        if (!isPlainObject(value)) {
+            throw new Error(`"${user}" in ${ASSIGNMENT_MANIFEST_PATH} must be an object.`);
+        }
+
+        const unknownKey = Object.keys(value).find(key => !itemKinds.some(([, itemKey]) => itemKey === key));
+
+        if (unknownKey) {
+            throw new Error(`"${user}.${unknownKey}" in ${ASSIGNMENT_MANIFEST_PATH} is not one of ${Object.values(MANIFEST_ITEM_KEYS).join(', ')}.`);
+        }
+
+        const items: ManifestItems = {};
+
+        for (const [kind, key] of itemKinds) {
+            const names = value[key];
+
+            if (names === undefined) {
+                continue;
+            }
+
+            if (!Array.isArray(names) || names.some(name => typeof name !== 'string' || !name.trim())) {
+                throw new Error(`"${user}.${key}" in ${ASSIGNMENT_MANIFEST_PATH} must be a list of API names.`);
+            }
+
+            items[kind] = names.map(name => name.trim());
+        }
+
+        return { user, items };
+    });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Username of a manifest key: the default user, an alias or the username itself.
+ */
+export function resolveManifestUser(key: string, aliases: ReadonlyMap<string, string>, defaultUsername: string): string {
+    if (key === DEFAULT_USER_KEY) {
+        return defaultUsername;
+    }
+
+    return aliases.get(key) ?? key;
+}
+
+/**
+ * Steps bringing the users in line with the manifest: what to assign, what is already assigned and, when removing
+ * extras, the assignments of the listed kinds the manifest does not mention. Names are compared ignoring case.
+ * Entries whose user or items are not in the org fail.
+ */
+export function planReconciliation(
+    entries: ManifestEntry[],
+    users: AssignmentUser[],
+    available: AssignmentItem[],
+    existing: ExistingAssignment[],
+    options: { removeExtras: boolean }
+): ReconcileStep[] {
+    const steps: ReconcileStep[] = [];
+
+    for (const entry of entries) {
+        const user = users.find(candidate => candidate.username.toLowerCase() === entry.user.toLowerCase());
+        const userAssignments = existing.filter(assignment => assignment.assigneeId === user?.id);
+
+        for (const [kind, names] of Object.entries(entry.items) as [AssignmentItemKind, string[]][]) {
+            for (const name of names) {
+                const item = available.find(candidate => candidate.kind === kind && candidate.name.toLowerCase() === name.toLowerCase());
+
+                if (!user) {
+                    steps.push({ user: { id: '', username: entry.user }, item: item ?? { kind, id: '', name }, outcome: 'failed', message: 'User not found in the org' });
+                } else if (!item) {
+                    steps.push({ user, item: { kind, id: '', name }, outcome: 'failed', message: 'Not found in the org' });
+                } else if (userAssignments.some(assignment => assignment.itemId === item.id)) {
+                    steps.push({ user, item, outcome: 'alreadyAssigned' });
+                } else {
+                    steps.push({ user, item, outcome: 'toAssign' });
+                }
+            }
+
+            if (!user || !options.removeExtras) {
+                continue;
+            }
+
+            const wanted = new Set(names.map(name => name.toLowerCase()));
+
+            for (const assignment of userAssignments) {
+                if (assignment.kind === kind && !wanted.has(assignment.name.toLowerCase())) {
+                    steps.push({
+                        user,
+                        item: { kind, id: assignment.itemId, name: assignment.name },
+                        outcome: 'toRemove',
+                        recordId: assignment.recordId
+                    });
+                }
+            }
+        }
+    }
+
+    return steps;
+}
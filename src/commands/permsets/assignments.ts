@@ -0,0 +1,261 @@
+/**
+ * Pure helpers to assign permission sets, permission set groups and permission set licenses to many users:
+ * the SOQL to find users, the matrix of assignments to create and the result report.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { RecordResult } from './sobjectCollections';
+
+export type AssignmentItemKind = 'permissionSet' | 'permissionSetGroup' | 'permissionSetLicense';
+
+/**
+ * Something that can be assigned to a user.
+ */
+export interface AssignmentItem {
+    kind: AssignmentItemKind;
+    id: string;
+    // API name (Name or DeveloperName)
+    name: string;
+    label?: string;
+}
+
+export interface AssignmentUser {
+    id: string;
+    username: string;
+    name?: string;
+}
+
+/**
+ * An assignment already in the org: the user and the permission set, group or license.
+ */
+export interface ExistingAssignment {
+    assigneeId: string;
+    itemId: string;
+    kind: AssignmentItemKind;
+    // API name of the item
+    name: string;
+    // PermissionSetAssignment or PermissionSetLicenseAssign id
+    recordId: string;
+}
+
+/**
+ * A PermissionSetAssignment or PermissionSetLicenseAssign row of the existing assignment queries.
+ */
+export interface ExistingAssignmentRecord {
+    Id: string;
+    AssigneeId: string;
+    PermissionSetId?: string | null;
+    PermissionSet?: { Name?: string } | null;
+    PermissionSetGroupId?: string | null;
+    PermissionSetGroup?: { DeveloperName?: string } | null;
+    PermissionSetLicenseId?: string | null;
+    PermissionSetLicense?: { DeveloperName?: string } | null;
+}
+
+export type AssignmentOutcome = 'assigned' | 'alreadyAssigned' | 'toAssign' | 'toRemove' | 'removed' | 'failed' | 'skipped';
+
+export interface AssignmentResult {
+    user: AssignmentUser;
+    item: AssignmentItem;
+    outcome: AssignmentOutcome;
+    message?: string;
+}
+
+export interface UserFilter {
+    profileIds?: string[];
+    roleIds?: string[];
+    // `*` matches any characters
+    usernamePattern?: string;
+}
+
+export const ITEM_KIND_LABELS: Record<AssignmentItemKind, string> = {
+    permissionSet: 'Permission Set',
+    permissionSetGroup: 'Permission Set Group',
+    permissionSetLicense: 'Permission Set License'
+};
+
+const OUTCOME_LABELS: Record<AssignmentOutcome, string> = {
+    assigned: 'Assigned',
+    alreadyAssigned: 'Already assigned',
+    toAssign: 'To assign',
+    toRemove: 'To remove',
+    removed: 'Removed',
+    failed: 'Failed',
+    skipped: 'Skipped'
+};
+
+/**
+ * Queries listing what can be assigned, by kind. Permission sets owned by a profile or a group are left out.
+ */
+export const ASSIGNMENT_ITEM_QUERIES: Record<AssignmentItemKind, string> = {
+    permissionSet: 'SELECT Id, Name, Label FROM PermissionSet WHERE IsOwnedByProfile = false AND PermissionSetGroupId = null ORDER BY Label',
+    permissionSetGroup: 'SELECT Id, DeveloperName, MasterLabel FROM PermissionSetGroup ORDER BY MasterLabel',
+    permissionSetLicense: 'SELECT Id, DeveloperName, MasterLabel FROM PermissionSetLicense ORDER BY MasterLabel'
+};
+
+/**
+ * Escape a value for a single-quoted SOQL string literal.
+ */
+export function escapeSoqlString(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'');
+}
+
+/**
+ * `IN` list of quoted values.
+ */
+export function toSoqlInList(values: string[]): string {
+    return `(${values.map(value => `'${escapeSoqlString(value)}'`).join(', ')})`;
+}
+
+/**
+ * SOQL `LIKE` pattern for a pattern where `*` matches any characters. `%` and `_` are matched literally,
+ * and a pattern without `*` matches usernames containing it.
+ */
+export function toSoqlLikePattern(pattern: string): string {
+    const escaped = escapeSoqlString(pattern.trim()).replace(/([%_])/g, '\\$1');
+
+    return escaped.includes('*') ? escaped.replace(/\*/g, '%') : `%${escaped}%`;
+}
+
+/**
+ * Query of the active users matching every given filter.
+ */
+export function buildUserQuery(filter: UserFilter): string {
+    const conditions = ['IsActive = true'];
+
+    if (filter.profileIds?.length) {
+        conditions.push(`ProfileId IN ${toSoqlInList(filter.profileIds)}`);
+    }
+
+    if (filter.roleIds?.length) {
+        conditions.push(`UserRoleId IN ${toSoqlInList(filter.roleIds)}`);
+    }
+
+    if (filter.usernamePattern?.trim()) {
+        conditions.push(`Username LIKE '${toSoqlLikePattern(filter.usernamePattern)}'`);
+    }
+
+    return `SELECT Id, Name, Username, Profile.Name, UserRole.Name FROM User WHERE ${conditions.join(' AND ')} ORDER BY Name`;
+}
+
+/**
+ * Queries of the existing assignments of the users: permission sets and groups, then licenses.
+ * Assignments of profile permission sets are left out. Each row maps to an ExistingAssignment through
+ * toExistingAssignment.
+ */
+export function buildExistingAssignmentQueries(userIds: string[]): { assignments: string; licenses: string } {
+    const users = toSoqlInList(userIds);
+
+    return {
+        assignments: 'SELECT Id, AssigneeId, PermissionSetId, PermissionSet.Name, PermissionSetGroupId, PermissionSetGroup.DeveloperName '
+            + `FROM PermissionSetAssignment WHERE AssigneeId IN ${users} AND PermissionSet.IsOwnedByProfile = false`,
+        licenses: `SELECT Id, AssigneeId, PermissionSetLicenseId, PermissionSetLicense.DeveloperName FROM PermissionSetLicenseAssign WHERE AssigneeId IN ${users}`
+    };
+}
+
+/**
+ * Existing assignment from a PermissionSetAssignment or PermissionSetLicenseAssign row. A group assignment
+ * also holds the group's own permission set: the group wins.
+ */
+export function toExistingAssignment(row: ExistingAssignmentRecord): ExistingAssignment {
+    const base = { assigneeId: row.AssigneeId, recordId: row.Id };
+
+    if (row.PermissionSetGroupId) {
+        return { ...base, itemId: row.PermissionSetGroupId, kind: 'permissionSetGroup', name: row.PermissionSetGroup?.DeveloperName ?? '' };
+    }
+
+    if (row.PermissionSetLicenseId) {
+        return { ...base, itemId: row.PermissionSetLicenseId, kind: 'permissionSetLicense', name: row.PermissionSetLicense?.DeveloperName ?? '' };
+    }
+
+    return { ...base, itemId: row.PermissionSetId ?? '', kind: 'permissionSet', name: row.PermissionSet?.Name ?? '' };
+}
+
+/**
+ * Split the matrix of users and items into the assignments to create and those already in place.
+ */
+export function planAssignments(
+    users: AssignmentUser[],
+    items: AssignmentItem[],
+    existing: ExistingAssignment[]
+): { pending: { user: AssignmentUser; item: AssignmentItem }[]; alreadyAssigned: AssignmentResult[] } {
+    const existingKeys = new Set(existing.map(assignment => `${assignment.assigneeId}:${assignment.itemId}`));
+    const pending: { user: AssignmentUser; item: AssignmentItem }[] = [];
+    const alreadyAssigned: AssignmentResult[] = [];
+
+    for (const user of users) {
+        for (const item of items) {
+            if (existingKeys.has(`${user.id}:${item.id}`)) {
+                alreadyAssigned.push({ user, item, outcome: 'alreadyAssigned' });
+            } else {
+                pending.push({ user, item });
+            }
+        }
+    }
+
+    return { pending, alreadyAssigned };
+}
+
+/**
+ * The sObject record that assigns the item to the user.
+ */
+export function buildAssignmentRecord(userId: string, item: AssignmentItem): { sobject: string; values: Record<string, string> } {
+    switch (item.kind) {
+        case 'permissionSet':
+            return { sobject: 'PermissionSetAssignment', values: { AssigneeId: userId, PermissionSetId: item.id } };
+        case 'permissionSetGroup':
+            return { sobject: 'PermissionSetAssignment', values: { AssigneeId: userId, PermissionSetGroupId: item.id } };
+        case 'permissionSetLicense':
+            return { sobject: 'PermissionSetLicenseAssign', values: { AssigneeId: userId, PermissionSetLicenseId: item.id } };
+    }
+}
+
+/**
+ * Outcome of an assignment record created or deleted in an sObject Collections request: `done` when it succeeded,
+ * otherwise skipped or failed with the error.
+ */
+export function toCollectionOutcome(result: RecordResult | undefined, done: 'assigned' | 'removed'): Pick<AssignmentResult, 'outcome' | 'message'> {
+    if (result?.success) {
+        return { outcome: done };
+    }
+
+    return { outcome: result?.skipped ? 'skipped' : 'failed', message: result?.message ?? 'No result returned' };
+}
+
+export function escapeMarkdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Markdown report of the results: a summary, then a table per user.
+ */
+export function formatAssignmentReport(title: string, results: AssignmentResult[]): string {
+    const counts = new Map<AssignmentOutcome, number>();
+
+    for (const result of results) {
+        counts.set(result.outcome, (counts.get(result.outcome) ?? 0) + 1);
+    }
+
+    const lines = [
+        `# ${title}`,
+        '',
+        [...counts.entries()].map(([outcome, count]) => `${OUTCOME_LABELS[outcome]}: ${count}`).join(' · ') || 'Nothing to do.',
+        ''
+    ];
+    const byUser = new Map<string, AssignmentResult[]>();
+
+    for (const result of results) {
+        byUser.set(result.user.username, [...byUser.get(result.user.username) ?? [], result]);
+    }
+
+    for (const [username, userResults] of [...byUser.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(`## ${username}`, '', '| Type | Name | Result | Details |', '| --- | --- | --- | --- |');
+
+        for (const result of userResults) {
+            lines.push(`| ${ITEM_KIND_LABELS[result.item.kind]} | ${escapeMarkdownCell(result.item.name)} | ${OUTCOME_LABELS[result.outcome]} | ${escapeMarkdownCell(result.message ?? '')} |`);
+        }
+
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,356 @@
+import * as vscode from 'vscode';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { runSfDataQuery } from '../shared/utilities';
+import {
+    ASSIGNMENT_ITEM_QUERIES,
+    AssignmentItem,
+    AssignmentItemKind,
+    AssignmentResult,
+    AssignmentUser,
+    buildAssignmentRecord,
+    buildExistingAssignmentQueries,
+    buildUserQuery,
+    ExistingAssignment,
+    ExistingAssignmentRecord,
+    formatAssignmentReport,
+    ITEM_KIND_LABELS,
+    planAssignments,
+    toCollectionOutcome,
+    toExistingAssignment,
+    UserFilter
+} from './assignments';
+import { CollectionOptions, connectToOrg, createRecords, OrgConnection } from './orgDataClient';
+
+// keeps the SOQL `IN` lists of the existing assignment queries short enough for the command line
+const USER_ID_CHUNK_SIZE = 100;
+
+interface NamedRecord {
+    Id: string;
+    Name: string;
+}
+
+interface UserRecord {
+    Id: string;
+    Name: string;
+    Username: string;
+    Profile?: { Name?: string } | null;
+    UserRole?: { Name?: string } | null;
+}
+
+interface AssignmentItemRecord {
+    Id: string;
+    Name?: string;
+    Label?: string;
+    DeveloperName?: string;
+    MasterLabel?: string;
+}
+
+type FilterKind = 'profile' | 'role' | 'username';
+
+async function pickUserFilter(options: { cwd: string; targetOrg: string }): Promise<UserFilter | undefined> {
+    const filterKinds = await vscode.window.showQuickPick(
+        [
+            { label: 'Profile', filter: 'profile' as FilterKind },
+            { label: 'Role', filter: 'role' as FilterKind },
+            { label: 'Username pattern', filter: 'username' as FilterKind }
+        ],
+        {
+            canPickMany: true,
+            title: 'Assign Permission Sets to Multiple Users',
+            placeHolder: 'Filter users by (select none to list all active users)'
+        }
+    );
+    if (!filterKinds) {
+        return;
+    }
+
+    const filter: UserFilter = {};
+    const kinds = new Set(filterKinds.map((f) => f.filter));
+
+    if (kinds.has('profile')) {
+        const profiles = await pickRecords('SELECT Id, Name FROM Profile ORDER BY Name', 'Select profiles', options);
+        if (!profiles) {
+            return;
+        }
+        filter.profileIds = profiles;
+    }
+
+    if (kinds.has('role')) {
+        const roles = await pickRecords('SELECT Id, Name FROM UserRole ORDER BY Name', 'Select roles', options);
+        if (!roles) {
+            return;
+        }
+        filter.roleIds = roles;
+    }
+
+    if (kinds.has('username')) {
+        const pattern = await vscode.window.showInputBox({
+            title: 'Username pattern',
+            prompt: 'Use * to match any characters, e.g. qa.*@example.com. Without *, usernames containing the text match.',
+            validateInput: (value) => (value.trim() ? undefined : 'Enter a pattern.')
+        });
+        if (pattern === undefined) {
+            return;
+        }
+        filter.usernamePattern = pattern;
+    }
+
+    return filter;
+}
+
+/**
+ * Ids of the records picked among the query results, undefined when cancelled or nothing was picked.
+ */
+async function pickRecords(
+    soql: string,
+    placeHolder: string,
+    options: { cwd: string; targetOrg: string }
+): Promise<string[] | undefined> {
+    const records = await runSfDataQuery<NamedRecord>(soql, options);
+    const picked = await vscode.window.showQuickPick(
+        records.map((r) => ({ label: r.Name, id: r.Id })),
+        { canPickMany: true, placeHolder }
+    );
+    if (!picked?.length) {
+        return;
+    }
+    return picked.map((p) => p.id);
+}
+
+function toAssignmentItem(kind: AssignmentItemKind, record: AssignmentItemRecord): AssignmentItem {
+    return {
+        kind,
+        id: record.Id,
+        name: record.Name ?? record.DeveloperName ?? record.Id,
+        label: record.Label ?? record.MasterLabel
+    };
+}
+
+export async function loadAssignmentItems(options: { cwd: string; targetOrg: string }): Promise<AssignmentItem[]> {
+    const items: AssignmentItem[] = [];
+
+    for (const kind of Object.keys(ASSIGNMENT_ITEM_QUERIES) as AssignmentItemKind[]) {
+        const records = await runSfDataQuery<AssignmentItemRecord>(ASSIGNMENT_ITEM_QUERIES[kind], options);
+        items.push(...records.map((record) => toAssignmentItem(kind, record)));
+    }
+
+    return items;
+}
+
+async function pickAssignmentItems(items: AssignmentItem[]): Promise<AssignmentItem[] | undefined> {
+    type ItemPick = vscode.QuickPickItem & { item?: AssignmentItem };
+    const picks: ItemPick[] = [];
+
+    for (const kind of Object.keys(ITEM_KIND_LABELS) as AssignmentItemKind[]) {
+        const ofKind = items.filter((item) => item.kind === kind);
+        if (ofKind.length === 0) {
+            continue;
+        }
+        picks.push({ label: `${ITEM_KIND_LABELS[kind]}s`, kind: vscode.QuickPickItemKind.Separator });
+        picks.push(...ofKind.map((item) => ({ label: item.label ?? item.name, description: item.name, item })));
+    }
+
+    const picked = await vscode.window.showQuickPick(picks, {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: 'Select permission sets, permission set groups and permission set licenses to assign'
+    });
+    if (!picked?.length) {
+        return;
+    }
+    return picked.flatMap((p) => (p.item ? [p.item] : []));
+}
+
+export async function loadExistingAssignments(
+    userIds: string[],
+    options: { cwd: string; targetOrg: string }
+): Promise<ExistingAssignment[]> {
+    const existing: ExistingAssignment[] = [];
+
+    for (let start = 0; start < userIds.length; start += USER_ID_CHUNK_SIZE) {
+        const queries = buildExistingAssignmentQueries(userIds.slice(start, start + USER_ID_CHUNK_SIZE));
+        const assignments = await runSfDataQuery<ExistingAssignmentRecord>(queries.assignments, options);
+        const licenses = await runSfDataQuery<ExistingAssignmentRecord>(queries.licenses, options);
+        existing.push(...assignments.map(toExistingAssignment), ...licenses.map(toExistingAssignment));
+    }
+
+    return existing;
+}
+
+/**
+ * Create the assignment records, up to 200 per request and sObject, and report each one as assigned, failed or
+ * skipped, in order.
+ */
+export async function createAssignments(
+    connection: OrgConnection,
+    assignments: { user: AssignmentUser; item: AssignmentItem }[],
+    options: CollectionOptions = {}
+): Promise<AssignmentResult[]> {
+    const records = assignments.map(({ user, item }) => buildAssignmentRecord(user.id, item));
+    const results: AssignmentResult[] = [];
+    let processedBefore = 0;
+
+    for (const sobject of new Set(records.map((record) => record.sobject))) {
+        const indexes = records.flatMap((record, index) => (record.sobject === sobject ? [index] : []));
+        const offset = processedBefore;
+        const created = await createRecords(connection, sobject, indexes.map((index) => records[index].values), {
+            cancellation: options.cancellation,
+            onProgress: (processed) => options.onProgress?.(offset + processed, assignments.length)
+        });
+        indexes.forEach((index, position) => {
+            const { user, item } = assignments[index];
+            results[index] = { user, item, ...toCollectionOutcome(created[position], 'assigned') };
+        });
+        processedBefore += indexes.length;
+    }
+
+    return results;
+}
+
+/**
+ * `onProgress` of `createAssignments` reporting to a `withProgress` notification.
+ */
+export function reportCollectionProgress(progress: vscode.Progress<{ message?: string; increment?: number }>, action: string) {
+    let reported = 0;
+    return (processed: number, total: number) => {
+        progress.report({ message: `${action} (${processed}/${total})...`, increment: ((processed - reported) / total) * 100 });
+        reported = processed;
+    };
+}
+
+/**
+ * Assign many permission sets, permission set groups and permission set licenses to many users of the default org,
+ * then open a report of each assignment.
+ */
+export async function bulkAssignPermissionSets(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    let targetOrg: string;
+    try {
+        targetOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+    const options = { cwd: workspaceRoot, targetOrg };
+
+    let filter: UserFilter | undefined;
+    try {
+        filter = await pickUserFilter(options);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to load user filters: ${(err as Error).message}`);
+        return;
+    }
+    if (!filter) {
+        return;
+    }
+
+    let userRecords: UserRecord[];
+    try {
+        userRecords = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading users...', cancellable: false },
+            async () => runSfDataQuery<UserRecord>(buildUserQuery(filter), options)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list users: ${(err as Error).message}`);
+        return;
+    }
+
+    if (userRecords.length === 0) {
+        vscode.window.showInformationMessage('No active users match the filters.');
+        return;
+    }
+
+    const pickedUsers = await vscode.window.showQuickPick(
+        userRecords.map((r) => ({
+            label: r.Name,
+            description: r.Username,
+            detail: [r.Profile?.Name, r.UserRole?.Name].filter(Boolean).join(' · ') || undefined,
+            picked: true,
+            user: { id: r.Id, username: r.Username, name: r.Name } as AssignmentUser
+        })),
+        { canPickMany: true, matchOnDescription: true, placeHolder: 'Select the users to assign to' }
+    );
+    if (!pickedUsers?.length) {
+        return;
+    }
+    const users = pickedUsers.map((p) => p.user);
+
+    let availableItems: AssignmentItem[];
+    try {
+        availableItems = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading permission sets...', cancellable: false },
+            async () => loadAssignmentItems(options)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list permission sets: ${(err as Error).message}`);
+        return;
+    }
+
+    const items = await pickAssignmentItems(availableItems);
+    if (!items) {
+        return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Assign ${items.length} item(s) to ${users.length} user(s) in ${targetOrg}?`,
+        { modal: true },
+        'Assign'
+    );
+    if (confirm !== 'Assign') {
+        return;
+    }
+
+    const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Assigning permission sets', cancellable: true },
+        async (progress, token): Promise<AssignmentResult[] | undefined> => {
+            progress.report({ message: 'Checking existing assignments...' });
+
+            let plan: ReturnType<typeof planAssignments>;
+            try {
+                plan = planAssignments(users, items, await loadExistingAssignments(users.map((u) => u.id), options));
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to query existing assignments: ${(err as Error).message}`);
+                return;
+            }
+
+            let connection: OrgConnection;
+            try {
+                connection = await connectToOrg(targetOrg, workspaceRoot);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to connect to ${targetOrg}: ${(err as Error).message}`);
+                return;
+            }
+
+            const created = await createAssignments(connection, plan.pending, {
+                cancellation: token,
+                onProgress: reportCollectionProgress(progress, 'Assigning')
+            });
+
+            return [...plan.alreadyAssigned, ...created];
+        }
+    );
+    if (!results) {
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatAssignmentReport(`Permission set assignments in ${targetOrg}`, results)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const count = (outcome: AssignmentResult['outcome']) => results.filter((r) => r.outcome === outcome).length;
+    const failed = count('failed');
+    const summary = `Assigned ${count('assigned')}, already assigned ${count('alreadyAssigned')}, failed ${failed}, skipped ${count('skipped')}.`;
+    if (failed > 0) {
+        vscode.window.showWarningMessage(summary);
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
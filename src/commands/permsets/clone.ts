@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { listPermissionSetsInWorkspace, resolveMetadataFile } from '../permissioneditor/resolve';
+import { runSfDataQuery } from '../shared/utilities';
+import { clonePermissionSetXml, listPresentSections, readPermissionSetSummary } from './cloneMetadata';
+import { runSfProjectDeploy } from './create';
+import { labelToDeveloperName } from './developerName';
+
+interface PermissionSetRecord {
+    Name: string;
+    Label: string;
+}
+
+/**
+ * Permission sets of the project and of the org, the project ones first.
+ */
+async function pickSourcePermissionSet(workspaceRoot: string, targetOrg: string): Promise<string | undefined> {
+    const local = listPermissionSetsInWorkspace(workspaceRoot);
+    let orgRecords: PermissionSetRecord[] = [];
+    try {
+        orgRecords = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading permission sets...', cancellable: false },
+            async () => runSfDataQuery<PermissionSetRecord>(
+                'SELECT Name, Label FROM PermissionSet WHERE IsOwnedByProfile = false AND PermissionSetGroupId = null AND NamespacePrefix = null ORDER BY Label',
+                { cwd: workspaceRoot, targetOrg }
+            )
+        );
+    } catch (err) {
+        vscode.window.showWarningMessage(`Could not list the permission sets of the org, showing project ones only: ${(err as Error).message}`);
+    }
+
+    const localNames = new Set(local.map((ps) => ps.name.toLowerCase()));
+    const items: (vscode.QuickPickItem & { name?: string })[] = [
+        { label: 'Project', kind: vscode.QuickPickItemKind.Separator },
+        ...local.map((ps) => ({ label: ps.name, description: vscode.workspace.asRelativePath(ps.filePath), name: ps.name })),
+        { label: 'Org only (retrieved before cloning)', kind: vscode.QuickPickItemKind.Separator },
+        ...orgRecords
+            .filter((r) => !localNames.has(r.Name.toLowerCase()))
+            .map((r) => ({ label: r.Label, description: r.Name, name: r.Name }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the permission set to clone',
+        title: 'Clone Permission Set',
+        matchOnDescription: true
+    });
+    return picked?.name;
+}
+
+export async function clonePermissionSet(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    let targetOrg: string;
+    try {
+        targetOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+
+    const sourceName = await pickSourcePermissionSet(workspaceRoot, targetOrg);
+    if (!sourceName) {
+        return;
+    }
+
+    const sourcePath = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Resolving ${sourceName}...`, cancellable: false },
+        async () => resolveMetadataFile(workspaceRoot, 'permissionSet', sourceName)
+    );
+    if (!sourcePath) {
+        vscode.window.showErrorMessage(`Could not find or retrieve the metadata of permission set ${sourceName}.`);
+        return;
+    }
+
+    let sourceXml: string;
+    let summary: { label?: string; description?: string };
+    let sections: ReturnType<typeof listPresentSections>;
+    try {
+        sourceXml = fs.readFileSync(sourcePath, 'utf8');
+        summary = readPermissionSetSummary(sourceXml);
+        sections = listPresentSections(sourceXml);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to read ${sourcePath}: ${(err as Error).message}`);
+        return;
+    }
+
+    const existingNames = new Set(listPermissionSetsInWorkspace(workspaceRoot).map((ps) => ps.name.toLowerCase()));
+
+    const label = await vscode.window.showInputBox({
+        prompt: 'Label for the copy',
+        value: `${summary.label ?? sourceName} Copy`
+    });
+    if (label === undefined || label.trim() === '') {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: 'Developer Name (API Name) of the copy',
+        value: labelToDeveloperName(label.trim()),
+        validateInput: (value) => existingNames.has(value.trim().toLowerCase())
+            ? `A permission set named ${value.trim()} already exists in the project.`
+            : undefined
+    });
+    if (name === undefined || name.trim() === '') {
+        return;
+    }
+
+    const description = await vscode.window.showInputBox({
+        prompt: 'Description (optional)',
+        value: summary.description ?? ''
+    });
+    if (description === undefined) {
+        return;
+    }
+
+    let stripSections: string[] = [];
+    if (sections.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+            sections.map((section) => ({ label: section.label, description: `${section.count} entr${section.count === 1 ? 'y' : 'ies'}`, tag: section.tag })),
+            { canPickMany: true, placeHolder: 'Select the sections to leave out of the copy (none keeps everything)' }
+        );
+        if (picked === undefined) {
+            return;
+        }
+        stripSections = picked.map((p) => p.tag);
+    }
+
+    const trimmedName = name.trim();
+    const clonePath = path.join(path.dirname(sourcePath), `${trimmedName}.permissionset-meta.xml`);
+    try {
+        fs.writeFileSync(clonePath, clonePermissionSetXml(sourceXml, { label, description, stripSections }), 'utf8');
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to write ${clonePath}: ${(err as Error).message}`);
+        return;
+    }
+
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(sourcePath),
+        vscode.Uri.file(clonePath),
+        `${sourceName} ↔ ${trimmedName}`
+    );
+
+    const deploy = await vscode.window.showInformationMessage(
+        `Permission set ${trimmedName} was created in the project. Deploy it to ${targetOrg}?`,
+        'Deploy'
+    );
+    if (deploy !== 'Deploy') {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Deploying ${trimmedName}...`, cancellable: false },
+        async () => {
+            try {
+                await runSfProjectDeploy('PermissionSet', trimmedName, targetOrg, workspaceRoot);
+                vscode.window.showInformationMessage(`Permission set "${label.trim()}" (${trimmedName}) was deployed to ${targetOrg}.`);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to deploy permission set ${trimmedName}: ${(err as Error).message}`);
+            }
+        }
+    );
+}
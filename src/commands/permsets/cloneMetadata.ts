@@ -0,0 +1,115 @@
+/**
+ * Rewrite PermissionSet metadata XML into a copy: new label and description, optionally without some sections.
+ */
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+
+// values are kept as written, e.g. a description made of digits
+const PARSER_OPTIONS = {
+    ignoreAttributes: false,
+    parseTagValue: false,
+    trimValues: true
+};
+
+const BUILDER_OPTIONS = {
+    ignoreAttributes: false,
+    format: true,
+    indentBy: '    ',
+    suppressBooleanAttributes: false
+};
+
+/**
+ * Sections of a permission set that can be left out of the copy, in metadata order.
+ */
+export const STRIPPABLE_SECTIONS: { tag: string; label: string }[] = [
+    { tag: 'applicationVisibilities', label: 'App visibilities' },
+    { tag: 'classAccesses', label: 'Apex class access' },
+    { tag: 'customMetadataTypeAccesses', label: 'Custom metadata type access' },
+    { tag: 'customPermissions', label: 'Custom permissions' },
+    { tag: 'customSettingAccesses', label: 'Custom setting access' },
+    { tag: 'externalDataSourceAccesses', label: 'External data source access' },
+    { tag: 'fieldPermissions', label: 'Field permissions' },
+    { tag: 'flowAccesses', label: 'Flow access' },
+    { tag: 'objectPermissions', label: 'Object permissions' },
+    { tag: 'pageAccesses', label: 'Visualforce page access' },
+    { tag: 'recordTypeVisibilities', label: 'Record type visibilities' },
+    { tag: 'tabSettings', label: 'Tab settings' },
+    { tag: 'userPermissions', label: 'User permissions' }
+];
+
+export interface CloneOptions {
+    label: string;
+    // removed from the copy when empty
+    description: string;
+    // tags of STRIPPABLE_SECTIONS to leave out
+    stripSections: string[];
+}
+
+function parsePermissionSet(xml: string): { parsed: Record<string, unknown>; root: Record<string, unknown> } {
+    const parsed = new XMLParser(PARSER_OPTIONS).parse(xml) as Record<string, unknown>;
+    const root = parsed.PermissionSet;
+
+    if (!root || typeof root !== 'object') {
+        throw new Error('The file is not PermissionSet metadata.');
+    }
+
+    return { parsed, root: root as Record<string, unknown> };
+}
+
+/**
+ * Label and description of the permission set.
+ */
+export function readPermissionSetSummary(xml: string): { label?: string; description?: string } {
+    const { root } = parsePermissionSet(xml);
+
+    return {
+        label: typeof root.label === 'string' ? root.label : undefined,
+        description: typeof root.description === 'string' ? root.description : undefined
+    };
+}
+
+/**
+ * Strippable sections the permission set holds, with their number of entries.
+ */
+export function listPresentSections(xml: string): { tag: string; label: string; count: number }[] {
+    const { root } = parsePermissionSet(xml);
+
+    return STRIPPABLE_SECTIONS
+        .filter(section => root[section.tag] !== undefined)
+        .map(section => {
+            const value = root[section.tag];
+
+            return { ...section, count: Array.isArray(value) ? value.length : 1 };
+        });
+}
+
+/**
+ * The XML of the copy: the label and description rewritten, the stripped sections removed.
+ * A new label or description is placed where the metadata API expects it, in alphabetical element order.
+ */
+export function clonePermissionSetXml(xml: string, options: CloneOptions): string {
+    const { parsed, root } = parsePermissionSet(xml);
+
+    for (const tag of options.stripSections) {
+        delete root[tag];
+    }
+
+    if (options.description.trim()) {
+        root.description = options.description.trim();
+    } else {
+        delete root.description;
+    }
+
+    root.label = options.label.trim();
+
+    // attributes such as xmlns come first
+    const rank = (key: string) => (key.startsWith('@_') ? 0 : 1);
+    const sorted: Record<string, unknown> = {};
+
+    for (const key of Object.keys(root).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))) {
+        sorted[key] = root[key];
+    }
+
+    parsed.PermissionSet = sorted;
+
+    return new XMLBuilder(BUILDER_OPTIONS).build(parsed);
+}
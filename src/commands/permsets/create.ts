@@ -1,68 +1,414 @@
-import * as cp from 'child_process';
+import * as fs from 'fs';
+import { glob } from 'glob';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { loadOrgPermissions } from '../permissioneditor/compare';
+import { extractPermissionsFromMetadata, PERMISSION_CATEGORIES, PermissionEntry } from '../permissioneditor/comparison';
 import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { listPermissionSetsInWorkspace, listProfilesInWorkspace } from '../permissioneditor/resolve';
+import { parsePermissionMetadata } from '../permissioneditor/xmlEdit';
+import { runSfCommand, runSfDataQuery } from '../shared/utilities';
 import { labelToDeveloperName } from './developerName';
+import { OrgDisplayResult, REST_API_VERSION, runSfOrgDisplay } from './orgDataClient';
+import {
+    apexClassEntries,
+    buildPermissionSetXml,
+    COPYABLE_PROFILE_CATEGORIES,
+    copyProfileEntries,
+    fieldEntries,
+    getPermissionSetDirectory,
+    OBJECT_ACCESS_LEVELS,
+    objectEntries,
+    PermissionSetDefinition,
+    readOnlyObjectEntries,
+    tabEntries
+} from './permissionSetTemplate';
 
-const REST_API_VERSION = 'v59.0';
 const CONFIG_SECTION = 'sf-ext-plus';
 const CONFIG_KEY_RETRIEVE_AFTER_CREATE = 'createPermissionSet.retrieveAfterCreate';
 
 export { labelToDeveloperName } from './developerName';
 
-interface OrgDisplayResult {
-    result?: { accessToken?: string; instanceUrl?: string };
-    status?: number;
-    message?: string;
+export async function runSfProjectRetrieve(metadataType: string, apiName: string, targetOrg: string, cwd: string): Promise<void> {
+    await runSfCommand(['project', 'retrieve', 'start', '-m', `${metadataType}:${apiName}`, '--target-org', targetOrg], { cwd, fallbackMessage: 'Retrieve failed' });
 }
 
-function runSfOrgDisplay(targetOrg: string, cwd: string): Promise<OrgDisplayResult> {
-    return new Promise((resolve, reject) => {
-        const cmd = `sf org display --target-org ${JSON.stringify(targetOrg)} --json`;
-        cp.exec(cmd, { cwd }, (err, stdout, stderr) => {
-            let parsed: OrgDisplayResult = {};
-            try {
-                parsed = JSON.parse(stdout || '{}') as OrgDisplayResult;
-            } catch {
-                // ignore
-            }
-            if (err) {
-                const msg = parsed.message ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
-            }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Failed to get org details'));
+export async function runSfProjectDeploy(metadataType: string, apiName: string, targetOrg: string, cwd: string): Promise<void> {
+    await runSfCommand(['project', 'deploy', 'start', '-m', `${metadataType}:${apiName}`, '--target-org', targetOrg], { cwd, fallbackMessage: 'Deploy failed' });
+}
+
+const WIZARD_TITLE = 'Create Permission Set';
+
+type Template = 'blank' | 'readOnlyObjects' | 'apexFolder' | 'copyProfile';
+
+const TEMPLATES: (vscode.QuickPickItem & { template: Template })[] = [
+    { label: 'Blank', description: 'Add permissions in the next steps, or none', template: 'blank' },
+    { label: 'Read-only on objects', description: 'Read access on the objects you pick', template: 'readOnlyObjects' },
+    { label: 'Apex classes in a folder', description: 'Access to every Apex class of a folder', template: 'apexFolder' },
+    { label: 'Copy from a profile', description: 'The permissions a profile grants', template: 'copyProfile' }
+];
+
+interface WizardContext {
+    workspaceRoot: string;
+    targetOrg: string;
+    // sObjects of the org, loaded on first use
+    objectNames?: string[];
+}
+
+async function loadObjectNames(context: WizardContext): Promise<string[]> {
+    if (!context.objectNames) {
+        const names = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading objects...', cancellable: false },
+            async () => runSfCommand<string[]>(
+                ['sobject', 'list', '--sobject', 'all', '--target-org', context.targetOrg],
+                { cwd: context.workspaceRoot, fallbackMessage: 'Failed to list objects' }
+            )
+        );
+        context.objectNames = (names ?? []).sort((a, b) => a.localeCompare(b));
+    }
+    return context.objectNames;
+}
+
+async function pickObjects(context: WizardContext, placeHolder: string, canPickMany: true): Promise<string[] | undefined>;
+async function pickObjects(context: WizardContext, placeHolder: string, canPickMany: false): Promise<string | undefined>;
+async function pickObjects(context: WizardContext, placeHolder: string, canPickMany: boolean): Promise<string[] | string | undefined> {
+    let objectNames: string[];
+    try {
+        objectNames = await loadObjectNames(context);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list the objects of ${context.targetOrg}: ${(err as Error).message}`);
+        return undefined;
+    }
+
+    const items = objectNames.map((objectName) => ({ label: objectName }));
+    if (canPickMany) {
+        const picked = await vscode.window.showQuickPick(items, { canPickMany: true, placeHolder, title: WIZARD_TITLE });
+        return picked?.length ? picked.map((item) => item.label) : undefined;
+    }
+    return (await vscode.window.showQuickPick(items, { placeHolder, title: WIZARD_TITLE }))?.label;
+}
+
+async function pickApexClassFolder(workspaceRoot: string): Promise<PermissionEntry[] | undefined> {
+    const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(workspaceRoot),
+        openLabel: 'Use Folder',
+        title: 'Folder of the Apex classes'
+    });
+    if (!folders?.length) {
+        return undefined;
+    }
+
+    const entries = apexClassEntries(glob.sync('**/*.cls', { cwd: folders[0].fsPath, absolute: true }));
+    if (entries.length === 0) {
+        vscode.window.showErrorMessage(`No Apex classes found in ${vscode.workspace.asRelativePath(folders[0])}.`);
+        return undefined;
+    }
+    return entries;
+}
+
+interface ProfileRecord {
+    Id: string;
+    Profile?: { Name?: string } | null;
+}
+
+/**
+ * Permissions of a profile of the project or of the org, limited to the categories picked.
+ */
+async function pickProfileEntries(context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    const local = listProfilesInWorkspace(context.workspaceRoot);
+    const orgContext = { cwd: context.workspaceRoot, targetOrg: context.targetOrg };
+    let orgRecords: ProfileRecord[] = [];
+    try {
+        orgRecords = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading profiles...', cancellable: false },
+            async () => runSfDataQuery<ProfileRecord>(
+                'SELECT Id, Profile.Name FROM PermissionSet WHERE IsOwnedByProfile = true ORDER BY Profile.Name',
+                orgContext
+            )
+        );
+    } catch (err) {
+        vscode.window.showWarningMessage(`Could not list the profiles of the org, showing project ones only: ${(err as Error).message}`);
+    }
+
+    const items: (vscode.QuickPickItem & { filePath?: string; parentId?: string })[] = [
+        { label: 'Project', kind: vscode.QuickPickItemKind.Separator },
+        ...local.map((profile) => ({ label: profile.name, description: vscode.workspace.asRelativePath(profile.filePath), filePath: profile.filePath })),
+        { label: context.targetOrg, kind: vscode.QuickPickItemKind.Separator },
+        ...orgRecords
+            .filter((record) => record.Profile?.Name)
+            .map((record) => ({ label: record.Profile!.Name!, parentId: record.Id }))
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the profile to copy the permissions from',
+        title: WIZARD_TITLE,
+        matchOnDescription: true
+    });
+    if (!picked) {
+        return undefined;
+    }
+
+    let profileEntries: PermissionEntry[];
+    try {
+        profileEntries = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Loading the permissions of ${picked.label}...`, cancellable: false },
+            async () => {
+                if (picked.filePath) {
+                    const { kind, root } = parsePermissionMetadata(fs.readFileSync(picked.filePath, 'utf8'));
+                    return extractPermissionsFromMetadata(root, kind);
+                }
+                return loadOrgPermissions(orgContext, picked.parentId!);
             }
-            resolve(parsed);
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to load the permissions of ${picked.label}: ${(err as Error).message}`);
+        return undefined;
+    }
+
+    const granted = copyProfileEntries(profileEntries, COPYABLE_PROFILE_CATEGORIES);
+    const categories = await vscode.window.showQuickPick(
+        PERMISSION_CATEGORIES
+            .map((definition) => ({ definition, count: granted.filter((entry) => entry.category === definition.category).length }))
+            .filter(({ count }) => count > 0)
+            .map(({ definition, count }) => ({ label: definition.label, description: `${count}`, category: definition.category, picked: true })),
+        { canPickMany: true, placeHolder: 'Select the permissions to copy', title: WIZARD_TITLE }
+    );
+    if (categories === undefined) {
+        return undefined;
+    }
+    return copyProfileEntries(granted, categories.map((category) => category.category));
+}
+
+async function collectTemplateEntries(template: Template, context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    switch (template) {
+        case 'blank':
+            return [];
+        case 'readOnlyObjects': {
+            const objectNames = await pickObjects(context, 'Select the objects to read', true);
+            return objectNames && readOnlyObjectEntries(objectNames);
+        }
+        case 'apexFolder':
+            return pickApexClassFolder(context.workspaceRoot);
+        case 'copyProfile':
+            return pickProfileEntries(context);
+    }
+}
+
+interface UserLicenseRecord {
+    Name: string;
+    MasterLabel: string;
+}
+
+/**
+ * The user license of the permission set; `name` is undefined when it has none.
+ */
+async function pickLicense(context: WizardContext): Promise<{ name?: string } | undefined> {
+    let licenses: UserLicenseRecord[] = [];
+    try {
+        licenses = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading user licenses...', cancellable: false },
+            async () => runSfDataQuery<UserLicenseRecord>(
+                'SELECT Name, MasterLabel FROM UserLicense WHERE Status = \'Active\' ORDER BY MasterLabel',
+                { cwd: context.workspaceRoot, targetOrg: context.targetOrg }
+            )
+        );
+    } catch (err) {
+        vscode.window.showWarningMessage(`Could not list the user licenses of the org: ${(err as Error).message}`);
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: 'None', description: 'Any user can be assigned the permission set', name: undefined as string | undefined },
+            ...licenses.map((license) => ({ label: license.MasterLabel, description: license.Name, name: license.Name }))
+        ],
+        { placeHolder: 'License', title: WIZARD_TITLE, matchOnDescription: true }
+    );
+    return picked && { name: picked.name };
+}
+
+async function pickObjectPermissions(context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    const objectNames = await pickObjects(context, 'Select the objects', true);
+    if (!objectNames) {
+        return undefined;
+    }
+    const level = await vscode.window.showQuickPick(
+        OBJECT_ACCESS_LEVELS.map((accessLevel) => ({ label: accessLevel.label, accessLevel })),
+        { placeHolder: `Access on ${objectNames.join(', ')}`, title: WIZARD_TITLE }
+    );
+    return level && objectEntries(objectNames, level.accessLevel.values);
+}
+
+interface DescribeFieldResult {
+    name: string;
+    label: string;
+    permissionable?: boolean;
+}
+
+async function pickFieldPermissions(context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    const objectName = await pickObjects(context, 'Select the object of the fields', false);
+    if (!objectName) {
+        return undefined;
+    }
+
+    let fields: DescribeFieldResult[];
+    try {
+        const describe = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Loading the fields of ${objectName}...`, cancellable: false },
+            async () => runSfCommand<{ fields?: DescribeFieldResult[] }>(
+                ['sobject', 'describe', '--sobject', objectName, '--target-org', context.targetOrg],
+                { cwd: context.workspaceRoot, fallbackMessage: 'Describe failed' }
+            )
+        );
+        // required and system fields have no field-level security
+        fields = (describe?.fields ?? []).filter((field) => field.permissionable);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to describe ${objectName}: ${(err as Error).message}`);
+        return undefined;
+    }
+    if (fields.length === 0) {
+        vscode.window.showInformationMessage(`${objectName} has no fields with field-level security.`);
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        fields.map((field) => ({ label: field.label, description: field.name, name: field.name })),
+        { canPickMany: true, placeHolder: `Select the fields of ${objectName}`, title: WIZARD_TITLE, matchOnDescription: true }
+    );
+    if (!picked?.length) {
+        return undefined;
+    }
+    const access = await vscode.window.showQuickPick(
+        [{ label: 'Read', editable: false }, { label: 'Read and Edit', editable: true }],
+        { placeHolder: 'Field access', title: WIZARD_TITLE }
+    );
+    return access && fieldEntries(objectName, picked.map((field) => field.name), access.editable);
+}
+
+async function pickApexClasses(workspaceRoot: string): Promise<PermissionEntry[] | undefined> {
+    const classes = apexClassEntries(glob.sync('**/classes/*.cls', { cwd: workspaceRoot, absolute: true, ignore: '**/node_modules/**' }));
+    if (classes.length === 0) {
+        vscode.window.showInformationMessage('No Apex classes found in the project.');
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        classes.map((entry) => ({ label: entry.name, entry })),
+        { canPickMany: true, placeHolder: 'Select the Apex classes', title: WIZARD_TITLE }
+    );
+    return picked?.length ? picked.map((item) => item.entry) : undefined;
+}
+
+async function pickTabSettings(context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    let tabs: { Name: string; Label: string }[];
+    try {
+        tabs = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading tabs...', cancellable: false },
+            async () => runSfDataQuery<{ Name: string; Label: string }>(
+                'SELECT Name, Label FROM TabDefinition ORDER BY Label',
+                { cwd: context.workspaceRoot, targetOrg: context.targetOrg }
+            )
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list the tabs of ${context.targetOrg}: ${(err as Error).message}`);
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        tabs.map((tab) => ({ label: tab.Label, description: tab.Name, name: tab.Name })),
+        { canPickMany: true, placeHolder: 'Select the tabs', title: WIZARD_TITLE, matchOnDescription: true }
+    );
+    if (!picked?.length) {
+        return undefined;
+    }
+    const visibility = await vscode.window.showQuickPick(
+        [
+            { label: 'Visible', description: 'Shown in the app navigation', visibility: 'Visible' as const },
+            { label: 'Available', description: 'Available from the App Launcher', visibility: 'Available' as const }
+        ],
+        { placeHolder: 'Tab visibility', title: WIZARD_TITLE }
+    );
+    return visibility && tabEntries(picked.map((tab) => tab.name), visibility.visibility);
+}
+
+/**
+ * Let the user add object, field, Apex class and tab permissions until they create the permission set.
+ * A step left without a pick adds nothing.
+ */
+async function addPermissions(entries: PermissionEntry[], context: WizardContext): Promise<PermissionEntry[] | undefined> {
+    const steps: (vscode.QuickPickItem & { step?: (context: WizardContext) => Promise<PermissionEntry[] | undefined> })[] = [
+        { label: 'Create the permission set', description: '' },
+        { label: 'Add object permissions...', step: pickObjectPermissions },
+        { label: 'Add field permissions...', step: pickFieldPermissions },
+        { label: 'Add Apex class access...', step: (wizard) => pickApexClasses(wizard.workspaceRoot) },
+        { label: 'Add tab settings...', step: pickTabSettings }
+    ];
+    let result = entries;
+
+    for (;;) {
+        steps[0].description = `${result.length} permission${result.length === 1 ? '' : 's'}`;
+        const picked = await vscode.window.showQuickPick(steps, {
+            placeHolder: 'Add permissions or create the permission set',
+            title: WIZARD_TITLE,
+            ignoreFocusOut: true
         });
-    });
+        if (!picked) {
+            return undefined;
+        }
+        if (!picked.step) {
+            return result;
+        }
+        result = [...result, ...((await picked.step(context)) ?? [])];
+    }
 }
 
-interface SfRetrievePayload {
-    status?: number;
-    message?: string;
+async function readSfdxProject(workspaceRoot: string): Promise<{ packageDirectories?: { path?: string; default?: boolean }[] }> {
+    try {
+        return JSON.parse(await fs.promises.readFile(path.join(workspaceRoot, 'sfdx-project.json'), 'utf8'));
+    } catch {
+        return {};
+    }
 }
 
-function runSfProjectRetrieve(metadataType: string, apiName: string, targetOrg: string, cwd: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const metadata = `${metadataType}:${apiName}`;
-        const cmd = `sf project retrieve start -m ${JSON.stringify(metadata)} --target-org ${JSON.stringify(targetOrg)} --json`;
-        cp.exec(cmd, { cwd }, (err, stdout, stderr) => {
-            let parsed: SfRetrievePayload = {};
+/**
+ * Write the permission set metadata into the default package directory, then deploy it.
+ */
+async function createFromMetadata(
+    definition: PermissionSetDefinition & { name: string },
+    context: WizardContext
+): Promise<void> {
+    const { workspaceRoot, targetOrg } = context;
+    const existing = listPermissionSetsInWorkspace(workspaceRoot);
+    if (existing.some((permissionSet) => permissionSet.name.toLowerCase() === definition.name.toLowerCase())) {
+        vscode.window.showErrorMessage(`A permission set named ${definition.name} already exists in the project.`);
+        return;
+    }
+
+    const relativeDirectory = getPermissionSetDirectory(await readSfdxProject(workspaceRoot));
+    const directory = relativeDirectory
+        ? path.join(workspaceRoot, relativeDirectory)
+        : existing.length > 0 ? path.dirname(existing[0].filePath) : path.join(workspaceRoot, 'force-app', 'main', 'default', 'permissionsets');
+    const filePath = path.join(directory, `${definition.name}.permissionset-meta.xml`);
+    try {
+        await fs.promises.mkdir(directory, { recursive: true });
+        await fs.promises.writeFile(filePath, buildPermissionSetXml(definition), 'utf8');
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to write ${filePath}: ${(err as Error).message}`);
+        return;
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: false });
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Deploying ${definition.name}...`, cancellable: false },
+        async () => {
             try {
-                parsed = JSON.parse(stdout || '{}') as SfRetrievePayload;
-            } catch {
-                // ignore
-            }
-            if (err) {
-                const msg = parsed.message ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
+                await runSfProjectDeploy('PermissionSet', definition.name, targetOrg, workspaceRoot);
+                vscode.window.showInformationMessage(`Permission set "${definition.label}" (${definition.name}) was created in the project and deployed to ${targetOrg}.`);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Permission set ${definition.name} was written to the project but the deploy failed: ${(err as Error).message}`);
             }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Retrieve failed'));
-            }
-            resolve();
-        });
-    });
+        }
+    );
 }
 
 export async function createPermissionSet(): Promise<void> {
@@ -119,6 +465,54 @@ export async function createPermissionSet(): Promise<void> {
         return;
     }
 
+    const context: WizardContext = { workspaceRoot, targetOrg };
+
+    const template = await vscode.window.showQuickPick(TEMPLATES, {
+        placeHolder: 'Start from a template',
+        title: WIZARD_TITLE
+    });
+    if (template === undefined) {
+        return;
+    }
+
+    let entries = await collectTemplateEntries(template.template, context);
+    if (entries === undefined) {
+        return;
+    }
+
+    const license = await pickLicense(context);
+    if (license === undefined) {
+        return;
+    }
+
+    entries = await addPermissions(entries, context);
+    if (entries === undefined) {
+        return;
+    }
+
+    const permissionSet = {
+        label: label.trim(),
+        name: name.trim(),
+        description: description.trim(),
+        hasActivationRequired: sessionRequiredPick.value
+    };
+
+    // a blank permission set is created in the org directly; anything more goes through a metadata deployment
+    if (template.template === 'blank' && !license.name && entries.length === 0) {
+        await createInOrg(permissionSet, workspaceRoot, targetOrg);
+        return;
+    }
+
+    await createFromMetadata({ ...permissionSet, license: license.name, entries }, context);
+}
+
+async function createInOrg(
+    permissionSet: { label: string; name: string; description: string; hasActivationRequired: boolean },
+    workspaceRoot: string,
+    targetOrg: string
+): Promise<void> {
+    const { label, name, description } = permissionSet;
+
     const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
     const retrieveSettingInspect = config.inspect<boolean>(CONFIG_KEY_RETRIEVE_AFTER_CREATE);
     const userSetRetrieve =
@@ -157,8 +551,7 @@ export async function createPermissionSet(): Promise<void> {
         return;
     }
 
-    const accessToken = orgDisplay.result?.accessToken;
-    const instanceUrl = orgDisplay.result?.instanceUrl;
+    const { accessToken, instanceUrl } = orgDisplay;
     if (!accessToken || !instanceUrl) {
         vscode.window.showErrorMessage('Could not get access token or instance URL from org.');
         return;
@@ -169,7 +562,7 @@ export async function createPermissionSet(): Promise<void> {
         Label: label.trim(),
         Name: name.trim(),
         Description: description.trim(),
-        HasActivationRequired: sessionRequiredPick.value
+        HasActivationRequired: permissionSet.hasActivationRequired
     };
 
     const trimmedName = name.trim();
@@ -1,80 +1,121 @@
-import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { runSfDataQuery } from '../shared/utilities';
+import { AssignmentItem, AssignmentResult, formatAssignmentReport, toCollectionOutcome } from './assignments';
+import {
+    buildAssignmentExport,
+    buildImpactQueries,
+    DeleteImpact,
+    findNameReferences,
+    formatImpactReport,
+    ImpactAssignmentRecord,
+    ImpactGroupRecord,
+    LocalReference,
+    REFERENCE_FILE_GLOBS,
+    toImpactAssignment,
+    toImpactGroup
+} from './deleteImpact';
 import { getPermissionSetMetadataFileUrisToDelete } from './deleteMetadataFilter';
+import { connectToOrg, deleteRecord, deleteRecords, OrgConnection, restQuery } from './orgDataClient';
+import { RecordResult, SOBJECT_COLLECTION_LIMIT } from './sobjectCollections';
 
-interface SfQueryPayload<T> {
-    status?: number;
-    result?: { records?: T[] };
-    message?: string;
-}
-
-interface SfDeletePayload {
-    status?: number;
-    message?: string;
+interface PermissionSetRecord {
+    Id: string;
+    Name: string;
+    Label: string;
 }
 
-function runSfDataQuery<T>(
-    soql: string,
-    options: { cwd: string; targetOrg: string }
-): Promise<{ records: T[] }> {
-    return new Promise((resolve, reject) => {
-        const targetOrgArg = `--target-org ${JSON.stringify(options.targetOrg)}`;
-        const cmd = `sf data query --query ${JSON.stringify(soql)} ${targetOrgArg} --json`;
-        cp.exec(cmd, { cwd: options.cwd }, (err, stdout, stderr) => {
-            let parsed: SfQueryPayload<T> = {};
+/**
+ * Lines of the project files that may reference the permission set, outside its own metadata.
+ */
+async function findLocalReferences(permSetName: string): Promise<LocalReference[]> {
+    const references: LocalReference[] = [];
+    const seen = new Set<string>();
+    for (const pattern of REFERENCE_FILE_GLOBS) {
+        for (const uri of await vscode.workspace.findFiles(pattern, '**/node_modules/**')) {
+            if (seen.has(uri.fsPath)) {
+                continue;
+            }
+            seen.add(uri.fsPath);
+            let content: string;
             try {
-                parsed = JSON.parse(stdout || '{}') as SfQueryPayload<T>;
+                content = fs.readFileSync(uri.fsPath, 'utf8');
             } catch {
-                // ignore
-            }
-            if (err) {
-                const msg = parsed.message ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
-            }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Query failed'));
+                continue;
             }
-            resolve({ records: parsed.result?.records ?? [] });
-        });
-    });
+            const filePath = vscode.workspace.asRelativePath(uri);
+            references.push(...findNameReferences(content, permSetName).map((match) => ({ filePath, ...match })));
+        }
+    }
+    return references;
 }
 
-function runSfDeleteRecord(
-    sobject: string,
-    recordId: string,
+/**
+ * Report of the assignments removed, failed or skipped when unassigning did not complete; the permission set is kept.
+ */
+async function showUnassignReport(
+    permissionSet: { id: string; name: string; label: string },
     targetOrg: string,
-    cwd: string
+    impact: DeleteImpact,
+    results: RecordResult[]
 ): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const cmd = `sf data delete record --target-org ${JSON.stringify(targetOrg)} --sobject ${JSON.stringify(sobject)} --record-id ${JSON.stringify(recordId)} --json`;
-        cp.exec(cmd, { cwd }, (err, stdout, stderr) => {
-            let parsed: SfDeletePayload = {};
-            try {
-                parsed = JSON.parse(stdout || '{}') as SfDeletePayload;
-            } catch {
-                // ignore
-            }
-            if (err) {
-                const msg = parsed.message ?? stderr?.trim() ?? err.message;
-                return reject(new Error(msg));
-            }
-            if (parsed.status !== 0 && parsed.status !== undefined) {
-                return reject(new Error(parsed.message ?? 'Delete failed'));
-            }
-            resolve();
-        });
-    });
+    const item: AssignmentItem = { kind: 'permissionSet', id: permissionSet.id, name: permissionSet.name, label: permissionSet.label };
+    const report = formatAssignmentReport(
+        `Unassigning ${permissionSet.name} in ${targetOrg}`,
+        impact.assignments.map((assignment, index): AssignmentResult => ({
+            user: { id: assignment.userId, username: assignment.username, name: assignment.name },
+            item,
+            ...toCollectionOutcome(results[index], 'removed')
+        }))
+    );
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const failed = results.filter((r) => !r.success && !r.skipped).length;
+    const skipped = results.filter((r) => r.skipped).length;
+    vscode.window.showErrorMessage(
+        `Permission set ${permissionSet.name} was not deleted: ${failed} assignment(s) could not be removed and ${skipped} were skipped. See the report for details.`
+    );
 }
 
-interface PermissionSetRecord {
-    Id: string;
-    Name: string;
-    Label: string;
+async function loadDeleteImpact(connection: OrgConnection, permSetId: string, permSetName: string): Promise<DeleteImpact> {
+    const queries = buildImpactQueries(permSetId);
+    const assignments = await restQuery<ImpactAssignmentRecord>(connection, queries.assignments);
+    const groups = await restQuery<ImpactGroupRecord>(connection, queries.groups);
+    return {
+        assignments: assignments.map(toImpactAssignment),
+        groups: groups.map(toImpactGroup),
+        references: await findLocalReferences(permSetName)
+    };
 }
 
-interface PermissionSetAssignmentRecord {
-    Id: string;
+/**
+ * Ask where to save the assignments and write them. Returns the file path, or undefined when cancelled or failed.
+ */
+async function exportAssignments(
+    workspaceRoot: string,
+    permSetName: string,
+    targetOrg: string,
+    impact: DeleteImpact
+): Promise<string | undefined> {
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(workspaceRoot, `${permSetName}-assignments.json`)),
+        filters: { JSON: ['json'] },
+        title: 'Export Permission Set Assignments'
+    });
+    if (!uri) {
+        return undefined;
+    }
+    try {
+        const exported = buildAssignmentExport(permSetName, targetOrg, impact.assignments, new Date());
+        fs.writeFileSync(uri.fsPath, `${JSON.stringify(exported, null, 4)}\n`, 'utf8');
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to export the assignments to ${uri.fsPath}: ${(err as Error).message}`);
+        return undefined;
+    }
+    return uri.fsPath;
 }
 
 export async function deletePermissionSet(): Promise<void> {
@@ -95,7 +136,7 @@ export async function deletePermissionSet(): Promise<void> {
 
     let records: PermissionSetRecord[];
     try {
-        const payload = await vscode.window.withProgress(
+        records = await vscode.window.withProgress(
             {
                 location: vscode.ProgressLocation.Notification,
                 title: 'Loading permission sets...',
@@ -107,7 +148,6 @@ export async function deletePermissionSet(): Promise<void> {
                     { cwd: workspaceRoot, targetOrg }
                 )
         );
-        records = payload.records;
     } catch (err) {
         vscode.window.showErrorMessage(`Failed to list permission sets: ${(err as Error).message}`);
         return;
@@ -137,6 +177,61 @@ export async function deletePermissionSet(): Promise<void> {
     const permSetId = selected.id;
     const permSetName = selected.name;
 
+    let connection: OrgConnection;
+    try {
+        connection = await connectToOrg(targetOrg, workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to get org credentials: ${(err as Error).message}`);
+        return;
+    }
+
+    let impact: DeleteImpact;
+    try {
+        impact = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Analyzing the impact of deleting ${permSetName}...`,
+                cancellable: false
+            },
+            async () => loadDeleteImpact(connection, permSetId, permSetName)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to analyze the impact of deleting the permission set: ${(err as Error).message}`);
+        return;
+    }
+
+    const report = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatImpactReport({ name: permSetName, label: selected.label }, targetOrg, impact)
+    });
+    await vscode.window.showTextDocument(report, { preview: false });
+
+    if (impact.groups.length > 0) {
+        vscode.window.showErrorMessage(
+            `Permission set ${permSetName} is part of ${impact.groups.length} permission set group(s). Remove it from the groups before deleting it.`
+        );
+        return;
+    }
+
+    const deleteChoice = 'Delete';
+    const exportAndDeleteChoice = 'Export Assignments and Delete';
+    const confirmation = await vscode.window.showWarningMessage(
+        `Delete permission set "${selected.label}" (${permSetName}) from ${targetOrg}? ${impact.assignments.length} assignment(s) will be removed. See the impact report for details.`,
+        { modal: true },
+        ...(impact.assignments.length > 0 ? [exportAndDeleteChoice, deleteChoice] : [deleteChoice])
+    );
+    if (confirmation === undefined) {
+        return;
+    }
+
+    let exportPath: string | undefined;
+    if (confirmation === exportAndDeleteChoice) {
+        exportPath = await exportAssignments(workspaceRoot, permSetName, targetOrg, impact);
+        if (!exportPath) {
+            return;
+        }
+    }
+
     const config = vscode.workspace.getConfiguration('sf-ext-plus');
     const deleteMetadataFileInspect = config.inspect<boolean>('deletePermissionSet.deleteMetadataFile');
     let deleteMetadataFile: boolean;
@@ -166,45 +261,25 @@ export async function deletePermissionSet(): Promise<void> {
         {
             location: vscode.ProgressLocation.Notification,
             title: 'Deleting permission set...',
-            cancellable: false
+            cancellable: true
         },
-        async (progress) => {
+        async (progress, token) => {
             progress.report({ message: 'Unassigning permission set...' });
 
-            let assignmentRecords: PermissionSetAssignmentRecord[];
-            try {
-                const assignPayload = await runSfDataQuery<PermissionSetAssignmentRecord>(
-                    `SELECT Id FROM PermissionSetAssignment WHERE PermissionSetId = '${permSetId}'`,
-                    { cwd: workspaceRoot, targetOrg }
-                );
-                assignmentRecords = assignPayload.records;
-            } catch (err) {
-                vscode.window.showErrorMessage(
-                    `Failed to query permission set assignments: ${(err as Error).message}`
-                );
+            const total = impact.assignments.length;
+            const unassignResults = await deleteRecords(connection, impact.assignments.map((a) => a.recordId), {
+                cancellation: token,
+                onProgress: (processed) => progress.report({ message: `Unassigning permission set (${processed}/${total})...`, increment: 90 / Math.ceil(total / SOBJECT_COLLECTION_LIMIT) })
+            });
+            if (unassignResults.some((r) => !r.success)) {
+                await showUnassignReport(selected, targetOrg, impact, unassignResults);
                 return;
             }
 
-            for (const assignment of assignmentRecords) {
-                try {
-                    await runSfDeleteRecord(
-                        'PermissionSetAssignment',
-                        assignment.Id,
-                        targetOrg,
-                        workspaceRoot
-                    );
-                } catch (err) {
-                    vscode.window.showErrorMessage(
-                        `Failed to unassign permission set: ${(err as Error).message}`
-                    );
-                    return;
-                }
-            }
-
             progress.report({ message: 'Deleting permission set...' });
 
             try {
-                await runSfDeleteRecord('PermissionSet', permSetId, targetOrg, workspaceRoot);
+                await deleteRecord(connection, 'PermissionSet', permSetId);
             } catch (err) {
                 vscode.window.showErrorMessage(
                     `Failed to delete permission set: ${(err as Error).message}`
@@ -237,7 +312,9 @@ export async function deletePermissionSet(): Promise<void> {
             }
 
             vscode.window.showInformationMessage(
-                `Permission set "${selected.label}" (${permSetName}) was deleted.`
+                exportPath
+                    ? `Permission set "${selected.label}" (${permSetName}) was deleted. Its assignments were exported to ${vscode.workspace.asRelativePath(exportPath)}.`
+                    : `Permission set "${selected.label}" (${permSetName}) was deleted.`
             );
         }
     );
@@ -0,0 +1,217 @@
+/**
+ * Pure helpers for the impact of deleting a permission set: its assignments, the groups including it and the project
+ * files referencing it, the report shown before deleting, and the export of the assignments to restore them later.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { AssignmentItem, AssignmentResult, escapeMarkdownCell, escapeSoqlString } from './assignments';
+
+export interface ImpactAssignment {
+    // PermissionSetAssignment id
+    recordId: string;
+    userId: string;
+    username: string;
+    name?: string;
+    isActive: boolean;
+}
+
+export interface ImpactGroup {
+    id: string;
+    developerName: string;
+    label: string;
+}
+
+export interface LocalReference {
+    // relative to the workspace
+    filePath: string;
+    // 1-based
+    line: number;
+    text: string;
+}
+
+export interface DeleteImpact {
+    assignments: ImpactAssignment[];
+    groups: ImpactGroup[];
+    references: LocalReference[];
+}
+
+export interface ImpactAssignmentRecord {
+    Id: string;
+    AssigneeId: string;
+    Assignee?: { Name?: string; Username?: string; IsActive?: boolean } | null;
+}
+
+export interface ImpactGroupRecord {
+    PermissionSetGroupId: string;
+    PermissionSetGroup?: { DeveloperName?: string; MasterLabel?: string } | null;
+}
+
+/**
+ * Project files that may name a permission set besides its own metadata: group metadata, package manifests,
+ * the assignment manifest and scratch org definitions.
+ */
+export const REFERENCE_FILE_GLOBS = [
+    '**/*.permissionsetgroup-meta.xml',
+    '**/package.xml',
+    'manifest/**/*.xml',
+    'config/**/*.json'
+];
+
+export const ASSIGNMENT_EXPORT_VERSION = 1;
+
+/**
+ * File listing the users a permission set was assigned to when it was deleted.
+ */
+export interface AssignmentExport {
+    version: typeof ASSIGNMENT_EXPORT_VERSION;
+    // API name of the permission set
+    permissionSet: string;
+    // org the assignments were exported from
+    targetOrg: string;
+    exportedAt: string;
+    assignments: { username: string; name?: string; isActive: boolean }[];
+}
+
+export function buildImpactQueries(permissionSetId: string): { assignments: string; groups: string } {
+    const id = `'${escapeSoqlString(permissionSetId)}'`;
+
+    return {
+        assignments: `SELECT Id, AssigneeId, Assignee.Name, Assignee.Username, Assignee.IsActive FROM PermissionSetAssignment WHERE PermissionSetId = ${id}`,
+        groups: `SELECT PermissionSetGroupId, PermissionSetGroup.DeveloperName, PermissionSetGroup.MasterLabel FROM PermissionSetGroupComponent WHERE PermissionSetId = ${id}`
+    };
+}
+
+export function toImpactAssignment(record: ImpactAssignmentRecord): ImpactAssignment {
+    return {
+        recordId: record.Id,
+        userId: record.AssigneeId,
+        username: record.Assignee?.Username ?? record.AssigneeId,
+        name: record.Assignee?.Name,
+        isActive: record.Assignee?.IsActive === true
+    };
+}
+
+export function toImpactGroup(record: ImpactGroupRecord): ImpactGroup {
+    const developerName = record.PermissionSetGroup?.DeveloperName ?? record.PermissionSetGroupId;
+
+    return { id: record.PermissionSetGroupId, developerName, label: record.PermissionSetGroup?.MasterLabel ?? developerName };
+}
+
+/**
+ * Lines naming the permission set as a whole word, e.g. `<members>Sales_User</members>` but not `Sales_User_Read`.
+ */
+export function findNameReferences(content: string, name: string): { line: number; text: string }[] {
+    const pattern = new RegExp(`(^|[^A-Za-z0-9_])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^A-Za-z0-9_])`);
+
+    return content.split(/\r?\n/).flatMap((text, index) => (pattern.test(text) ? [{ line: index + 1, text: text.trim() }] : []));
+}
+
+/**
+ * Markdown report of what deleting the permission set affects.
+ */
+export function formatImpactReport(permissionSet: { name: string; label: string }, targetOrg: string, impact: DeleteImpact): string {
+    const active = impact.assignments.filter(a => a.isActive).length;
+    const lines = [
+        `# Impact of deleting ${permissionSet.label} (${permissionSet.name}) in ${targetOrg}`,
+        '',
+        `## Assigned users (${impact.assignments.length}, ${active} active)`,
+        ''
+    ];
+
+    if (impact.assignments.length === 0) {
+        lines.push('None.', '');
+    } else {
+        lines.push('| Name | Username | Active |', '| --- | --- | --- |');
+        for (const assignment of [...impact.assignments].sort((a, b) => a.username.localeCompare(b.username))) {
+            lines.push(`| ${escapeMarkdownCell(assignment.name ?? '')} | ${escapeMarkdownCell(assignment.username)} | ${assignment.isActive ? 'Yes' : 'No'} |`);
+        }
+        lines.push('', 'These assignments are removed before the permission set is deleted.', '');
+    }
+
+    lines.push(`## Permission set groups (${impact.groups.length})`, '');
+
+    if (impact.groups.length === 0) {
+        lines.push('None.', '');
+    } else {
+        lines.push(...impact.groups.map(group => `- ${group.label} (${group.developerName})`), '');
+        lines.push('Salesforce does not delete a permission set that is part of a group. Remove it from these groups first.', '');
+    }
+
+    lines.push(`## Project files referencing it (${impact.references.length})`, '');
+
+    if (impact.references.length === 0) {
+        lines.push('None.', '');
+    } else {
+        lines.push('| File | Line | Text |', '| --- | --- | --- |');
+        for (const reference of impact.references) {
+            lines.push(`| ${escapeMarkdownCell(reference.filePath)} | ${reference.line} | \`${escapeMarkdownCell(reference.text)}\` |`);
+        }
+        lines.push('', 'Update these files, or deployments and scratch org setups will fail on the missing permission set.', '');
+    }
+
+    return lines.join('\n');
+}
+
+export function buildAssignmentExport(permissionSet: string, targetOrg: string, assignments: ImpactAssignment[], exportedAt: Date): AssignmentExport {
+    return {
+        version: ASSIGNMENT_EXPORT_VERSION,
+        permissionSet,
+        targetOrg,
+        exportedAt: exportedAt.toISOString(),
+        assignments: assignments.map(assignment => ({ username: assignment.username, name: assignment.name, isActive: assignment.isActive }))
+    };
+}
+
+/**
+ * The export in the file. Throws when the file is not an assignment export.
+ */
+export function parseAssignmentExport(text: string): AssignmentExport {
+    let parsed: Partial<AssignmentExport>;
+
+    try {
+        parsed = JSON.parse(text) as Partial<AssignmentExport>;
+    } catch (err) {
+        throw new Error(`The file is not valid JSON: ${(err as Error).message}`);
+    }
+
+    if (parsed?.version !== ASSIGNMENT_EXPORT_VERSION || typeof parsed.permissionSet !== 'string' || !Array.isArray(parsed.assignments)) {
+        throw new Error('The file is not a permission set assignment export.');
+    }
+
+    const invalid = parsed.assignments.find(assignment => typeof assignment?.username !== 'string');
+
+    if (invalid !== undefined) {
+        throw new Error(`Invalid assignment: ${JSON.stringify(invalid)}`);
+    }
+
+    return parsed as AssignmentExport;
+}
+
+/**
+ * Assignments restoring the export: the users found in the org and active, not assigned already.
+ */
+export function planRestore(
+    exported: AssignmentExport,
+    item: AssignmentItem,
+    users: { Id: string; Username: string; Name?: string; IsActive: boolean }[],
+    assignedUserIds: ReadonlySet<string>
+): AssignmentResult[] {
+    const usersByUsername = new Map(users.map(user => [user.Username.toLowerCase(), user]));
+
+    return exported.assignments.map((assignment): AssignmentResult => {
+        const user = usersByUsername.get(assignment.username.toLowerCase());
+
+        if (!user) {
+            return { user: { id: '', username: assignment.username, name: assignment.name }, item, outcome: 'skipped', message: 'User not found in the org' };
+        }
+
+        const assignmentUser = { id: user.Id, username: user.Username, name: user.Name };
+
+        if (assignedUserIds.has(user.Id)) {
+            return { user: assignmentUser, item, outcome: 'alreadyAssigned' };
+        }
+
+        return user.IsActive
+            ? { user: assignmentUser, item, outcome: 'toAssign' }
+            : { user: assignmentUser, item, outcome: 'skipped', message: 'User is inactive' };
+    });
+}
@@ -0,0 +1,609 @@
+import * as vscode from 'vscode';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { buildAssignmentRecord, escapeSoqlString } from './assignments';
+import { reportCollectionProgress } from './bulkAssign';
+import { runSfProjectRetrieve } from './create';
+import { labelToDeveloperName } from './developerName';
+import { connectToOrg, createRecord, createRecords, deleteRecord, deleteRecords, OrgConnection, restQuery, restRequest } from './orgDataClient';
+import {
+    buildGroupAssignmentsQuery,
+    buildGroupComponentsQuery,
+    buildGroupStatusQuery,
+    COMPONENT_PERMISSION_SET_QUERY,
+    describeGroupStatus,
+    diffGroupComponents,
+    isRecalculating,
+    PERMISSION_SET_GROUP_QUERY,
+    PermissionSetGroupComponentRecord,
+    PermissionSetGroupRecord,
+    PermissionSetGroupStatus,
+    splitGroupComponents
+} from './permissionSetGroups';
+
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_RETRIEVE_AFTER_CHANGE = 'permissionSetGroups.retrieveAfterChange';
+const RECALCULATION_POLL_ATTEMPTS = 15;
+const RECALCULATION_POLL_INTERVAL_MS = 2000;
+
+interface GroupCommandContext {
+    workspaceRoot: string;
+    targetOrg: string;
+    connection: OrgConnection;
+}
+
+interface PermissionSetRecord {
+    Id: string;
+    Name: string;
+    Label: string;
+}
+
+/**
+ * Workspace, default org and REST credentials, or undefined after showing why they are not available.
+ */
+async function getGroupCommandContext(): Promise<GroupCommandContext | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    let targetOrg: string;
+    try {
+        targetOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+
+    try {
+        const connection = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Getting org credentials...',
+                cancellable: false
+            },
+            async () => connectToOrg(targetOrg, workspaceRoot)
+        );
+        return { workspaceRoot, targetOrg, connection };
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to get org credentials: ${(err as Error).message}`);
+        return;
+    }
+}
+
+/**
+ * Whether to retrieve the metadata after a change: the setting when configured, otherwise the user's answer.
+ */
+async function shouldRetrieveAfterChange(): Promise<boolean | undefined> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const inspect = config.inspect<boolean>(CONFIG_KEY_RETRIEVE_AFTER_CHANGE);
+    if (inspect?.globalValue !== undefined || inspect?.workspaceValue !== undefined) {
+        return config.get<boolean>(CONFIG_KEY_RETRIEVE_AFTER_CHANGE, true);
+    }
+
+    const pick = await vscode.window.showQuickPick(
+        [{ label: 'Yes', value: true }, { label: 'No', value: false }],
+        {
+            placeHolder: 'Retrieve permission set group metadata after saving?',
+            title: 'Retrieve metadata',
+            ignoreFocusOut: true
+        }
+    );
+    return pick?.value;
+}
+
+async function retrieveMetadata(
+    components: { type: string; name: string }[],
+    context: GroupCommandContext,
+    progress: vscode.Progress<{ message?: string }>
+) {
+    for (const component of components) {
+        progress.report({ message: `Retrieving ${component.name}...` });
+        try {
+            await runSfProjectRetrieve(component.type, component.name, context.targetOrg, context.workspaceRoot);
+        } catch (err) {
+            vscode.window.showErrorMessage(`Retrieve of ${component.name} failed: ${(err as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Poll the group status while Salesforce recalculates its permissions, up to about 30 seconds.
+ * Undefined when the status could not be read.
+ */
+async function waitForRecalculation(
+    connection: OrgConnection,
+    groupId: string,
+    progress: vscode.Progress<{ message?: string }>
+): Promise<PermissionSetGroupStatus | undefined> {
+    let status: PermissionSetGroupStatus | undefined;
+    for (let attempt = 0; attempt < RECALCULATION_POLL_ATTEMPTS; attempt++) {
+        try {
+            const [record] = await restQuery<{ Status?: PermissionSetGroupStatus }>(connection, buildGroupStatusQuery(groupId));
+            status = record?.Status ?? undefined;
+        } catch (err) {
+            console.error('Failed to read the permission set group status:', err);
+            return undefined;
+        }
+        if (!isRecalculating(status)) {
+            return status;
+        }
+        progress.report({ message: 'Waiting for the group permissions to recalculate...' });
+        await new Promise((resolve) => setTimeout(resolve, RECALCULATION_POLL_INTERVAL_MS));
+    }
+    return status;
+}
+
+async function pickGroup(connection: OrgConnection, placeHolder: string): Promise<PermissionSetGroupRecord | undefined> {
+    let groups: PermissionSetGroupRecord[];
+    try {
+        groups = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading permission set groups...', cancellable: false },
+            async () => restQuery<PermissionSetGroupRecord>(connection, PERMISSION_SET_GROUP_QUERY)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list permission set groups: ${(err as Error).message}`);
+        return;
+    }
+
+    if (groups.length === 0) {
+        vscode.window.showInformationMessage('No permission set groups found in the org.');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        groups.map((group) => ({ label: group.MasterLabel, description: group.DeveloperName, detail: group.Status ?? undefined, group })),
+        { placeHolder, matchOnDescription: true }
+    );
+    return picked?.group;
+}
+
+/**
+ * Permission sets picked to be the components of a group, with the current ones preselected.
+ */
+async function pickComponentPermissionSets(
+    connection: OrgConnection,
+    currentIds: string[],
+    placeHolder: string
+): Promise<string[] | undefined> {
+    const permissionSets = await restQuery<PermissionSetRecord>(connection, COMPONENT_PERMISSION_SET_QUERY);
+    const picked = await vscode.window.showQuickPick(
+        permissionSets.map((ps) => ({ label: ps.Label, description: ps.Name, picked: currentIds.includes(ps.Id), id: ps.Id })),
+        { canPickMany: true, matchOnDescription: true, placeHolder }
+    );
+    return picked?.map((p) => p.id);
+}
+
+async function addComponents(connection: OrgConnection, groupId: string, permissionSetIds: string[]) {
+    for (const permissionSetId of permissionSetIds) {
+        await createRecord(connection, 'PermissionSetGroupComponent', { PermissionSetGroupId: groupId, PermissionSetId: permissionSetId });
+    }
+}
+
+export async function createPermissionSetGroup(): Promise<void> {
+    const context = await getGroupCommandContext();
+    if (!context) {
+        return;
+    }
+
+    const label = await vscode.window.showInputBox({
+        prompt: 'Label for the permission set group',
+        placeHolder: 'e.g. Sales Operations'
+    });
+    if (label === undefined || label.trim() === '') {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: 'Developer Name (API Name)',
+        placeHolder: 'e.g. Sales_Operations',
+        value: labelToDeveloperName(label.trim())
+    });
+    if (name === undefined || name.trim() === '') {
+        return;
+    }
+
+    const description = await vscode.window.showInputBox({
+        prompt: 'Description (optional)',
+        placeHolder: 'e.g. Permissions for...',
+        value: ''
+    });
+    if (description === undefined) {
+        return;
+    }
+
+    const sessionRequiredPick = await vscode.window.showQuickPick(
+        [{ label: 'No', value: false }, { label: 'Yes', value: true }],
+        {
+            placeHolder: 'Session Activation Required',
+            title: 'Session Activation Required'
+        }
+    );
+    if (sessionRequiredPick === undefined) {
+        return;
+    }
+
+    let componentIds: string[] | undefined;
+    try {
+        componentIds = await pickComponentPermissionSets(context.connection, [], 'Select the permission sets of the group (optional)');
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to list permission sets: ${(err as Error).message}`);
+        return;
+    }
+    if (componentIds === undefined) {
+        return;
+    }
+
+    const retrieveAfterCreate = await shouldRetrieveAfterChange();
+    if (retrieveAfterCreate === undefined) {
+        return;
+    }
+
+    const trimmedName = name.trim();
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Creating permission set group...',
+            cancellable: false
+        },
+        async (progress) => {
+            let groupId: string;
+            try {
+                groupId = await createRecord(context.connection, 'PermissionSetGroup', {
+                    MasterLabel: label.trim(),
+                    DeveloperName: trimmedName,
+                    Description: description.trim(),
+                    HasActivationRequired: sessionRequiredPick.value
+                });
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to create permission set group: ${(err as Error).message}`);
+                return;
+            }
+
+            try {
+                progress.report({ message: 'Adding permission sets...' });
+                await addComponents(context.connection, groupId, componentIds);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Permission set group created but adding permission sets failed: ${(err as Error).message}`);
+            }
+
+            const status = componentIds.length > 0 ? await waitForRecalculation(context.connection, groupId, progress) : undefined;
+            vscode.window.showInformationMessage(
+                `Permission set group "${label.trim()}" (${trimmedName}) was created.${status ? ` ${describeGroupStatus(status)}` : ''}`
+            );
+
+            if (retrieveAfterCreate) {
+                await retrieveMetadata([{ type: 'PermissionSetGroup', name: trimmedName }], context, progress);
+            }
+        }
+    );
+}
+
+async function editComponents(group: PermissionSetGroupRecord, context: GroupCommandContext) {
+    const components = splitGroupComponents(
+        await restQuery<PermissionSetGroupComponentRecord>(context.connection, buildGroupComponentsQuery(group.Id))
+    ).permissionSets;
+    const selectedIds = await pickComponentPermissionSets(
+        context.connection,
+        components.map((component) => component.PermissionSetId),
+        `Select the permission sets of ${group.MasterLabel}`
+    );
+    if (selectedIds === undefined) {
+        return;
+    }
+
+    const { toAdd, toRemove } = diffGroupComponents(components, selectedIds);
+    if (toAdd.length === 0 && toRemove.length === 0) {
+        vscode.window.showInformationMessage('No changes to the permission sets of the group.');
+        return;
+    }
+
+    const retrieveAfterChange = await shouldRetrieveAfterChange();
+    if (retrieveAfterChange === undefined) {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Updating ${group.MasterLabel}...`, cancellable: false },
+        async (progress) => {
+            try {
+                progress.report({ message: 'Adding permission sets...' });
+                await addComponents(context.connection, group.Id, toAdd);
+                progress.report({ message: 'Removing permission sets...' });
+                for (const component of toRemove) {
+                    await deleteRecord(context.connection, 'PermissionSetGroupComponent', component.Id);
+                }
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to update the permission sets of the group: ${(err as Error).message}`);
+                return;
+            }
+
+            const status = await waitForRecalculation(context.connection, group.Id, progress);
+            vscode.window.showInformationMessage(
+                `Added ${toAdd.length} and removed ${toRemove.length} permission set(s) of ${group.MasterLabel}. ${describeGroupStatus(status)}`
+            );
+
+            if (retrieveAfterChange) {
+                await retrieveMetadata([{ type: 'PermissionSetGroup', name: group.DeveloperName }], context, progress);
+            }
+        }
+    );
+}
+
+async function editMutingPermissionSet(group: PermissionSetGroupRecord, context: GroupCommandContext) {
+    const [mutingComponent] = splitGroupComponents(
+        await restQuery<PermissionSetGroupComponentRecord>(context.connection, buildGroupComponentsQuery(group.Id))
+    ).muting;
+
+    if (!mutingComponent) {
+        const create = await vscode.window.showInformationMessage(
+            `${group.MasterLabel} has no muting permission set. Muting permission sets turn off permissions granted by the group's permission sets.`,
+            'Create Muting Permission Set'
+        );
+        if (create !== 'Create Muting Permission Set') {
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Developer Name (API Name) of the muting permission set',
+            value: `${group.DeveloperName}_Muting`
+        });
+        if (name === undefined || name.trim() === '') {
+            return;
+        }
+
+        const retrieveAfterChange = await shouldRetrieveAfterChange();
+        if (retrieveAfterChange === undefined) {
+            return;
+        }
+
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Creating muting permission set...', cancellable: false },
+            async (progress) => {
+                try {
+                    const mutingId = await createRecord(context.connection, 'MutingPermissionSet', {
+                        MasterLabel: `${group.MasterLabel} Muting`,
+                        DeveloperName: name.trim()
+                    });
+                    await addComponents(context.connection, group.Id, [mutingId]);
+                } catch (err) {
+                    vscode.window.showErrorMessage(`Failed to create the muting permission set: ${(err as Error).message}`);
+                    return;
+                }
+
+                vscode.window.showInformationMessage(
+                    `Muting permission set ${name.trim()} was added to ${group.MasterLabel}. Mute permissions in its metadata file, then deploy it.`
+                );
+
+                if (retrieveAfterChange) {
+                    await retrieveMetadata(
+                        [{ type: 'MutingPermissionSet', name: name.trim() }, { type: 'PermissionSetGroup', name: group.DeveloperName }],
+                        context,
+                        progress
+                    );
+                }
+            }
+        );
+        return;
+    }
+
+    const [muting] = await restQuery<{ Id: string; DeveloperName: string; MasterLabel: string }>(
+        context.connection,
+        `SELECT Id, DeveloperName, MasterLabel FROM MutingPermissionSet WHERE Id = '${escapeSoqlString(mutingComponent.PermissionSetId)}'`
+    );
+    const mutingName = muting?.DeveloperName ?? mutingComponent.PermissionSetId;
+    const action = await vscode.window.showQuickPick(
+        [
+            { label: 'Retrieve Muting Permission Set', description: 'Edit the muted permissions in the project', value: 'retrieve' },
+            { label: 'Remove from Group', description: 'Keep the muting permission set in the org', value: 'remove' },
+            { label: 'Remove and Delete', description: 'Delete the muting permission set from the org', value: 'delete' }
+        ],
+        { placeHolder: `Muting permission set ${mutingName} of ${group.MasterLabel}` }
+    );
+    if (!action) {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Updating ${group.MasterLabel}...`, cancellable: false },
+        async (progress) => {
+            if (action.value === 'retrieve') {
+                await retrieveMetadata([{ type: 'MutingPermissionSet', name: mutingName }], context, progress);
+                return;
+            }
+
+            try {
+                await deleteRecord(context.connection, 'PermissionSetGroupComponent', mutingComponent.Id);
+                if (action.value === 'delete') {
+                    await deleteRecord(context.connection, 'MutingPermissionSet', mutingComponent.PermissionSetId);
+                }
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to remove the muting permission set: ${(err as Error).message}`);
+                return;
+            }
+
+            const status = await waitForRecalculation(context.connection, group.Id, progress);
+            vscode.window.showInformationMessage(
+                `Muting permission set ${mutingName} was ${action.value === 'delete' ? 'deleted' : 'removed from the group'}. ${describeGroupStatus(status)}`
+            );
+        }
+    );
+}
+
+async function editLabelAndDescription(group: PermissionSetGroupRecord, context: GroupCommandContext) {
+    const label = await vscode.window.showInputBox({ prompt: 'Label for the permission set group', value: group.MasterLabel });
+    if (label === undefined || label.trim() === '') {
+        return;
+    }
+    const description = await vscode.window.showInputBox({ prompt: 'Description (optional)', value: group.Description ?? '' });
+    if (description === undefined) {
+        return;
+    }
+
+    const retrieveAfterChange = await shouldRetrieveAfterChange();
+    if (retrieveAfterChange === undefined) {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Updating ${group.MasterLabel}...`, cancellable: false },
+        async (progress) => {
+            try {
+                await restRequest(context.connection, 'PATCH', `/sobjects/PermissionSetGroup/${group.Id}`, {
+                    MasterLabel: label.trim(),
+                    Description: description.trim()
+                });
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to update the permission set group: ${(err as Error).message}`);
+                return;
+            }
+
+            vscode.window.showInformationMessage(`Permission set group ${group.DeveloperName} was updated.`);
+
+            if (retrieveAfterChange) {
+                await retrieveMetadata([{ type: 'PermissionSetGroup', name: group.DeveloperName }], context, progress);
+            }
+        }
+    );
+}
+
+async function assignGroupToUsers(group: PermissionSetGroupRecord, context: GroupCommandContext) {
+    const [users, assignments] = await Promise.all([
+        restQuery<{ Id: string; Name: string; Username: string }>(
+            context.connection,
+            'SELECT Id, Name, Username FROM User WHERE IsActive = true ORDER BY Name'
+        ),
+        restQuery<{ AssigneeId: string }>(context.connection, buildGroupAssignmentsQuery(group.Id))
+    ]);
+    const assignedIds = new Set(assignments.map((assignment) => assignment.AssigneeId));
+    const available = users.filter((user) => !assignedIds.has(user.Id));
+
+    if (available.length === 0) {
+        vscode.window.showInformationMessage(`${group.MasterLabel} is already assigned to every active user.`);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        available.map((user) => ({ label: user.Name, description: user.Username, id: user.Id })),
+        { canPickMany: true, matchOnDescription: true, placeHolder: `Select the users to assign ${group.MasterLabel} to` }
+    );
+    if (!picked?.length) {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Assigning ${group.MasterLabel}`, cancellable: true },
+        async (progress, token) => {
+            const item = { kind: 'permissionSetGroup' as const, id: group.Id, name: group.DeveloperName };
+            const results = await createRecords(
+                context.connection,
+                'PermissionSetAssignment',
+                picked.map((user) => buildAssignmentRecord(user.id, item).values),
+                { cancellation: token, onProgress: reportCollectionProgress(progress, 'Assigning') }
+            );
+            const failures = results.flatMap((result, index) => (result.success ? [] : [`${picked[index].description}: ${result.message}`]));
+
+            if (failures.length > 0) {
+                vscode.window.showErrorMessage(
+                    `Assigned ${group.MasterLabel} to ${picked.length - failures.length} of ${picked.length} user(s).\nErrors:\n${failures.join('\n')}`
+                );
+            } else {
+                vscode.window.showInformationMessage(`Assigned ${group.MasterLabel} to ${picked.length} user(s).`);
+            }
+        }
+    );
+}
+
+async function showRecalculationStatus(group: PermissionSetGroupRecord, context: GroupCommandContext) {
+    const [record] = await restQuery<{ Status?: PermissionSetGroupStatus }>(context.connection, buildGroupStatusQuery(group.Id));
+    vscode.window.showInformationMessage(`${group.MasterLabel}: ${describeGroupStatus(record?.Status)}`);
+}
+
+export async function editPermissionSetGroup(): Promise<void> {
+    const context = await getGroupCommandContext();
+    if (!context) {
+        return;
+    }
+
+    const group = await pickGroup(context.connection, 'Select a permission set group to edit');
+    if (!group) {
+        return;
+    }
+
+    const actions = [
+        { label: 'Add or Remove Permission Sets', run: editComponents },
+        { label: 'Manage Muting Permission Set', run: editMutingPermissionSet },
+        { label: 'Edit Label and Description', run: editLabelAndDescription },
+        { label: 'Assign to Users', run: assignGroupToUsers },
+        { label: 'Show Recalculation Status', run: showRecalculationStatus }
+    ];
+    const action = await vscode.window.showQuickPick(actions, {
+        placeHolder: `What do you want to do with ${group.MasterLabel}?`,
+        title: 'Edit Permission Set Group'
+    });
+    if (!action) {
+        return;
+    }
+
+    try {
+        await action.run(group, context);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to edit the permission set group: ${(err as Error).message}`);
+    }
+}
+
+export async function deletePermissionSetGroup(): Promise<void> {
+    const context = await getGroupCommandContext();
+    if (!context) {
+        return;
+    }
+
+    const group = await pickGroup(context.connection, 'Select a permission set group to delete');
+    if (!group) {
+        return;
+    }
+
+    let assignments: { Id: string }[];
+    try {
+        assignments = await restQuery<{ Id: string }>(context.connection, buildGroupAssignmentsQuery(group.Id));
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to query permission set group assignments: ${(err as Error).message}`);
+        return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Delete permission set group "${group.MasterLabel}" (${group.DeveloperName})?`,
+        {
+            modal: true,
+            detail: assignments.length > 0 ? `It is assigned to ${assignments.length} user(s); these assignments will be removed.` : undefined
+        },
+        'Delete'
+    );
+    if (confirm !== 'Delete') {
+        return;
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Deleting permission set group...', cancellable: false },
+        async (progress) => {
+            try {
+                progress.report({ message: 'Unassigning permission set group...' });
+                const failed = (await deleteRecords(context.connection, assignments.map((a) => a.Id))).filter((r) => !r.success);
+                if (failed.length > 0) {
+                    vscode.window.showErrorMessage(
+                        `Failed to remove ${failed.length} assignment(s) of the permission set group: ${failed.map((r) => `${r.id}: ${r.message}`).join('; ')}`
+                    );
+                    return;
+                }
+                progress.report({ message: 'Deleting permission set group...' });
+                await deleteRecord(context.connection, 'PermissionSetGroup', group.Id);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to delete permission set group: ${(err as Error).message}`);
+                return;
+            }
+
+            vscode.window.showInformationMessage(`Permission set group "${group.MasterLabel}" (${group.DeveloperName}) was deleted.`);
+        }
+    );
+}
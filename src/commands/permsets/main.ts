@@ -1,12 +1,29 @@
 import * as vscode from 'vscode';
 import labels from '../../labels';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
 import { clearAndHideStatusBarText, executeShellCommand, setStatusBarText, setUpStatusBarWidget } from '../shared/utilities';
+import { bulkAssignPermissionSets } from './bulkAssign';
+import { clonePermissionSet } from './clone';
 import { createPermissionSet } from './create';
 import { deletePermissionSet } from './delete';
+import { createPermissionSetGroup, deletePermissionSetGroup, editPermissionSetGroup } from './groups';
+import { connectToOrg, deleteRecords } from './orgDataClient';
+import { reconcilePermissionSetAssignments } from './reconcileAssignments';
+import { restorePermissionSetAssignments } from './restoreAssignments';
+import { RecordResult } from './sobjectCollections';
 
 const COMMAND_NAME = 'assignPermissionSets';
 const CREATE_PERMISSION_SET_COMMAND = 'createPermissionSet';
 const DELETE_PERMISSION_SET_COMMAND = 'deletePermissionSet';
+const CLONE_PERMISSION_SET_COMMAND = 'clonePermissionSet';
+const BULK_ASSIGN_COMMAND = 'bulkAssignPermissionSets';
+const RECONCILE_ASSIGNMENTS_COMMAND = 'reconcilePermissionSetAssignments';
+const RESTORE_ASSIGNMENTS_COMMAND = 'restorePermissionSetAssignments';
+const GROUP_COMMANDS: [string, () => Promise<void>][] = [
+    ['createPermissionSetGroup', createPermissionSetGroup],
+    ['editPermissionSetGroup', editPermissionSetGroup],
+    ['deletePermissionSetGroup', deletePermissionSetGroup]
+];
 
 let salesforceUserId: string | undefined = undefined;
 
@@ -15,6 +32,10 @@ export async function activate(context: vscode.ExtensionContext) {
     const assignCmd = `${labels.misc.EXTENSION_NAME}.${COMMAND_NAME}`;
     const createCmd = `${labels.misc.EXTENSION_NAME}.${CREATE_PERMISSION_SET_COMMAND}`;
     const deleteCmd = `${labels.misc.EXTENSION_NAME}.${DELETE_PERMISSION_SET_COMMAND}`;
+    const cloneCmd = `${labels.misc.EXTENSION_NAME}.${CLONE_PERMISSION_SET_COMMAND}`;
+    const bulkAssignCmd = `${labels.misc.EXTENSION_NAME}.${BULK_ASSIGN_COMMAND}`;
+    const reconcileCmd = `${labels.misc.EXTENSION_NAME}.${RECONCILE_ASSIGNMENTS_COMMAND}`;
+    const restoreCmd = `${labels.misc.EXTENSION_NAME}.${RESTORE_ASSIGNMENTS_COMMAND}`;
 
     if (!commands.includes(assignCmd)) {
         const assignPermissionSetsCommand = vscode.commands.registerCommand(assignCmd, managePermissionSets);
@@ -28,6 +49,28 @@ export async function activate(context: vscode.ExtensionContext) {
         const deletePermissionSetCommand = vscode.commands.registerCommand(deleteCmd, deletePermissionSet);
         context.subscriptions.push(deletePermissionSetCommand);
     }
+    if (!commands.includes(cloneCmd)) {
+        const clonePermissionSetCommand = vscode.commands.registerCommand(cloneCmd, clonePermissionSet);
+        context.subscriptions.push(clonePermissionSetCommand);
+    }
+    if (!commands.includes(bulkAssignCmd)) {
+        const bulkAssignCommand = vscode.commands.registerCommand(bulkAssignCmd, bulkAssignPermissionSets);
+        context.subscriptions.push(bulkAssignCommand);
+    }
+    if (!commands.includes(reconcileCmd)) {
+        const reconcileCommand = vscode.commands.registerCommand(reconcileCmd, reconcilePermissionSetAssignments);
+        context.subscriptions.push(reconcileCommand);
+    }
+    if (!commands.includes(restoreCmd)) {
+        const restoreCommand = vscode.commands.registerCommand(restoreCmd, restorePermissionSetAssignments);
+        context.subscriptions.push(restoreCommand);
+    }
+    for (const [commandName, handler] of GROUP_COMMANDS) {
+        const groupCmd = `${labels.misc.EXTENSION_NAME}.${commandName}`;
+        if (!commands.includes(groupCmd)) {
+            context.subscriptions.push(vscode.commands.registerCommand(groupCmd, handler));
+        }
+    }
 
     setUpStatusBarWidget();
 }
@@ -214,206 +257,166 @@ async function managePermissionSets() {
             (r: { PermissionSet: { Name: string } }) => r.PermissionSet.Name,
         );
     }
+}
 
-    async function assignPermissionSets(
-        names: string[],
-        targetUsername: string,
-    ): Promise<void> {
-        console.log(`Assigning permission sets to user ${targetUsername}: ${names.join(', ')}`);
-        vscode.window.showInformationMessage('Assigning permission sets...');
-        const cmd =
-            `sf org assign permset ` +
-            names.map((n) => `--name "${n}"`).join(' ') + // Enclose names in quotes
-            ` --on-behalf-of "${targetUsername}" --json`; // Use username
-        console.log("Command: ", cmd);
-        const raw = await executeShellCommand(cmd);
-        const res = JSON.parse(raw);
-
-        if (res.status !== 0) {
-            vscode.window.showErrorMessage(`Assign failed: ${res.message || JSON.stringify(res)}`);
-            return;
-        }
-        vscode.window.showInformationMessage(
-            `Assigned ${names.length} permission sets to ${targetUsername}.`,
-        );
-        if (res.warnings?.length) {
-            vscode.window.showWarningMessage(
-                res.warnings.map((w: any) => w.message).join(', '),
-            );
-        }
-    }
+export interface PermissionSetChangeOptions {
+    // org to run against instead of the CLI's default org
+    targetOrg?: string;
+    // show no messages at all, for callers reporting the returned errors themselves
+    quiet?: boolean;
+    // stops removing assignments between batches of 200
+    cancellation?: { isCancellationRequested: boolean };
+}
 
-    async function unassignPermissionSets(
-        names: string[], // Permission Set API names
-        targetUsername: string,
-    ): Promise<void> {
-        vscode.window.showInformationMessage(
-            `Attempting to remove ${names.length} permission set(s) from ${targetUsername}...`,
-        );
-        console.log(
-            `Attempting to remove permission sets from user ${targetUsername}: ${names.join(', ')}`,
-        );
+export interface PermissionSetChangeResult {
+    success: boolean;
+    errors: string[];
+}
 
-        // 1. Query for PermissionSetAssignment IDs
-        // Ensure names are properly quoted for the IN clause
-        const nameList = names.map((n) => `'${n}'`).join(',');
-        const querySoql =
-            `SELECT Id FROM PermissionSetAssignment ` +
-            `WHERE Assignee.Username = '${targetUsername}' AND PermissionSet.Name IN (${nameList})`;
-
-        console.log(`Querying PermissionSetAssignments with SOQL: ${querySoql}`);
-        vscode.window.showInformationMessage('Querying assignments to remove...');
-        const queryRaw = await executeShellCommand(
-            `sf data query --query "${querySoql}" --json`,
-        );
-        const queryRes = JSON.parse(queryRaw);
+function toTargetOrgArg(options: PermissionSetChangeOptions): string {
+    return options.targetOrg ? ` --target-org "${options.targetOrg}"` : '';
+}
 
-        if (queryRes.status !== 0 || !queryRes.result) {
-            vscode.window.showErrorMessage(
-                `Failed to query permission set assignments: ${queryRes.message || JSON.stringify(queryRes.warnings || queryRes.stack || queryRes.name || queryRes)}`,
-            );
-            return;
+/**
+ * Message functions of a change, doing nothing when it is quiet.
+ */
+function getChangeMessages(options: PermissionSetChangeOptions) {
+    const show = (showMessage: (message: string) => unknown) => (message: string) => {
+        if (!options.quiet) {
+            showMessage(message);
         }
+    };
+    return {
+        info: show((message) => vscode.window.showInformationMessage(message)),
+        warning: show((message) => vscode.window.showWarningMessage(message)),
+        error: show((message) => vscode.window.showErrorMessage(message))
+    };
+}
 
-        if (!queryRes.result.records || queryRes.result.records.length === 0) {
-            vscode.window.showInformationMessage(
-                `No matching permission set assignments found for ${targetUsername} with names: ${names.join(', ')}. No action taken.`,
-            );
-            return;
-        }
+export async function assignPermissionSets(
+    names: string[],
+    targetUsername: string,
+    options: PermissionSetChangeOptions = {},
+): Promise<PermissionSetChangeResult> {
+    const messages = getChangeMessages(options);
+    console.log(`Assigning permission sets to user ${targetUsername}: ${names.join(', ')}`);
+    messages.info('Assigning permission sets...');
+    const cmd =
+        `sf org assign permset ` +
+        names.map((n) => `--name "${n}"`).join(' ') + // Enclose names in quotes
+        ` --on-behalf-of "${targetUsername}"` + // Use username
+        toTargetOrgArg(options) + ` --json`;
+    console.log("Command: ", cmd);
+    let res;
+    try {
+        res = JSON.parse(await executeShellCommand(cmd));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        messages.error(`Assign failed: ${message}`);
+        return { success: false, errors: [message] };
+    }
 
-        const assignmentIds: string[] = queryRes.result.records.map(
-            (r: { Id: string }) => r.Id,
-        );
+    if (res.status !== 0) {
+        messages.error(`Assign failed: ${res.message || JSON.stringify(res)}`);
+        return { success: false, errors: [res.message || JSON.stringify(res)] };
+    }
+    messages.info(`Assigned ${names.length} permission sets to ${targetUsername}.`);
+    if (res.warnings?.length) {
+        messages.warning(res.warnings.map((w: any) => w.message).join(', '));
+    }
+    return { success: true, errors: [] };
+}
 
-        console.log(
-            `Found ${assignmentIds.length} PermissionSetAssignment records to delete: ${assignmentIds.join(', ')}`,
-        );
+export async function unassignPermissionSets(
+    names: string[], // Permission Set API names
+    targetUsername: string,
+    options: PermissionSetChangeOptions = {},
+): Promise<PermissionSetChangeResult> {
+    const messages = getChangeMessages(options);
+    messages.info(
+        `Attempting to remove ${names.length} permission set(s) from ${targetUsername}...`,
+    );
+    console.log(
+        `Attempting to remove permission sets from user ${targetUsername}: ${names.join(', ')}`,
+    );
 
-        // 2. Delete the PermissionSetAssignment records
-        vscode.window.showInformationMessage(
-            `Removing ${assignmentIds.length} permission set assignment(s)...`,
+    // 1. Query for PermissionSetAssignment IDs
+    // Ensure names are properly quoted for the IN clause
+    const nameList = names.map((n) => `'${n}'`).join(',');
+    const querySoql =
+        `SELECT Id FROM PermissionSetAssignment ` +
+        `WHERE Assignee.Username = '${targetUsername}' AND PermissionSet.Name IN (${nameList})`;
+
+    console.log(`Querying PermissionSetAssignments with SOQL: ${querySoql}`);
+    messages.info('Querying assignments to remove...');
+    let queryRes;
+    try {
+        queryRes = JSON.parse(await executeShellCommand(
+            `sf data query --query "${querySoql}"${toTargetOrgArg(options)} --json`,
+        ));
+    } catch (error) {
+        queryRes = { status: 1, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (queryRes.status !== 0 || !queryRes.result) {
+        const message = `Failed to query permission set assignments: ${queryRes.message || JSON.stringify(queryRes.warnings || queryRes.stack || queryRes.name || queryRes)}`;
+        messages.error(message);
+        return { success: false, errors: [message] };
+    }
+
+    if (!queryRes.result.records || queryRes.result.records.length === 0) {
+        messages.info(
+            `No matching permission set assignments found for ${targetUsername} with names: ${names.join(', ')}. No action taken.`,
         );
+        return { success: true, errors: [] };
+    }
 
-        const idInClause = assignmentIds.map((id) => `'${id}'`).join(',');
-        // The sf data record delete command only supports deleting one record at a time,
-        // so we need to run one command per assignment ID.
-        const deletePromises = assignmentIds.map(id => {
-            const deleteCmd = `sf data record delete --sobject PermissionSetAssignment --where "Id=${id}" --json`;
-            return executeShellCommand(deleteCmd)
-                .then(raw => ({ id, raw }))
-                .catch(error => ({ id, error }));
-        });
+    const assignmentIds: string[] = queryRes.result.records.map(
+        (r: { Id: string }) => r.Id,
+    );
 
-        // Run all deletions in parallel
-        const deleteResults = await Promise.all(deletePromises);
-
-        // Aggregate results into a single response-like object for downstream logic
-        const deleteResultsSummary = {
-            status: 0,
-            result: deleteResults.map(res => {
-                if ('error' in res) {
-                    return {
-                        id: res.id,
-                        success: false,
-                        errors: [{ message: res.error instanceof Error ? res.error.message : String(res.error) }]
-                    };
-                }
-                try {
-                    const parsed = JSON.parse(res.raw);
-                    return {
-                        id: res.id,
-                        success: parsed.status === 0,
-                        errors: parsed.status === 0 ? [] : [{ message: parsed.message || JSON.stringify(parsed) }]
-                    };
-                } catch (e) {
-                    return {
-                        id: res.id,
-                        success: false,
-                        errors: [{ message: "Failed to parse delete response" }]
-                    };
-                }
-            }),
-            warnings: []
-        };
+    console.log(
+        `Found ${assignmentIds.length} PermissionSetAssignment records to delete: ${assignmentIds.join(', ')}`,
+    );
 
-        // The following block is now redundant and can be removed, since deletion is handled above.
-        // console.log("Delete Command: ", deleteCmd);
-        // let deleteRaw;
-        // try {
-        //     deleteRaw = await executeShellCommand(deleteCmd);
-        // } catch (error) {
-        //     // Handle any errors that occur during the delete command execution
-        //     vscode.window.showErrorMessage(
-        //         `Failed to execute delete command: ${error instanceof Error ? error.message : String(error)}`,
-        //     );
-        //     console.error("Delete command error: ", error);
-        //     return;
-        // }
-        // const deleteRes = JSON.parse(deleteRaw);
-
-        if (deleteResultsSummary.status !== 0) {
-            // This usually indicates a command-level failure
-            vscode.window.showErrorMessage(
-                `Unassign command failed: ${JSON.stringify(deleteResultsSummary)}`,
-            );
-            return;
-        }
+    // 2. Delete the PermissionSetAssignment records, up to 200 per request
+    messages.info(
+        `Removing ${assignmentIds.length} permission set assignment(s)...`,
+    );
 
-        let successCount = 0;
-        const errorDetails: string[] = [];
-
-        if (deleteResultsSummary.result && Array.isArray(deleteResultsSummary.result)) {
-            deleteResultsSummary.result.forEach(
-                (item: {
-                    id: string;
-                    success: boolean;
-                    errors: { statusCode?: string; message: string; fields?: string[] }[];
-                }) => {
-                    if (item.success) {
-                        successCount++;
-                    } else {
-                        const errors = item.errors.map((e) => e.message).join(', ');
-                        errorDetails.push(
-                            `Failed for assignment ID ${item.id}: ${errors}`,
-                        );
-                        console.error(
-                            `Failed to delete PermissionSetAssignment ID ${item.id}: ${errors}`,
-                        );
-                    }
-                },
-            );
-        } else {
-            // Fallback if result format is unexpected despite status 0
-            vscode.window.showErrorMessage(
-                `Unassign operation reported success, but response format was unexpected. Please verify in Salesforce.`,
-            );
-            console.error("Unexpected delete response format: ", deleteResultsSummary);
-            return;
-        }
+    let deleteResults: RecordResult[];
+    try {
+        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+        const connection = await connectToOrg(options.targetOrg ?? await getDefaultOrgUsername(cwd), cwd);
+        deleteResults = await deleteRecords(connection, assignmentIds, { cancellation: options.cancellation });
+    } catch (error) {
+        const message = `Failed to remove permission set assignments: ${error instanceof Error ? error.message : String(error)}`;
+        messages.error(message);
+        return { success: false, errors: [message] };
+    }
 
-        if (successCount === assignmentIds.length) {
-            vscode.window.showInformationMessage(
-                `Successfully removed ${successCount} permission set(s) from ${targetUsername}.`,
-            );
-        } else if (successCount > 0) {
-            vscode.window.showWarningMessage(
-                `Partially removed permission sets from ${targetUsername}. ` +
-                `${successCount} succeeded, ${assignmentIds.length - successCount} failed.\n` +
-                `Errors:\n${errorDetails.join('\n')}`,
-            );
-        } else {
-            vscode.window.showErrorMessage(
-                `Failed to remove any permission sets from ${targetUsername}.\n` +
-                `Errors:\n${errorDetails.join('\n')}`,
-            );
-        }
+    const successCount = deleteResults.filter((r) => r.success).length;
+    const errorDetails = deleteResults
+        .filter((r) => !r.success)
+        .map((r) => `Failed for assignment ID ${r.id}: ${r.message}`);
+    errorDetails.forEach((detail) => console.error(detail));
 
-        if (deleteResultsSummary.warnings && deleteResultsSummary.warnings.length > 0) {
-            vscode.window.showWarningMessage(
-                `Warnings during unassign: ${deleteResultsSummary.warnings.map((w: any) => w.message).join(', ')}`,
-            );
-        }
+    if (successCount === assignmentIds.length) {
+        messages.info(
+            `Successfully removed ${successCount} permission set(s) from ${targetUsername}.`,
+        );
+    } else if (successCount > 0) {
+        messages.warning(
+            `Partially removed permission sets from ${targetUsername}. ` +
+            `${successCount} succeeded, ${assignmentIds.length - successCount} failed.\n` +
+            `Errors:\n${errorDetails.join('\n')}`,
+        );
+    } else {
+        messages.error(
+            `Failed to remove any permission sets from ${targetUsername}.\n` +
+            `Errors:\n${errorDetails.join('\n')}`,
+        );
     }
-}
 
+    return { success: errorDetails.length === 0, errors: errorDetails };
+}
@@ -0,0 +1,174 @@
+/**
+ * Org data client over the REST API: queries, single records and sObject Collections requests of up to 200 records,
+ * with the access token of the Salesforce CLI.
+ */
+import { runSfCommand } from '../shared/utilities';
+import { getRestErrorMessage } from './permissionSetGroups';
+import {
+    buildCollectionBody,
+    buildCollectionDeletePath,
+    CollectionSaveResult,
+    RecordResult,
+    toBatches,
+    toFailedResults,
+    toRecordResults,
+    toSkippedResults
+} from './sobjectCollections';
+
+export const REST_API_VERSION = 'v59.0';
+
+export interface OrgDisplayResult {
+    accessToken?: string;
+    instanceUrl?: string;
+}
+
+export interface OrgConnection {
+    instanceUrl: string;
+    accessToken: string;
+}
+
+export interface CollectionOptions {
+    // checked before each batch; the records of the batches left are skipped
+    cancellation?: { isCancellationRequested: boolean };
+    onProgress?: (processed: number, total: number) => void;
+}
+
+export async function runSfOrgDisplay(targetOrg: string, cwd: string): Promise<OrgDisplayResult> {
+    return (await runSfCommand<OrgDisplayResult>(['org', 'display', '--target-org', targetOrg], { cwd, fallbackMessage: 'Failed to get org details' })) ?? {};
+}
+
+/**
+ * Instance URL and access token of the org from `sf org display`.
+ */
+export async function connectToOrg(targetOrg: string, cwd: string): Promise<OrgConnection> {
+    const { accessToken, instanceUrl } = await runSfOrgDisplay(targetOrg, cwd);
+    if (!accessToken || !instanceUrl) {
+        throw new Error('Could not get access token or instance URL from org.');
+    }
+    return { accessToken, instanceUrl };
+}
+
+export async function restRequest<T>(
+    connection: OrgConnection,
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    body?: unknown
+): Promise<T | undefined> {
+    const url = `${connection.instanceUrl.replace(/\/$/, '')}/services/data/${REST_API_VERSION}${path}`;
+    const response = await fetch(url, {
+        method,
+        headers: {
+            Authorization: `Bearer ${connection.accessToken}`,
+            'Content-Type': 'application/json'
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+        let errBody: unknown;
+        try {
+            errBody = await response.json();
+        } catch {
+            // use statusText
+        }
+        throw new Error(getRestErrorMessage(errBody, response.statusText));
+    }
+    if (response.status === 204) {
+        return undefined;
+    }
+    return (await response.json()) as T;
+}
+
+export async function restQuery<T>(connection: OrgConnection, soql: string): Promise<T[]> {
+    const records: T[] = [];
+    let path: string | undefined = `/query?q=${encodeURIComponent(soql)}`;
+    while (path) {
+        const page: { records?: T[]; nextRecordsUrl?: string } | undefined = await restRequest(connection, 'GET', path);
+        records.push(...(page?.records ?? []));
+        // nextRecordsUrl starts with /services/data/vXX.X
+        path = page?.nextRecordsUrl?.replace(/^\/services\/data\/v[\d.]+/, '');
+    }
+    return records;
+}
+
+export async function createRecord(connection: OrgConnection, sobject: string, values: Record<string, unknown>): Promise<string> {
+    const result = await restRequest<{ id: string }>(connection, 'POST', `/sobjects/${sobject}`, values);
+    return result?.id ?? '';
+}
+
+export function deleteRecord(connection: OrgConnection, sobject: string, id: string): Promise<unknown> {
+    return restRequest(connection, 'DELETE', `/sobjects/${sobject}/${id}`);
+}
+
+/**
+ * Send the records in batches, one request at a time so a cancellation stops between batches.
+ * A failed request fails the records of its batch only.
+ */
+async function runInBatches<T>(
+    items: T[],
+    keyOf: (item: T) => string,
+    send: (batch: T[]) => Promise<CollectionSaveResult[] | undefined>,
+    options: CollectionOptions
+): Promise<RecordResult[]> {
+    const results: RecordResult[] = [];
+    for (const batch of toBatches(items)) {
+        const ids = batch.map(keyOf);
+        if (options.cancellation?.isCancellationRequested) {
+            results.push(...toSkippedResults(ids));
+            continue;
+        }
+        try {
+            results.push(...toRecordResults(ids, await send(batch)));
+        } catch (err) {
+            results.push(...toFailedResults(ids, (err as Error).message));
+        }
+        options.onProgress?.(results.length, items.length);
+    }
+    return results;
+}
+
+/**
+ * Delete records of any sObjects by id, up to 200 per request. Returns a result per id, in order.
+ */
+export function deleteRecords(connection: OrgConnection, ids: string[], options: CollectionOptions = {}): Promise<RecordResult[]> {
+    return runInBatches(
+        ids,
+        (id) => id,
+        (batch) => restRequest<CollectionSaveResult[]>(connection, 'DELETE', buildCollectionDeletePath(batch)),
+        options
+    );
+}
+
+/**
+ * Update records of an sObject, each with its `Id`, up to 200 per request. Returns a result per record, in order.
+ */
+export function updateRecords(
+    connection: OrgConnection,
+    sobject: string,
+    records: (Record<string, unknown> & { Id: string })[],
+    options: CollectionOptions = {}
+): Promise<RecordResult[]> {
+    return runInBatches(
+        records,
+        (record) => record.Id,
+        (batch) => restRequest<CollectionSaveResult[]>(connection, 'PATCH', '/composite/sobjects', buildCollectionBody(sobject, batch)),
+        options
+    );
+}
+
+/**
+ * Create records of an sObject, up to 200 per request. Returns a result per record, in order, with the new ids.
+ */
+export function createRecords(
+    connection: OrgConnection,
+    sobject: string,
+    records: Record<string, unknown>[],
+    options: CollectionOptions = {}
+): Promise<RecordResult[]> {
+    return runInBatches(
+        records,
+        () => '',
+        (batch) => restRequest<CollectionSaveResult[]>(connection, 'POST', '/composite/sobjects', buildCollectionBody(sobject, batch)),
+        options
+    );
+}
@@ -0,0 +1,113 @@
+/**
+ * Pure helpers for permission set groups: the SOQL listing groups, their components and assignments, the component
+ * changes to make, recalculation statuses and REST error messages.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { escapeSoqlString } from './assignments';
+
+export type PermissionSetGroupStatus = 'Updated' | 'Outdated' | 'Updating' | 'Failed';
+
+export interface PermissionSetGroupRecord {
+    Id: string;
+    DeveloperName: string;
+    MasterLabel: string;
+    Description?: string | null;
+    Status?: PermissionSetGroupStatus | null;
+}
+
+export interface PermissionSetGroupComponentRecord {
+    Id: string;
+    PermissionSetId: string;
+}
+
+// key prefix of MutingPermissionSet ids, components referencing one mute permissions of the group
+export const MUTING_PERMISSION_SET_KEY_PREFIX = '0QL';
+
+export const PERMISSION_SET_GROUP_QUERY = 'SELECT Id, DeveloperName, MasterLabel, Description, Status FROM PermissionSetGroup ORDER BY MasterLabel';
+
+// permission sets that can be added to a group: not owned by a profile or a group
+export const COMPONENT_PERMISSION_SET_QUERY = 'SELECT Id, Name, Label FROM PermissionSet WHERE IsOwnedByProfile = false AND PermissionSetGroupId = null ORDER BY Label';
+
+const STATUS_DESCRIPTIONS: Record<PermissionSetGroupStatus, string> = {
+    Updated: 'Updated: the group grants the permissions of its components.',
+    Outdated: 'Outdated: components changed and the group will be recalculated.',
+    Updating: 'Updating: Salesforce is recalculating the group permissions.',
+    Failed: 'Failed: the last recalculation failed. Change a component or contact Salesforce support to recalculate.'
+};
+
+export function buildGroupComponentsQuery(groupId: string): string {
+    return `SELECT Id, PermissionSetId FROM PermissionSetGroupComponent WHERE PermissionSetGroupId = '${escapeSoqlString(groupId)}'`;
+}
+
+export function buildGroupAssignmentsQuery(groupId: string): string {
+    return `SELECT Id, AssigneeId FROM PermissionSetAssignment WHERE PermissionSetGroupId = '${escapeSoqlString(groupId)}'`;
+}
+
+export function buildGroupStatusQuery(groupId: string): string {
+    return `SELECT Status FROM PermissionSetGroup WHERE Id = '${escapeSoqlString(groupId)}'`;
+}
+
+export function isMutingPermissionSetId(id: string): boolean {
+    return id.startsWith(MUTING_PERMISSION_SET_KEY_PREFIX);
+}
+
+/**
+ * Components of a group split into permission sets and muting permission sets.
+ */
+export function splitGroupComponents(components: PermissionSetGroupComponentRecord[]): {
+    permissionSets: PermissionSetGroupComponentRecord[];
+    muting: PermissionSetGroupComponentRecord[];
+} {
+    return {
+        permissionSets: components.filter(component => !isMutingPermissionSetId(component.PermissionSetId)),
+        muting: components.filter(component => isMutingPermissionSetId(component.PermissionSetId))
+    };
+}
+
+/**
+ * Components to add and to remove so the group holds exactly the selected permission sets.
+ */
+export function diffGroupComponents(
+    components: PermissionSetGroupComponentRecord[],
+    selectedPermissionSetIds: string[]
+): { toAdd: string[]; toRemove: PermissionSetGroupComponentRecord[] } {
+    const current = new Set(components.map(component => component.PermissionSetId));
+    const selected = new Set(selectedPermissionSetIds);
+
+    return {
+        toAdd: [...selected].filter(id => !current.has(id)),
+        toRemove: components.filter(component => !selected.has(component.PermissionSetId))
+    };
+}
+
+export function describeGroupStatus(status: PermissionSetGroupStatus | null | undefined): string {
+    return status ? STATUS_DESCRIPTIONS[status] ?? status : 'Unknown status.';
+}
+
+/**
+ * Whether the group permissions are still being recalculated.
+ */
+export function isRecalculating(status: PermissionSetGroupStatus | null | undefined): boolean {
+    return status === 'Outdated' || status === 'Updating';
+}
+
+/**
+ * Message of a REST API error body: a list of errors or a single error object.
+ */
+export function getRestErrorMessage(body: unknown, fallback: string): string {
+    if (Array.isArray(body) && body.length > 0) {
+        const messages = body
+            .map((error: { message?: string; errorCode?: string }) => error?.message ?? error?.errorCode ?? '')
+            .filter(Boolean);
+
+        return messages.join('; ') || fallback;
+    }
+
+    if (body && typeof body === 'object') {
+        const error = body as { message?: string; error?: string };
+
+        return error.message ?? error.error ?? fallback;
+    }
+
+    return fallback;
+}
@@ -0,0 +1,197 @@
+/**
+ * Build the metadata of a new permission set from a template and the permissions picked in the create wizard:
+ * read-only access on objects, Apex classes of a folder, permissions copied from a profile, plus a license.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+import { XMLBuilder } from 'fast-xml-parser';
+import * as path from 'path';
+import {
+    getCategoryDefinition,
+    grantsNothing,
+    PERMISSION_CATEGORIES,
+    PermissionCategory,
+    PermissionEntry,
+    PermissionValues
+} from '../permissioneditor/comparison';
+
+const BUILDER_OPTIONS = {
+    ignoreAttributes: false,
+    format: true,
+    indentBy: '    ',
+    suppressBooleanAttributes: false
+};
+
+const METADATA_NAMESPACE = 'http://soap.sforce.com/2006/04/metadata';
+
+export interface PermissionSetDefinition {
+    label: string;
+    // left out when empty
+    description: string;
+    hasActivationRequired: boolean;
+    // name of the user license, e.g. `Salesforce Platform`
+    license?: string;
+    entries: PermissionEntry[];
+}
+
+export interface ObjectAccessLevel {
+    label: string;
+    values: PermissionValues;
+}
+
+/**
+ * Object access offered by the wizard, from the least to the most.
+ */
+export const OBJECT_ACCESS_LEVELS: ObjectAccessLevel[] = [
+    { label: 'Read', values: { allowRead: true } },
+    { label: 'Read, Create', values: { allowRead: true, allowCreate: true } },
+    { label: 'Read, Create, Edit', values: { allowRead: true, allowCreate: true, allowEdit: true } },
+    { label: 'Read, Create, Edit, Delete', values: { allowRead: true, allowCreate: true, allowEdit: true, allowDelete: true } },
+    { label: 'View All', values: { allowRead: true, viewAllRecords: true } },
+    { label: 'Modify All', values: { allowRead: true, allowCreate: true, allowEdit: true, allowDelete: true, viewAllRecords: true, modifyAllRecords: true } }
+];
+
+// categories a profile can hand over to a permission set
+export const COPYABLE_PROFILE_CATEGORIES: PermissionCategory[] = ['object', 'field', 'apexClass', 'apexPage', 'tab', 'recordType', 'userPermission'];
+
+export function objectEntries(objectNames: string[], values: PermissionValues): PermissionEntry[] {
+    return objectNames.map(name => ({ category: 'object', name, values: { ...values } }));
+}
+
+export function readOnlyObjectEntries(objectNames: string[]): PermissionEntry[] {
+    return objectEntries(objectNames, { allowRead: true });
+}
+
+/**
+ * Field permissions of fields of one object, given by their API names without the object.
+ */
+export function fieldEntries(objectName: string, fieldNames: string[], editable: boolean): PermissionEntry[] {
+    return fieldNames.map(field => ({ category: 'field', name: `${objectName}.${field}`, values: { readable: true, editable } }));
+}
+
+/**
+ * Class access of the Apex classes of `.cls` files; other files are ignored.
+ */
+export function apexClassEntries(filePaths: string[]): PermissionEntry[] {
+    const names = new Set(filePaths.filter(filePath => filePath.endsWith('.cls')).map(filePath => path.basename(filePath, '.cls')));
+
+    return [...names].sort((a, b) => a.localeCompare(b)).map(name => ({ category: 'apexClass', name, values: { enabled: true } }));
+}
+
+export function tabEntries(tabNames: string[], visibility: 'Visible' | 'Available'): PermissionEntry[] {
+    return tabNames.map(name => ({ category: 'tab', name, values: { visibility } }));
+}
+
+/**
+ * Permissions of a profile worth copying: those of the categories kept that grant something.
+ */
+export function copyProfileEntries(entries: PermissionEntry[], categories: PermissionCategory[]): PermissionEntry[] {
+    return entries.filter(entry => categories.includes(entry.category) && !grantsNothing(entry.values));
+}
+
+/**
+ * Object access with what it implies, as the metadata API rejects e.g. edit without read.
+ */
+function withImpliedObjectAccess(values: PermissionValues): PermissionValues {
+    const result = { ...values };
+
+    if (result.modifyAllRecords === true) {
+        Object.assign(result, { viewAllRecords: true, allowEdit: true, allowDelete: true });
+    }
+    if (result.allowDelete === true) {
+        result.allowEdit = true;
+    }
+    if (result.viewAllRecords === true || result.allowEdit === true || result.allowCreate === true) {
+        result.allowRead = true;
+    }
+
+    return result;
+}
+
+/**
+ * The entries to write: one per category and name, later values winning, with the access they imply and read access
+ * on the objects of the fields. Each entry holds every value of its category.
+ */
+export function completePermissionEntries(entries: PermissionEntry[]): PermissionEntry[] {
+    const merged = new Map<string, PermissionEntry>();
+    const key = (category: PermissionCategory, name: string) => `${category}:${name.toLowerCase()}`;
+
+    for (const entry of entries) {
+        const existing = merged.get(key(entry.category, entry.name));
+        merged.set(key(entry.category, entry.name), { ...entry, values: { ...existing?.values, ...entry.values } });
+    }
+
+    for (const entry of [...merged.values()]) {
+        const objectName = entry.name.split('.')[0];
+
+        if (entry.category === 'field' && !merged.has(key('object', objectName))) {
+            merged.set(key('object', objectName), { category: 'object', name: objectName, values: { allowRead: true } });
+        }
+    }
+
+    return [...merged.values()].map(entry => {
+        let values: PermissionValues = { ...getCategoryDefinition(entry.category).defaults, ...entry.values };
+
+        if (entry.category === 'object') {
+            values = withImpliedObjectAccess(values);
+        } else if (entry.category === 'field' && values.editable === true) {
+            values.readable = true;
+        }
+
+        return { ...entry, values };
+    });
+}
+
+function sortKeys(element: Record<string, unknown>): Record<string, unknown> {
+    const sorted: Record<string, unknown> = {};
+
+    for (const key of Object.keys(element).sort((a, b) => a.localeCompare(b))) {
+        sorted[key] = element[key];
+    }
+
+    return sorted;
+}
+
+/**
+ * PermissionSet metadata XML, elements in the alphabetical order of retrieved metadata.
+ */
+export function buildPermissionSetXml(definition: PermissionSetDefinition): string {
+    const root: Record<string, unknown> = {
+        hasActivationRequired: definition.hasActivationRequired,
+        label: definition.label.trim()
+    };
+
+    if (definition.description.trim()) {
+        root.description = definition.description.trim();
+    }
+    if (definition.license) {
+        root.license = definition.license;
+    }
+
+    const entries = completePermissionEntries(definition.entries);
+
+    for (const category of PERMISSION_CATEGORIES) {
+        const elements = entries
+            .filter(entry => entry.category === category.category)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(entry => sortKeys({ ...entry.values, [category.keyField]: entry.name }));
+
+        if (elements.length > 0) {
+            root[category.tag] = elements;
+        }
+    }
+
+    return new XMLBuilder(BUILDER_OPTIONS).build({
+        '?xml': { '@_version': '1.0', '@_encoding': 'UTF-8' },
+        PermissionSet: { '@_xmlns': METADATA_NAMESPACE, ...sortKeys(root) }
+    });
+}
+
+/**
+ * Folder of the permission sets in the default package directory of sfdx-project.json, relative to the project.
+ */
+export function getPermissionSetDirectory(sfdxProjectJson: { packageDirectories?: { path?: string; default?: boolean }[] }): string | undefined {
+    const directories = (sfdxProjectJson.packageDirectories ?? []).filter(directory => directory.path?.trim());
+    const packageDirectory = directories.find(directory => directory.default) ?? directories[0];
+
+    return packageDirectory && path.join(packageDirectory.path!.trim(), 'main', 'default', 'permissionsets');
+}
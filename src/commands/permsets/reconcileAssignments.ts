@@ -0,0 +1,218 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { runSfCommand, runSfDataQuery } from '../shared/utilities';
+import {
+    ASSIGNMENT_MANIFEST_PATH,
+    ManifestEntry,
+    parseAssignmentManifest,
+    planReconciliation,
+    ReconcileStep,
+    resolveManifestUser,
+    SAMPLE_ASSIGNMENT_MANIFEST
+} from './assignmentManifest';
+import { AssignmentResult, AssignmentUser, formatAssignmentReport, toCollectionOutcome, toSoqlInList } from './assignments';
+import { createAssignments, loadAssignmentItems, loadExistingAssignments } from './bulkAssign';
+import { assignPermissionSets, unassignPermissionSets } from './main';
+import { connectToOrg, deleteRecords } from './orgDataClient';
+
+const CONFIG_SECTION = 'sf-ext-plus';
+const CONFIG_KEY_REMOVE_EXTRAS = 'permissionSetAssignments.removeExtras';
+
+interface OrgOptions {
+    cwd: string;
+    targetOrg: string;
+}
+
+async function loadAliases(cwd: string): Promise<Map<string, string>> {
+    const result = await runSfCommand<{ alias?: string; value?: string }[]>(['alias', 'list'], { cwd, fallbackMessage: 'Failed to list aliases' });
+    return new Map((result ?? []).flatMap((entry) => (entry.alias && entry.value ? [[entry.alias, entry.value] as [string, string]] : [])));
+}
+
+async function readManifest(workspaceRoot: string): Promise<ManifestEntry[] | undefined> {
+    const uri = vscode.Uri.file(path.join(workspaceRoot, ASSIGNMENT_MANIFEST_PATH));
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+        const choice = await vscode.window.showErrorMessage(
+            `No ${ASSIGNMENT_MANIFEST_PATH} found in the workspace.`,
+            'Create Manifest'
+        );
+        if (choice === 'Create Manifest') {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(SAMPLE_ASSIGNMENT_MANIFEST, 'utf8'));
+            await vscode.window.showTextDocument(uri);
+        }
+        return;
+    }
+
+    try {
+        return parseAssignmentManifest(text);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+}
+
+/**
+ * Steps reconciling the org with the manifest, usernames and aliases resolved.
+ */
+async function planManifest(entries: ManifestEntry[], removeExtras: boolean, options: OrgOptions): Promise<ReconcileStep[]> {
+    const aliases = await loadAliases(options.cwd);
+    const resolvedEntries = entries.map((entry) => ({ ...entry, user: resolveManifestUser(entry.user, aliases, options.targetOrg) }));
+    const usernames = [...new Set(resolvedEntries.map((entry) => entry.user))];
+    const userRecords = await runSfDataQuery<{ Id: string; Name: string; Username: string }>(
+        `SELECT Id, Name, Username FROM User WHERE Username IN ${toSoqlInList(usernames)}`,
+        options
+    );
+    const users: AssignmentUser[] = userRecords.map((r) => ({ id: r.Id, username: r.Username, name: r.Name }));
+    const available = await loadAssignmentItems(options);
+    const existing = users.length > 0 ? await loadExistingAssignments(users.map((u) => u.id), options) : [];
+
+    return planReconciliation(resolvedEntries, users, available, existing, { removeExtras });
+}
+
+/**
+ * Run the permission set steps of one user, through the same CLI calls as "Manage Permission Sets".
+ */
+async function applyUserSteps(user: AssignmentUser, steps: ReconcileStep[], options: OrgOptions): Promise<AssignmentResult[]> {
+    const results: AssignmentResult[] = [];
+    const changeOptions = { targetOrg: options.targetOrg, quiet: true };
+
+    const toAssign = steps.filter((s) => s.outcome === 'toAssign');
+    if (toAssign.length > 0) {
+        const change = await assignPermissionSets(toAssign.map((s) => s.item.name), user.username, changeOptions);
+        results.push(...toAssign.map((s) => ({ user, item: s.item, outcome: change.success ? 'assigned' as const : 'failed' as const, message: change.errors.join('; ') || undefined })));
+    }
+
+    const toRemove = steps.filter((s) => s.outcome === 'toRemove');
+    if (toRemove.length > 0) {
+        const change = await unassignPermissionSets(toRemove.map((s) => s.item.name), user.username, changeOptions);
+        results.push(...toRemove.map((s) => ({ user, item: s.item, outcome: change.success ? 'removed' as const : 'failed' as const, message: change.errors.join('; ') || undefined })));
+    }
+
+    return results;
+}
+
+/**
+ * Create and delete the group and license assignments of the steps as records, up to 200 per request.
+ */
+async function applyRecordSteps(steps: ReconcileStep[], options: OrgOptions): Promise<AssignmentResult[]> {
+    const toAssign = steps.filter((s) => s.outcome === 'toAssign');
+    const toRemove = steps.filter((s) => s.outcome === 'toRemove' && s.recordId);
+    try {
+        const connection = await connectToOrg(options.targetOrg, options.cwd);
+        const assigned = await createAssignments(connection, toAssign);
+        const deleted = await deleteRecords(connection, toRemove.map((s) => s.recordId!));
+        return [
+            ...assigned,
+            ...toRemove.map((s, index) => ({ user: s.user, item: s.item, ...toCollectionOutcome(deleted[index], 'removed') }))
+        ];
+    } catch (err) {
+        return [...toAssign, ...toRemove].map((s) => ({ user: s.user, item: s.item, outcome: 'failed', message: (err as Error).message }));
+    }
+}
+
+/**
+ * Bring the default org's assignments in line with the project's manifest, or preview the changes.
+ */
+export async function reconcilePermissionSetAssignments(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    const entries = await readManifest(workspaceRoot);
+    if (!entries) {
+        return;
+    }
+
+    let targetOrg: string;
+    try {
+        targetOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+    const options = { cwd: workspaceRoot, targetOrg };
+
+    const removeExtras = vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>(CONFIG_KEY_REMOVE_EXTRAS, false);
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: 'Preview changes (dry run)', apply: false, detail: 'Show what would change, without changing the org' },
+            {
+                label: 'Apply changes',
+                apply: true,
+                detail: removeExtras
+                    ? 'Assign what is missing and remove assignments the manifest does not list'
+                    : 'Assign what is missing'
+            }
+        ],
+        { title: 'Reconcile Permission Set Assignments', placeHolder: `Reconcile ${targetOrg} with ${ASSIGNMENT_MANIFEST_PATH}` }
+    );
+    if (!mode) {
+        return;
+    }
+
+    let steps: ReconcileStep[];
+    try {
+        steps = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Comparing assignments with the manifest...', cancellable: false },
+            async () => planManifest(entries, removeExtras, options)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to compare assignments: ${(err as Error).message}`);
+        return;
+    }
+
+    const changes = steps.filter((s) => s.outcome === 'toAssign' || s.outcome === 'toRemove');
+
+    if (!mode.apply || changes.length === 0) {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: formatAssignmentReport(`Permission set assignment changes for ${targetOrg} (dry run)`, steps)
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+        if (mode.apply) {
+            vscode.window.showInformationMessage(`${targetOrg} already matches ${ASSIGNMENT_MANIFEST_PATH}.`);
+        }
+        return;
+    }
+
+    const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Reconciling permission set assignments', cancellable: false },
+        async (progress) => {
+            const applied: AssignmentResult[] = steps.filter((s) => s.outcome !== 'toAssign' && s.outcome !== 'toRemove');
+            const permissionSetSteps = changes.filter((s) => s.item.kind === 'permissionSet');
+            const recordSteps = changes.filter((s) => s.item.kind !== 'permissionSet');
+            const users = [...new Map(permissionSetSteps.map((s) => [s.user.id, s.user])).values()];
+
+            for (const user of users) {
+                progress.report({ message: user.username, increment: 100 / users.length });
+                applied.push(...await applyUserSteps(user, permissionSetSteps.filter((s) => s.user.id === user.id), options));
+            }
+
+            if (recordSteps.length > 0) {
+                progress.report({ message: `Changing ${recordSteps.length} group and license assignment(s)...` });
+                applied.push(...await applyRecordSteps(recordSteps, options));
+            }
+
+            return applied;
+        }
+    );
+
+    const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatAssignmentReport(`Permission set assignments reconciled for ${targetOrg}`, results)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const failed = results.filter((r) => r.outcome === 'failed').length;
+    if (failed > 0) {
+        vscode.window.showWarningMessage(`Reconciled ${targetOrg} with ${failed} failure(s). See the report for details.`);
+    } else {
+        vscode.window.showInformationMessage(`${targetOrg} now matches ${ASSIGNMENT_MANIFEST_PATH}.`);
+    }
+}
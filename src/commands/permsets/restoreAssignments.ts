@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { getDefaultOrgUsername } from '../permissioneditor/refresh';
+import { AssignmentItem, AssignmentResult, escapeSoqlString, formatAssignmentReport, toSoqlInList } from './assignments';
+import { createAssignments, reportCollectionProgress } from './bulkAssign';
+import { AssignmentExport, parseAssignmentExport, planRestore } from './deleteImpact';
+import { connectToOrg, OrgConnection, restQuery } from './orgDataClient';
+
+// keeps the SOQL `IN` lists of usernames short enough for the query URL
+const USERNAME_CHUNK_SIZE = 100;
+
+interface PermissionSetRecord {
+    Id: string;
+    Name: string;
+    Label: string;
+}
+
+interface UserRecord {
+    Id: string;
+    Username: string;
+    Name?: string;
+    IsActive: boolean;
+}
+
+async function loadRestoreContext(
+    connection: OrgConnection,
+    exported: AssignmentExport
+): Promise<{ item: AssignmentItem; users: UserRecord[]; assignedUserIds: Set<string> } | undefined> {
+    const [permissionSet] = await restQuery<PermissionSetRecord>(
+        connection,
+        `SELECT Id, Name, Label FROM PermissionSet WHERE Name = '${escapeSoqlString(exported.permissionSet)}' AND IsOwnedByProfile = false`
+    );
+    if (!permissionSet) {
+        return undefined;
+    }
+
+    const users: UserRecord[] = [];
+    const assignedUserIds = new Set<string>();
+    const usernames = exported.assignments.map((a) => a.username);
+    for (let start = 0; start < usernames.length; start += USERNAME_CHUNK_SIZE) {
+        const chunk = await restQuery<UserRecord>(
+            connection,
+            `SELECT Id, Username, Name, IsActive FROM User WHERE Username IN ${toSoqlInList(usernames.slice(start, start + USERNAME_CHUNK_SIZE))}`
+        );
+        users.push(...chunk);
+        if (chunk.length > 0) {
+            const assigned = await restQuery<{ AssigneeId: string }>(
+                connection,
+                `SELECT AssigneeId FROM PermissionSetAssignment WHERE PermissionSetId = '${permissionSet.Id}' AND AssigneeId IN ${toSoqlInList(chunk.map((u) => u.Id))}`
+            );
+            assigned.forEach((a) => assignedUserIds.add(a.AssigneeId));
+        }
+    }
+
+    return {
+        item: { kind: 'permissionSet', id: permissionSet.Id, name: permissionSet.Name, label: permissionSet.Label },
+        users,
+        assignedUserIds
+    };
+}
+
+/**
+ * Assign a permission set again to the users listed in an export made when it was deleted, then open a report.
+ */
+export async function restorePermissionSetAssignments(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders?.length) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a workspace folder.');
+        return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    const [uri] = await vscode.window.showOpenDialog({
+        defaultUri: workspaceFolders[0].uri,
+        filters: { JSON: ['json'] },
+        canSelectMany: false,
+        openLabel: 'Restore',
+        title: 'Select a Permission Set Assignment Export'
+    }) ?? [];
+    if (!uri) {
+        return;
+    }
+
+    let exported: AssignmentExport;
+    try {
+        exported = parseAssignmentExport(fs.readFileSync(uri.fsPath, 'utf8'));
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to read ${vscode.workspace.asRelativePath(uri)}: ${(err as Error).message}`);
+        return;
+    }
+    if (exported.assignments.length === 0) {
+        vscode.window.showInformationMessage('The export lists no assignments.');
+        return;
+    }
+
+    let targetOrg: string;
+    try {
+        targetOrg = await getDefaultOrgUsername(workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage((err as Error).message);
+        return;
+    }
+
+    let connection: OrgConnection;
+    try {
+        connection = await connectToOrg(targetOrg, workspaceRoot);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to get org credentials: ${(err as Error).message}`);
+        return;
+    }
+
+    let restoreContext: Awaited<ReturnType<typeof loadRestoreContext>>;
+    try {
+        restoreContext = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading users...', cancellable: false },
+            async () => loadRestoreContext(connection, exported)
+        );
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to load the users to restore: ${(err as Error).message}`);
+        return;
+    }
+    if (!restoreContext) {
+        vscode.window.showErrorMessage(
+            `Permission set ${exported.permissionSet} does not exist in ${targetOrg}. Deploy or recreate it before restoring its assignments.`
+        );
+        return;
+    }
+    const { item } = restoreContext;
+
+    const plan = planRestore(exported, item, restoreContext.users, restoreContext.assignedUserIds);
+    const pending = plan.filter((step) => step.outcome === 'toAssign');
+    if (pending.length === 0) {
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: formatAssignmentReport(`Restored assignments of ${item.name} in ${targetOrg}`, plan)
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+        vscode.window.showInformationMessage('No assignments to restore.');
+        return;
+    }
+
+    const fromOtherOrg = exported.targetOrg && exported.targetOrg !== targetOrg ? ` The export was made in ${exported.targetOrg}.` : '';
+    const confirm = await vscode.window.showWarningMessage(
+        `Assign ${item.name} to ${pending.length} user(s) in ${targetOrg}?${fromOtherOrg}`,
+        { modal: true },
+        'Assign'
+    );
+    if (confirm !== 'Assign') {
+        return;
+    }
+
+    const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Restoring assignments of ${item.name}`, cancellable: true },
+        async (progress, token): Promise<AssignmentResult[]> => {
+            const restored = await createAssignments(connection, pending, {
+                cancellation: token,
+                onProgress: reportCollectionProgress(progress, 'Restoring')
+            });
+            return [...plan.filter((step) => step.outcome !== 'toAssign'), ...restored];
+        }
+    );
+
+    const document = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatAssignmentReport(`Restored assignments of ${item.name} in ${targetOrg}`, results)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const count = (outcome: AssignmentResult['outcome']) => results.filter((r) => r.outcome === outcome).length;
+    const failed = count('failed');
+    const summary = `Restored ${count('assigned')}, already assigned ${count('alreadyAssigned')}, failed ${failed}, skipped ${count('skipped')}.`;
+    if (failed > 0) {
+        vscode.window.showWarningMessage(summary);
+    } else {
+        vscode.window.showInformationMessage(summary);
+    }
+}
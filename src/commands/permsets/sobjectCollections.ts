@@ -0,0 +1,87 @@
+/**
+ * Pure helpers for the REST sObject Collections API: batches of at most 200 records, the request paths and bodies,
+ * and the per-record results.
+ * No vscode dependencies so they can be tested without mocks.
+ */
+
+// records per sObject Collections request, the API maximum
+export const SOBJECT_COLLECTION_LIMIT = 200;
+
+export const CANCELLED_MESSAGE = 'Cancelled';
+
+/**
+ * Outcome of one record of a collection request. Records of batches not sent because of a cancellation are skipped.
+ */
+export interface RecordResult {
+    // id of the deleted or updated record, or of the created one when it succeeded
+    id: string;
+    success: boolean;
+    skipped?: boolean;
+    message?: string;
+}
+
+/**
+ * A SaveResult or DeleteResult of the sObject Collections API.
+ */
+export interface CollectionSaveResult {
+    id?: string | null;
+    success?: boolean;
+    errors?: { statusCode?: string; message?: string; fields?: string[] }[];
+}
+
+export function toBatches<T>(items: T[], size = SOBJECT_COLLECTION_LIMIT): T[][] {
+    const batches: T[][] = [];
+
+    for (let start = 0; start < items.length; start += size) {
+        batches.push(items.slice(start, start + size));
+    }
+
+    return batches;
+}
+
+/**
+ * Path deleting the records; each record succeeds or fails on its own.
+ */
+export function buildCollectionDeletePath(ids: string[]): string {
+    return `/composite/sobjects?ids=${ids.map(encodeURIComponent).join(',')}&allOrNone=false`;
+}
+
+/**
+ * Body creating or updating the records; each record succeeds or fails on its own.
+ */
+export function buildCollectionBody(sobject: string, records: Record<string, unknown>[]): { allOrNone: false; records: Record<string, unknown>[] } {
+    return { allOrNone: false, records: records.map(record => ({ attributes: { type: sobject }, ...record })) };
+}
+
+function formatErrors(errors: CollectionSaveResult['errors']): string {
+    return (errors ?? []).map(error => error.message ?? error.statusCode ?? 'Unknown error').join('; ') || 'Unknown error';
+}
+
+/**
+ * Results of a batch in request order. `ids` are the requested ids, empty for created records; a missing result
+ * counts as a failure.
+ */
+export function toRecordResults(ids: string[], response: CollectionSaveResult[] | undefined): RecordResult[] {
+    return ids.map((id, index) => {
+        const result = response?.[index];
+
+        if (!result) {
+            return { id, success: false, message: 'No result returned' };
+        }
+
+        return result.success
+            ? { id: result.id ?? id, success: true }
+            : { id: result.id ?? id, success: false, message: formatErrors(result.errors) };
+    });
+}
+
+export function toSkippedResults(ids: string[]): RecordResult[] {
+    return ids.map(id => ({ id, success: false, skipped: true, message: CANCELLED_MESSAGE }));
+}
+
+/**
+ * Results of a batch whose request failed as a whole.
+ */
+export function toFailedResults(ids: string[], message: string): RecordResult[] {
+    return ids.map(id => ({ id, success: false, message }));
+}
@@ -59,3 +59,47 @@ export const executeShellCommand = <T = string>(cmd: string, transform?: (output
             return resolve(transform ? transform(out) : out as unknown as T);
         });
     });
+
+interface SfCommandPayload<T> {
+    status?: number;
+    result?: T;
+    message?: string;
+    name?: string;
+}
+
+/**
+ * Runs a Salesforce CLI command with `--json` in the given folder and returns its result.
+ * The arguments go to the CLI as they are, without a shell, so values such as queries or usernames need no quoting.
+ * Rejects with the CLI message when the command fails or reports a non-zero status.
+ * @param args Arguments of the `sf` command, without `--json`
+ */
+export function runSfCommand<T>(args: string[], options: { cwd: string; fallbackMessage?: string }): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+        cp.execFile('sf', [...args, '--json'], { cwd: options.cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+            let parsed: SfCommandPayload<T> = {};
+
+            try {
+                parsed = JSON.parse(stdout || '{}') as SfCommandPayload<T>;
+            } catch {
+                // the error below is reported with stderr instead
+            }
+
+            if (err || (parsed.status !== 0 && parsed.status !== undefined)) {
+                return reject(new Error(parsed.message ?? parsed.name ?? (stderr?.trim() || err?.message || options.fallbackMessage || 'Salesforce CLI command failed')));
+            }
+
+            resolve(parsed.result);
+        });
+    });
+}
+
+/**
+ * Runs a SOQL query with `sf data query` in the given org and returns its records.
+ */
+export async function runSfDataQuery<T>(soql: string, options: { cwd: string; targetOrg: string }): Promise<T[]> {
+    const result = await runSfCommand<{ records?: T[] }>(
+        ['data', 'query', '--query', soql, '--target-org', options.targetOrg],
+        { cwd: options.cwd, fallbackMessage: 'Query failed' }
+    );
+    return result?.records ?? [];
+}
@@ -1,6 +1,16 @@
 import * as vscode from 'vscode';
 import { activate as activateLabelsAutoComplete } from './commands/labels/load';
 import { activateLabelCreateOnPalette } from './commands/labels/create';
+import { activateLabelDiagnostics } from './commands/labels/diagnostics';
+import { activateLabelValidation } from './commands/labels/validate';
+import { activateLabelFormatDiagnostics } from './commands/labels/formatDiagnostics';
+import { activateLabelManager } from './commands/labels/manage';
+import { activateLabelTranslations } from './commands/labels/translate';
+import { activateLabelExtraction } from './commands/labels/extract';
+import { activateLabelExchange } from './commands/labels/exchange';
+import { activateNearDuplicateLabels } from './commands/labels/nearDuplicates';
+import { activateLabelCategoryView } from './commands/labels/categoryView';
+import { activateLabelOrgSync } from './commands/labels/orgSync';
 import { activate as activatePermissionSetCommands } from './commands/permsets/main';
 import { activate as activeProjectFileWatcher } from './commands/appversion/main';
 import { activate as activatePackageCommands } from './commands/packaging/main';
@@ -15,6 +25,16 @@ export function activate(context: vscode.ExtensionContext) {
 
     activateLabelsAutoComplete(context);
     activateLabelCreateOnPalette(context);
+    activateLabelDiagnostics(context);
+    activateLabelValidation(context);
+    activateLabelFormatDiagnostics(context);
+    activateLabelManager(context);
+    activateLabelTranslations(context);
+    activateLabelExtraction(context);
+    activateLabelExchange(context);
+    activateNearDuplicateLabels(context);
+    activateLabelCategoryView(context);
+    activateLabelOrgSync(context);
 
     // #endregion
 
@@ -16,25 +16,132 @@ export default {
         SHORT_DESCRIPTION_PLACEHOLDER: 'e.g. My Custom Label Short Description',
         ENTER_LABEL_VALUE: 'Enter the label value',
         LABEL_ALREADY_EXISTS_AS: (proposedLabelName: string, existingLabelName: string) => { return `Label "${proposedLabelName}" already exists as "${existingLabelName}"`; },
-        USE_SIMILAR_LABEL: (similarLabelName: string) => { return `Use a similar label "${similarLabelName}"`; },
-        USE_EXISTING_LABEL: (name: string) => { return `Use the existing label "${name}"`; },
+        USE_SIMILAR_LABEL: (similarLabelName: string, sourcePath: string, score: number) => { return `Use a similar label "${similarLabelName}" (${Math.round(score * 100)}% similar, ${sourcePath})`; },
+        USE_EXISTING_LABEL: (name: string, sourcePath: string) => { return `Use the existing label "${name}" (${sourcePath})`; },
         LABELS_NOT_FOUND_IN_WORKSPACE: 'No custom label files found in the workspace. Please retrieve it from the org or create one.',
         LABEL_CREATED_WITH_PATH: (fullName: string, path: string) => { return `Label ${fullName} created successfully in ${path}`; },
         CREATE_LABEL_FOR_PROPOSED_VALUE: (proposedLabelValue: string) => { return `Create label for "${proposedLabelValue}"`; },
         CREATE_LABEL_CODE_ACTION_TITLE: 'Create label',
-        SELECT_A_CUSTOM_LABEL_FILE: 'Select a custom label file to create the new label'
+        SELECT_A_CUSTOM_LABEL_FILE: 'Select a custom label file to create the new label',
+        ADD_TO_LABELS_FILE: 'Add the label to this file',
+        NEW_DECOMPOSED_LABEL_FILE: (fileName: string) => { return `Create ${fileName} in this folder`; },
+        LABEL_SOURCE_DESCRIPTION: (path: string, packageDirectory?: string) => { return packageDirectory ? `${path} (${packageDirectory})` : path; },
+        OPEN_LABEL_DEFINITION: (fileName: string) => { return `Open in ${fileName}`; },
+        MANAGE_LABELS_TITLE: 'Custom Labels',
+        RENAME_LABEL_PROMPT: (fullName: string) => { return `Enter the new API name for ${fullName}, its references and translations are renamed too`; },
+        CONFIRM_DELETE_LABELS: (fullNames: string[]) => { return `Delete ${fullNames.length} label(s) from their label files? ${fullNames.join(', ')}`; },
+        CHANGE_CATEGORIES_PROMPT: (mode: string, labelCount: number) => {
+            const action = mode === 'add' ? 'add to' : mode === 'remove' ? 'remove from' : 'set on';
+            return `Enter the categories to ${action} ${labelCount} label(s) (comma-separated)`;
+        },
+        MISSING_TRANSLATIONS_COUNT: (count: number) => { return `${count} label(s) without translation`; },
+        SELECT_TRANSLATION_LANGUAGE_TO_REVIEW: 'Select a language to list the labels without translation',
+        SELECT_LABEL_TO_TRANSLATE: (language?: string) => { return language ? `Select a label to translate to ${language}` : 'Select a label to translate'; },
+        SELECT_TRANSLATION_LANGUAGE: (fullName: string) => { return `Select the language of the ${fullName} translation`; },
+        OTHER_TRANSLATION_LANGUAGE: 'Other language...',
+        NOT_TRANSLATED: 'Not translated',
+        ENTER_TRANSLATION_LANGUAGE: 'Enter the language code of the translation',
+        TRANSLATION_LANGUAGE_PLACEHOLDER: 'e.g. fr, de, pt_BR',
+        ENTER_TRANSLATION: (fullName: string, language: string) => { return `Enter the ${language} translation of ${fullName}`; },
+        TRANSLATIONS: 'Translations',
+        EDIT_TRANSLATION: 'Add or edit a translation',
+        RENAME_LABEL_EDIT: (fullName: string, newName: string) => { return `Rename label ${fullName} to ${newName}`; },
+        EXTRACT_LITERALS_TITLE: 'Extract String Literals to Labels',
+        EXTRACT_FROM_CURRENT_CLASS: 'Current Apex class',
+        EXTRACT_FROM_FOLDER: 'Apex classes in a folder...',
+        SELECT_EXTRACTION_SCOPE: 'Select where to look for hard-coded strings',
+        SELECT_FOLDER_TO_EXTRACT: 'Extract from this folder',
+        SELECT_EXPORT_FORMAT: 'Select the format to export the labels to',
+        CSV_EXPORT_DESCRIPTION: 'One row per label, one column per translation language',
+        XLIFF_EXPORT_DESCRIPTION: 'One file per target language, for translation tools',
+        SELECT_EXPORT_TARGET_LANGUAGE: 'Select the language to translate the labels to',
+        LABEL_EXCHANGE_FILES: 'CSV or XLIFF files',
+        IMPORT_LABELS: 'Import labels',
+        SKIP_CONFLICTING_LABELS: 'Skip these labels',
+        IMPORT_CONFLICTING_LABELS: 'Import them anyway',
+        IMPORT_LABELS_EDIT: (fileName: string) => { return `Import labels into ${fileName}`; },
+        NEAR_DUPLICATE_CLUSTERS_FOUND: (clusterCount: number) => { return `${clusterCount} group(s) of labels with the same or nearly the same value, select one to review its labels`; },
+        NEAR_DUPLICATE_CLUSTER_DESCRIPTION: (labelCount: number, score: number) => { return `${labelCount} labels, ${Math.round(score * 100)}% similar or more`; },
+        SELECT_NEAR_DUPLICATE_LABEL: 'Select a label to open its definition',
+        LABELS_VIEW_UNCATEGORIZED: 'Uncategorized',
+        LABELS_VIEW_UNKNOWN: 'Unknown',
+        LABELS_VIEW_UNKNOWN_TOOLTIP: 'Labels referenced in the code but not defined in any label file',
+        LABELS_VIEW_REFERENCE_COUNT: (referenceCount: number) => { return `${referenceCount} reference(s)`; },
+        RENAME_CATEGORY_PROMPT: (category: string, labelCount: number) => { return `Enter the new name of the category "${category}", used by ${labelCount} label(s)`; },
+        SELECT_TARGET_CATEGORY: (labelCount: number) => { return `Select the category to move ${labelCount} label(s) to`; },
+        REMOVE_FROM_CATEGORY: 'Remove the labels from their category',
+        NEW_CATEGORY: '$(add) New category...',
+        ENTER_NEW_CATEGORY: 'Enter the name of the new category',
+        CREATE_ANYWAY: 'Create anyway',
+        ORG_COMPARISON_TITLE: 'Custom Labels: Workspace vs Org',
+        CONFIRM_DEPLOY_LABEL: (fullName: string, targetOrg: string) => { return `Deploy the local definition of ${fullName} to ${targetOrg}? The label in the org is overwritten.`; },
+        DEPLOY: 'Deploy',
+        FORMATTED_VALUE: 'Formatted',
+        ALSO_DEFINED_IN: (paths: string[]) => { return `Also defined in: ${paths.join(', ')}`; }
     },
     warningMessages: {
         NO_WORKSPACE_IS_OPENED: 'No workspace folder is opened',
         FAILED_TO_LOAD_LABELS_AT_PATH: (path: string, err: Error) => { return `Failed to load labels from ${path}: ${err}`; },
         FAILED_TO_PARSE_FILE_AT_PATH: (path: string, err: Error) => { return `Failed to parse label file ${path}: ${err}`; },
+        LABEL_NOT_FOUND: (name: string) => { return `Custom label "${name}" does not exist in any label file`; },
+        LABEL_NOT_REFERENCED: (fullName: string) => { return `Custom label "${fullName}" is not referenced in Apex, LWC, Aura or Visualforce`; },
+        DUPLICATE_LABELS_FOUND: (fullNames: string[]) => { return `${fullNames.length} label(s) are defined in more than one file: ${fullNames.join(', ')}`; },
+        NOT_A_LABELS_FILE: (path: string) => { return `${path} is not a CustomLabels metadata file`; },
+        INVALID_LABEL_API_NAME: (name: string) => { return `"${name}" is not a valid label API name: use letters, numbers and single underscores, starting with a letter and not ending with an underscore`; },
+        LABEL_API_NAME_TOO_LONG: (name: string, maxLength: number) => { return `"${name}" is longer than ${maxLength} characters`; },
+        LABEL_VALUE_TOO_LONG: (fullName: string, length: number, maxLength: number) => { return `The value of ${fullName} is ${length} characters long, labels are limited to ${maxLength} characters`; },
+        LABEL_MISSING_NAMESPACE_PREFIX: (fullName: string, prefix: string) => { return `${fullName} does not start with the namespace prefix "${prefix}_"`; },
+        UNPROTECTED_SUBSCRIBER_LABEL: (fullName: string, classNames: string[]) => { return `${fullName} is not protected but is used by subscriber-facing Apex (${classNames.join(', ')}): subscribers can override its value`; },
+        LABEL_RULE_ERRORS: (fullName: string, messages: string[]) => { return `${fullName} can't be created: ${messages.join(' ')}`; },
+        LABEL_RULE_WARNINGS: (fullName: string, messages: string[]) => { return `Create ${fullName} anyway? ${messages.join(' ')}`; },
+        LABEL_NAME_ALREADY_USED: (name: string) => { return `A label named "${name}" already exists`; },
+        LABEL_VALUE_REQUIRED: 'The label value cannot be empty',
+        LABEL_RENAME_NOT_APPLIED: 'the rename could not be applied',
+        FAILED_LABEL_CHANGES: (failures: string[]) => { return `Some label changes could not be saved: ${failures.join('; ')}`; },
+        NOT_A_TRANSLATIONS_FILE: (path: string) => { return `${path} is not a Translations metadata file`; },
+        INVALID_LANGUAGE_CODE: (language: string) => { return `"${language}" is not a valid language code`; },
+        NO_LABEL_TO_RENAME: 'Place the cursor on a custom label reference or on the fullName of a label to rename it',
+        LITERALS_CHANGED_SINCE_SCAN: (locations: string[]) => { return `${locations.length} string literal(s) changed since the scan and were not replaced: ${locations.join(', ')}`; },
+        INVALID_LABELS_CSV: 'The CSV file has no fullName column. Export the labels to CSV to get the expected columns.',
+        UNSUPPORTED_XLIFF_VERSION: (version: string) => { return `XLIFF version ${version} is not supported, use XLIFF 1.2 or 2.0`; },
+        XLIFF_TARGET_LANGUAGE_MISSING: 'The XLIFF file has no target language',
+        FAILED_TO_READ_LABELS_IMPORT: (path: string, err: Error) => { return `Failed to read labels from ${path}: ${err}`; },
+        UNKNOWN_LABELS_IN_IMPORT: (fullNames: string[]) => { return `${fullNames.length} imported label(s) do not exist in the workspace and were ignored: ${fullNames.join(', ')}`; },
+        LABEL_IMPORT_CONFLICTS: (conflicts: string[]) => { return `The value of ${conflicts.length} label(s) changed since the export, their translations may be outdated: ${conflicts.join('; ')}`; },
+        LABEL_NOT_IN_FILE: (fullName: string, path: string) => { return `Label ${fullName} is not defined in ${path}`; },
+        LABEL_ALREADY_IN_FILE: (fullName: string, path: string) => { return `Label ${fullName} is already defined in ${path}`; },
+        FAILED_TO_WRITE_LABEL: (path: string, err: Error) => { return `Failed to write label to ${path}: ${err}`; },
+        INVALID_CATEGORY_NAME: 'A category name cannot be empty or contain a comma',
+        FAILED_TO_LOAD_ORG_LABELS: (err: Error) => { return `Failed to load the custom labels of the default org: ${err.message}`; },
+        FAILED_TO_DEPLOY_LABEL: (fullName: string, err: Error) => { return `Failed to deploy ${fullName}: ${err.message}`; },
+        FORMAT_ARGUMENT_COUNT_MISMATCH: (fullName: string, expected: number, passed: number) => { return `${fullName} expects ${expected} argument(s) for its placeholders but ${passed} are passed to String.format`; },
     },
     informationMessages: {
         NO_LABEL_FILES_FOUND: 'No label files found',
         NO_LABELS_IN_FILE: (path: string) => { return `No labels found in ${path}`; },
         LOADING_LABELS_FROM_PATH: (labelCount: Number, path: string) => { return `Loading ${labelCount} labels from ${path}`; },
         PARSED_LABELS_FROM_FILE: (labelCount: Number) => { return `Parsed ${labelCount} labels from your custom labels metadata file.`; },
-        NO_LABEL_FILE_SELECTED: 'No label file selected. Aborting label creation.'
+        NO_LABEL_FILE_SELECTED: 'No label file selected. Aborting label creation.',
+        NO_TRANSLATION_FILES_FOUND: 'No translation files found. Add a translation to a label to create one.',
+        ALL_LABELS_TRANSLATED: (language: string) => { return `Every label has a ${language} translation`; },
+        TRANSLATION_SAVED: (fullName: string, language: string, path: string) => { return `Saved the ${language} translation of ${fullName} in ${path}`; },
+        SCANNING_STRING_LITERALS: 'Looking for hard-coded strings...',
+        NO_STRING_LITERALS_FOUND: 'No user-facing string literals found',
+        STRING_LITERALS_EXTRACTED: (labelCount: number, replacedCount: number) => { return `Created ${labelCount} label(s) and replaced ${replacedCount} string literal(s)`; },
+        LABELS_EXPORTED: (labelCount: number, path: string) => { return `Exported ${labelCount} label(s) to ${path}`; },
+        NOTHING_TO_IMPORT: 'The imported file has no changes for the labels in the workspace',
+        LABELS_IMPORTED: (labelCount: number, translationCount: number) => { return `Imported ${labelCount} label change(s) and ${translationCount} translation(s)`; },
+        FINDING_NEAR_DUPLICATE_LABELS: 'Looking for near-duplicate labels...',
+        NO_NEAR_DUPLICATE_LABELS: (threshold: number) => { return `No labels with values ${Math.round(threshold * 100)}% similar or more`; },
+        LABEL_REFERENCE_COPIED: (reference: string) => { return `Copied ${reference} to the clipboard`; },
+        LOADING_ORG_LABELS: 'Loading the custom labels of the default org...',
+        DEPLOYING_LABEL: (fullName: string, targetOrg: string) => { return `Deploying ${fullName} to ${targetOrg}...`; },
+        LABEL_DEPLOYED: (fullName: string, targetOrg: string) => { return `Deployed ${fullName} to ${targetOrg}`; },
+        CHECKING_LABEL_USAGE: 'Checking custom label usage...',
+        VALIDATING_LABELS: 'Validating custom labels...',
+        LABEL_VALIDATION_SUMMARY: (errorCount: number, warningCount: number) => { return `Found ${errorCount} error(s) and ${warningCount} warning(s) in the custom labels. See the Problems panel for details.`; },
+        SCANNING_FILE: (current: number, total: number) => { return `Scanning file ${current}/${total}`; },
+        LABEL_USAGE_SUMMARY: (missingCount: number, unusedCount: number) => { return `Found ${missingCount} reference(s) to missing labels and ${unusedCount} unused label(s). See the Problems panel for details.`; }
     },
     misc: {
         YES: 'Yes',
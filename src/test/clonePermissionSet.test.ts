@@ -0,0 +1,69 @@
+import { describe, expect, test } from '@jest/globals';
+import { clonePermissionSetXml, listPresentSections, readPermissionSetSummary } from '../commands/permsets/cloneMetadata';
+
+const BASE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<PermissionSet xmlns="http://soap.sforce.com/2006/04/metadata">
+    <classAccesses>
+        <apexClass>OrderService</apexClass>
+        <enabled>true</enabled>
+    </classAccesses>
+    <description>0042 &amp; more</description>
+    <hasActivationRequired>false</hasActivationRequired>
+    <label>Base Feature</label>
+    <userPermissions>
+        <enabled>true</enabled>
+        <name>ApiEnabled</name>
+    </userPermissions>
+    <userPermissions>
+        <enabled>true</enabled>
+        <name>RunReports</name>
+    </userPermissions>
+</PermissionSet>
+`;
+
+describe('readPermissionSetSummary', () => {
+    test('reads the label and description as written', () => {
+        expect(readPermissionSetSummary(BASE_XML)).toEqual({ label: 'Base Feature', description: '0042 & more' });
+    });
+
+    test('rejects other metadata', () => {
+        expect(() => readPermissionSetSummary('<Profile><custom>false</custom></Profile>')).toThrow('not PermissionSet metadata');
+    });
+});
+
+describe('listPresentSections', () => {
+    test('lists the sections with their number of entries', () => {
+        expect(listPresentSections(BASE_XML)).toEqual([
+            { tag: 'classAccesses', label: 'Apex class access', count: 1 },
+            { tag: 'userPermissions', label: 'User permissions', count: 2 }
+        ]);
+    });
+});
+
+describe('clonePermissionSetXml', () => {
+    test('rewrites the label and description and keeps the rest', () => {
+        const xml = clonePermissionSetXml(BASE_XML, { label: ' Team <A> ', description: 'For team A', stripSections: [] });
+
+        expect(xml).toContain('<PermissionSet xmlns="http://soap.sforce.com/2006/04/metadata">');
+        expect(xml).toContain('<label>Team &lt;A&gt;</label>');
+        expect(xml).toContain('<description>For team A</description>');
+        expect(xml).toContain('<apexClass>OrderService</apexClass>');
+        expect(xml.match(/<userPermissions>/g)).toHaveLength(2);
+    });
+
+    test('strips the selected sections and an empty description', () => {
+        const xml = clonePermissionSetXml(BASE_XML, { label: 'Team A', description: ' ', stripSections: ['classAccesses'] });
+
+        expect(xml).not.toContain('classAccesses');
+        expect(xml).not.toContain('<description>');
+        expect(xml).toContain('<name>RunReports</name>');
+    });
+
+    test('adds a missing description in element order', () => {
+        const source = '<PermissionSet><label>Empty</label><hasActivationRequired>false</hasActivationRequired></PermissionSet>';
+        const xml = clonePermissionSetXml(source, { label: 'Copy', description: 'New', stripSections: [] });
+
+        expect(xml.indexOf('<description>')).toBeLessThan(xml.indexOf('<hasActivationRequired>'));
+        expect(xml.indexOf('<hasActivationRequired>')).toBeLessThan(xml.indexOf('<label>'));
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from '@jest/globals';
+import { fuzzyScore, LabelCandidate, LabelRankingContext, rankLabels, RecentLabels, splitNamespacePrefix } from '../commands/labels/completionRanking';
+
+const CANDIDATES: LabelCandidate[] = [
+    { fullName: 'Welcome_Message', value: 'Welcome back!', categories: ['Home'] },
+    { fullName: 'Error_Generic', value: 'Something went wrong', categories: ['Errors'] },
+    { fullName: 'acme_Save', value: 'Save changes', categories: ['Forms'] },
+    { fullName: 'acme_Cancel', value: 'Cancel', categories: ['Forms'] },
+    { fullName: 'Wrong_Password', value: 'The password is incorrect', categories: ['Errors'] }
+];
+
+const NO_CONTEXT: LabelRankingContext = { recentLabels: [], documentCategories: new Set<string>(), namespaces: [] };
+
+function names(query: string, context = NO_CONTEXT): string[] {
+    return rankLabels(query, CANDIDATES, context).map(ranked => ranked.fullName);
+}
+
+describe('fuzzyScore', () => {
+    test('matches characters in order, ignoring case, spaces and underscores', () => {
+        expect(fuzzyScore('welcomeback', 'Welcome back!')).toBeDefined();
+        expect(fuzzyScore('welcome_back', 'Welcome back!')).toBeDefined();
+        expect(fuzzyScore('wmsg', 'Welcome_Message')).toBeDefined();
+        expect(fuzzyScore('backwelcome', 'Welcome back!')).toBeUndefined();
+        expect(fuzzyScore('', 'anything')).toBe(0);
+    });
+
+    test('scores prefixes, word starts and consecutive characters higher', () => {
+        expect(fuzzyScore('wel', 'Welcome_Message')!).toBeGreaterThan(fuzzyScore('wel', 'Two_Elements')!);
+        expect(fuzzyScore('em', 'Error_Message')!).toBeGreaterThan(fuzzyScore('em', 'Remember')!);
+    });
+});
+
+describe('splitNamespacePrefix', () => {
+    test('splits a known namespace prefix off the query', () => {
+        expect(splitNamespacePrefix('acme_Sa', ['acme'])).toEqual({ namespace: 'acme', query: 'Sa' });
+        expect(splitNamespacePrefix('ACME_', ['acme'])).toEqual({ namespace: 'acme', query: '' });
+        expect(splitNamespacePrefix('other_Sa', ['acme'])).toEqual({ query: 'other_Sa' });
+    });
+});
+
+describe('rankLabels', () => {
+    test('matches the API name and the value', () => {
+        expect(names('welcome')[0]).toBe('Welcome_Message');
+        expect(names('wentwrong')).toEqual(['Error_Generic']);
+        expect(names('passwordincorrect')).toEqual(['Wrong_Password']);
+    });
+
+    test('returns every label for an empty query, by name', () => {
+        expect(names('')).toEqual(['acme_Cancel', 'acme_Save', 'Error_Generic', 'Welcome_Message', 'Wrong_Password']);
+    });
+
+    test('restricts the labels to a namespace prefix', () => {
+        expect(names('acme_', { ...NO_CONTEXT, namespaces: ['acme'] })).toEqual(['acme_Cancel', 'acme_Save']);
+        expect(names('acme_sav', { ...NO_CONTEXT, namespaces: ['acme'] })).toEqual(['acme_Save']);
+    });
+
+    test('ranks recently used labels and labels of the document categories first', () => {
+        expect(names('', { ...NO_CONTEXT, recentLabels: ['Wrong_Password', 'Error_Generic'] }).slice(0, 2)).toEqual(['Wrong_Password', 'Error_Generic']);
+        expect(names('', { ...NO_CONTEXT, documentCategories: new Set(['Forms']) }).slice(0, 2)).toEqual(['acme_Cancel', 'acme_Save']);
+    });
+});
+
+describe('RecentLabels', () => {
+    test('keeps the most recent first, without duplicates, up to the maximum size', () => {
+        const recent = new RecentLabels(['A', 'B'], 3);
+
+        recent.touch('C');
+        recent.touch('A');
+        recent.touch('D');
+
+        expect(recent.entries).toEqual(['D', 'A', 'C']);
+    });
+});
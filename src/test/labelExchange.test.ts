@@ -0,0 +1,145 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    buildLabelsCsv,
+    buildLabelsXliff,
+    CurrentLabel,
+    ExchangeLabel,
+    fromXliffLanguage,
+    parseCsv,
+    parseLabelsCsv,
+    parseLabelsXliff,
+    planLabelsImport,
+    toCsv,
+    toXliffLanguage
+} from '../commands/labels/exchangeFormats';
+
+const EXCHANGE_LABELS: ExchangeLabel[] = [
+    {
+        fullName: 'Greeting',
+        language: 'en_US',
+        value: 'Hello, "friend" & welcome',
+        shortDescription: 'Greeting',
+        categories: 'Home,Welcome',
+        translations: { fr: 'Bonjour' }
+    },
+    {
+        fullName: 'Farewell',
+        language: 'en_US',
+        value: 'Goodbye\nsee you',
+        shortDescription: '',
+        categories: '',
+        translations: { 'pt_BR': 'Tchau' }
+    }
+];
+
+describe('CSV', () => {
+    test('round-trips cells with commas, quotes and line breaks', () => {
+        const rows = [['a', 'b,c', 'say "hi"'], ['line\nbreak', ' padded', '']];
+
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+
+    test('ignores blank lines and accepts LF line endings', () => {
+        expect(parseCsv('a,b\n\nc,d\n')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    test('exports labels with one column per translation language and reads them back', () => {
+        const csv = buildLabelsCsv(EXCHANGE_LABELS, ['fr', 'pt_BR']);
+
+        expect(csv.startsWith('\uFEFFfullName,language,value,shortDescription,categories,fr,pt_BR\r\n')).toBe(true);
+        expect(parseLabelsCsv(csv)).toEqual([
+            {
+                fullName: 'Greeting',
+                sourceValue: 'Hello, "friend" & welcome',
+                shortDescription: 'Greeting',
+                categories: 'Home,Welcome',
+                translations: { fr: 'Bonjour' }
+            },
+            {
+                fullName: 'Farewell',
+                sourceValue: 'Goodbye\nsee you',
+                shortDescription: '',
+                categories: '',
+                translations: { 'pt_BR': 'Tchau' }
+            }
+        ]);
+    });
+
+    test('rejects files without a fullName column', () => {
+        expect(() => parseLabelsCsv('name,value\nGreeting,Hello\n')).toThrow();
+    });
+});
+
+describe('XLIFF', () => {
+    test('converts language codes', () => {
+        expect(toXliffLanguage('pt_BR')).toBe('pt-BR');
+        expect(fromXliffLanguage('pt-BR')).toBe('pt_BR');
+    });
+
+    test.each(['1.2', '2.0'] as const)('exports and reads back XLIFF %s', async version => {
+        const xliff = buildLabelsXliff(EXCHANGE_LABELS, 'en_US', 'fr', version);
+
+        expect(xliff).toContain(`<xliff version="${version}"`);
+        expect(xliff).toContain('<source>Hello, &quot;friend&quot; &amp; welcome</source>');
+
+        const parsed = await parseLabelsXliff(xliff);
+
+        expect(parsed.version).toBe(version);
+        expect(parsed.targetLanguage).toBe('fr');
+        expect(parsed.labels).toEqual([
+            {
+                fullName: 'Greeting',
+                sourceValue: 'Hello, "friend" & welcome',
+                shortDescription: 'Greeting',
+                categories: 'Home,Welcome',
+                translations: { fr: 'Bonjour' }
+            },
+            {
+                fullName: 'Farewell',
+                sourceValue: 'Goodbye\nsee you',
+                shortDescription: undefined,
+                categories: undefined,
+                translations: {}
+            }
+        ]);
+    });
+
+    test('rejects other XLIFF versions', async () => {
+        await expect(parseLabelsXliff('<xliff version="1.1"><file/></xliff>')).rejects.toThrow();
+    });
+});
+
+describe('planLabelsImport', () => {
+    const current: Record<string, CurrentLabel> = {
+        Greeting: { value: 'Hello', shortDescription: 'Greeting', categories: 'Home', translations: { fr: 'Salut' } },
+        Farewell: { value: 'Goodbye', translations: {} }
+    };
+
+    test('keeps only what changed', () => {
+        const plan = planLabelsImport([
+            { fullName: 'Greeting', sourceValue: 'Hello', shortDescription: 'Greeting', categories: ' Home , Welcome ', translations: { fr: 'Bonjour', de: 'Hallo' } },
+            { fullName: 'Farewell', sourceValue: 'Goodbye', shortDescription: '', categories: '', translations: {} }
+        ], fullName => current[fullName]);
+
+        expect(plan).toEqual({
+            labelUpdates: [{ fullName: 'Greeting', categories: 'Home,Welcome' }],
+            translationUpdates: [
+                { fullName: 'Greeting', language: 'fr', value: 'Bonjour' },
+                { fullName: 'Greeting', language: 'de', value: 'Hallo' }
+            ],
+            conflicts: [],
+            unknownLabels: []
+        });
+    });
+
+    test('reports labels whose value changed since the export and unknown labels', () => {
+        const plan = planLabelsImport([
+            { fullName: 'Greeting', sourceValue: 'Hi', translations: { fr: 'Bonjour' } },
+            { fullName: 'Missing', sourceValue: 'Nope', translations: { fr: 'Non' } }
+        ], fullName => current[fullName]);
+
+        expect(plan.conflicts).toEqual([{ fullName: 'Greeting', exportedValue: 'Hi', currentValue: 'Hello' }]);
+        expect(plan.unknownLabels).toEqual(['Missing']);
+        expect(plan.translationUpdates).toEqual([{ fullName: 'Greeting', language: 'fr', value: 'Bonjour' }]);
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    findApexStringLiterals,
+    isApexTestClass,
+    isUserFacingLiteral,
+    proposeLabelName,
+    unescapeApexString
+} from '../commands/labels/extraction';
+
+const APEX_CLASS = `public with sharing class AccountService {
+    // 'commented out'
+    /* 'also commented' */
+    @AuraEnabled(cacheable=true)
+    @RestResource(urlMapping='/accounts/*')
+    public static String describe(Account account) {
+        System.debug('Describing account');
+        List<Account> accounts = [SELECT Id FROM Account WHERE Type = 'Customer'];
+        Schema.SObjectType accountType = Schema.getGlobalDescribe().get('Account');
+        if (account.Type == 'Partner') {
+            throw new AuraHandledException('You can\\'t update this account.');
+        }
+        switch on account.Rating {
+            when 'Hot' { return 'Hot'; }
+        }
+        return 'Cancel';
+    }
+}`;
+
+function valuesOf(text: string, userFacingOnly = false): string[] {
+    return findApexStringLiterals(text)
+        .filter(literal => !userFacingOnly || isUserFacingLiteral(literal))
+        .map(literal => literal.value);
+}
+
+describe('findApexStringLiterals', () => {
+    test('finds literals outside comments with their offsets', () => {
+        const literals = findApexStringLiterals(APEX_CLASS);
+
+        expect(literals.map(literal => literal.value)).not.toContain('commented out');
+        expect(literals.map(literal => literal.value)).not.toContain('also commented');
+
+        for (const literal of literals) {
+            expect(APEX_CLASS[literal.start]).toBe('\'');
+            expect(APEX_CLASS[literal.end - 1]).toBe('\'');
+        }
+    });
+
+    test('records the context the literal is used in', () => {
+        const literals = findApexStringLiterals(APEX_CLASS);
+        const find = (value: string) => literals.find(literal => literal.value === value)!;
+
+        expect(find('/accounts/*').annotation).toBe(true);
+        expect(find('Describing account').call).toBe('debug');
+        expect(find('Customer').query).toBe(true);
+        expect(find('Account').call).toBe('get');
+        expect(find('Partner').comparison).toBe(true);
+        expect(find('You can\'t update this account.').call).toBe('aurahandledexception');
+    });
+
+    test('skips unterminated literals', () => {
+        expect(valuesOf('String a = \'broken;\nString b = \'ok\';')).toEqual(['ok']);
+    });
+});
+
+describe('unescapeApexString', () => {
+    test('resolves escape sequences', () => {
+        expect(unescapeApexString('It\\\'s\\na \\\\ \\u0041')).toBe('It\'s\na \\ A');
+    });
+});
+
+describe('isUserFacingLiteral', () => {
+    test('keeps text shown to users only', () => {
+        expect(valuesOf(APEX_CLASS, true)).toEqual(['You can\'t update this account.', 'Cancel']);
+    });
+
+    test('skips API names, keys and values without letters', () => {
+        expect(valuesOf('a = \'Account__c\'; b = \'myKey\'; c = \'123\'; d = \' \'; e = \'SELECT Id FROM Account\';', true)).toEqual([]);
+    });
+});
+
+describe('isApexTestClass', () => {
+    test('detects test classes', () => {
+        expect(isApexTestClass('@isTest\nprivate class AccountServiceTest {}')).toBe(true);
+        expect(isApexTestClass('@IsTest(SeeAllData=false)\nprivate class AccountServiceTest {}')).toBe(true);
+        expect(isApexTestClass(APEX_CLASS)).toBe(false);
+    });
+});
+
+describe('proposeLabelName', () => {
+    const none = () => false;
+
+    test('joins the first words of the value', () => {
+        expect(proposeLabelName('You can\'t update this account.', none)).toBe('You_can_t_update_this');
+        expect(proposeLabelName('Cancel', none)).toBe('Cancel');
+        expect(proposeLabelName('!!!', none)).toBe('Label');
+    });
+
+    test('prefixes the namespace', () => {
+        expect(proposeLabelName('Save changes', none, 'acme')).toBe('acme_Save_changes');
+    });
+
+    test('produces valid API names', () => {
+        expect(proposeLabelName('3 records updated', none)).toBe('x3_records_updated');
+        expect(proposeLabelName(`${'a'.repeat(79)}_ b`, none)).toBe('a'.repeat(79));
+    });
+
+    test('numbers names that are taken', () => {
+        const taken = new Set(['Cancel', 'Cancel_2']);
+
+        expect(proposeLabelName('Cancel', name => taken.has(name))).toBe('Cancel_3');
+    });
+});
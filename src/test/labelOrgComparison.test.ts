@@ -0,0 +1,50 @@
+import { describe, expect, test } from '@jest/globals';
+import { compareLabels, ExternalStringRecord, filterProjectLabelRecords, toOrgLabel } from '../commands/labels/orgComparison';
+
+describe('toOrgLabel', () => {
+    test('maps the ExternalString fields to a label', () => {
+        expect(toOrgLabel({ Name: 'Greeting', Value: 'Hello', Category: 'Home', Language: 'en_US', IsProtected: true, MasterLabel: 'Greeting text' })).toEqual({
+            fullName: 'Greeting',
+            value: 'Hello',
+            categories: 'Home',
+            language: 'en_US',
+            protected: true,
+            shortDescription: 'Greeting text'
+        });
+        expect(toOrgLabel({ Name: 'Bare', Value: 'x', Category: null, MasterLabel: null })).toMatchObject({ categories: undefined, protected: false, shortDescription: undefined });
+    });
+});
+
+describe('filterProjectLabelRecords', () => {
+    test('keeps labels without namespace or in the project namespace', () => {
+        const records: ExternalStringRecord[] = [
+            { Name: 'Local', Value: 'a' },
+            { Name: 'Own', Value: 'b', NamespacePrefix: 'acme' },
+            { Name: 'Installed', Value: 'c', NamespacePrefix: 'other' }
+        ];
+
+        expect(filterProjectLabelRecords(records, 'acme').map(record => record.Name)).toEqual(['Local', 'Own']);
+        expect(filterProjectLabelRecords(records).map(record => record.Name)).toEqual(['Local']);
+    });
+});
+
+describe('compareLabels', () => {
+    test('lists labels only local, only in the org or with different values', () => {
+        const local = [
+            { fullName: 'Same', value: 'same' },
+            { fullName: 'Changed', value: 'new' },
+            { fullName: 'New_Label', value: 'local' }
+        ];
+        const org = [
+            { fullName: 'same', value: 'same' },
+            { fullName: 'Changed', value: 'old' },
+            { fullName: 'Org_Label', value: 'remote' }
+        ];
+
+        expect(compareLabels(local, org)).toEqual([
+            { fullName: 'Changed', status: 'different', localValue: 'new', orgValue: 'old' },
+            { fullName: 'New_Label', status: 'localOnly', localValue: 'local' },
+            { fullName: 'Org_Label', status: 'orgOnly', orgValue: 'remote' }
+        ]);
+    });
+});
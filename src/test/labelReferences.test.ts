@@ -0,0 +1,205 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    createLineIndex,
+    expandToStringLiteral,
+    findLabelReferenceAt,
+    findLabelReferences,
+    formatLabelReference,
+    getLabelCompletionContext,
+    getLabelReferenceKind,
+    maskApexCommentsAndStrings,
+    planLabelImport,
+    toLabelImportIdentifier,
+    unquote
+} from '../commands/labels/referenceSyntax';
+import { findLabelElementOffsets, findLabelFullNameAt } from '../commands/labels/parse';
+
+describe('getLabelReferenceKind', () => {
+    test('detects the reference syntax from the file path', () => {
+        expect(getLabelReferenceKind('/p/force-app/main/default/classes/MyClass.cls')).toBe('apex');
+        expect(getLabelReferenceKind('/p/force-app/main/default/triggers/MyTrigger.trigger')).toBe('apex');
+        expect(getLabelReferenceKind('/p/force-app/main/default/lwc/myCmp/myCmp.js')).toBe('lwc');
+        expect(getLabelReferenceKind('/p/force-app/main/default/aura/MyCmp/MyCmp.cmp')).toBe('aura');
+        expect(getLabelReferenceKind('/p/force-app/main/default/aura/MyCmp/MyCmpController.js')).toBe('aura');
+        expect(getLabelReferenceKind('/p/force-app/main/default/pages/MyPage.page')).toBe('visualforce');
+        expect(getLabelReferenceKind('/p/force-app/main/default/components/MyComp.component')).toBe('visualforce');
+    });
+
+    test('returns undefined for files that cannot reference labels', () => {
+        expect(getLabelReferenceKind('/p/scripts/build.js')).toBeUndefined();
+        expect(getLabelReferenceKind('/p/force-app/main/default/labels/CustomLabels.labels-meta.xml')).toBeUndefined();
+    });
+});
+
+describe('findLabelReferences', () => {
+    test('finds Label.X and System.Label.X in Apex, case-insensitive', () => {
+        const text = 'String a = Label.First;\nString b = System.Label.Second + system.label.Third;';
+        const references = findLabelReferences(text, 'apex');
+        expect(references.map(reference => reference.name)).toEqual(['First', 'Second', 'Third']);
+        expect(text.slice(references[1].start, references[1].end)).toBe('System.Label.Second');
+        expect(text.slice(references[1].nameStart, references[1].nameEnd)).toBe('Second');
+    });
+
+    test('does not match identifiers that only end with Label in Apex', () => {
+        expect(findLabelReferences('myLabel.Value; obj.Label.Value;', 'apex')).toHaveLength(0);
+    });
+
+    test('does not match Label.get() calls in Apex', () => {
+        expect(findLabelReferences(`Label.get('', 'Greeting')`, 'apex')).toHaveLength(0);
+    });
+
+    test('finds LWC label imports', () => {
+        const text = `import greeting from '@salesforce/label/c.Greeting';\nimport other from "@salesforce/label/ns.Other";`;
+        const references = findLabelReferences(text, 'lwc');
+        expect(references.map(reference => reference.name)).toEqual(['Greeting', 'Other']);
+        expect(references.map(reference => reference.namespace)).toEqual(['c', 'ns']);
+    });
+
+    test('finds Aura $Label.c.X expressions in markup and JavaScript', () => {
+        const text = `<ui:outputText value="{!$Label.c.Greeting}"/>\n$A.get("$Label.c.Farewell");`;
+        expect(findLabelReferences(text, 'aura').map(reference => reference.name)).toEqual(['Greeting', 'Farewell']);
+    });
+
+    test('finds Visualforce $Label.X expressions', () => {
+        const text = `<apex:outputText value="{!$Label.Greeting}"/>`;
+        const references = findLabelReferences(text, 'visualforce');
+        expect(references.map(reference => reference.name)).toEqual(['Greeting']);
+        expect(findLabelReferences('{!$Label.c.Greeting}', 'visualforce')).toHaveLength(0);
+    });
+
+    test('findLabelReferenceAt returns the reference containing the offset', () => {
+        const text = 'x = Label.First + Label.Second;';
+        expect(findLabelReferenceAt(text, 'apex', text.indexOf('Second'))?.name).toBe('Second');
+        expect(findLabelReferenceAt(text, 'apex', 0)).toBeUndefined();
+    });
+    test('maskApexCommentsAndStrings leaves only references made in code, at their offsets', () => {
+        const text = "// Label.InLineComment\nString a = Label.Used; /* Label.InBlock\n */ String b = 'Label.InString \\' x';";
+        const masked = maskApexCommentsAndStrings(text);
+        const references = findLabelReferences(masked, 'apex');
+
+        expect(masked).toHaveLength(text.length);
+        expect(masked.split('\n')).toHaveLength(3);
+        expect(references.map(reference => reference.name)).toEqual(['Used']);
+        expect(text.slice(references[0].nameStart, references[0].nameEnd)).toBe('Used');
+    });
+});
+
+describe('label definition offsets', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">
+    <labels>
+        <fullName>First</fullName>
+        <value>One</value>
+    </labels>
+    <labels>
+        <fullName>Second</fullName>
+        <value>Two</value>
+    </labels>
+</CustomLabels>`;
+
+    test('findLabelElementOffsets returns the <labels> element of the label', () => {
+        const offsets = findLabelElementOffsets(xml, 'Second');
+        expect(offsets).toBeDefined();
+        const element = xml.slice(offsets!.start, offsets!.end);
+        expect(element.startsWith('<labels>')).toBe(true);
+        expect(element).toContain('<fullName>Second</fullName>');
+        expect(element).not.toContain('First');
+        expect(xml.slice(offsets!.nameStart, offsets!.nameEnd)).toBe('Second');
+    });
+
+    test('findLabelElementOffsets does not match a label that only starts with the name', () => {
+        expect(findLabelElementOffsets(xml, 'Sec')).toBeUndefined();
+    });
+
+    test('findLabelElementOffsets returns the root element of a decomposed label file', () => {
+        const decomposed = `<?xml version="1.0" encoding="UTF-8"?>\n<CustomLabel xmlns="http://soap.sforce.com/2006/04/metadata">\n    <value>One</value>\n</CustomLabel>`;
+        const offsets = findLabelElementOffsets(decomposed, 'Anything');
+        expect(decomposed.slice(offsets!.start, offsets!.end).startsWith('<CustomLabel')).toBe(true);
+        expect(offsets!.nameStart).toBeUndefined();
+    });
+
+    test('findLabelFullNameAt returns the fullName under the offset', () => {
+        expect(findLabelFullNameAt(xml, xml.indexOf('Second'))).toBe('Second');
+        expect(findLabelFullNameAt(xml, xml.indexOf('Two'))).toBeUndefined();
+    });
+
+    test('createLineIndex converts offsets to line and character', () => {
+        const toPosition = createLineIndex('ab\ncd\n\nef');
+        expect(toPosition(0)).toEqual({ line: 0, character: 0 });
+        expect(toPosition(4)).toEqual({ line: 1, character: 1 });
+        expect(toPosition(7)).toEqual({ line: 3, character: 0 });
+    });
+});
+
+describe('getLabelCompletionContext', () => {
+    test('matches an incomplete reference at the end of the line for each syntax', () => {
+        expect(getLabelCompletionContext('String s = System.Label.', 'apex')).toEqual({ namespace: undefined, partialName: '' });
+        expect(getLabelCompletionContext('String s = label.Gre', 'apex')?.partialName).toBe('Gre');
+        expect(getLabelCompletionContext(`import greeting from '@salesforce/label/c.`, 'lwc')).toEqual({ namespace: 'c', partialName: '' });
+        expect(getLabelCompletionContext('<ui:outputText value="{!$Label.c.Gr', 'aura')).toEqual({ namespace: 'c', partialName: 'Gr' });
+        expect(getLabelCompletionContext('<apex:outputText value="{!$Label.', 'visualforce')?.partialName).toBe('');
+    });
+
+    test('does not match identifiers that only end with label', () => {
+        expect(getLabelCompletionContext('myLabel.', 'apex')).toBeUndefined();
+        expect(getLabelCompletionContext('{!$Label.', 'aura')).toBeUndefined();
+    });
+    test('keeps words separated by spaces to search by value, but not across operators', () => {
+        expect(getLabelCompletionContext('String s = Label.welcome ba', 'apex')?.partialName).toBe('welcome ba');
+        expect(getLabelCompletionContext('<apex:outputText value="{!$Label.Welcome back', 'visualforce')?.partialName).toBe('Welcome back');
+        expect(getLabelCompletionContext('{!$Label.c.thank you', 'aura')).toEqual({ namespace: 'c', partialName: 'thank you' });
+        expect(getLabelCompletionContext('String s = Label.Greeting + name', 'apex')).toBeUndefined();
+        expect(getLabelCompletionContext('String s = Label.welcome  ba', 'apex')).toBeUndefined();
+    });
+});
+
+describe('label insertion', () => {
+    test('formatLabelReference follows each syntax', () => {
+        expect(formatLabelReference('apex', 'Greeting')).toBe('System.Label.Greeting');
+        expect(formatLabelReference('aura', 'Greeting')).toBe('{!$Label.c.Greeting}');
+        expect(formatLabelReference('aura', 'Greeting', true)).toBe(`$A.get('$Label.c.Greeting')`);
+        expect(formatLabelReference('visualforce', 'Greeting')).toBe('{!$Label.Greeting}');
+        expect(formatLabelReference('lwc', 'Error_Message')).toBe('errorMessage');
+    });
+
+    test('toLabelImportIdentifier converts API names to camel case', () => {
+        expect(toLabelImportIdentifier('Error_Message')).toBe('errorMessage');
+        expect(toLabelImportIdentifier('MyLabel')).toBe('myLabel');
+        expect(toLabelImportIdentifier('ns__Some_label')).toBe('nsSomeLabel');
+    });
+
+    test('planLabelImport inserts after the last import', () => {
+        const text = `import { LightningElement } from 'lwc';\nimport {\n    api\n} from 'x';\n\nexport default class A {}`;
+        const plan = planLabelImport(text, 'Greeting');
+        expect(plan.identifier).toBe('greeting');
+        expect(plan.insertOffset).toBe(text.indexOf(`'x';`) + 4);
+        expect(plan.importStatement).toBe(`\nimport greeting from '@salesforce/label/c.Greeting';`);
+    });
+
+    test('planLabelImport inserts at the top of modules without imports', () => {
+        expect(planLabelImport('export default {};', 'Greeting')).toEqual({
+            identifier: 'greeting',
+            importStatement: `import greeting from '@salesforce/label/c.Greeting';\n`,
+            insertOffset: 0
+        });
+    });
+
+    test('planLabelImport reuses an existing import and avoids name clashes', () => {
+        expect(planLabelImport(`import hello from '@salesforce/label/c.Greeting';`, 'Greeting')).toEqual({ identifier: 'hello' });
+        expect(planLabelImport('const greeting = 1;', 'Greeting').identifier).toBe('greetingLabel');
+    });
+
+    test('expandToStringLiteral includes the quotes around the selection', () => {
+        const text = `x = 'Hello' + "World";`;
+        const start = text.indexOf('Hello');
+        expect(expandToStringLiteral(text, start, start + 5)).toEqual({ start: start - 1, end: start + 6 });
+        expect(expandToStringLiteral(text, start - 1, start + 6)).toEqual({ start: start - 1, end: start + 6 });
+        expect(expandToStringLiteral(text, start, start + 3)).toEqual({ start, end: start + 3 });
+    });
+
+    test('unquote removes matching quotes only', () => {
+        expect(unquote(`'Hello'`)).toBe('Hello');
+        expect(unquote('"Hello"')).toBe('Hello');
+        expect(unquote(`'Hello"`)).toBe(`'Hello"`);
+    });
+});
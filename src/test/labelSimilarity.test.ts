@@ -0,0 +1,62 @@
+import { describe, expect, test } from '@jest/globals';
+import { editDistance, LabelSimilarityIndex, labelValueSimilarity, normalizeLabelValue } from '../commands/labels/similarity';
+
+const INDEX = new LabelSimilarityIndex([
+    { fullName: 'Save', value: 'Save changes' },
+    { fullName: 'Save_Changes', value: 'Save Changes!' },
+    { fullName: 'Save_Change', value: 'Save change' },
+    { fullName: 'Cancel', value: 'Cancel' },
+    { fullName: 'Cancel_Action', value: 'Cancel.' },
+    { fullName: 'Welcome', value: 'Welcome back' }
+]);
+
+describe('normalizeLabelValue', () => {
+    test('ignores case, punctuation and extra whitespace', () => {
+        expect(normalizeLabelValue('  Save,   Changes! ')).toBe('save changes');
+        expect(normalizeLabelValue('Don\'t stop')).toBe('don t stop');
+    });
+});
+
+describe('editDistance', () => {
+    test('counts insertions, deletions and substitutions', () => {
+        expect(editDistance('kitten', 'sitting')).toBe(3);
+        expect(editDistance('', 'abc')).toBe(3);
+        expect(editDistance('same', 'same')).toBe(0);
+    });
+
+    test('stops once the distance exceeds the maximum', () => {
+        expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+        expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+});
+
+describe('labelValueSimilarity', () => {
+    test('scores normalized values from 0 to 1', () => {
+        expect(labelValueSimilarity('Save changes', 'save CHANGES!')).toBe(1);
+        expect(labelValueSimilarity('Save changes', 'Save change')).toBeCloseTo(11 / 12);
+        expect(labelValueSimilarity('abc', 'xyz')).toBe(0);
+    });
+});
+
+describe('LabelSimilarityIndex', () => {
+    test('finds the closest labels first, with their score', () => {
+        expect(INDEX.findSimilar('save changes', 0.6)).toEqual([
+            { fullName: 'Save', score: 1 },
+            { fullName: 'Save_Changes', score: 1 },
+            { fullName: 'Save_Change', score: 11 / 12 }
+        ]);
+        expect(INDEX.findSimilar('save changes', 0.6, 1)).toEqual([{ fullName: 'Save', score: 1 }]);
+        expect(INDEX.findSimilar('Goodbye', 0.6)).toEqual([]);
+    });
+
+    test('groups near-duplicate labels', () => {
+        expect(INDEX.findClusters(0.8)).toEqual([
+            { fullNames: ['Save', 'Save_Change', 'Save_Changes'], score: 11 / 12 },
+            { fullNames: ['Cancel', 'Cancel_Action'], score: 1 }
+        ]);
+        expect(INDEX.findClusters(0.95)).toEqual([
+            { fullNames: ['Cancel', 'Cancel_Action'], score: 1 },
+            { fullNames: ['Save', 'Save_Changes'], score: 1 }
+        ]);
+    });
+});
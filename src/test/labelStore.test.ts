@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { SalesforceLabelsStore } from '../commands/labels/store';
+import { changeCategories, findPackageDirectory, getPackageDirectoryPaths, isLabelMetadataFile, parseLabelFileContent, renameCategory, splitCategories } from '../commands/labels/parse';
+
+const CUSTOM_LABELS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">
+    <labels>
+        <fullName>Greeting</fullName>
+        <categories>Home, Welcome</categories>
+        <language>en_US</language>
+        <protected>true</protected>
+        <shortDescription>Greeting</shortDescription>
+        <value>Hello &amp; welcome</value>
+    </labels>
+    <labels>
+        <fullName>Farewell</fullName>
+        <language>en_US</language>
+        <protected>false</protected>
+        <shortDescription>Farewell</shortDescription>
+        <value>Bye</value>
+    </labels>
+</CustomLabels>`;
+
+describe('parseLabelFileContent', () => {
+    test('parses every label of a CustomLabels file into plain values', async () => {
+        const result = await parseLabelFileContent(CUSTOM_LABELS_XML, '/project/force-app/main/default/labels/CustomLabels.labels-meta.xml');
+        expect(result).toHaveLength(2);
+        expect(result[0]).toEqual({
+            fullName: 'Greeting',
+            value: 'Hello & welcome',
+            categories: 'Home, Welcome',
+            language: 'en_US',
+            protected: true,
+            shortDescription: 'Greeting'
+        });
+        expect(result[1].protected).toBe(false);
+        expect(result[1].categories).toBeUndefined();
+    });
+
+    test('returns no labels for an empty CustomLabels file', async () => {
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">
+</CustomLabels>`;
+        expect(await parseLabelFileContent(xml, 'CustomLabels.labels-meta.xml')).toHaveLength(0);
+    });
+
+    test('parses a decomposed label file and falls back to the file name for fullName', async () => {
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabel xmlns="http://soap.sforce.com/2006/04/metadata">
+    <language>en_US</language>
+    <protected>false</protected>
+    <shortDescription>Decomposed</shortDescription>
+    <value>Decomposed value</value>
+</CustomLabel>`;
+        const result = await parseLabelFileContent(xml, '/project/force-app/main/default/labels/My_Label.label-meta.xml');
+        expect(result).toHaveLength(1);
+        expect(result[0].fullName).toBe('My_Label');
+        expect(result[0].value).toBe('Decomposed value');
+    });
+});
+
+describe('splitCategories', () => {
+    test('trims and drops empty categories', () => {
+        expect(splitCategories(' A, B ,,C ')).toEqual(['A', 'B', 'C']);
+        expect(splitCategories(undefined)).toEqual([]);
+    });
+});
+
+describe('changeCategories', () => {
+    test('replaces, adds or removes categories without duplicates', () => {
+        expect(changeCategories('A,B', ['C', ' D '], 'replace')).toBe('C,D');
+        expect(changeCategories('A,B', ['b', 'C'], 'add')).toBe('A,B,C');
+        expect(changeCategories('A,B,C', ['a', 'c'], 'remove')).toBe('B');
+        expect(changeCategories(undefined, [''], 'replace')).toBe('');
+    });
+});
+
+describe('renameCategory', () => {
+    test('renames the category in place and drops it when the new name is already there', () => {
+        expect(renameCategory('A, Old ,B', 'old', 'New')).toBe('A,New,B');
+        expect(renameCategory('New,Old', 'Old', 'new')).toBe('New');
+        expect(renameCategory('A', 'Old', 'New')).toBe('A');
+    });
+});
+
+describe('isLabelMetadataFile', () => {
+    test('matches standard and decomposed label files inside a labels folder', () => {
+        expect(isLabelMetadataFile('/project/force-app/main/default/labels/CustomLabels.labels-meta.xml')).toBe(true);
+        expect(isLabelMetadataFile('/project/force-app/main/default/labels/My_Label.label-meta.xml')).toBe(true);
+    });
+
+    test('ignores other metadata and label files outside a labels folder', () => {
+        expect(isLabelMetadataFile('/project/force-app/main/default/labels/CustomLabels.xml')).toBe(false);
+        expect(isLabelMetadataFile('/project/force-app/main/default/CustomLabels.labels-meta.xml')).toBe(false);
+        expect(isLabelMetadataFile('/project/force-app/main/default/translations/en_US.translation-meta.xml')).toBe(false);
+    });
+});
+
+describe('package directories', () => {
+    test('getPackageDirectoryPaths normalizes sfdx-project.json paths', () => {
+        expect(getPackageDirectoryPaths({ packageDirectories: [{ path: 'force-app' }, { path: './other-app/' }, {}] }))
+            .toEqual(['force-app', 'other-app']);
+    });
+
+    test('findPackageDirectory returns the deepest matching package directory', () => {
+        const dirs = ['force-app', 'force-app/feature', 'other-app'];
+        expect(findPackageDirectory('/project/force-app/main/labels/CustomLabels.labels-meta.xml', '/project', dirs)).toBe('force-app');
+        expect(findPackageDirectory('/project/force-app/feature/labels/CustomLabels.labels-meta.xml', '/project', dirs)).toBe('force-app/feature');
+        expect(findPackageDirectory('/project/force-apps/labels/CustomLabels.labels-meta.xml', '/project', dirs)).toBeUndefined();
+    });
+});
+
+describe('SalesforceLabelsStore', () => {
+    const store = SalesforceLabelsStore.getInstance();
+    const mainSource = { filePath: '/project/force-app/labels/CustomLabels.labels-meta.xml', packageDirectory: 'force-app' };
+    const otherSource = { filePath: '/project/other-app/labels/CustomLabels.labels-meta.xml', packageDirectory: 'other-app' };
+
+    beforeEach(() => {
+        store.clear();
+    });
+
+    test('keeps labels from every file instead of only the last one loaded', () => {
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }]);
+        store.setFileLabels(otherSource, [{ fullName: 'B', value: 'b' }]);
+
+        expect(store.getAllLabels().map(label => label.fullName)).toEqual(['A', 'B']);
+        expect(store.salesforceLabels.A.source).toEqual(mainSource);
+        expect(store.salesforceLabels.B.source.packageDirectory).toBe('other-app');
+    });
+
+    test('reloading a file replaces only the labels from that file', () => {
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }, { fullName: 'Removed', value: 'r' }]);
+        store.setFileLabels(otherSource, [{ fullName: 'B', value: 'b' }]);
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'changed' }]);
+
+        expect(store.salesforceLabels.Removed).toBeUndefined();
+        expect(store.salesforceLabels.A.value).toBe('changed');
+        expect(store.salesforceLabels.B).toBeDefined();
+    });
+
+    test('removeFile forgets the labels from that file', () => {
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }]);
+        expect(store.removeFile(mainSource.filePath)).toBe(true);
+        expect(store.removeFile(mainSource.filePath)).toBe(false);
+        expect(store.getAllLabels()).toHaveLength(0);
+    });
+
+    test('flags a fullName defined in two files and keeps both definitions', () => {
+        store.setFileLabels(mainSource, [{ fullName: 'Shared', value: 'one' }]);
+        store.setFileLabels(otherSource, [{ fullName: 'Shared', value: 'two' }, { fullName: 'Unique', value: 'u' }]);
+
+        const duplicates = store.getDuplicates();
+        expect(duplicates).toHaveLength(1);
+        expect(duplicates[0].fullName).toBe('Shared');
+        expect(duplicates[0].sources.map(source => source.filePath)).toEqual([mainSource.filePath, otherSource.filePath]);
+        expect(store.getDefinitions('Shared')).toHaveLength(2);
+        expect(store.salesforceLabels.Shared.value).toBe('one');
+    });
+
+    test('updateLabel adds the label to the given file and keeps the existing source otherwise', () => {
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }]);
+        store.updateLabel('New', { fullName: 'New', value: 'n' }, otherSource);
+        store.updateLabel('A', { fullName: 'A', value: 'updated' });
+
+        expect(store.salesforceLabels.New.source).toEqual(otherSource);
+        expect(store.salesforceLabels.A.value).toBe('updated');
+        expect(store.getLabelsInFile(mainSource.filePath)).toHaveLength(1);
+    });
+
+    test('groups labels by category, case-insensitively, and lists the uncategorized ones', () => {
+        store.setFileLabels(mainSource, [
+            { fullName: 'B', value: 'b', categories: 'Home, Errors' },
+            { fullName: 'A', value: 'a', categories: 'home' },
+            { fullName: 'C', value: 'c' }
+        ]);
+
+        expect(store.getCategories()).toEqual(['Errors', 'Home']);
+        expect(store.getLabelsInCategory('HOME').map(label => label.fullName)).toEqual(['A', 'B']);
+        expect(store.getLabelsInCategory('Missing')).toEqual([]);
+        expect(store.getUncategorizedLabels().map(label => label.fullName)).toEqual(['C']);
+    });
+
+    test('notifies listeners when labels change until disposed', () => {
+        let calls = 0;
+        const subscription = store.onDidChange(() => { calls++; });
+
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }]);
+        subscription.dispose();
+        store.setFileLabels(mainSource, [{ fullName: 'B', value: 'b' }]);
+
+        expect(calls).toBe(1);
+    });
+
+    test('rebuilds and notifies once at the end of an update', () => {
+        let calls = 0;
+        const subscription = store.onDidChange(() => { calls++; });
+
+        store.beginUpdate();
+        store.setFileLabels(mainSource, [{ fullName: 'A', value: 'a' }]);
+        store.beginUpdate();
+        store.setFileLabels(otherSource, [{ fullName: 'B', value: 'b' }]);
+        store.endUpdate();
+
+        expect(calls).toBe(0);
+        expect(store.getAllLabels()).toHaveLength(0);
+
+        store.endUpdate();
+        subscription.dispose();
+
+        expect(calls).toBe(1);
+        expect(store.getAllLabels().map(label => label.fullName)).toEqual(['A', 'B']);
+    });
+});
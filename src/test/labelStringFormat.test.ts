@@ -0,0 +1,52 @@
+import { describe, expect, test } from '@jest/globals';
+import { findLabelFormatCalls, findPlaceholderIndexes, getExpectedArgumentCount, renderFormattedValue } from '../commands/labels/stringFormat';
+
+describe('findPlaceholderIndexes', () => {
+    test('finds simple and typed placeholders', () => {
+        expect(findPlaceholderIndexes('Hello {0}, you have {1,number,integer} messages')).toEqual([0, 1]);
+    });
+
+    test('ignores quoted text', () => {
+        expect(findPlaceholderIndexes("Use '{0}' literally, it''s {1}")).toEqual([1]);
+    });
+});
+
+describe('getExpectedArgumentCount', () => {
+    test('is the highest placeholder index plus one', () => {
+        expect(getExpectedArgumentCount('{2} and {0}')).toBe(3);
+        expect(getExpectedArgumentCount('No placeholder')).toBe(0);
+    });
+});
+
+describe('renderFormattedValue', () => {
+    test('replaces the placeholders that have a replacement', () => {
+        expect(renderFormattedValue('Hello {0}, {1,number} new, {2}', ['name', 'count'])).toBe('Hello name, count new, {2}');
+    });
+});
+
+describe('findLabelFormatCalls', () => {
+    test('finds calls formatting a label with an inline list', () => {
+        const text = 'String msg = String.format(System.Label.Welcome, new List<Object>{ user.Name, getCount(a, b) });';
+        const [call] = findLabelFormatCalls(text);
+
+        expect(call.reference.name).toBe('Welcome');
+        expect(call.arguments?.map(argument => argument.text)).toEqual(['user.Name', 'getCount(a, b)']);
+        expect(text.slice(call.arguments![1].start, call.arguments![1].end)).toBe('getCount(a, b)');
+        expect(text.slice(call.argumentsStart, call.argumentsEnd)).toBe('new List<Object>{ user.Name, getCount(a, b) }');
+    });
+
+    test('supports arrays, string arguments with commas and empty lists', () => {
+        const [array, empty] = findLabelFormatCalls('string.FORMAT(Label.A, new String[]{ \'x, y\' }); String.format(Label.B, new List<String>{});');
+
+        expect(array.arguments?.map(argument => argument.text)).toEqual(['\'x, y\'']);
+        expect(empty.arguments).toEqual([]);
+    });
+
+    test('leaves the arguments unknown when they are not a list literal', () => {
+        expect(findLabelFormatCalls('String.format(Label.A, args);')[0].arguments).toBeUndefined();
+    });
+
+    test('ignores calls on other templates and calls in comments', () => {
+        expect(findLabelFormatCalls('String.format(template, new List<Object>{ 1 }); // String.format(Label.A, new List<Object>{})')).toEqual([]);
+    });
+});
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, test } from '@jest/globals';
+import { SalesforceLabelsStore } from '../commands/labels/store';
+import {
+    buildEmptyTranslationFile,
+    findTranslationNameOffsets,
+    getTranslationLanguage,
+    isTranslationFile,
+    parseTranslationFileContent,
+    setLabelTranslationInFile
+} from '../commands/labels/translations';
+
+const TRANSLATION_FILE = `<?xml version="1.0" encoding="UTF-8"?>
+<Translations xmlns="http://soap.sforce.com/2006/04/metadata">
+    <customApplications>
+        <label>Ventes</label>
+        <name>Sales</name>
+    </customApplications>
+    <customLabels>
+        <label>Bonjour</label>
+        <name>Greeting</name>
+    </customLabels>
+    <customTabs>
+        <label>Comptes</label>
+        <name>Account</name>
+    </customTabs>
+</Translations>
+`;
+
+describe('translation files', () => {
+    test('recognizes translation files and their language', () => {
+        expect(isTranslationFile('/p/force-app/main/default/translations/pt_BR.translation-meta.xml')).toBe(true);
+        expect(isTranslationFile('/p/force-app/main/default/labels/CustomLabels.labels-meta.xml')).toBe(false);
+        expect(getTranslationLanguage('/p/translations/pt_BR.translation-meta.xml')).toBe('pt_BR');
+    });
+
+    test('parseTranslationFileContent reads only the custom label translations', async () => {
+        expect(await parseTranslationFileContent(TRANSLATION_FILE)).toEqual([{ name: 'Greeting', value: 'Bonjour' }]);
+        expect(await parseTranslationFileContent(buildEmptyTranslationFile())).toEqual([]);
+    });
+});
+
+describe('setLabelTranslationInFile', () => {
+    test('updates an existing translation in place', () => {
+        const result = setLabelTranslationInFile(TRANSLATION_FILE, 'Greeting', 'Salut & bienvenue', 'fr.translation-meta.xml');
+        expect(result).toBe(TRANSLATION_FILE.replace('<label>Bonjour</label>', '<label>Salut &amp; bienvenue</label>'));
+    });
+
+    test('inserts new translations in name order', async () => {
+        const withFarewell = setLabelTranslationInFile(TRANSLATION_FILE, 'Farewell', 'Au revoir', 'fr.translation-meta.xml');
+        const withHello = setLabelTranslationInFile(withFarewell, 'Hello', 'Salut', 'fr.translation-meta.xml');
+
+        expect((await parseTranslationFileContent(withHello)).map(entry => entry.name)).toEqual(['Farewell', 'Greeting', 'Hello']);
+        expect(withHello).toContain('    <customLabels>\n        <label>Salut</label>\n        <name>Hello</name>\n    </customLabels>\n    <customTabs>');
+    });
+
+    test('places the first label translation after the components that sort before customLabels', () => {
+        const withoutLabels = TRANSLATION_FILE.replace(/    <customLabels>[\s\S]*?<\/customLabels>\n/, '');
+        const result = setLabelTranslationInFile(withoutLabels, 'Greeting', 'Bonjour', 'fr.translation-meta.xml');
+
+        expect(result).toBe(TRANSLATION_FILE);
+    });
+
+    test('writes into an empty file and rejects other metadata', async () => {
+        const result = setLabelTranslationInFile(buildEmptyTranslationFile(), 'Greeting', 'Hallo', 'de.translation-meta.xml');
+
+        expect(await parseTranslationFileContent(result)).toEqual([{ name: 'Greeting', value: 'Hallo' }]);
+        expect(() => setLabelTranslationInFile('<CustomLabels/>', 'Greeting', 'Hallo', 'de.translation-meta.xml')).toThrow();
+    });
+});
+
+describe('SalesforceLabelsStore translations', () => {
+    const store = SalesforceLabelsStore.getInstance();
+    const labelSource = { filePath: '/p/force-app/labels/CustomLabels.labels-meta.xml' };
+
+    beforeEach(() => {
+        store.clear();
+        store.setFileLabels(labelSource, [
+            { fullName: 'Greeting', value: 'Hello', language: 'en_US' },
+            { fullName: 'Farewell', value: 'Bye', language: 'en_US' },
+            { fullName: 'Bonjour', value: 'Bonjour', language: 'fr' }
+        ]);
+    });
+
+    test('keeps the translations of each file and sorts them by language', () => {
+        store.setFileTranslations('/p/translations/fr.translation-meta.xml', 'fr', [{ name: 'Greeting', value: 'Bonjour' }]);
+        store.setFileTranslations('/p/translations/de.translation-meta.xml', 'de', [{ name: 'Greeting', value: 'Hallo' }]);
+
+        expect(store.getTranslations('Greeting').map(translation => translation.language)).toEqual(['de', 'fr']);
+        expect(store.getTranslationLanguages()).toEqual(['de', 'fr']);
+        expect(store.getTranslationFilePaths('de')).toEqual(['/p/translations/de.translation-meta.xml']);
+
+        expect(store.removeTranslationFile('/p/translations/de.translation-meta.xml')).toBe(true);
+        expect(store.getTranslations('Greeting').map(translation => translation.value)).toEqual(['Bonjour']);
+    });
+
+    test('lists labels without translation per language, skipping a label in its own language', () => {
+        store.setFileTranslations('/p/translations/fr.translation-meta.xml', 'fr', [{ name: 'Greeting', value: 'Bonjour' }]);
+        store.setFileTranslations('/p/translations/de.translation-meta.xml', 'de', []);
+
+        expect(store.getMissingTranslations()).toEqual([
+            { language: 'de', fullNames: ['Bonjour', 'Farewell', 'Greeting'] },
+            { language: 'fr', fullNames: ['Farewell'] }
+        ]);
+    });
+});
+
+describe('findTranslationNameOffsets', () => {
+    test('returns the <name> text of the label translation entries only', () => {
+        const offsets = findTranslationNameOffsets(TRANSLATION_FILE, 'Greeting');
+
+        expect(offsets).toHaveLength(1);
+        expect(TRANSLATION_FILE.slice(offsets[0].start, offsets[0].end)).toBe('Greeting');
+        expect(TRANSLATION_FILE.slice(offsets[0].start - '<name>'.length, offsets[0].start)).toBe('<name>');
+        expect(findTranslationNameOffsets(TRANSLATION_FILE, 'Sales')).toEqual([]);
+    });
+});
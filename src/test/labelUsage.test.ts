@@ -0,0 +1,70 @@
+import { describe, expect, test } from '@jest/globals';
+import { findLabelReferences } from '../commands/labels/referenceSyntax';
+import {
+    findMissingLabelReferences,
+    findUnusedLabelNames,
+    isLocalLabelReference,
+    LabelReferenceCache
+} from '../commands/labels/usage';
+
+const toPosition = () => ({ line: 0, character: 0 });
+
+describe('isLocalLabelReference', () => {
+    test('treats references without namespace, with c or with the project namespace as local', () => {
+        expect(isLocalLabelReference({})).toBe(true);
+        expect(isLocalLabelReference({ namespace: 'c' })).toBe(true);
+        expect(isLocalLabelReference({ namespace: 'myns' }, 'myns')).toBe(true);
+        expect(isLocalLabelReference({ namespace: 'other' }, 'myns')).toBe(false);
+    });
+});
+
+describe('findMissingLabelReferences', () => {
+    test('reports Apex references case-insensitively', () => {
+        const references = findLabelReferences('Label.greeting + System.Label.Missing', 'apex');
+        const missing = findMissingLabelReferences(references, 'apex', ['Greeting']);
+        expect(missing.map(reference => reference.name)).toEqual(['Missing']);
+    });
+
+    test('reports LWC references with exact casing and ignores other namespaces', () => {
+        const text = `import a from '@salesforce/label/c.greeting';\nimport b from '@salesforce/label/pkg.Unknown';`;
+        const missing = findMissingLabelReferences(findLabelReferences(text, 'lwc'), 'lwc', ['Greeting']);
+        expect(missing.map(reference => reference.name)).toEqual(['greeting']);
+    });
+
+    test('checks references using the project namespace', () => {
+        const missing = findMissingLabelReferences(findLabelReferences('{!$Label.myns.Unknown}', 'aura'), 'aura', ['Greeting'], 'myns');
+        expect(missing.map(reference => reference.name)).toEqual(['Unknown']);
+    });
+});
+
+describe('findUnusedLabelNames', () => {
+    test('returns labels no local reference points to', () => {
+        const references = [
+            ...findLabelReferences('Label.FIRST', 'apex'),
+            ...findLabelReferences('{!$Label.pkg.Second}', 'aura')
+        ];
+        expect(findUnusedLabelNames(['First', 'Second', 'Third'], references)).toEqual(['Second', 'Third']);
+    });
+});
+
+describe('LabelReferenceCache', () => {
+    test('returns entries only while the stamp matches', () => {
+        const cache = new LabelReferenceCache();
+        cache.set('/a.cls', { stamp: '1', kind: 'apex', references: findLabelReferences('Label.A', 'apex'), positionOf: toPosition });
+
+        expect(cache.get('/a.cls', '1')).toBeDefined();
+        expect(cache.get('/a.cls', '2')).toBeUndefined();
+        expect(cache.get('/a.cls')).toBeDefined();
+    });
+
+    test('retain forgets files that are no longer listed', () => {
+        const cache = new LabelReferenceCache();
+        cache.set('/a.cls', { stamp: '1', kind: 'apex', references: findLabelReferences('Label.A', 'apex'), positionOf: toPosition });
+        cache.set('/b.cls', { stamp: '1', kind: 'apex', references: findLabelReferences('Label.B', 'apex'), positionOf: toPosition });
+
+        cache.retain(['/b.cls']);
+
+        expect(cache.entries().map(([filePath]) => filePath)).toEqual(['/b.cls']);
+        expect(cache.allReferences().map(reference => reference.name)).toEqual(['B']);
+    });
+});
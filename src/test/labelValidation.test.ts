@@ -0,0 +1,83 @@
+import { describe, expect, test } from '@jest/globals';
+import { findLabelFieldOffsets, getSubscriberFacingApexClassName, hasNamespacePrefix, LabelValidationContext, validateLabel } from '../commands/labels/validation';
+
+const NO_CONTEXT: LabelValidationContext = { subscriberFacingReferences: new Map() };
+
+function codes(label: Parameters<typeof validateLabel>[0], context = NO_CONTEXT): string[] {
+    return validateLabel(label, context).map(issue => issue.code);
+}
+
+describe('validateLabel', () => {
+    test('accepts a valid label', () => {
+        expect(codes({ fullName: 'acme_Greeting', value: 'Hello', protected: true }, { ...NO_CONTEXT, namespacePrefix: 'acme' })).toEqual([]);
+    });
+
+    test('reports invalid API names and values longer than 1000 characters as errors', () => {
+        expect(validateLabel({ fullName: 'My__Label', value: 'x'.repeat(1001) }, NO_CONTEXT).map(issue => [issue.code, issue.severity])).toEqual([
+            ['invalidApiName', 'error'],
+            ['valueTooLong', 'error']
+        ]);
+    });
+
+    test('warns about labels missing the namespace prefix', () => {
+        expect(codes({ fullName: 'Greeting', value: 'Hello' }, { ...NO_CONTEXT, namespacePrefix: 'acme' })).toEqual(['missingNamespacePrefix']);
+        expect(codes({ fullName: 'ACME_Greeting', value: 'Hello' }, { ...NO_CONTEXT, namespacePrefix: 'acme' })).toEqual([]);
+    });
+
+    test('warns about unprotected labels used by subscriber-facing Apex', () => {
+        const context: LabelValidationContext = { subscriberFacingReferences: new Map([['greeting', ['GlobalApi']]]) };
+
+        expect(codes({ fullName: 'Greeting', value: 'Hello', protected: false }, context)).toEqual(['unprotectedSubscriberLabel']);
+        expect(codes({ fullName: 'Greeting', value: 'Hello', protected: true }, context)).toEqual([]);
+        expect(codes({ fullName: 'Other', value: 'Hello' }, context)).toEqual([]);
+    });
+});
+
+describe('hasNamespacePrefix', () => {
+    test('requires the prefix followed by an underscore', () => {
+        expect(hasNamespacePrefix('acme_Label', 'acme')).toBe(true);
+        expect(hasNamespacePrefix('acmeLabel', 'acme')).toBe(false);
+    });
+});
+
+describe('getSubscriberFacingApexClassName', () => {
+    test('finds global classes, interfaces and enums', () => {
+        expect(getSubscriberFacingApexClassName('global with sharing class Api {\n}')).toBe('Api');
+        expect(getSubscriberFacingApexClassName('@RestResource(urlMapping=\'/x\')\nGLOBAL virtual class Rest {}')).toBe('Rest');
+        expect(getSubscriberFacingApexClassName('global interface Callback {}')).toBe('Callback');
+    });
+
+    test('ignores public classes and commented-out declarations', () => {
+        expect(getSubscriberFacingApexClassName('public class Service {}')).toBeUndefined();
+        expect(getSubscriberFacingApexClassName('// global class Old {}\npublic class Service {}')).toBeUndefined();
+    });
+});
+
+describe('findLabelFieldOffsets', () => {
+    const xml = `<CustomLabels>
+    <labels>
+        <fullName>First</fullName>
+        <protected>false</protected>
+        <value>One</value>
+    </labels>
+    <labels>
+        <fullName>Second</fullName>
+        <value>Two</value>
+    </labels>
+</CustomLabels>`;
+
+    function textAt(offsets?: { start: number; end: number }): string | undefined {
+        return offsets && xml.slice(offsets.start, offsets.end);
+    }
+
+    test('finds the text of the element of the label', () => {
+        expect(textAt(findLabelFieldOffsets(xml, 'First', 'protected'))).toBe('false');
+        expect(textAt(findLabelFieldOffsets(xml, 'Second', 'value'))).toBe('Two');
+        expect(textAt(findLabelFieldOffsets(xml, 'Second', 'fullName'))).toBe('Second');
+    });
+
+    test('falls back to the name when the element is missing', () => {
+        expect(textAt(findLabelFieldOffsets(xml, 'Second', 'protected'))).toBe('Second');
+        expect(findLabelFieldOffsets(xml, 'Missing', 'value')).toBeUndefined();
+    });
+});
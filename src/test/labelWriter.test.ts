@@ -0,0 +1,141 @@
+import { describe, expect, test } from '@jest/globals';
+import { parseLabelFileContent } from '../commands/labels/parse';
+import {
+    buildDecomposedLabelFile,
+    buildEmptyLabelsFile,
+    escapeXml,
+    getDecomposedLabelFileName,
+    insertLabelIntoLabelsFile,
+    removeLabelFromLabelsFile,
+    updateLabelInLabelsFile,
+    validateLabelApiName
+} from '../commands/labels/writer';
+
+const LABELS_FILE = `<?xml version="1.0" encoding="UTF-8"?>
+<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata">
+    <labels>
+        <fullName>Alpha</fullName>
+        <language>en_US</language>
+        <protected>false</protected>
+        <shortDescription>Alpha</shortDescription>
+        <value>A</value>
+    </labels>
+    <labels>
+        <fullName>Charlie</fullName>
+        <language>en_US</language>
+        <protected>false</protected>
+        <shortDescription>Charlie</shortDescription>
+        <value>C</value>
+    </labels>
+</CustomLabels>
+`;
+
+describe('escapeXml', () => {
+    test('escapes markup characters and quotes', () => {
+        expect(escapeXml(`Tom & Jerry <3 "it's"`)).toBe('Tom &amp; Jerry &lt;3 &quot;it&apos;s&quot;');
+    });
+});
+
+describe('insertLabelIntoLabelsFile', () => {
+    test('inserts the label in alphabetical order and keeps the rest of the file', async () => {
+        const result = await insertLabelIntoLabelsFile(LABELS_FILE, { fullName: 'Bravo', value: 'B', language: 'en_US', protected: false }, 'CustomLabels.labels-meta.xml');
+        const labels = await parseLabelFileContent(result, 'CustomLabels.labels-meta.xml');
+
+        expect(labels.map(label => label.fullName)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+        expect(result.startsWith(LABELS_FILE.slice(0, LABELS_FILE.indexOf('    <labels>\n        <fullName>Charlie')))).toBe(true);
+        expect(result).toContain(`    <labels>
+        <fullName>Bravo</fullName>
+        <language>en_US</language>
+        <protected>false</protected>
+        <value>B</value>
+    </labels>
+    <labels>
+        <fullName>Charlie</fullName>`);
+    });
+
+    test('appends labels that sort last', async () => {
+        const result = await insertLabelIntoLabelsFile(LABELS_FILE, { fullName: 'Delta', value: 'D' }, 'CustomLabels.labels-meta.xml');
+        expect(result).toContain('<value>C</value>\n    </labels>\n    <labels>\n        <fullName>Delta</fullName>\n        <value>D</value>\n    </labels>\n</CustomLabels>');
+    });
+
+    test('escapes values and omits empty optional elements', async () => {
+        const result = await insertLabelIntoLabelsFile(LABELS_FILE, { fullName: 'Bravo', value: 'Save & <Close>', categories: ',Forms, ', shortDescription: '' }, 'CustomLabels.labels-meta.xml');
+        const bravo = (await parseLabelFileContent(result, 'CustomLabels.labels-meta.xml')).find(label => label.fullName === 'Bravo');
+
+        expect(result).toContain('<value>Save &amp; &lt;Close&gt;</value>');
+        expect(result).toContain('<categories>Forms</categories>');
+        expect(result).not.toContain('<shortDescription></shortDescription>');
+        expect(bravo?.value).toBe('Save & <Close>');
+    });
+
+    test('writes into files without labels', async () => {
+        const empty = await insertLabelIntoLabelsFile(buildEmptyLabelsFile(), { fullName: 'Alpha', value: 'A' }, 'CustomLabels.labels-meta.xml');
+        expect(empty).toContain('metadata">\n    <labels>\n        <fullName>Alpha</fullName>\n        <value>A</value>\n    </labels>\n</CustomLabels>');
+
+        const selfClosing = await insertLabelIntoLabelsFile('<CustomLabels xmlns="http://soap.sforce.com/2006/04/metadata"/>', { fullName: 'Alpha', value: 'A' }, 'CustomLabels.labels-meta.xml');
+        expect((await parseLabelFileContent(selfClosing, 'CustomLabels.labels-meta.xml')).map(label => label.fullName)).toEqual(['Alpha']);
+    });
+
+    test('keeps Windows line endings', async () => {
+        const result = await insertLabelIntoLabelsFile(LABELS_FILE.replace(/\n/g, '\r\n'), { fullName: 'Bravo', value: 'B' }, 'CustomLabels.labels-meta.xml');
+        expect(result.replace(/\r\n/g, '')).not.toContain('\n');
+    });
+
+    test('rejects labels that already exist and files that are not CustomLabels', async () => {
+        await expect(insertLabelIntoLabelsFile(LABELS_FILE, { fullName: 'Alpha', value: 'A' }, 'CustomLabels.labels-meta.xml')).rejects.toThrow('Alpha');
+        await expect(insertLabelIntoLabelsFile('<CustomLabel><value>A</value></CustomLabel>', { fullName: 'Alpha', value: 'A' }, 'Alpha.label-meta.xml')).rejects.toThrow();
+    });
+});
+
+describe('updateLabelInLabelsFile', () => {
+    test('replaces the label in place', async () => {
+        const result = await updateLabelInLabelsFile(LABELS_FILE, 'Alpha', { fullName: 'Alpha', value: 'New & improved', language: 'en_US', protected: true }, 'CustomLabels.labels-meta.xml');
+
+        expect(result).toBe(LABELS_FILE.replace(
+            '        <protected>false</protected>\n        <shortDescription>Alpha</shortDescription>\n        <value>A</value>',
+            '        <protected>true</protected>\n        <value>New &amp; improved</value>'
+        ));
+    });
+
+    test('moves renamed labels to keep the file sorted', async () => {
+        const result = await updateLabelInLabelsFile(LABELS_FILE, 'Alpha', { fullName: 'Delta', value: 'A' }, 'CustomLabels.labels-meta.xml');
+        const labels = await parseLabelFileContent(result, 'CustomLabels.labels-meta.xml');
+
+        expect(labels.map(label => label.fullName)).toEqual(['Charlie', 'Delta']);
+    });
+
+    test('rejects labels the file does not define', async () => {
+        await expect(updateLabelInLabelsFile(LABELS_FILE, 'Bravo', { fullName: 'Bravo', value: 'B' }, 'CustomLabels.labels-meta.xml')).rejects.toThrow('Bravo');
+    });
+});
+
+describe('removeLabelFromLabelsFile', () => {
+    test('removes the label and its lines', async () => {
+        const result = await removeLabelFromLabelsFile(LABELS_FILE, 'Alpha', 'CustomLabels.labels-meta.xml');
+
+        expect(result).toBe(LABELS_FILE.replace(/    <labels>\n        <fullName>Alpha<\/fullName>[\s\S]*?<\/labels>\n/, ''));
+        await expect(removeLabelFromLabelsFile(result, 'Alpha', 'CustomLabels.labels-meta.xml')).rejects.toThrow('Alpha');
+    });
+});
+
+describe('validateLabelApiName', () => {
+    test('accepts valid API names and explains invalid ones', () => {
+        expect(validateLabelApiName('My_Label_1')).toBeUndefined();
+        expect(validateLabelApiName('1Label')).toBeDefined();
+        expect(validateLabelApiName('My__Label')).toBeDefined();
+        expect(validateLabelApiName('My_Label_')).toBeDefined();
+        expect(validateLabelApiName('My Label')).toBeDefined();
+        expect(validateLabelApiName('A'.repeat(81))).toContain('80');
+    });
+});
+
+describe('decomposed label files', () => {
+    test('buildDecomposedLabelFile writes a single CustomLabel that parses back', async () => {
+        const content = buildDecomposedLabelFile({ fullName: 'Greeting', value: 'Hi & bye', protected: true, language: 'en_US' });
+        const parsed = await parseLabelFileContent(content, getDecomposedLabelFileName('Greeting'));
+
+        expect(getDecomposedLabelFileName('Greeting')).toBe('Greeting.label-meta.xml');
+        expect(content.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<CustomLabel xmlns=')).toBe(true);
+        expect(parsed).toEqual([{ fullName: 'Greeting', value: 'Hi & bye', protected: true, language: 'en_US' }]);
+    });
+});
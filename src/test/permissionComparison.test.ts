@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, test } from '@jest/globals';
+import {
+    buildOrgPermissionQueries,
+    comparePermissions,
+    extractPermissionsFromMetadata,
+    extractPermissionsFromOrgRecords,
+    grantsNothing,
+    toOrgPermissionFields,
+    toProfileTabVisibility,
+    toSetupEntityName
+} from '../commands/permissioneditor/comparison';
+import { applyPermissionEntryToFile, parsePermissionMetadata } from '../commands/permissioneditor/xmlEdit';
+
+const PROFILE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Profile xmlns="http://soap.sforce.com/2006/04/metadata">
+    <classAccesses>
+        <apexClass>OrderService</apexClass>
+        <enabled>true</enabled>
+    </classAccesses>
+    <objectPermissions>
+        <allowRead>true</allowRead>
+        <object>Account</object>
+    </objectPermissions>
+    <recordTypeVisibilities>
+        <default>true</default>
+        <recordType>Account.Partner</recordType>
+        <visible>true</visible>
+    </recordTypeVisibilities>
+    <tabVisibilities>
+        <tab>standard-Account</tab>
+        <visibility>DefaultOn</visibility>
+    </tabVisibilities>
+    <userPermissions>
+        <enabled>false</enabled>
+        <name>RunReports</name>
+    </userPermissions>
+</Profile>
+`;
+
+const PERMISSION_SET_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<PermissionSet xmlns="http://soap.sforce.com/2006/04/metadata">
+    <label>Sales</label>
+    <objectPermissions>
+        <allowEdit>true</allowEdit>
+        <allowRead>true</allowRead>
+        <object>Account</object>
+    </objectPermissions>
+    <tabSettings>
+        <tab>standard-Account</tab>
+        <visibility>Visible</visibility>
+    </tabSettings>
+</PermissionSet>
+`;
+
+function withTempFile(xml: string, run: (filePath: string) => void) {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'perm-comparison-'));
+    const filePath = path.join(tmpDir, 'Test.profile-meta.xml');
+    fs.writeFileSync(filePath, xml, 'utf8');
+    try {
+        run(filePath);
+    } finally {
+        fs.rmSync(tmpDir, { recursive: true });
+    }
+}
+
+describe('extractPermissionsFromMetadata', () => {
+    test('reads every category of a profile in the permission set vocabulary', () => {
+        const { kind, root } = parsePermissionMetadata(PROFILE_XML);
+
+        expect(kind).toBe('profile');
+        expect(extractPermissionsFromMetadata(root, kind)).toEqual([
+            { category: 'object', name: 'Account', values: { allowRead: true } },
+            { category: 'apexClass', name: 'OrderService', values: { enabled: true } },
+            { category: 'tab', name: 'standard-Account', values: { visibility: 'Visible' } },
+            { category: 'recordType', name: 'Account.Partner', values: { visible: true } },
+            { category: 'userPermission', name: 'RunReports', values: { enabled: false } }
+        ]);
+    });
+});
+
+describe('extractPermissionsFromOrgRecords', () => {
+    test('maps the queried records', () => {
+        expect(extractPermissionsFromOrgRecords({
+            objects: [{
+                ParentId: '0PS1',
+                SobjectType: 'Account',
+                PermissionsCreate: false,
+                PermissionsRead: true,
+                PermissionsEdit: false,
+                PermissionsDelete: false,
+                PermissionsViewAllRecords: false,
+                PermissionsModifyAllRecords: false
+            }],
+            fields: [{ ParentId: '0PS1', Field: 'Account.Rating', SobjectType: 'Account', PermissionsRead: true, PermissionsEdit: false }],
+            setupEntities: [
+                { SetupEntityId: '01p1', SetupEntityType: 'ApexClass' },
+                { SetupEntityId: '0661', SetupEntityType: 'ApexPage' },
+                { SetupEntityId: '01pX', SetupEntityType: 'ApexClass' }
+            ],
+            setupEntityNames: new Map([['01p1', 'ns__Service'], ['0661', 'Home']]),
+            tabs: [{ Name: 'standard-Account', Visibility: 'DefaultOff' }],
+            permissionSet: { Id: '0PS1', PermissionsApiEnabled: true, PermissionsRunReports: false, Name: 'X' }
+        })).toEqual([
+            {
+                category: 'object',
+                name: 'Account',
+                values: { allowCreate: false, allowDelete: false, allowEdit: false, allowRead: true, viewAllRecords: false, modifyAllRecords: false }
+            },
+            { category: 'field', name: 'Account.Rating', values: { readable: true, editable: false } },
+            { category: 'apexClass', name: 'ns__Service', values: { enabled: true } },
+            { category: 'apexPage', name: 'Home', values: { enabled: true } },
+            { category: 'tab', name: 'standard-Account', values: { visibility: 'Available' } },
+            { category: 'userPermission', name: 'ApiEnabled', values: { enabled: true } }
+        ]);
+    });
+
+    test('names managed classes with their namespace', () => {
+        expect(toSetupEntityName({ Name: 'Service', NamespacePrefix: 'ns' })).toBe('ns__Service');
+        expect(toSetupEntityName({ Name: 'Service', NamespacePrefix: null })).toBe('Service');
+    });
+
+    test('queries the permissions of the parent', () => {
+        const queries = buildOrgPermissionQueries('0PS1');
+
+        expect(queries.setupEntities).toBe(
+            'SELECT Id, SetupEntityId, SetupEntityType FROM SetupEntityAccess WHERE ParentId = \'0PS1\' AND SetupEntityType IN (\'ApexClass\', \'ApexPage\')'
+        );
+        expect(queries.userPermissions).toBe('SELECT FIELDS(ALL) FROM PermissionSet WHERE Id = \'0PS1\' LIMIT 1');
+    });
+});
+
+describe('comparePermissions', () => {
+    const profile = parsePermissionMetadata(PROFILE_XML);
+    const permissionSet = parsePermissionMetadata(PERMISSION_SET_XML);
+    const left = extractPermissionsFromMetadata(profile.root, profile.kind);
+    const right = extractPermissionsFromMetadata(permissionSet.root, permissionSet.kind);
+
+    test('lists the differing values, counting missing entries as no access', () => {
+        expect(comparePermissions(left, right)).toEqual([
+            { category: 'object', name: 'Account', left: { allowRead: true }, right: { allowEdit: true, allowRead: true }, differences: ['allowEdit'] },
+            { category: 'apexClass', name: 'OrderService', left: { enabled: true }, differences: ['enabled'] },
+            { category: 'tab', name: 'standard-Account', left: { visibility: 'Visible' }, right: { visibility: 'Visible' }, differences: [] },
+            { category: 'recordType', name: 'Account.Partner', left: { visible: true }, differences: ['visible'] },
+            { category: 'userPermission', name: 'RunReports', left: { enabled: false }, differences: [] }
+        ]);
+    });
+
+    test('leaves out the categories a side cannot provide', () => {
+        expect(comparePermissions(left, right, ['recordType']).map(row => row.category)).not.toContain('recordType');
+    });
+});
+
+describe('org permission values', () => {
+    test('maps values to record fields', () => {
+        expect(toOrgPermissionFields('field', { readable: true })).toEqual({ PermissionsRead: true, PermissionsEdit: false });
+        expect(toOrgPermissionFields('object', { allowRead: true, modifyAllRecords: true })).toMatchObject({ PermissionsRead: true, PermissionsModifyAllRecords: true, PermissionsCreate: false });
+    });
+
+    test('tells values granting nothing', () => {
+        expect(grantsNothing(undefined)).toBe(true);
+        expect(grantsNothing({ readable: false, editable: false })).toBe(true);
+        expect(grantsNothing({ visibility: 'None' })).toBe(true);
+        expect(grantsNothing({ visibility: 'Available' })).toBe(false);
+    });
+
+    test('converts tab visibilities back for profiles', () => {
+        expect(toProfileTabVisibility('Available')).toBe('DefaultOff');
+        expect(toProfileTabVisibility('Unknown')).toBe('Unknown');
+    });
+});
+
+describe('applyPermissionEntryToFile', () => {
+    test('adds a tab visibility and record type to a profile in its vocabulary', () => {
+        withTempFile(PROFILE_XML, filePath => {
+            applyPermissionEntryToFile(filePath, 'tab', 'standard-Contact', { visibility: 'Available' });
+            applyPermissionEntryToFile(filePath, 'recordType', 'Account.Customer', { visible: true });
+
+            const { root } = parsePermissionMetadata(fs.readFileSync(filePath, 'utf8'));
+            expect(root.tabVisibilities).toEqual([
+                { tab: 'standard-Account', visibility: 'DefaultOn' },
+                { tab: 'standard-Contact', visibility: 'DefaultOff' }
+            ]);
+            expect(root.recordTypeVisibilities).toContainEqual({ recordType: 'Account.Customer', visible: true, default: false });
+        });
+    });
+
+    test('updates an existing entry and removes one missing on the other side', () => {
+        withTempFile(PROFILE_XML, filePath => {
+            applyPermissionEntryToFile(filePath, 'object', 'Account', { allowEdit: true });
+            applyPermissionEntryToFile(filePath, 'apexClass', 'OrderService', undefined);
+
+            const { root, kind } = parsePermissionMetadata(fs.readFileSync(filePath, 'utf8'));
+            expect(root.classAccesses).toBeUndefined();
+            expect(extractPermissionsFromMetadata(root, kind).find(entry => entry.category === 'object')?.values).toMatchObject({
+                allowRead: true,
+                allowEdit: true,
+                allowCreate: false
+            });
+        });
+    });
+});
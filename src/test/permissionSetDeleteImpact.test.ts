@@ -0,0 +1,106 @@
+import { describe, expect, test } from '@jest/globals';
+import { AssignmentItem } from '../commands/permsets/assignments';
+import {
+    buildAssignmentExport,
+    buildImpactQueries,
+    findNameReferences,
+    formatImpactReport,
+    parseAssignmentExport,
+    planRestore,
+    toImpactAssignment,
+    toImpactGroup
+} from '../commands/permsets/deleteImpact';
+
+const salesUser = toImpactAssignment({ Id: '0PaA', AssigneeId: '005A', Assignee: { Name: 'Ada | Admin', Username: 'ada@example.com', IsActive: true } });
+const formerUser = toImpactAssignment({ Id: '0PaB', AssigneeId: '005B', Assignee: { Name: 'Bob', Username: 'bob@example.com', IsActive: false } });
+const item: AssignmentItem = { kind: 'permissionSet', id: '0PSN', name: 'Sales_User' };
+
+describe('impact queries', () => {
+    test('query the assignments and group components of the permission set', () => {
+        const queries = buildImpactQueries('0PSA');
+
+        expect(queries.assignments).toBe('SELECT Id, AssigneeId, Assignee.Name, Assignee.Username, Assignee.IsActive FROM PermissionSetAssignment WHERE PermissionSetId = \'0PSA\'');
+        expect(queries.groups).toContain('FROM PermissionSetGroupComponent WHERE PermissionSetId = \'0PSA\'');
+    });
+
+    test('map the rows', () => {
+        expect(salesUser).toEqual({ recordId: '0PaA', userId: '005A', username: 'ada@example.com', name: 'Ada | Admin', isActive: true });
+        expect(toImpactGroup({ PermissionSetGroupId: '0PGA', PermissionSetGroup: { DeveloperName: 'Sales', MasterLabel: 'Sales Team' } }))
+            .toEqual({ id: '0PGA', developerName: 'Sales', label: 'Sales Team' });
+    });
+});
+
+describe('findNameReferences', () => {
+    test('matches the name as a whole word', () => {
+        const content = '<types>\n    <members>Sales_User</members>\n    <members>Sales_User_Read</members>\n</types>\n"permissionSets": ["Sales_User"]';
+
+        expect(findNameReferences(content, 'Sales_User')).toEqual([
+            { line: 2, text: '<members>Sales_User</members>' },
+            { line: 5, text: '"permissionSets": ["Sales_User"]' }
+        ]);
+    });
+});
+
+describe('formatImpactReport', () => {
+    test('lists the users, groups and files', () => {
+        const report = formatImpactReport({ name: 'Sales_User', label: 'Sales User' }, 'dev@example.com', {
+            assignments: [salesUser, formerUser],
+            groups: [{ id: '0PGA', developerName: 'Sales', label: 'Sales Team' }],
+            references: [{ filePath: 'manifest/package.xml', line: 4, text: '<members>Sales_User</members>' }]
+        });
+
+        expect(report).toContain('## Assigned users (2, 1 active)');
+        expect(report).toContain('| Ada \\| Admin | ada@example.com | Yes |');
+        expect(report).toContain('- Sales Team (Sales)');
+        expect(report).toContain('| manifest/package.xml | 4 | `<members>Sales_User</members>` |');
+    });
+
+    test('says when nothing is affected', () => {
+        const report = formatImpactReport({ name: 'Sales_User', label: 'Sales User' }, 'dev@example.com', { assignments: [], groups: [], references: [] });
+
+        expect(report.match(/None\./g)).toHaveLength(3);
+    });
+});
+
+describe('assignment export', () => {
+    const exported = buildAssignmentExport('Sales_User', 'dev@example.com', [salesUser, formerUser], new Date('2026-01-02T03:04:05Z'));
+
+    test('round-trips through JSON', () => {
+        expect(parseAssignmentExport(JSON.stringify(exported))).toEqual({
+            version: 1,
+            permissionSet: 'Sales_User',
+            targetOrg: 'dev@example.com',
+            exportedAt: '2026-01-02T03:04:05.000Z',
+            assignments: [
+                { username: 'ada@example.com', name: 'Ada | Admin', isActive: true },
+                { username: 'bob@example.com', name: 'Bob', isActive: false }
+            ]
+        });
+    });
+
+    test('rejects other files', () => {
+        expect(() => parseAssignmentExport('{')).toThrow('not valid JSON');
+        expect(() => parseAssignmentExport('{"$default": {}}')).toThrow('not a permission set assignment export');
+        expect(() => parseAssignmentExport('{"version": 1, "permissionSet": "X", "assignments": [{}]}')).toThrow('Invalid assignment');
+    });
+
+    test('plans the assignments to restore', () => {
+        const withMissing = { ...exported, assignments: [...exported.assignments, { username: 'gone@example.com', isActive: true }] };
+        const plan = planRestore(withMissing, item, [
+            { Id: '005A', Username: 'Ada@Example.com', Name: 'Ada', IsActive: true },
+            { Id: '005B', Username: 'bob@example.com', Name: 'Bob', IsActive: false }
+        ], new Set());
+
+        expect(plan.map(step => [step.user.username, step.outcome, step.message])).toEqual([
+            ['Ada@Example.com', 'toAssign', undefined],
+            ['bob@example.com', 'skipped', 'User is inactive'],
+            ['gone@example.com', 'skipped', 'User not found in the org']
+        ]);
+    });
+
+    test('leaves users already assigned alone', () => {
+        const plan = planRestore(exported, item, [{ Id: '005A', Username: 'ada@example.com', IsActive: true }], new Set(['005A']));
+
+        expect(plan[0].outcome).toBe('alreadyAssigned');
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    buildGroupComponentsQuery,
+    describeGroupStatus,
+    diffGroupComponents,
+    getRestErrorMessage,
+    isMutingPermissionSetId,
+    isRecalculating,
+    splitGroupComponents
+} from '../commands/permsets/permissionSetGroups';
+
+const salesComponent = { Id: '0PGCA', PermissionSetId: '0PSA' };
+const serviceComponent = { Id: '0PGCB', PermissionSetId: '0PSB' };
+const mutingComponent = { Id: '0PGCC', PermissionSetId: '0QLA' };
+
+describe('group components', () => {
+    test('queries the components of the group', () => {
+        expect(buildGroupComponentsQuery('0PGA')).toBe('SELECT Id, PermissionSetId FROM PermissionSetGroupComponent WHERE PermissionSetGroupId = \'0PGA\'');
+    });
+
+    test('tells muting permission sets by their key prefix', () => {
+        expect(isMutingPermissionSetId('0QL000000000001')).toBe(true);
+        expect(isMutingPermissionSetId('0PS000000000001')).toBe(false);
+        expect(splitGroupComponents([salesComponent, mutingComponent, serviceComponent])).toEqual({
+            permissionSets: [salesComponent, serviceComponent],
+            muting: [mutingComponent]
+        });
+    });
+
+    test('adds the selected permission sets and removes the others', () => {
+        expect(diffGroupComponents([salesComponent, serviceComponent], ['0PSB', '0PSC'])).toEqual({
+            toAdd: ['0PSC'],
+            toRemove: [salesComponent]
+        });
+    });
+
+    test('changes nothing when the selection matches', () => {
+        expect(diffGroupComponents([salesComponent], ['0PSA'])).toEqual({ toAdd: [], toRemove: [] });
+    });
+});
+
+describe('recalculation status', () => {
+    test('is recalculating while outdated or updating', () => {
+        expect(isRecalculating('Outdated')).toBe(true);
+        expect(isRecalculating('Updating')).toBe(true);
+        expect(isRecalculating('Updated')).toBe(false);
+        expect(isRecalculating('Failed')).toBe(false);
+        expect(isRecalculating(undefined)).toBe(false);
+    });
+
+    test('describes the status', () => {
+        expect(describeGroupStatus('Updated')).toMatch(/^Updated:/);
+        expect(describeGroupStatus(null)).toBe('Unknown status.');
+    });
+});
+
+describe('getRestErrorMessage', () => {
+    test('joins the messages of an error list', () => {
+        expect(getRestErrorMessage([
+            { message: 'Duplicate name', errorCode: 'DUPLICATE_DEVELOPER_NAME' },
+            { errorCode: 'INVALID_FIELD' }
+        ], 'Bad Request')).toBe('Duplicate name; INVALID_FIELD');
+    });
+
+    test('reads a single error object', () => {
+        expect(getRestErrorMessage({ error: 'invalid_grant' }, 'Unauthorized')).toBe('invalid_grant');
+    });
+
+    test('falls back without a usable body', () => {
+        expect(getRestErrorMessage(undefined, 'Server Error')).toBe('Server Error');
+        expect(getRestErrorMessage([], 'Server Error')).toBe('Server Error');
+    });
+});
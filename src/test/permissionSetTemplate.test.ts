@@ -0,0 +1,131 @@
+import { describe, expect, test } from '@jest/globals';
+import * as path from 'path';
+import {
+    apexClassEntries,
+    buildPermissionSetXml,
+    completePermissionEntries,
+    copyProfileEntries,
+    fieldEntries,
+    getPermissionSetDirectory,
+    OBJECT_ACCESS_LEVELS,
+    objectEntries,
+    readOnlyObjectEntries,
+    tabEntries
+} from '../commands/permsets/permissionSetTemplate';
+
+describe('template entries', () => {
+    test('grant read access on the objects', () => {
+        expect(readOnlyObjectEntries(['Account', 'Case'])).toEqual([
+            { category: 'object', name: 'Account', values: { allowRead: true } },
+            { category: 'object', name: 'Case', values: { allowRead: true } }
+        ]);
+    });
+
+    test('enable the Apex classes of the folder once each', () => {
+        expect(apexClassEntries(['/p/classes/Zeta.cls', '/p/classes/Alpha.cls', '/p/classes/Alpha.cls-meta.xml', '/p/other/Alpha.cls']).map(entry => entry.name))
+            .toEqual(['Alpha', 'Zeta']);
+    });
+
+    test('name fields after their object', () => {
+        expect(fieldEntries('Account', ['Rating'], false)).toEqual([
+            { category: 'field', name: 'Account.Rating', values: { readable: true, editable: false } }
+        ]);
+    });
+
+    test('copy only what the profile grants', () => {
+        const entries = copyProfileEntries([
+            { category: 'object', name: 'Account', values: { allowRead: true, allowEdit: false } },
+            { category: 'object', name: 'Case', values: { allowRead: false } },
+            { category: 'tab', name: 'standard-Case', values: { visibility: 'None' } },
+            { category: 'userPermission', name: 'ApiEnabled', values: { enabled: true } }
+        ], ['object', 'tab']);
+
+        expect(entries.map(entry => entry.name)).toEqual(['Account']);
+    });
+});
+
+describe('completePermissionEntries', () => {
+    test('merges entries of the same name, later values winning', () => {
+        const [account] = completePermissionEntries([
+            ...readOnlyObjectEntries(['Account']),
+            ...objectEntries(['account'], { allowCreate: true })
+        ]);
+
+        expect(account.values).toEqual({
+            allowRead: true, allowCreate: true, allowEdit: false, allowDelete: false, viewAllRecords: false, modifyAllRecords: false
+        });
+    });
+
+    test('adds the access implied by modify all', () => {
+        const [custom] = completePermissionEntries(objectEntries(['Custom__c'], { modifyAllRecords: true }));
+
+        expect(custom.values).toEqual({
+            allowRead: true, allowCreate: false, allowEdit: true, allowDelete: true, viewAllRecords: true, modifyAllRecords: true
+        });
+    });
+
+    test('makes editable fields readable and their objects readable', () => {
+        const entries = completePermissionEntries([{ category: 'field', name: 'Case.Reason', values: { editable: true } }]);
+
+        expect(entries).toEqual([
+            { category: 'field', name: 'Case.Reason', values: { readable: true, editable: true } },
+            { category: 'object', name: 'Case', values: expect.objectContaining({ allowRead: true, allowEdit: false }) }
+        ]);
+    });
+
+    test('offers levels from read to modify all', () => {
+        expect(OBJECT_ACCESS_LEVELS.map(level => level.label)).toEqual([
+            'Read', 'Read, Create', 'Read, Create, Edit', 'Read, Create, Edit, Delete', 'View All', 'Modify All'
+        ]);
+    });
+});
+
+describe('buildPermissionSetXml', () => {
+    test('writes the elements in alphabetical order', () => {
+        const xml = buildPermissionSetXml({
+            label: ' Support Agent ',
+            description: 'Cases and knowledge',
+            hasActivationRequired: false,
+            license: 'Salesforce Platform',
+            entries: [
+                ...tabEntries(['standard-Case'], 'Visible'),
+                ...apexClassEntries(['classes/CaseService.cls']),
+                ...readOnlyObjectEntries(['Case'])
+            ]
+        });
+
+        expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+        expect(xml).toContain('<PermissionSet xmlns="http://soap.sforce.com/2006/04/metadata">');
+        const tags = ['classAccesses', 'description', 'hasActivationRequired', 'label', 'license', 'objectPermissions', 'tabSettings'];
+        const positions = tags.map(tag => xml.indexOf(`<${tag}>`));
+        expect(positions.every(position => position >= 0)).toBe(true);
+        expect(positions).toEqual([...positions].sort((a, b) => a - b));
+        expect(xml).toContain('<label>Support Agent</label>');
+        expect(xml).toContain('<hasActivationRequired>false</hasActivationRequired>');
+        expect(xml).toContain('<apexClass>CaseService</apexClass>');
+        expect(xml).toContain('<tab>standard-Case</tab>');
+        expect(xml).toContain('<visibility>Visible</visibility>');
+    });
+
+    test('lists every value of an entry, the name in order', () => {
+        const xml = buildPermissionSetXml({ label: 'Reader', description: '', hasActivationRequired: true, entries: readOnlyObjectEntries(['Account']) });
+        const entry = xml.slice(xml.indexOf('<objectPermissions>'), xml.indexOf('</objectPermissions>'));
+        const fields = [...entry.matchAll(/<(\w+)>/g)].map(match => match[1]).slice(1);
+
+        expect(fields).toEqual(['allowCreate', 'allowDelete', 'allowEdit', 'allowRead', 'modifyAllRecords', 'object', 'viewAllRecords']);
+        expect(xml).not.toContain('<description>');
+        expect(xml).not.toContain('<license>');
+    });
+});
+
+describe('getPermissionSetDirectory', () => {
+    test('uses the default package directory', () => {
+        expect(getPermissionSetDirectory({ packageDirectories: [{ path: 'common' }, { path: 'force-app', default: true }] }))
+            .toBe(path.join('force-app', 'main', 'default', 'permissionsets'));
+    });
+
+    test('falls back to the first package directory', () => {
+        expect(getPermissionSetDirectory({ packageDirectories: [{ path: 'common' }] })).toBe(path.join('common', 'main', 'default', 'permissionsets'));
+        expect(getPermissionSetDirectory({})).toBeUndefined();
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, test } from '@jest/globals';
+import {
+    buildCollectionBody,
+    buildCollectionDeletePath,
+    SOBJECT_COLLECTION_LIMIT,
+    toBatches,
+    toFailedResults,
+    toRecordResults,
+    toSkippedResults
+} from '../commands/permsets/sobjectCollections';
+
+describe('toBatches', () => {
+    test('splits into batches of at most 200 records', () => {
+        const ids = Array.from({ length: 450 }, (_, index) => `0Pa${index}`);
+        const batches = toBatches(ids);
+
+        expect(batches.map(batch => batch.length)).toEqual([SOBJECT_COLLECTION_LIMIT, SOBJECT_COLLECTION_LIMIT, 50]);
+        expect(batches.flat()).toEqual(ids);
+    });
+
+    test('returns no batch for no records', () => {
+        expect(toBatches([])).toEqual([]);
+    });
+});
+
+describe('collection requests', () => {
+    test('deletes without all-or-none', () => {
+        expect(buildCollectionDeletePath(['0PaA', '0PaB'])).toBe('/composite/sobjects?ids=0PaA,0PaB&allOrNone=false');
+    });
+
+    test('types each record of the body', () => {
+        expect(buildCollectionBody('ObjectPermissions', [{ Id: '110A', PermissionsRead: true }])).toEqual({
+            allOrNone: false,
+            records: [{ attributes: { type: 'ObjectPermissions' }, Id: '110A', PermissionsRead: true }]
+        });
+    });
+});
+
+describe('record results', () => {
+    test('map the results in request order', () => {
+        expect(toRecordResults(['0PaA', '0PaB', '0PaC'], [
+            { id: '0PaA', success: true, errors: [] },
+            { id: null, success: false, errors: [{ statusCode: 'ENTITY_IS_DELETED', message: 'entity is deleted' }, { statusCode: 'OTHER' }] }
+        ])).toEqual([
+            { id: '0PaA', success: true },
+            { id: '0PaB', success: false, message: 'entity is deleted; OTHER' },
+            { id: '0PaC', success: false, message: 'No result returned' }
+        ]);
+    });
+
+    test('use the new ids of created records', () => {
+        expect(toRecordResults(['', ''], [{ id: '0PaN', success: true }, { success: false }])).toEqual([
+            { id: '0PaN', success: true },
+            { id: '', success: false, message: 'Unknown error' }
+        ]);
+    });
+
+    test('skip or fail a whole batch', () => {
+        expect(toSkippedResults(['0PaA'])).toEqual([{ id: '0PaA', success: false, skipped: true, message: 'Cancelled' }]);
+        expect(toFailedResults(['0PaA'], 'Session expired')).toEqual([{ id: '0PaA', success: false, message: 'Session expired' }]);
+    });
+});